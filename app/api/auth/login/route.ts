@@ -0,0 +1,97 @@
+/**
+ * API Route for Sign-In with Ethereum (EIP-4361)
+ * GET returns the login message fields for a wallet; POST verifies the signed message
+ * and sets the HTTP-only session cookie.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { type LoginPayload } from "thirdweb/auth";
+import { SESSION_COOKIE, SESSION_TTL_SECONDS, getLoginPayload, login } from "@/lib/server/auth";
+import {
+  checkRateLimit,
+  payloadTooLargeResponse,
+  rateLimitResponse,
+  readCappedBody,
+} from "@/lib/server/rateLimit";
+
+const isAddress = (value: unknown): value is string =>
+  typeof value === "string" && /^0x[0-9a-fA-F]{40}$/.test(value);
+
+export async function GET(request: NextRequest) {
+  try {
+    const limited = await checkRateLimit(request, "auth-login");
+    if (limited) {
+      return rateLimitResponse(limited);
+    }
+
+    const address = request.nextUrl.searchParams.get("address");
+
+    if (!isAddress(address)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid address" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, payload: await getLoginPayload(address) });
+  } catch (error) {
+    console.error("Error creating login payload:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const limited = await checkRateLimit(request, "auth-login");
+    if (limited) {
+      return rateLimitResponse(limited);
+    }
+
+    const body = await readCappedBody(request, "auth-login");
+    if (!body) {
+      return payloadTooLargeResponse("auth-login");
+    }
+
+    let parsed: { payload?: LoginPayload; signature?: unknown } = {};
+    try {
+      parsed = JSON.parse(new TextDecoder().decode(body));
+    } catch {
+      // Reported as missing fields below
+    }
+    const { payload, signature } = parsed;
+
+    if (!payload || typeof payload !== "object" || !isAddress(payload.address) || typeof signature !== "string") {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields: payload, signature" },
+        { status: 400 }
+      );
+    }
+
+    const result = await login(payload, signature);
+    if ("error" in result) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ success: true, address: payload.address.toLowerCase() });
+    response.cookies.set(SESSION_COOKIE, result.jwt, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "strict",
+      path: "/",
+      maxAge: SESSION_TTL_SECONDS,
+    });
+    return response;
+  } catch (error) {
+    console.error("Error signing in:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
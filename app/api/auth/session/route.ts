@@ -0,0 +1,37 @@
+/**
+ * API Route for the current Sign-In with Ethereum session
+ * GET reports the signed-in wallet (null when signed out); DELETE signs out.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, endSession, getSession } from "@/lib/server/auth";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+
+    return NextResponse.json({ success: true, address: session?.address ?? null, expiresAt: session?.expiresAt ?? null });
+  } catch (error) {
+    console.error("Error reading session:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    await endSession(request);
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  } catch (error) {
+    console.error("Error signing out:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
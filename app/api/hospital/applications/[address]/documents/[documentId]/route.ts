@@ -0,0 +1,63 @@
+/**
+ * API Route for reading an uploaded license document (admins only)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getItem } from "@/lib/server/jsonStore";
+import {
+  APPLICATIONS_COLLECTION,
+  isAddress,
+  isDocumentId,
+  readApplicationDocument,
+} from "@/lib/server/applications";
+import { requireSession } from "@/lib/server/auth";
+import { type HospitalApplication } from "@/lib/services/registration";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string; documentId: string }> }
+) {
+  try {
+    const { address, documentId } = await params;
+
+    if (!isAddress(address) || !isDocumentId(documentId)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid applicant or document" },
+        { status: 400 }
+      );
+    }
+
+    const auth = await requireSession(request, "admin");
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const application = await getItem<HospitalApplication>(APPLICATIONS_COLLECTION, address.toLowerCase());
+    const document = application?.documents.find((doc) => doc.id === documentId);
+    const content = document ? await readApplicationDocument(address, documentId) : null;
+
+    if (!document || !content) {
+      return NextResponse.json(
+        { success: false, error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(content, {
+      headers: {
+        "Content-Type": document.mimeType,
+        "Content-Disposition": `inline; filename="${document.name.replace(/["\\\r\n]/g, "_")}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error reading application document:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * API Route for an admin decision on a hospital application
+ * Approval issues the AutomatedHospitalRegistry signature and whitelists the hospital in
+ * PatientIdentity with the relayer key. Approving again retries a failed whitelist transaction.
+ * The decision is signed by the signed-in admin and names the submission that was reviewed;
+ * it is refused if the applicant has resubmitted since. Approval first claims the application
+ * in the store, so two admins approving at once can't both sign and whitelist it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getItem, updateCollection } from "@/lib/server/jsonStore";
+import {
+  APPLICATIONS_COLLECTION,
+  isAddress,
+  isApprovalInProgress,
+  signRegistration,
+  verifyAdminSignature,
+  whitelistApplicant,
+} from "@/lib/server/applications";
+import { isSessionFor, requireSession } from "@/lib/server/auth";
+import {
+  buildReviewDecisionMessage,
+  canonicalApplicationSubmission,
+  sha256Hex,
+  type HospitalApplication,
+} from "@/lib/services/registration";
+
+const MAX_REASON_LENGTH = 500;
+
+const SUBMISSION_CHANGED = "The application was resubmitted after you opened it; reload and review it again";
+
+type StoreOutcome = { application: HospitalApplication } | { error: string; status: 404 | 409 };
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  try {
+    const auth = await requireSession(request);
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { address } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { admin, decision, issuedAt, signature } = body;
+    const submittedAt = Number(body.submittedAt);
+    const submission = typeof body.submission === "string" ? body.submission : "";
+    const reason = typeof body.reason === "string" ? body.reason.trim().slice(0, MAX_REASON_LENGTH) : "";
+
+    if (!isAddress(address) || (decision !== "approve" && decision !== "reject")) {
+      return NextResponse.json(
+        { success: false, error: "Invalid applicant or decision" },
+        { status: 400 }
+      );
+    }
+
+    if (decision === "reject" && !reason) {
+      return NextResponse.json(
+        { success: false, error: "A rejection needs a reason for the applicant" },
+        { status: 400 }
+      );
+    }
+
+    if (!isAddress(admin) || !isSessionFor(auth.session, admin)) {
+      return NextResponse.json(
+        { success: false, error: "Decisions must be signed by the signed-in admin" },
+        { status: 403 }
+      );
+    }
+
+    const authError = await verifyAdminSignature(
+      admin,
+      buildReviewDecisionMessage(String(admin), address, decision, reason, submittedAt, submission, Number(issuedAt)),
+      signature,
+      Number(issuedAt)
+    );
+    if (authError) {
+      return NextResponse.json(
+        { success: false, error: authError },
+        { status: 401 }
+      );
+    }
+
+    const key = address.toLowerCase();
+    const application = await getItem<HospitalApplication>(APPLICATIONS_COLLECTION, key);
+    if (!application) {
+      return NextResponse.json(
+        { success: false, error: "Application not found" },
+        { status: 404 }
+      );
+    }
+
+    // The signed decision must be about the submission that is stored now
+    const canonical = canonicalApplicationSubmission(application);
+    if (application.submittedAt !== submittedAt || (await sha256Hex(canonical)) !== submission) {
+      return NextResponse.json(
+        { success: false, error: SUBMISSION_CHANGED },
+        { status: 409 }
+      );
+    }
+
+    const reviewed = {
+      reviewedAt: Math.floor(Date.now() / 1000),
+      reviewedBy: String(admin).toLowerCase(),
+    };
+
+    // Status checks and the state change happen in one store update, so a resubmission or
+    // another decision arriving in between is seen here instead of being overwritten
+    const outcome = await updateCollection<HospitalApplication, StoreOutcome>(APPLICATIONS_COLLECTION, (data) => {
+      const current = data[key];
+      if (!current) {
+        return { error: "Application not found", status: 404 };
+      }
+      if (canonicalApplicationSubmission(current) !== canonical) {
+        return { error: SUBMISSION_CHANGED, status: 409 };
+      }
+      if (isApprovalInProgress(current)) {
+        return { error: "Another admin is approving this application", status: 409 };
+      }
+
+      if (decision === "reject") {
+        if (current.status === "approved") {
+          return { error: "Approved applications can't be rejected; remove the hospital from the whitelist instead", status: 409 };
+        }
+        data[key] = { ...current, ...reviewed, status: "rejected", rejectionReason: reason };
+        return { application: data[key] };
+      }
+
+      if (current.status === "approved" && current.whitelistTxHash) {
+        return { error: "Application is already approved", status: 409 };
+      }
+      // Claim the approval; resubmissions and other decisions are refused until it is released
+      data[key] = { ...current, approvingSince: Math.floor(Date.now() / 1000) };
+      return { application: data[key] };
+    });
+
+    if ("error" in outcome) {
+      return NextResponse.json(
+        { success: false, error: outcome.error },
+        { status: outcome.status }
+      );
+    }
+    if (decision === "reject") {
+      return NextResponse.json({ success: true, application: outcome.application });
+    }
+
+    const claimed = outcome.application;
+    const approved: HospitalApplication = {
+      ...claimed,
+      ...(claimed.status === "approved" ? {} : reviewed),
+      status: "approved",
+      rejectionReason: undefined,
+      approvingSince: undefined,
+    };
+
+    try {
+      approved.signature = claimed.signature ?? (await signRegistration(claimed.address, claimed.licenseNumber));
+    } catch (error) {
+      await updateCollection<HospitalApplication, void>(APPLICATIONS_COLLECTION, (data) => {
+        data[key] = { ...claimed, approvingSince: undefined };
+      });
+      throw error;
+    }
+
+    // The registry signature stays valid if whitelisting fails; the admin can approve again to retry
+    try {
+      approved.whitelistTxHash = await whitelistApplicant(approved);
+      approved.whitelistError = undefined;
+    } catch (error) {
+      console.error("Error whitelisting approved hospital:", error);
+      approved.whitelistError = error instanceof Error ? error.message : String(error);
+    }
+
+    // Still claimed by this request, so nothing else has written the application meanwhile
+    await updateCollection<HospitalApplication, void>(APPLICATIONS_COLLECTION, (data) => {
+      data[key] = approved;
+    });
+
+    return NextResponse.json({ success: true, application: approved });
+  } catch (error) {
+    console.error("Error reviewing hospital application:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
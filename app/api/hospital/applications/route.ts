@@ -0,0 +1,44 @@
+/**
+ * API Route for the hospital application review queue
+ * Admins (ADMIN_ROLE on PatientIdentity) list applications, each checked against the
+ * facility-license dataset.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { listItems } from "@/lib/server/jsonStore";
+import { APPLICATIONS_COLLECTION } from "@/lib/server/applications";
+import { requireSession } from "@/lib/server/auth";
+import { checkLicense, loadLicenseDataset } from "@/lib/server/licenses";
+import { type ApplicationReview, type HospitalApplication } from "@/lib/services/registration";
+
+const STATUS_ORDER = { pending: 0, rejected: 1, approved: 2 };
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireSession(request, "admin");
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const [applications, dataset] = await Promise.all([
+      listItems<HospitalApplication>(APPLICATIONS_COLLECTION),
+      loadLicenseDataset(),
+    ]);
+
+    // Pending first, oldest submission first within a status
+    const reviews: ApplicationReview[] = applications
+      .map((application) => ({ ...application, licenseCheck: checkLicense(application, dataset) }))
+      .sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || a.submittedAt - b.submittedAt);
+
+    return NextResponse.json({ success: true, applications: reviews, datasetSize: dataset?.size ?? 0 });
+  } catch (error) {
+    console.error("Error listing hospital applications:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,69 +1,284 @@
+/**
+ * API Route for hospital registration applications
+ * Hospitals submit their facility details and license documents here. Applications wait for
+ * admin review (/api/hospital/applications); the registry signature is only issued on approval.
+ * Both reads and submissions are limited to the signed-in wallet's own application.
+ */
+
 import { NextRequest, NextResponse } from "next/server";
-import { keccak256, encodePacked, toBytes } from "viem";
-import { privateKeyToAccount } from "viem/accounts";
+import { createThirdwebClient } from "thirdweb";
+import { verifySignature } from "thirdweb/auth";
+import { defineChain } from "thirdweb/chains";
+import { getItem, updateCollection } from "@/lib/server/jsonStore";
+import {
+  APPLICATIONS_COLLECTION,
+  isAddress,
+  isApprovalInProgress,
+  isFresh,
+  pruneApplicationDocuments,
+  saveApplicationDocument,
+} from "@/lib/server/applications";
+import { isSessionFor, requireSession } from "@/lib/server/auth";
+import {
+  checkRateLimit,
+  payloadTooLargeResponse,
+  rateLimitResponse,
+  readCappedBody,
+} from "@/lib/server/rateLimit";
+import { sniffMimeType } from "@/lib/services/attachments";
+import {
+  MAX_LICENSE_DOCUMENTS,
+  MAX_LICENSE_DOCUMENT_SIZE,
+  buildApplicationMessage,
+  canonicalApplicationDetails,
+  isLicenseDocumentMimeType,
+  sha256Hex,
+  type ApplicationDetails,
+  type ApplicationDocument,
+  type ApplicationStatusView,
+  type HospitalApplication,
+} from "@/lib/services/registration";
+
+const THIRDWEB_CLIENT_ID = process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID || "";
+const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || "https://rpc.sepolia-api.lisk.com";
+
+const HOSPITAL_TYPES = ["general", "clinic", "laboratory", "specialist"];
+
+const liskSepolia = defineChain({
+  id: 4202,
+  name: "Lisk Sepolia Testnet",
+  rpc: RPC_URL,
+  nativeCurrency: {
+    name: "ETH",
+    symbol: "ETH",
+    decimals: 18,
+  },
+});
+
+const client = createThirdwebClient({ clientId: THIRDWEB_CLIENT_ID });
+
+const toStatusView = (application: HospitalApplication): ApplicationStatusView => ({
+  address: application.address,
+  name: application.name,
+  licenseNumber: application.licenseNumber,
+  status: application.status,
+  submittedAt: application.submittedAt,
+  reviewedAt: application.reviewedAt,
+  rejectionReason: application.rejectionReason,
+  signature: application.signature,
+  whitelistTxHash: application.whitelistTxHash,
+});
+
+// Required fields must be non-empty strings; picPosition is optional
+function parseDetails(raw: unknown): ApplicationDetails | null {
+  try {
+    const value = JSON.parse(String(raw));
+    const required = ["name", "hospitalType", "licenseNumber", "physicalAddress", "city", "phone", "picName", "picPhone", "picEmail"];
+    if (required.some((field) => typeof value[field] !== "string" || !value[field].trim())) return null;
+    if (!HOSPITAL_TYPES.includes(value.hospitalType)) return null;
+
+    return {
+      name: value.name.trim(),
+      hospitalType: value.hospitalType,
+      licenseNumber: value.licenseNumber.trim(),
+      physicalAddress: value.physicalAddress.trim(),
+      city: value.city.trim(),
+      phone: value.phone.trim(),
+      picName: value.picName.trim(),
+      picPosition: typeof value.picPosition === "string" ? value.picPosition.trim() : "",
+      picPhone: value.picPhone.trim(),
+      picEmail: value.picEmail.trim(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireSession(request);
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const address = request.nextUrl.searchParams.get("address");
+
+    if (!isAddress(address)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid address" },
+        { status: 400 }
+      );
+    }
+
+    if (!isSessionFor(auth.session, address)) {
+      return NextResponse.json(
+        { success: false, error: "Applications can only be read by the applying wallet" },
+        { status: 403 }
+      );
+    }
+
+    const application = await getItem<HospitalApplication>(APPLICATIONS_COLLECTION, address.toLowerCase());
 
-const SYSTEM_VERIFIER_PRIVATE_KEY = process.env.RELAYER_PRIVATE_KEY;
+    return NextResponse.json({ success: true, application: application ? toStatusView(application) : null });
+  } catch (error) {
+    console.error("Error reading hospital application:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
-    if (!SYSTEM_VERIFIER_PRIVATE_KEY) {
-      return NextResponse.json({ error: "System verifier not configured" }, { status: 500 });
+    const auth = await requireSession(request);
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const limited = await checkRateLimit(request, "hospital-register", { address: auth.session.address, role: "hospital" });
+    if (limited) {
+      return rateLimitResponse(limited);
     }
 
-    const body = await request.json();
-    const { hospitalAddress, hospitalName, licenseNumber } = body;
+    const body = await readCappedBody(request, "hospital-register");
+    if (!body) {
+      return payloadTooLargeResponse("hospital-register");
+    }
+
+    const form = await new Response(body, {
+      headers: { "Content-Type": request.headers.get("content-type") ?? "" },
+    }).formData().catch(() => null);
+    const address = form?.get("address");
+    const details = parseDetails(form?.get("details"));
+    const issuedAt = Number(form?.get("issuedAt"));
+    const signature = form?.get("signature");
+    const files = (form?.getAll("documents") ?? []).filter((entry): entry is File => entry instanceof File);
+
+    if (!isAddress(address) || !details || typeof signature !== "string") {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields: address, details, signature" },
+        { status: 400 }
+      );
+    }
+
+    if (!isSessionFor(auth.session, address)) {
+      return NextResponse.json(
+        { success: false, error: "Applications can only be submitted for the signed-in wallet" },
+        { status: 403 }
+      );
+    }
 
-    // Validate required fields
-    if (!hospitalAddress || !hospitalName || !licenseNumber) {
+    if (files.length === 0 || files.length > MAX_LICENSE_DOCUMENTS) {
       return NextResponse.json(
-        { error: "Missing required fields: hospitalAddress, hospitalName, licenseNumber" },
+        { success: false, error: `Attach between 1 and ${MAX_LICENSE_DOCUMENTS} license documents` },
         { status: 400 }
       );
     }
 
-    // Validate address format
-    if (!hospitalAddress.startsWith("0x") || hospitalAddress.length !== 42) {
-      return NextResponse.json({ error: "Invalid hospital address format" }, { status: 400 });
+    if (files.some((file) => file.size === 0 || file.size > MAX_LICENSE_DOCUMENT_SIZE)) {
+      return NextResponse.json(
+        { success: false, error: `License documents are limited to ${MAX_LICENSE_DOCUMENT_SIZE / (1024 * 1024)} MB each` },
+        { status: 413 }
+      );
     }
 
-    // Contract code:
-    // bytes32 messageHash = keccak256(abi.encodePacked(sender, _licenseNumber));
-    // NOTE: Contract only uses sender + licenseNumber, NOT name!
-    const messageHash = keccak256(
-      encodePacked(
-        ["address", "string"],
-        [hospitalAddress as `0x${string}`, licenseNumber]
-      )
+    if (!isFresh(issuedAt)) {
+      return NextResponse.json(
+        { success: false, error: "Signature expired, please try again" },
+        { status: 401 }
+      );
+    }
+
+    // Type is taken from the file content, never from the upload's declared type
+    const uploads = await Promise.all(
+      files.map(async (file) => {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        return { file, bytes, id: await sha256Hex(bytes.buffer), mimeType: sniffMimeType(bytes) };
+      })
     );
 
-    const account = privateKeyToAccount(SYSTEM_VERIFIER_PRIVATE_KEY as `0x${string}`);
-    
-    // signMessage with raw bytes - this adds "\x19Ethereum Signed Message:\n32" prefix
-    const signature = await account.signMessage({ 
-      message: { raw: toBytes(messageHash) }
-    });
+    if (uploads.some((upload) => !isLicenseDocumentMimeType(upload.mimeType))) {
+      return NextResponse.json(
+        { success: false, error: "License documents must be PDF, PNG or JPEG files" },
+        { status: 415 }
+      );
+    }
+
+    const message = buildApplicationMessage(
+      address,
+      details.licenseNumber,
+      await sha256Hex(canonicalApplicationDetails(details)),
+      uploads.map((upload) => upload.id),
+      issuedAt
+    );
+    const isValid = await verifySignature({ message, signature, address, client, chain: liskSepolia });
+
+    if (!isValid) {
+      return NextResponse.json(
+        { success: false, error: "Invalid signature" },
+        { status: 401 }
+      );
+    }
 
-    console.log("=== Signature Generation Debug ===");
-    console.log("Hospital address:", hospitalAddress);
-    console.log("License number:", licenseNumber);
-    console.log("Message hash:", messageHash);
-    console.log("Signature:", signature);
-    console.log("Signer/Verifier address:", account.address);
-    console.log("==================================");
-
-    return NextResponse.json({
-      success: true,
-      signature,
-      messageHash,
-      verifier: account.address,
+    const key = address.toLowerCase();
+    const existing = await getItem<HospitalApplication>(APPLICATIONS_COLLECTION, key);
+    if (existing?.status === "approved") {
+      return NextResponse.json(
+        { success: false, error: "This wallet already has an approved application" },
+        { status: 409 }
+      );
+    }
+
+    const documents: ApplicationDocument[] = [];
+    for (const upload of uploads) {
+      await saveApplicationDocument(key, upload.id, upload.bytes);
+      documents.push({
+        id: upload.id,
+        name: upload.file.name.slice(0, 200),
+        mimeType: upload.mimeType as ApplicationDocument["mimeType"],
+        size: upload.bytes.length,
+      });
+    }
+
+    // Resubmitting replaces a pending or rejected application and sends it back to the queue
+    const application: HospitalApplication = {
+      ...details,
+      address: key,
+      documents,
+      status: "pending",
+      submittedAt: Math.floor(Date.now() / 1000),
+    };
+    let storedDocumentIds: string[] = [];
+    const refused = await updateCollection<HospitalApplication, string | null>(APPLICATIONS_COLLECTION, (data) => {
+      storedDocumentIds = data[key]?.documents.map((doc) => doc.id) ?? [];
+      if (data[key]?.status === "approved") return "This wallet already has an approved application";
+      if (isApprovalInProgress(data[key])) return "This application is being approved right now";
+      data[key] = application;
+      return null;
     });
 
-  } catch (error: unknown) {
-    console.error("Error generating signature:", error);
-    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (refused) {
+      // Drop the files saved for this submission, keeping those the stored application lists
+      await pruneApplicationDocuments(key, storedDocumentIds);
+      return NextResponse.json(
+        { success: false, error: refused },
+        { status: 409 }
+      );
+    }
+    await pruneApplicationDocuments(key, documents.map((doc) => doc.id));
 
+    return NextResponse.json({ success: true, application: toStatusView(application) });
+  } catch (error) {
+    console.error("Error submitting hospital application:", error);
     return NextResponse.json(
-      { error: "Failed to generate signature", details: errorMessage },
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
       { status: 500 }
     );
   }
@@ -0,0 +1,57 @@
+/**
+ * API Route serving stored content by CID
+ * Gateway for deployments without a public one (Kubo or local storage): point
+ * NEXT_PUBLIC_IPFS_GATEWAY at /api/ipfs/ and clients read through the configured provider.
+ * Everything stored is ciphertext, so any signed-in wallet may read.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/server/auth";
+import { getStorageProvider } from "@/lib/server/storage";
+import { isCid } from "@/lib/services/cid";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ cid: string }> }
+) {
+  try {
+    const auth = await requireSession(request);
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const { cid } = await params;
+
+    if (!isCid(cid)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid CID" },
+        { status: 400 }
+      );
+    }
+
+    const content = await getStorageProvider().cat(cid);
+    if (!content) {
+      return NextResponse.json(
+        { success: false, error: "Content not found" },
+        { status: 404 }
+      );
+    }
+
+    // Content never changes for a CID; private so shared caches don't bypass the session check
+    return new NextResponse(new Blob([content]), {
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Cache-Control": "private, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error("Error in IPFS read API:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
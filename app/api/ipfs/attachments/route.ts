@@ -0,0 +1,135 @@
+/**
+ * API Route for pinning encrypted attachment chunks to IPFS
+ * Chunks arrive already encrypted, so only their size and declared type can be checked here;
+ * the client validates file content before encrypting and again after decrypting.
+ * Like record uploads, only the signed-in hospital with access to the patient may pin.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  MAX_ATTACHMENT_CHUNKS,
+  MAX_ENCRYPTED_CHUNK_SIZE,
+  isAttachmentMimeType,
+} from "@/lib/services/attachments";
+import { hasOnChainAccess, isSessionFor, requireSession } from "@/lib/server/auth";
+import {
+  checkRateLimit,
+  payloadTooLargeResponse,
+  rateLimitResponse,
+  readCappedBody,
+} from "@/lib/server/rateLimit";
+import { getStorageProvider } from "@/lib/server/storage";
+
+const isAddress = (value: unknown): value is string =>
+  typeof value === "string" && /^0x[0-9a-fA-F]{40}$/.test(value);
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireSession(request, "hospital");
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const limited = await checkRateLimit(request, "ipfs-attachments", { address: auth.session.address, role: "hospital" });
+    if (limited) {
+      return rateLimitResponse(limited);
+    }
+
+    const body = await readCappedBody(request, "ipfs-attachments");
+    if (!body) {
+      return payloadTooLargeResponse("ipfs-attachments");
+    }
+
+    const form = await new Response(body, {
+      headers: { "Content-Type": request.headers.get("content-type") ?? "" },
+    }).formData().catch(() => null);
+    const chunk = form?.get("chunk");
+    const index = Number(form?.get("index"));
+    const total = Number(form?.get("total"));
+    const mimeType = String(form?.get("mimeType") ?? "");
+    const patient = form?.get("patient");
+    const hospital = form?.get("hospital");
+
+    if (!(chunk instanceof Blob) || chunk.size === 0) {
+      return NextResponse.json(
+        { success: false, error: "Missing attachment chunk" },
+        { status: 400 }
+      );
+    }
+
+    if (chunk.size > MAX_ENCRYPTED_CHUNK_SIZE) {
+      return NextResponse.json(
+        { success: false, error: "Attachment chunk too large" },
+        { status: 413 }
+      );
+    }
+
+    if (!Number.isInteger(total) || total < 1 || total > MAX_ATTACHMENT_CHUNKS) {
+      return NextResponse.json(
+        { success: false, error: `Attachments are limited to ${MAX_ATTACHMENT_CHUNKS} chunks` },
+        { status: 413 }
+      );
+    }
+
+    if (!Number.isInteger(index) || index < 0 || index >= total) {
+      return NextResponse.json(
+        { success: false, error: "Invalid chunk index" },
+        { status: 400 }
+      );
+    }
+
+    if (!isAttachmentMimeType(mimeType)) {
+      return NextResponse.json(
+        { success: false, error: "Unsupported attachment type" },
+        { status: 415 }
+      );
+    }
+
+    if (!isAddress(patient) || !isAddress(hospital)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid patient or hospital address" },
+        { status: 400 }
+      );
+    }
+
+    if (!isSessionFor(auth.session, hospital)) {
+      return NextResponse.json(
+        { success: false, error: "Attachments can only be uploaded by the issuing hospital" },
+        { status: 403 }
+      );
+    }
+
+    if (!(await hasOnChainAccess(patient, hospital))) {
+      return NextResponse.json(
+        { success: false, error: "Access is not granted on-chain" },
+        { status: 403 }
+      );
+    }
+
+    // Pin the ciphertext as a raw file so gateways serve the exact bytes back
+    const cid = await getStorageProvider().add(new Uint8Array(await chunk.arrayBuffer()), {
+      name: `Attachment_${patient.slice(0, 8)}_${Date.now()}_${index + 1}of${total}`,
+      keyvalues: {
+        type: "medical_attachment",
+        patient,
+        hospital,
+        mimeType,
+        chunk: `${index + 1}/${total}`,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      cid,
+    });
+  } catch (error) {
+    console.error("Error in attachment upload API:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
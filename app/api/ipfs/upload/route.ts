@@ -1,24 +1,56 @@
 /**
- * API Route for uploading encrypted medical records to Pinata IPFS
- * This runs on server-side to protect API keys
+ * API Route for uploading encrypted medical records to IPFS
+ * This runs on server-side to protect API keys; the backend comes from STORAGE_PROVIDER.
+ * Only a signed-in hospital may upload, and only for a patient it has access to, within
+ * the route's rate limits and daily quota.
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { hasOnChainAccess, isSessionFor, requireSession } from "@/lib/server/auth";
+import {
+  checkRateLimit,
+  payloadTooLargeResponse,
+  rateLimitResponse,
+  readCappedBody,
+} from "@/lib/server/rateLimit";
+import { getStorageProvider } from "@/lib/server/storage";
 
-const PINATA_JWT = process.env.PINATA_JWT;
+const isAddress = (value: unknown): value is string =>
+  typeof value === "string" && /^0x[0-9a-fA-F]{40}$/.test(value);
 
 export async function POST(request: NextRequest) {
   try {
-    // Check for JWT
-    if (!PINATA_JWT) {
+    const auth = await requireSession(request, "hospital");
+    if ("error" in auth) {
       return NextResponse.json(
-        { success: false, error: "Pinata JWT not configured" },
-        { status: 500 }
+        { success: false, error: auth.error },
+        { status: auth.status }
       );
     }
 
-    const body = await request.json();
-    const { encryptedPayload, metadata } = body;
+    const limited = await checkRateLimit(request, "ipfs-upload", { address: auth.session.address, role: "hospital" });
+    if (limited) {
+      return rateLimitResponse(limited);
+    }
+
+    const body = await readCappedBody(request, "ipfs-upload");
+    if (!body) {
+      return payloadTooLargeResponse("ipfs-upload");
+    }
+
+    let parsed: {
+      encryptedPayload?: { metadata?: { patientAddress?: unknown; hospitalAddress?: unknown } };
+      metadata?: { name?: string; keyvalues?: Record<string, string> };
+    };
+    try {
+      parsed = JSON.parse(new TextDecoder().decode(body)) ?? {};
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    const { encryptedPayload, metadata } = parsed;
 
     if (!encryptedPayload) {
       return NextResponse.json(
@@ -27,40 +59,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Upload to Pinata
-    const response = await fetch("https://api.pinata.cloud/pinning/pinJSONToIPFS", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${PINATA_JWT}`,
-      },
-      body: JSON.stringify({
-        pinataContent: encryptedPayload,
-        pinataMetadata: {
-          name: metadata?.name || `MedicalRecord_${Date.now()}`,
-          keyvalues: metadata?.keyvalues || {},
-        },
-        pinataOptions: {
-          cidVersion: 1,
-        },
-      }),
-    });
+    // The payload's public metadata names the patient and the issuing hospital
+    const patient = encryptedPayload.metadata?.patientAddress;
+    const hospital = encryptedPayload.metadata?.hospitalAddress;
+    if (!isAddress(patient) || !isAddress(hospital)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid patient or hospital address" },
+        { status: 400 }
+      );
+    }
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      console.error("Pinata upload error:", errorData);
+    if (!isSessionFor(auth.session, hospital)) {
       return NextResponse.json(
-        { success: false, error: `Pinata upload failed: ${response.status}` },
-        { status: response.status }
+        { success: false, error: "Records can only be uploaded by the issuing hospital" },
+        { status: 403 }
       );
     }
 
-    const result = await response.json();
+    if (!(await hasOnChainAccess(patient, hospital))) {
+      return NextResponse.json(
+        { success: false, error: "Access is not granted on-chain" },
+        { status: 403 }
+      );
+    }
+
+    // Stored as a JSON file so every backend serves the same bytes back
+    const storage = getStorageProvider();
+    const cid = await storage.add(new TextEncoder().encode(JSON.stringify(encryptedPayload)), {
+      name: metadata?.name || `MedicalRecord_${Date.now()}`,
+      keyvalues: metadata?.keyvalues || {},
+    });
 
     return NextResponse.json({
       success: true,
-      cid: result.IpfsHash,
-      timestamp: result.Timestamp,
+      cid,
+      timestamp: new Date().toISOString(),
     });
   } catch (error) {
     console.error("Error in IPFS upload API:", error);
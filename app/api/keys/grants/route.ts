@@ -0,0 +1,275 @@
+/**
+ * API Route for record key grants
+ * When a patient approves access, the client re-wraps each record's data key to the
+ * hospital's public key and stores the result here. Grants are only served while the
+ * on-chain permission (checkAccess) is active and before the grant's expiresAt.
+ * Grants are only served to the signed-in patient or recipient, and only the patient may change them.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createThirdwebClient } from "thirdweb";
+import { verifySignature } from "thirdweb/auth";
+import { defineChain } from "thirdweb/chains";
+import { hasOnChainAccess, isSessionFor, requireSession } from "@/lib/server/auth";
+import { getItem, setItem, deleteItem } from "@/lib/server/jsonStore";
+import {
+  buildKeyGrantMessage,
+  buildKeyRevokeMessage,
+  digestWrappedKeys,
+  type KeyGrant,
+} from "@/lib/services/encryption";
+
+const THIRDWEB_CLIENT_ID = process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID || "";
+const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || "https://rpc.sepolia-api.lisk.com";
+
+const GRANTS_COLLECTION = "key-grants";
+
+// Signed requests older than this are rejected (replay protection)
+const MAX_SIGNATURE_AGE_SECONDS = 10 * 60;
+
+const liskSepolia = defineChain({
+  id: 4202,
+  name: "Lisk Sepolia Testnet",
+  rpc: RPC_URL,
+  nativeCurrency: {
+    name: "ETH",
+    symbol: "ETH",
+    decimals: 18,
+  },
+});
+
+const client = createThirdwebClient({ clientId: THIRDWEB_CLIENT_ID });
+
+const isAddress = (value: unknown): value is string =>
+  typeof value === "string" && /^0x[0-9a-fA-F]{40}$/.test(value);
+
+const isTimestamp = (value: unknown): value is number =>
+  typeof value === "number" && Number.isSafeInteger(value) && value >= 0;
+
+const grantKey = (patient: string, recipient: string) =>
+  `${patient.toLowerCase()}:${recipient.toLowerCase()}`;
+
+const isFresh = (issuedAt: number) =>
+  Math.abs(Math.floor(Date.now() / 1000) - issuedAt) <= MAX_SIGNATURE_AGE_SECONDS;
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireSession(request);
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const patient = request.nextUrl.searchParams.get("patient");
+    const recipient = request.nextUrl.searchParams.get("recipient");
+
+    if (!isAddress(patient) || !isAddress(recipient)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid patient or recipient address" },
+        { status: 400 }
+      );
+    }
+
+    if (!isSessionFor(auth.session, recipient) && !isSessionFor(auth.session, patient)) {
+      return NextResponse.json(
+        { success: false, error: "Key grants are only available to the patient and the recipient" },
+        { status: 403 }
+      );
+    }
+
+    const grant = await getItem<KeyGrant>(GRANTS_COLLECTION, grantKey(patient, recipient));
+    if (!grant) {
+      return NextResponse.json({ success: true, grant: null });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (grant.expiresAt !== 0 && grant.expiresAt <= now) {
+      return NextResponse.json(
+        { success: false, error: "Key grant has expired" },
+        { status: 403 }
+      );
+    }
+
+    if (!(await hasOnChainAccess(patient, recipient))) {
+      return NextResponse.json(
+        { success: false, error: "Access is not granted on-chain" },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ success: true, grant });
+  } catch (error) {
+    console.error("Error reading key grant:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireSession(request);
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    const { patient, recipient, expiresAt, keys, issuedAt, signature } = body;
+
+    if (!isAddress(patient) || !isAddress(recipient) || !keys || typeof keys !== "object" || !signature) {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields: patient, recipient, keys, signature" },
+        { status: 400 }
+      );
+    }
+
+    if (!isTimestamp(expiresAt) || !isTimestamp(issuedAt)) {
+      return NextResponse.json(
+        { success: false, error: "expiresAt and issuedAt must be Unix timestamps in seconds" },
+        { status: 400 }
+      );
+    }
+
+    if (!isSessionFor(auth.session, patient)) {
+      return NextResponse.json(
+        { success: false, error: "Only the patient can change key grants" },
+        { status: 403 }
+      );
+    }
+
+    if (!isFresh(issuedAt)) {
+      return NextResponse.json(
+        { success: false, error: "Signature expired, please try again" },
+        { status: 401 }
+      );
+    }
+
+    const digest = await digestWrappedKeys(keys);
+    const isValid = await verifySignature({
+      message: buildKeyGrantMessage(patient, recipient, expiresAt, digest, issuedAt),
+      signature,
+      address: patient,
+      client,
+      chain: liskSepolia,
+    });
+
+    if (!isValid) {
+      return NextResponse.json(
+        { success: false, error: "Invalid signature" },
+        { status: 401 }
+      );
+    }
+
+    // Only store keys for an accessor the patient actually authorized on-chain
+    if (!(await hasOnChainAccess(patient, recipient))) {
+      return NextResponse.json(
+        { success: false, error: "Access is not granted on-chain" },
+        { status: 403 }
+      );
+    }
+
+    const grant: KeyGrant = {
+      patient: patient.toLowerCase(),
+      recipient: recipient.toLowerCase(),
+      expiresAt: expiresAt,
+      keys,
+      updatedAt: Math.floor(Date.now() / 1000),
+    };
+
+    await setItem(GRANTS_COLLECTION, grantKey(patient, recipient), grant);
+
+    return NextResponse.json({ success: true, recordCount: Object.keys(keys).length });
+  } catch (error) {
+    console.error("Error storing key grant:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireSession(request);
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    const { patient, recipient, issuedAt, signature } = body;
+
+    if (!isAddress(patient) || !isAddress(recipient) || !signature) {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields: patient, recipient, signature" },
+        { status: 400 }
+      );
+    }
+
+    if (!isTimestamp(issuedAt)) {
+      return NextResponse.json(
+        { success: false, error: "issuedAt must be a Unix timestamp in seconds" },
+        { status: 400 }
+      );
+    }
+
+    if (!isSessionFor(auth.session, patient)) {
+      return NextResponse.json(
+        { success: false, error: "Only the patient can change key grants" },
+        { status: 403 }
+      );
+    }
+
+    if (!isFresh(issuedAt)) {
+      return NextResponse.json(
+        { success: false, error: "Signature expired, please try again" },
+        { status: 401 }
+      );
+    }
+
+    const isValid = await verifySignature({
+      message: buildKeyRevokeMessage(patient, recipient, issuedAt),
+      signature,
+      address: patient,
+      client,
+      chain: liskSepolia,
+    });
+
+    if (!isValid) {
+      return NextResponse.json(
+        { success: false, error: "Invalid signature" },
+        { status: 401 }
+      );
+    }
+
+    await deleteItem(GRANTS_COLLECTION, grantKey(patient, recipient));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting key grant:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * API Route for the public encryption key directory
+ * Patients and hospitals publish an ECDH public key (plus their signature-protected
+ * private key backup) so record data keys can be wrapped to them. Any signed-in wallet
+ * may look keys up; only the wallet itself may publish.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createThirdwebClient } from "thirdweb";
+import { verifySignature } from "thirdweb/auth";
+import { defineChain } from "thirdweb/chains";
+import { isSessionFor, requireSession } from "@/lib/server/auth";
+import { getItem, setItem } from "@/lib/server/jsonStore";
+import { buildKeyRegistrationMessage, type PublishedEncryptionKey } from "@/lib/services/encryption";
+
+const THIRDWEB_CLIENT_ID = process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID || "";
+const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || "https://rpc.sepolia-api.lisk.com";
+
+const KEYS_COLLECTION = "encryption-keys";
+
+const liskSepolia = defineChain({
+  id: 4202,
+  name: "Lisk Sepolia Testnet",
+  rpc: RPC_URL,
+  nativeCurrency: {
+    name: "ETH",
+    symbol: "ETH",
+    decimals: 18,
+  },
+});
+
+const isAddress = (value: unknown): value is string =>
+  typeof value === "string" && /^0x[0-9a-fA-F]{40}$/.test(value);
+
+const isTimestamp = (value: unknown): value is number =>
+  typeof value === "number" && Number.isSafeInteger(value) && value >= 0;
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireSession(request);
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const address = request.nextUrl.searchParams.get("address");
+
+    if (!isAddress(address)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid address" },
+        { status: 400 }
+      );
+    }
+
+    const key = await getItem<PublishedEncryptionKey>(KEYS_COLLECTION, address.toLowerCase());
+
+    return NextResponse.json({ success: true, key });
+  } catch (error) {
+    console.error("Error reading key directory:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireSession(request);
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    const { address, publicKey, encryptedPrivateKey, backupIv, createdAt, signature } = body;
+
+    if (!isAddress(address) || !publicKey || !encryptedPrivateKey || !backupIv || !signature) {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields: address, publicKey, encryptedPrivateKey, backupIv, signature" },
+        { status: 400 }
+      );
+    }
+
+    if (createdAt !== undefined && !isTimestamp(createdAt)) {
+      return NextResponse.json(
+        { success: false, error: "createdAt must be a Unix timestamp in seconds" },
+        { status: 400 }
+      );
+    }
+
+    if (!isSessionFor(auth.session, address)) {
+      return NextResponse.json(
+        { success: false, error: "Keys can only be published for the signed-in wallet" },
+        { status: 403 }
+      );
+    }
+
+    // Only the wallet owner may publish (or rotate) its key
+    const client = createThirdwebClient({ clientId: THIRDWEB_CLIENT_ID });
+    const isValid = await verifySignature({
+      message: buildKeyRegistrationMessage(address, publicKey),
+      signature,
+      address,
+      client,
+      chain: liskSepolia,
+    });
+
+    if (!isValid) {
+      return NextResponse.json(
+        { success: false, error: "Invalid signature" },
+        { status: 401 }
+      );
+    }
+
+    const entry: PublishedEncryptionKey = {
+      address: address.toLowerCase(),
+      publicKey,
+      encryptedPrivateKey,
+      backupIv,
+      createdAt: createdAt ?? Math.floor(Date.now() / 1000),
+    };
+
+    await setItem(KEYS_COLLECTION, entry.address, entry);
+
+    return NextResponse.json({ success: true, key: entry });
+  } catch (error) {
+    console.error("Error publishing encryption key:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
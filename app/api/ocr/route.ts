@@ -1,37 +1,53 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
 import { HumanMessage } from "@langchain/core/messages";
+import { requireSession } from "@/lib/server/auth";
+import { countPdfPages, splitPdfPages } from "@/lib/server/pdf";
+import {
+  checkRateLimit,
+  payloadTooLargeResponse,
+  rateLimitResponse,
+  readCappedBody,
+} from "@/lib/server/rateLimit";
+import {
+  formatAttachmentSize,
+  sniffMimeType,
+  type AttachmentMimeType,
+} from "@/lib/services/attachments";
+import { validateIcd10Code } from "@/lib/services/icd10";
+import {
+  MAX_OCR_FILES,
+  MAX_OCR_FILE_SIZE,
+  MAX_OCR_PAGES,
+  MAX_OCR_TOTAL_SIZE,
+  OCR_FIELDS,
+  mergeOcrPages,
+  type OcrBox,
+  type OcrPage,
+} from "@/lib/services/ocr";
 
-export async function POST(request: NextRequest) {
-  try {
-    const { imageBase64 } = await request.json();
-
-    if (!imageBase64) {
-      return NextResponse.json(
-        { success: false, error: "No image provided" },
-        { status: 400 }
-      );
-    }
+interface OcrUpload {
+  name: string;
+  dataUrl: string;
+}
 
-    // Initialize Gemini model
-    const model = new ChatGoogleGenerativeAI({
-      model: "gemini-2.0-flash",
-      apiKey: process.env.GOOGLE_API_KEY,
-    });
+interface OcrDocument {
+  name: string;
+  mimeType: AttachmentMimeType;
+  dataUrl: string;
+  bytes: Buffer;
+  size: number;
+  pages: number; // Counted before OCR; a photo is one page
+}
 
-    // Create message with image
-    const message = new HumanMessage({
-      content: [
-        {
-          type: "text",
-          text: `You are a medical document OCR assistant. Analyze this medical document image and extract the following information into a JSON format.
+const EXTRACTION_PROMPT = `You are a medical document OCR assistant. Analyze this page of a medical document and extract the following information into a JSON format.
 
-Extract these fields (use empty string "" if not found):
+Extract these fields (use an empty value if not found on the page):
 - noRekamMedik: Medical record number
 - tanggalMasuk: Admission date (format: YYYY-MM-DD)
 - tanggalKeluar: Discharge date (format: YYYY-MM-DD)
 - diagnosisUtama: Primary diagnosis
-- icdCode: ICD-10 code
+- icdCode: WHO ICD-10 code (e.g. "J20.9"), only if written on the document; do not guess
 - diagnosisSekunder: Secondary diagnosis
 - keluhan: Patient complaints/symptoms
 - riwayatAlergi: Allergy history
@@ -40,63 +56,293 @@ Extract these fields (use empty string "" if not found):
 - keadaanKeluar: Discharge condition (e.g., "Improved", "Cured", "Referred")
 - dokterPenanggungJawab: Attending physician name
 
+For every field return an object:
+- value: the extracted value ("" if not found)
+- confidence: 0 to 1, how sure you are the value is exactly what the page says. Use 0.9 or above only for clearly printed text copied as is. Score lower for handwriting, blur, abbreviations you expanded, reformatted dates, or values you inferred rather than read
+- snippet: the exact text on the page the value was read from, copied verbatim ("" if not found)
+- box: bounding box of that text as [ymin, xmin, ymax, xmax] scaled to 0-1000, or null
+
 IMPORTANT: 
-- Return ONLY valid JSON, no markdown, no explanation
-- If the image is not a medical document, return empty values
-- Extract as much information as visible in the document
+- Return ONLY a valid JSON object, no markdown, no explanation
+- Only use what is written on the page
+- If the page is not a medical document, return empty values
 - For dates, convert to YYYY-MM-DD format if possible
 
-Example output:
-{"noRekamMedik":"MR-2024-001","tanggalMasuk":"2024-01-15","tanggalKeluar":"2024-01-17","diagnosisUtama":"Acute Bronchitis","icdCode":"J20.9","diagnosisSekunder":"","keluhan":"Batuk berdahak 5 hari","riwayatAlergi":"Tidak ada","tindakan":"Pemeriksaan fisik","resepObat":"Ambroxol 3x1","keadaanKeluar":"Membaik","dokterPenanggungJawab":"Dr. Ahmad"}`,
-        },
-        {
-          type: "image_url",
-          image_url: {
-            url: imageBase64,
-          },
-        },
-      ],
-    });
+Example output (fields not found may be left out):
+{"noRekamMedik":{"value":"MR-2024-001","confidence":0.97,"snippet":"No. RM: MR-2024-001","box":[42,610,68,880]},"tanggalMasuk":{"value":"2024-01-15","confidence":0.85,"snippet":"Tgl MRS 15/1/24","box":[80,90,104,300]},"diagnosisUtama":{"value":"Acute Bronchitis","confidence":0.93,"snippet":"Dx: Acute Bronchitis","box":[210,90,236,520]},"resepObat":{"value":"Ambroxol 3x1","confidence":0.6,"snippet":"Ambrox 3x1","box":[700,90,730,400]},"dokterPenanggungJawab":{"value":"Dr. Ahmad","confidence":0.9,"snippet":"dr. Ahmad","box":[900,600,930,880]}}`;
+
+/**
+ * Check an uploaded data URL; the type is taken from the content, not the URL's label.
+ * PDF pages are counted here so page limits hold before anything is sent to Gemini.
+ */
+function decodeUpload(upload: OcrUpload): OcrDocument | { error: string; status: 400 | 413 | 415 | 422 } {
+  const name = typeof upload?.name === "string" && upload.name.trim() ? upload.name.trim().slice(0, 200) : "Document";
+  const dataUrl = typeof upload?.dataUrl === "string" ? upload.dataUrl : "";
+  const separator = dataUrl.indexOf(",");
+  if (!dataUrl.startsWith("data:") || separator === -1 || !dataUrl.slice(0, separator).endsWith(";base64")) {
+    return { error: `${name} is not a base64 data URL`, status: 400 };
+  }
+
+  const bytes = Buffer.from(dataUrl.slice(separator + 1), "base64");
+  if (bytes.length === 0) {
+    return { error: `${name} is empty`, status: 400 };
+  }
+  if (bytes.length > MAX_OCR_FILE_SIZE) {
+    return { error: `${name} is larger than ${formatAttachmentSize(MAX_OCR_FILE_SIZE)}`, status: 413 };
+  }
+
+  const mimeType = sniffMimeType(bytes);
+  if (!mimeType) {
+    return { error: `${name} is not a PDF, PNG, JPEG or WebP file`, status: 415 };
+  }
+
+  const pages = mimeType === "application/pdf" ? countPdfPages(bytes) : 1;
+  if (pages === null) {
+    return { error: `Could not count the pages of ${name}; upload it as one photo per page instead`, status: 422 };
+  }
+  return {
+    name,
+    mimeType,
+    dataUrl: `data:${mimeType};base64,${dataUrl.slice(separator + 1)}`,
+    bytes,
+    size: bytes.length,
+    pages,
+  };
+}
+
+/**
+ * Gemini's [ymin, xmin, ymax, xmax] box (0-1000) as fractions of the page
+ */
+function toBox(value: unknown): OcrBox | undefined {
+  if (!Array.isArray(value) || value.length !== 4) return undefined;
+  if (!value.every((n) => typeof n === "number" && n >= 0 && n <= 1000)) return undefined;
+
+  const [ymin, xmin, ymax, xmax] = value as number[];
+  if (ymax <= ymin || xmax <= xmin) return undefined;
+  return { x: xmin / 1000, y: ymin / 1000, width: (xmax - xmin) / 1000, height: (ymax - ymin) / 1000 };
+}
+
+/**
+ * Keep the known fields of one page's extraction with their evidence.
+ * A bare string value (no confidence given) gets confidence 0, so it is always reviewed.
+ */
+function toPageFields(value: unknown): Pick<OcrPage, "fields" | "evidence"> {
+  const page: Pick<OcrPage, "fields" | "evidence"> = { fields: {}, evidence: {} };
+  if (!value || typeof value !== "object") return page;
+
+  for (const field of OCR_FIELDS) {
+    const raw = (value as Record<string, unknown>)[field];
+    const entry = (raw && typeof raw === "object" ? raw : { value: raw }) as Record<string, unknown>;
+    if (typeof entry.value !== "string" || !entry.value.trim()) continue;
+
+    const confidence = typeof entry.confidence === "number" ? Math.min(1, Math.max(0, entry.confidence)) : 0;
+    const snippet = typeof entry.snippet === "string" && entry.snippet.trim() ? entry.snippet.trim().slice(0, 500) : undefined;
+    page.fields[field] = entry.value.trim();
+    page.evidence[field] = { confidence, snippet, box: toBox(entry.box) };
+  }
+  return page;
+}
+
+/**
+ * Run OCR on a single page (an image, or a one-page PDF)
+ */
+async function extractPage(
+  model: ChatGoogleGenerativeAI,
+  dataUrl: string
+): Promise<Pick<OcrPage, "fields" | "evidence">> {
+  const message = new HumanMessage({
+    content: [
+      { type: "text", text: EXTRACTION_PROMPT },
+      { type: "image_url", image_url: { url: dataUrl } },
+    ],
+  });
+
+  const response = await model.invoke([message]);
+  const content = response.content as string;
+
+  // Try to extract JSON from the response
+  const jsonMatch = content.match(/[[{][\s\S]*[\]}]/);
+  const parsed: unknown = JSON.parse(jsonMatch ? jsonMatch[0] : content);
+  return toPageFields(Array.isArray(parsed) ? parsed[0] : parsed);
+}
+
+/**
+ * Run OCR on one file. PDFs are split so every call sees one page, and each result belongs
+ * to a known page of the file. Resolves to the page count found when splitting and the
+ * fields of each page, or null for a page that could not be read.
+ */
+async function extractPages(
+  model: ChatGoogleGenerativeAI,
+  document: OcrDocument
+): Promise<{ pageCount: number; pages: (Pick<OcrPage, "fields" | "evidence"> | null)[] }> {
+  let pageCount = 1;
+  let dataUrls = [document.dataUrl];
+  if (document.mimeType === "application/pdf") {
+    // Never read past the counted pages, which the page limit was checked against
+    const split = await splitPdfPages(document.bytes, document.pages);
+    pageCount = split.pageCount;
+    dataUrls = split.pages.map((page) => `data:application/pdf;base64,${Buffer.from(page).toString("base64")}`);
+  }
+
+  const pages = await Promise.all(
+    dataUrls.map((dataUrl, index) =>
+      extractPage(model, dataUrl).catch((error) => {
+        console.error(`Failed to read page ${index + 1} of ${document.name}:`, error);
+        return null;
+      })
+    )
+  );
+  return { pageCount, pages };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Gemini calls are billed to us, so only whitelisted hospitals may run OCR
+    const auth = await requireSession(request, "hospital");
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
 
-    // Call Gemini
-    const response = await model.invoke([message]);
-    const content = response.content as string;
+    const limited = await checkRateLimit(request, "ocr", { address: auth.session.address, role: "hospital" });
+    if (limited) {
+      return rateLimitResponse(limited);
+    }
+
+    const body = await readCappedBody(request, "ocr");
+    if (!body) {
+      return payloadTooLargeResponse("ocr");
+    }
 
-    // Parse JSON from response
-    let extractedData;
+    let parsed: { files?: unknown; imageBase64?: unknown };
     try {
-      // Try to extract JSON from the response
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        extractedData = JSON.parse(jsonMatch[0]);
-      } else {
-        extractedData = JSON.parse(content);
-      }
+      parsed = JSON.parse(new TextDecoder().decode(body)) ?? {};
     } catch {
-      console.error("Failed to parse OCR response:", content);
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    const { files, imageBase64 } = parsed;
+
+    // A single imageBase64 is still accepted as a one-page upload
+    const uploads: OcrUpload[] = Array.isArray(files)
+      ? files
+      : imageBase64
+        ? [{ name: "Image", dataUrl: String(imageBase64) }]
+        : [];
+
+    if (uploads.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "No document provided" },
+        { status: 400 }
+      );
+    }
+    if (uploads.length > MAX_OCR_FILES) {
+      return NextResponse.json(
+        { success: false, error: `Upload at most ${MAX_OCR_FILES} files at once` },
+        { status: 400 }
+      );
+    }
+
+    const documents: OcrDocument[] = [];
+    let totalSize = 0;
+    for (const upload of uploads) {
+      const document = decodeUpload(upload);
+      if ("error" in document) {
+        return NextResponse.json(
+          { success: false, error: document.error },
+          { status: document.status }
+        );
+      }
+      totalSize += document.size;
+      documents.push(document);
+    }
+    if (totalSize > MAX_OCR_TOTAL_SIZE) {
+      return NextResponse.json(
+        { success: false, error: `Files are larger than ${formatAttachmentSize(MAX_OCR_TOTAL_SIZE)} in total` },
+        { status: 413 }
+      );
+    }
+    const totalPages = documents.reduce((sum, document) => sum + document.pages, 0);
+    if (totalPages > MAX_OCR_PAGES) {
+      return NextResponse.json(
+        { success: false, error: `Upload at most ${MAX_OCR_PAGES} pages at once (these files have ${totalPages})` },
+        { status: 400 }
+      );
+    }
+
+    // Initialize Gemini model
+    const model = new ChatGoogleGenerativeAI({
+      model: "gemini-2.0-flash",
+      apiKey: process.env.GOOGLE_API_KEY,
+    });
+
+    // Files and pages are read in parallel; one unreadable page doesn't lose the others
+    const extracted = await Promise.all(
+      documents.map((document) =>
+        extractPages(model, document).catch((error) => {
+          console.error(`Failed to split ${document.name}:`, error);
+          return null;
+        })
+      )
+    );
+
+    const warnings: string[] = [];
+    const pages: OcrPage[] = [];
+    extracted.forEach((result, index) => {
+      const document = documents[index];
+      if (!result) {
+        warnings.push(`Could not read ${document.name}`);
+        return;
+      }
+      if (result.pageCount !== document.pages) {
+        warnings.push(
+          `${document.name} was counted as ${document.pages} ${document.pages === 1 ? "page" : "pages"} but has ${result.pageCount}; only the first ${Math.min(result.pageCount, document.pages)} were read`
+        );
+      }
+      result.pages.forEach((extraction, filePage) => {
+        if (!extraction) {
+          warnings.push(`Could not read page ${filePage + 1} of ${document.name}`);
+          return;
+        }
+        pages.push({ page: pages.length + 1, file: document.name, filePage: filePage + 1, ...extraction });
+      });
+    });
+
+    if (pages.length === 0) {
       return NextResponse.json(
         { success: false, error: "Failed to parse OCR result" },
         { status: 500 }
       );
     }
 
-    // Ensure all fields exist with defaults
-    const result = {
-      noRekamMedik: extractedData.noRekamMedik || "",
-      tanggalMasuk: extractedData.tanggalMasuk || new Date().toISOString().split("T")[0],
-      tanggalKeluar: extractedData.tanggalKeluar || "",
-      diagnosisUtama: extractedData.diagnosisUtama || "",
-      icdCode: extractedData.icdCode || "",
-      diagnosisSekunder: extractedData.diagnosisSekunder || "",
-      keluhan: extractedData.keluhan || "",
-      riwayatAlergi: extractedData.riwayatAlergi || "",
-      tindakan: extractedData.tindakan || "",
-      resepObat: extractedData.resepObat || "",
-      keadaanKeluar: extractedData.keadaanKeluar || "",
-      dokterPenanggungJawab: extractedData.dokterPenanggungJawab || "",
-    };
-
-    return NextResponse.json({ success: true, data: result });
+    // Never pass a malformed ICD-10 code on to the form (it ends up on-chain permanently).
+    // Codes are checked per page so a misread page can't outvote or conflict with the others.
+    for (const page of pages) {
+      if (!page.fields.icdCode) continue;
+      const prefix = pages.length > 1 ? `Page ${page.page}: ` : "";
+      const icd = validateIcd10Code(page.fields.icdCode);
+      if (icd.status === "invalid") {
+        warnings.push(`${prefix}Discarded ICD-10 code: ${icd.message}`);
+        delete page.fields.icdCode;
+        delete page.evidence.icdCode;
+      } else {
+        page.fields.icdCode = icd.code;
+        if (icd.message) warnings.push(`${prefix}${icd.message}`);
+      }
+    }
+
+    const result = mergeOcrPages(pages);
+    if (!result.data.tanggalMasuk) {
+      // Not read from the document, so it is flagged for confirmation like a guess
+      result.data.tanggalMasuk = new Date().toISOString().split("T")[0];
+      result.confidence.tanggalMasuk = { confidence: 0 };
+    }
+
+    return NextResponse.json({ success: true, ...result, warnings });
   } catch (error) {
     console.error("OCR API error:", error);
     return NextResponse.json(
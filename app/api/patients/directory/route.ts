@@ -0,0 +1,315 @@
+/**
+ * API Route for the patient directory
+ * Maps an HMAC of the patient's hashed NIK to their wallet so any hospital can find a
+ * patient who registered on another device. Only wallet addresses are stored; lookups
+ * return the wallet, patient ID and on-chain registration status, never profile data.
+ * Patient ID lookups are answered from the contract (patientIdToWallet) directly.
+ * Lookups are limited to signed-in hospitals; patients may only publish their own entry.
+ *
+ * A wallet can only claim the NIK its own on-chain profile lists. When another wallet's
+ * profile lists the same NIK the entry is marked disputed, and lookups refuse to pick a
+ * wallet until only one profile still lists it.
+ */
+
+import { createHmac } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { createThirdwebClient, getContract, readContract } from "thirdweb";
+import { verifySignature } from "thirdweb/auth";
+import { defineChain } from "thirdweb/chains";
+import { isSessionFor, requireSession } from "@/lib/server/auth";
+import { getItem, updateCollection } from "@/lib/server/jsonStore";
+import { buildDirectoryMessage, hashNik, type DirectoryMatch } from "@/lib/services/directory";
+
+const DIRECTORY_SECRET = process.env.PATIENT_DIRECTORY_SECRET;
+const THIRDWEB_CLIENT_ID = process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID || "";
+const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || "https://rpc.sepolia-api.lisk.com";
+const PATIENT_IDENTITY_ADDRESS = process.env.NEXT_PUBLIC_PATIENT_IDENTITY_ADDRESS || "0x19Ab8F63ED13ae191A8080c9638eefe86bF8ffbC";
+const PATIENT_PROFILE_ADDRESS = process.env.NEXT_PUBLIC_PATIENT_PROFILE_ADDRESS || "0x11dB04B254f4e355B07b53c53476b0d3bd864142";
+
+const DIRECTORY_COLLECTION = "patient-directory";
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Signed requests older than this are rejected (replay protection)
+const MAX_SIGNATURE_AGE_SECONDS = 10 * 60;
+
+interface DirectoryEntry {
+  address: string;
+  updatedAt: number;
+  // Other wallets whose on-chain profile lists the same NIK
+  disputedBy?: string[];
+}
+
+const liskSepolia = defineChain({
+  id: 4202,
+  name: "Lisk Sepolia Testnet",
+  rpc: RPC_URL,
+  nativeCurrency: {
+    name: "ETH",
+    symbol: "ETH",
+    decimals: 18,
+  },
+});
+
+const client = createThirdwebClient({ clientId: THIRDWEB_CLIENT_ID });
+
+const isAddress = (value: unknown): value is string =>
+  typeof value === "string" && /^0x[0-9a-fA-F]{40}$/.test(value);
+
+const isNikHash = (value: unknown): value is string =>
+  typeof value === "string" && /^0x[0-9a-fA-F]{64}$/.test(value);
+
+// Peppered so the stored keys cannot be matched against a NIK list without the secret
+const directoryKey = (secret: string, nikHash: string) =>
+  createHmac("sha256", secret).update(nikHash.toLowerCase()).digest("hex");
+
+function getPatientIdentityContract() {
+  return getContract({ client, chain: liskSepolia, address: PATIENT_IDENTITY_ADDRESS });
+}
+
+/**
+ * Hashed NIK from the wallet's on-chain profile, or null when it has no readable profile.
+ * getProfileView checks the caller, so the profile is read as the patient.
+ */
+async function getProfileNikHash(address: string): Promise<string | null> {
+  try {
+    const data = await readContract({
+      contract: getContract({ client, chain: liskSepolia, address: PATIENT_PROFILE_ADDRESS }),
+      method: "function getProfileView(address patient) view returns (bytes)",
+      params: [address],
+      from: address,
+    });
+    const profile = JSON.parse(Buffer.from(data.slice(2), "hex").toString("utf8")) as { nik?: unknown };
+    return typeof profile.nik === "string" && profile.nik ? (await hashNik(profile.nik)).toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wallets among the claimants whose on-chain profile still lists the NIK
+ */
+async function getVerifiedClaimants(nikHash: string, claimants: string[]): Promise<string[]> {
+  const hashes = await Promise.all(claimants.map(getProfileNikHash));
+  return claimants.filter((_, index) => hashes[index] === nikHash.toLowerCase());
+}
+
+/**
+ * Registration status and patient ID for a wallet
+ */
+async function getRegistration(address: string): Promise<DirectoryMatch> {
+  const contract = getPatientIdentityContract();
+  const [isRegistered, patientId] = await Promise.all([
+    readContract({
+      contract,
+      method: "function hasPatientIdentity(address _wallet) view returns (bool)",
+      params: [address],
+    }),
+    readContract({
+      contract,
+      method: "function walletToPatientId(address) view returns (uint256)",
+      params: [address],
+    }),
+  ]);
+
+  return {
+    walletAddress: address,
+    patientId: patientId === BigInt(0) ? null : Number(patientId),
+    isRegistered,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireSession(request, "hospital");
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const nikHash = request.nextUrl.searchParams.get("nikHash");
+    const patientIdParam = request.nextUrl.searchParams.get("patientId");
+
+    if (patientIdParam !== null) {
+      if (!/^\d{1,12}$/.test(patientIdParam) || Number(patientIdParam) === 0) {
+        return NextResponse.json(
+          { success: false, error: "Invalid patient ID" },
+          { status: 400 }
+        );
+      }
+
+      const wallet = await readContract({
+        contract: getPatientIdentityContract(),
+        method: "function patientIdToWallet(uint256) view returns (address)",
+        params: [BigInt(patientIdParam)],
+      });
+
+      if (wallet === ZERO_ADDRESS) {
+        return NextResponse.json({ success: true, patient: null });
+      }
+
+      return NextResponse.json({ success: true, patient: await getRegistration(wallet) });
+    }
+
+    if (!isNikHash(nikHash)) {
+      return NextResponse.json(
+        { success: false, error: "Provide a nikHash or patientId" },
+        { status: 400 }
+      );
+    }
+
+    if (!DIRECTORY_SECRET) {
+      return NextResponse.json(
+        { success: false, error: "Patient directory not configured" },
+        { status: 500 }
+      );
+    }
+
+    const entry = await getItem<DirectoryEntry>(DIRECTORY_COLLECTION, directoryKey(DIRECTORY_SECRET, nikHash));
+    if (!entry) {
+      return NextResponse.json({ success: true, patient: null });
+    }
+
+    if (entry.disputedBy?.length) {
+      // A dispute settles once only one of the profiles still lists the NIK
+      const claimants = await getVerifiedClaimants(nikHash, [entry.address, ...entry.disputedBy]);
+      if (claimants.length !== 1) {
+        return NextResponse.json({
+          success: true,
+          patient: { ...(await getRegistration(entry.address)), disputed: true },
+        });
+      }
+      return NextResponse.json({ success: true, patient: await getRegistration(claimants[0]) });
+    }
+
+    return NextResponse.json({ success: true, patient: await getRegistration(entry.address) });
+  } catch (error) {
+    console.error("Error reading patient directory:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!DIRECTORY_SECRET) {
+      return NextResponse.json(
+        { success: false, error: "Patient directory not configured" },
+        { status: 500 }
+      );
+    }
+
+    const auth = await requireSession(request);
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+    const { address, nikHash, issuedAt, signature } = body;
+
+    if (!isAddress(address) || !isNikHash(nikHash) || !signature) {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields: address, nikHash, signature" },
+        { status: 400 }
+      );
+    }
+
+    if (!isSessionFor(auth.session, address)) {
+      return NextResponse.json(
+        { success: false, error: "Directory entries can only be published for the signed-in wallet" },
+        { status: 403 }
+      );
+    }
+
+    if (Math.abs(Math.floor(Date.now() / 1000) - Number(issuedAt)) > MAX_SIGNATURE_AGE_SECONDS) {
+      return NextResponse.json(
+        { success: false, error: "Signature expired, please try again" },
+        { status: 401 }
+      );
+    }
+
+    const isValid = await verifySignature({
+      message: buildDirectoryMessage(address, nikHash, Number(issuedAt)),
+      signature,
+      address,
+      client,
+      chain: liskSepolia,
+    });
+
+    if (!isValid) {
+      return NextResponse.json(
+        { success: false, error: "Invalid signature" },
+        { status: 401 }
+      );
+    }
+
+    const { isRegistered } = await getRegistration(address);
+    if (!isRegistered) {
+      return NextResponse.json(
+        { success: false, error: "Only registered patients can be listed in the directory" },
+        { status: 403 }
+      );
+    }
+
+    // Only the NIK the wallet's own profile lists can be claimed
+    if ((await getProfileNikHash(address)) !== nikHash.toLowerCase()) {
+      return NextResponse.json(
+        { success: false, error: "Your on-chain profile must list this NIK before it can be published" },
+        { status: 403 }
+      );
+    }
+
+    const wallet = address.toLowerCase();
+    const key = directoryKey(DIRECTORY_SECRET, nikHash);
+    const current = await getItem<DirectoryEntry>(DIRECTORY_COLLECTION, key);
+
+    // Other wallets whose profile still lists this NIK (and that are still registered) keep their claim
+    const others = [current?.address, ...(current?.disputedBy ?? [])].filter(
+      (claimant): claimant is string => !!claimant && claimant !== wallet
+    );
+    const rivals: string[] = [];
+    for (const claimant of await getVerifiedClaimants(nikHash, others)) {
+      if ((await getRegistration(claimant)).isRegistered) rivals.push(claimant);
+    }
+
+    await updateCollection<DirectoryEntry, void>(DIRECTORY_COLLECTION, (data) => {
+      // A wallet has one directory entry; drop the old one when the NIK changes
+      for (const [entryKey, entry] of Object.entries(data)) {
+        if (entryKey !== key && entry.address === wallet) delete data[entryKey];
+      }
+      data[key] = rivals.length > 0
+        ? { address: rivals[0], updatedAt: Math.floor(Date.now() / 1000), disputedBy: [...rivals.slice(1), wallet] }
+        : { address: wallet, updatedAt: Math.floor(Date.now() / 1000) };
+    });
+
+    if (rivals.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Another Medichain wallet's profile lists this NIK. Hospitals will be asked to confirm your identity by QR until only one profile lists it.",
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error publishing directory entry:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
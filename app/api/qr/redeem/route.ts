@@ -0,0 +1,161 @@
+/**
+ * API Route for redeeming signed patient QR codes
+ * Checks the payload's expiry and the patient's signature (verifyPatientSignature on-chain,
+ * with an ERC-1271 fallback for smart accounts), then burns the nonce of live codes so a
+ * screenshot or recording of the QR cannot be replayed. Only signed-in hospitals may redeem.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createThirdwebClient, getContract, readContract } from "thirdweb";
+import { verifySignature } from "thirdweb/auth";
+import { defineChain } from "thirdweb/chains";
+import { requireSession } from "@/lib/server/auth";
+import { updateCollection } from "@/lib/server/jsonStore";
+import {
+  getPatientQRMessageHash,
+  isSignedPatientQR,
+  PATIENT_QR_TTL_SECONDS,
+} from "@/lib/services/qr";
+
+const THIRDWEB_CLIENT_ID = process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID || "";
+const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || "https://rpc.sepolia-api.lisk.com";
+const PATIENT_IDENTITY_ADDRESS = process.env.NEXT_PUBLIC_PATIENT_IDENTITY_ADDRESS || "0x19Ab8F63ED13ae191A8080c9638eefe86bF8ffbC";
+
+const NONCES_COLLECTION = "qr-nonces";
+
+// Tolerate small clock differences between the patient device and the server
+const CLOCK_SKEW_SECONDS = 5 * 60;
+
+interface RedeemedNonce {
+  patient: string;
+  expiresAt: number;
+  redeemedAt: number;
+}
+
+const liskSepolia = defineChain({
+  id: 4202,
+  name: "Lisk Sepolia Testnet",
+  rpc: RPC_URL,
+  nativeCurrency: {
+    name: "ETH",
+    symbol: "ETH",
+    decimals: 18,
+  },
+});
+
+const client = createThirdwebClient({ clientId: THIRDWEB_CLIENT_ID });
+
+/**
+ * Check the patient signed the hash and is registered
+ */
+async function isValidPatientSignature(
+  patient: string,
+  messageHash: `0x${string}`,
+  signature: `0x${string}`
+): Promise<boolean> {
+  const contract = getContract({ client, chain: liskSepolia, address: PATIENT_IDENTITY_ADDRESS });
+
+  const isValid = await readContract({
+    contract,
+    method: "function verifyPatientSignature(address _patient, bytes32 _messageHash, bytes _signature) view returns (bool)",
+    params: [patient, messageHash, signature],
+  }).catch(() => false);
+
+  if (isValid) return true;
+
+  // verifyPatientSignature only recovers ECDSA signers; in-app wallets are smart accounts
+  const [isSmartAccountSignature, isRegistered] = await Promise.all([
+    verifySignature({
+      message: { raw: messageHash },
+      signature,
+      address: patient,
+      client,
+      chain: liskSepolia,
+    }),
+    readContract({
+      contract,
+      method: "function hasPatientIdentity(address _wallet) view returns (bool)",
+      params: [patient],
+    }),
+  ]);
+
+  return isSmartAccountSignature && isRegistered;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireSession(request, "hospital");
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const body = await request.json();
+    const payload = body.payload;
+
+    if (!isSignedPatientQR(payload)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid or unsigned QR Code" },
+        { status: 400 }
+      );
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (payload.x <= now) {
+      return NextResponse.json(
+        { success: false, error: "QR Code has expired. Ask the patient to open a fresh QR." },
+        { status: 400 }
+      );
+    }
+
+    if (payload.x > now + PATIENT_QR_TTL_SECONDS[payload.k] + CLOCK_SKEW_SECONDS) {
+      return NextResponse.json(
+        { success: false, error: "QR Code expiry is too far in the future" },
+        { status: 400 }
+      );
+    }
+
+    const { s: signature, ...unsigned } = payload;
+    if (!(await isValidPatientSignature(payload.a, getPatientQRMessageHash(unsigned), signature))) {
+      return NextResponse.json(
+        { success: false, error: "QR Code signature is invalid or the patient is not registered" },
+        { status: 401 }
+      );
+    }
+
+    // Printed cards are reusable until they expire; on-screen codes are single use
+    if (payload.k === "live") {
+      const key = `${payload.a.toLowerCase()}:${payload.n}`;
+      const isFirstUse = await updateCollection<RedeemedNonce, boolean>(NONCES_COLLECTION, (data) => {
+        for (const [nonceKey, entry] of Object.entries(data)) {
+          if (entry.expiresAt <= now) delete data[nonceKey];
+        }
+        if (data[key]) return false;
+        data[key] = { patient: payload.a.toLowerCase(), expiresAt: payload.x, redeemedAt: now };
+        return true;
+      });
+
+      if (!isFirstUse) {
+        return NextResponse.json(
+          { success: false, error: "QR Code has already been used. Ask the patient to open a fresh QR." },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      patient: payload.a,
+      kind: payload.k,
+      expiresAt: payload.x,
+    });
+  } catch (error) {
+    console.error("Error redeeming patient QR:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * API Route for gasless patient transactions (ERC-2771)
+ * Patients sign an EIP-712 ForwardRequest in their wallet; the relayer submits it
+ * through MedichainForwarder and pays the gas. Only a fixed set of PatientIdentity
+ * calls is accepted, and the forwarder's paused flag and maxGasLimit are enforced here.
+ * The signed-in wallet must be the request's signer.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createThirdwebClient, getContract, prepareContractCall, readContract, sendTransaction } from "thirdweb";
+import { privateKeyToAccount } from "thirdweb/wallets";
+import { defineChain } from "thirdweb/chains";
+import { decodeFunctionData, parseAbi } from "viem";
+import { isSessionFor, requireSession } from "@/lib/server/auth";
+import {
+  checkRateLimit,
+  payloadTooLargeResponse,
+  rateLimitResponse,
+  readCappedBody,
+} from "@/lib/server/rateLimit";
+
+const RELAYER_PRIVATE_KEY = process.env.RELAYER_PRIVATE_KEY;
+const FORWARDER_ADDRESS = process.env.NEXT_PUBLIC_MEDICHAIN_FORWARDER_ADDRESS || "0xE2446A9d664bC4E160Af2b0F25BF6530b75250d5";
+const PATIENT_IDENTITY_ADDRESS = process.env.NEXT_PUBLIC_PATIENT_IDENTITY_ADDRESS || "0x19Ab8F63ED13ae191A8080c9638eefe86bF8ffbC";
+const THIRDWEB_CLIENT_ID = process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID || "";
+const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || "https://rpc.sepolia-api.lisk.com";
+
+// Patient functions the relayer is willing to pay for
+const RELAYABLE_ABI = parseAbi([
+  "function selfRegister() returns (uint256)",
+  "function approveAccessRequest(uint256 _requestIndex)",
+  "function rejectAccessRequest(uint256 _requestIndex)",
+  "function grantAccess(address _accessor, string _accessType, uint256 _expiresAt)",
+  "function revokeAccess(address _accessor)",
+  "function cancelSignedGrant(uint256 _nonce)",
+]);
+
+const MAX_UINT48 = 2 ** 48 - 1;
+
+const FORWARD_REQUEST_DATA =
+  "(address from, address to, uint256 value, uint256 gas, uint48 deadline, bytes data, bytes signature)";
+
+const liskSepolia = defineChain({
+  id: 4202,
+  name: "Lisk Sepolia Testnet",
+  rpc: RPC_URL,
+  nativeCurrency: {
+    name: "ETH",
+    symbol: "ETH",
+    decimals: 18,
+  },
+});
+
+const isAddress = (value: unknown): value is string =>
+  typeof value === "string" && /^0x[0-9a-fA-F]{40}$/.test(value);
+
+const isHex = (value: unknown): value is `0x${string}` =>
+  typeof value === "string" && /^0x[0-9a-fA-F]*$/.test(value);
+
+// Unsigned integer as a decimal string or a safe integer (BigInt() would throw on anything else)
+const isUint = (value: unknown): value is string | number =>
+  (typeof value === "string" && /^\d{1,78}$/.test(value)) ||
+  (typeof value === "number" && Number.isSafeInteger(value) && value >= 0);
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!RELAYER_PRIVATE_KEY) {
+      return NextResponse.json(
+        { success: false, error: "Relayer not configured" },
+        { status: 500 }
+      );
+    }
+
+    const auth = await requireSession(request);
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    const limited = await checkRateLimit(request, "relay", { address: auth.session.address, role: "patient" });
+    if (limited) {
+      return rateLimitResponse(limited);
+    }
+
+    const body = await readCappedBody(request, "relay");
+    if (!body) {
+      return payloadTooLargeResponse("relay");
+    }
+
+    let parsed: { request?: Record<string, string | number> };
+    try {
+      parsed = JSON.parse(new TextDecoder().decode(body)) ?? {};
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON body" },
+        { status: 400 }
+      );
+    }
+
+    const { from, to, value, gas, deadline, data, signature } = parsed.request ?? {};
+
+    if (!isAddress(from) || !isAddress(to) || !isHex(data) || !isHex(signature) || gas === undefined || deadline === undefined) {
+      return NextResponse.json(
+        { success: false, error: "Missing required fields: from, to, gas, deadline, data, signature" },
+        { status: 400 }
+      );
+    }
+
+    // deadline is a uint48 in the forward request
+    if (!isUint(gas) || !isUint(deadline) || Number(deadline) > MAX_UINT48 || (value !== undefined && !isUint(value))) {
+      return NextResponse.json(
+        { success: false, error: "value, gas and deadline must be unsigned integers" },
+        { status: 400 }
+      );
+    }
+
+    // Stops a third party from spending our gas on requests it collected elsewhere
+    if (!isSessionFor(auth.session, from)) {
+      return NextResponse.json(
+        { success: false, error: "Requests can only be relayed for the signed-in wallet" },
+        { status: 403 }
+      );
+    }
+
+    // Only PatientIdentity calls, never value transfers
+    if (to.toLowerCase() !== PATIENT_IDENTITY_ADDRESS.toLowerCase()) {
+      return NextResponse.json(
+        { success: false, error: "Target contract is not relayable" },
+        { status: 400 }
+      );
+    }
+
+    if (BigInt(value ?? 0) !== BigInt(0)) {
+      return NextResponse.json(
+        { success: false, error: "Relayed requests cannot transfer value" },
+        { status: 400 }
+      );
+    }
+
+    try {
+      decodeFunctionData({ abi: RELAYABLE_ABI, data });
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Function is not relayable" },
+        { status: 400 }
+      );
+    }
+
+    if (Number(deadline) <= Math.floor(Date.now() / 1000)) {
+      return NextResponse.json(
+        { success: false, error: "Request expired, please try again" },
+        { status: 400 }
+      );
+    }
+
+    const client = createThirdwebClient({
+      clientId: THIRDWEB_CLIENT_ID,
+    });
+
+    const forwarder = getContract({
+      client,
+      chain: liskSepolia,
+      address: FORWARDER_ADDRESS,
+    });
+
+    // The forwarder only stores these limits, so enforce them before spending gas
+    const [, , maxGas, isPaused] = await readContract({
+      contract: forwarder,
+      method: "function getStats() view returns (uint256 _totalRelayed, uint256 _balance, uint256 _maxGas, bool _isPaused)",
+      params: [],
+    });
+
+    if (isPaused) {
+      return NextResponse.json(
+        { success: false, error: "Gasless transactions are temporarily paused" },
+        { status: 503 }
+      );
+    }
+
+    if (BigInt(gas) > maxGas) {
+      return NextResponse.json(
+        { success: false, error: `Gas limit exceeds maximum of ${maxGas.toString()}` },
+        { status: 400 }
+      );
+    }
+
+    const forwardRequest = {
+      from,
+      to,
+      value: BigInt(0),
+      gas: BigInt(gas),
+      deadline: Number(deadline),
+      data,
+      signature,
+    };
+
+    // Checks signer, nonce, deadline and trusted target
+    const isValid = await readContract({
+      contract: forwarder,
+      method: `function verify(${FORWARD_REQUEST_DATA} request) view returns (bool)`,
+      params: [forwardRequest],
+    });
+
+    if (!isValid) {
+      return NextResponse.json(
+        { success: false, error: "Invalid or already used forward request" },
+        { status: 400 }
+      );
+    }
+
+    const relayerAccount = privateKeyToAccount({
+      client,
+      privateKey: RELAYER_PRIVATE_KEY,
+    });
+
+    const tx = prepareContractCall({
+      contract: forwarder,
+      method: `function execute(${FORWARD_REQUEST_DATA} request) payable`,
+      params: [forwardRequest],
+    });
+
+    const result = await sendTransaction({
+      account: relayerAccount,
+      transaction: tx,
+    });
+
+    return NextResponse.json({
+      success: true,
+      txHash: result.transactionHash,
+    });
+  } catch (error) {
+    console.error("Error relaying transaction:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * API Route for rate limit and quota usage (admins only)
+ * Today's per-wallet and per-IP counters for the paid routes, with the configured limits.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireSession } from "@/lib/server/auth";
+import { getUsageReport } from "@/lib/server/rateLimit";
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireSession(request, "admin");
+    if ("error" in auth) {
+      return NextResponse.json(
+        { success: false, error: auth.error },
+        { status: auth.status }
+      );
+    }
+
+    return NextResponse.json({ success: true, report: await getUsageReport() });
+  } catch (error) {
+    console.error("Error reading API usage:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { ConnectButton, useActiveAccount, lightTheme } from "thirdweb/react";
 import { client, wallets } from "@/lib/thirdWeb";
+import { siweAuth } from "@/lib/services/auth";
 import { useBiometricAuth } from "@/hooks/use-biometric-auth";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
@@ -261,6 +262,7 @@ function WalletConnection({
         <div className="flex justify-center mb-6">
           <ConnectButton
             client={client}
+            auth={siweAuth}
             wallets={wallets}
             theme={lightTheme({
               colors: {
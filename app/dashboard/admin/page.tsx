@@ -0,0 +1,743 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { toEther, toWei } from "thirdweb"
+import { useActiveAccount } from "thirdweb/react"
+import { type Account } from "thirdweb/wallets"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Activity,
+  AlertCircle,
+  Building2,
+  CheckCircle2,
+  ExternalLink,
+  Fuel,
+  Landmark,
+  Loader2,
+  Pause,
+  Play,
+  Plus,
+  RefreshCw,
+  Trash2,
+  Zap,
+} from "lucide-react"
+import { AdminShell } from "@/components/admin-shell"
+import { CONTRACT_ADDRESSES } from "@/lib/contracts/config"
+import {
+  getForwarderStats,
+  getForwarderOwner,
+  sendForwarderAdminCall,
+  getHospitalRegistryAddress,
+  setHospitalRegistry,
+  getWhitelistedHospitals,
+  whitelistHospital,
+  removeHospitalFromWhitelist,
+  getExplorerUrl,
+  getAddressExplorerUrl,
+  type ForwarderStats,
+  type WhitelistedHospital,
+} from "@/lib/services/blockchain"
+import { getApiUsage, type UsageReport } from "@/lib/services/usage"
+
+// Forwarder stats are re-read on this interval while the page is open
+const STATS_POLL_MS = 15000
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000"
+
+const isAddress = (value: string) => /^0x[0-9a-fA-F]{40}$/.test(value)
+const isEthAmount = (value: string) => /^\d+(\.\d{1,18})?$/.test(value) && Number(value) > 0
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+interface ActionState {
+  status: "pending" | "success" | "error"
+  message: string
+  txHash?: string
+}
+
+function ActionNotice({ state }: { state: ActionState | null }) {
+  if (!state) return null
+
+  if (state.status === "pending") {
+    return (
+      <p className="text-sm text-muted-foreground flex items-center gap-2">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        {state.message}
+      </p>
+    )
+  }
+
+  return (
+    <p className={`text-sm flex items-center gap-2 ${state.status === "success" ? "text-emerald-600" : "text-red-600"}`}>
+      {state.status === "success" ? <CheckCircle2 className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+      {state.message}
+      {state.txHash && (
+        <a
+          href={getExplorerUrl(state.txHash)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 font-mono text-xs text-muted-foreground hover:text-foreground"
+        >
+          {state.txHash.slice(0, 8)}
+          <ExternalLink className="w-3 h-3" />
+        </a>
+      )}
+    </p>
+  )
+}
+
+// ============ FORWARDER ============
+
+function ForwarderPanel({ account }: { account: Account }) {
+  const [stats, setStats] = useState<ForwarderStats | null>(null)
+  const [owner, setOwner] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [action, setAction] = useState<ActionState | null>(null)
+
+  const [maxGasInput, setMaxGasInput] = useState("")
+  const [fundAmount, setFundAmount] = useState("")
+  const [withdrawTo, setWithdrawTo] = useState("")
+  const [withdrawAmount, setWithdrawAmount] = useState("")
+
+  const loadStats = useCallback(
+    () =>
+      Promise.all([getForwarderStats(), getForwarderOwner()]).then(([nextStats, nextOwner]) => {
+        setStats(nextStats)
+        setOwner(nextOwner)
+        setLoading(false)
+      }),
+    []
+  )
+
+  useEffect(() => {
+    loadStats()
+    const interval = setInterval(loadStats, STATS_POLL_MS)
+    return () => clearInterval(interval)
+  }, [loadStats])
+
+  const isOwner = !!owner && owner.toLowerCase() === account.address.toLowerCase()
+  const isBusy = action?.status === "pending"
+
+  const run = async (
+    label: string,
+    call: Parameters<typeof sendForwarderAdminCall>[1],
+    onSuccess?: () => void
+  ) => {
+    setAction({ status: "pending", message: "Waiting for wallet confirmation..." })
+    const result = await sendForwarderAdminCall(account, call)
+    if (!result.success) {
+      setAction({ status: "error", message: result.error || `Failed to ${label}` })
+      return
+    }
+    onSuccess?.()
+    setAction({ status: "success", message: `Forwarder ${label} confirmed`, txHash: result.txHash })
+    await loadStats()
+  }
+
+  const handleSetMaxGas = () => {
+    const maxGasLimit = Number(maxGasInput)
+    if (!Number.isInteger(maxGasLimit) || maxGasLimit <= 0) {
+      setAction({ status: "error", message: "Gas limit must be a positive whole number" })
+      return
+    }
+    run("gas limit update", { method: "setMaxGasLimit", maxGasLimit }, () => setMaxGasInput(""))
+  }
+
+  const handleFund = () => {
+    if (!isEthAmount(fundAmount)) {
+      setAction({ status: "error", message: "Enter an ETH amount greater than 0" })
+      return
+    }
+    run("funding", { method: "fund", amount: toWei(fundAmount) }, () => setFundAmount(""))
+  }
+
+  const handleWithdraw = () => {
+    const to = withdrawTo.trim()
+    if (!isAddress(to)) {
+      setAction({ status: "error", message: "Enter a valid recipient address (0x...)" })
+      return
+    }
+    if (!isEthAmount(withdrawAmount)) {
+      setAction({ status: "error", message: "Enter an ETH amount greater than 0" })
+      return
+    }
+    const amount = toWei(withdrawAmount)
+    if (stats && amount > stats.balance) {
+      setAction({ status: "error", message: "Amount exceeds the forwarder balance" })
+      return
+    }
+    run("withdrawal", { method: "withdraw", to, amount }, () => setWithdrawAmount(""))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Zap className="w-4 h-4" />
+            Gasless Relay Forwarder
+          </CardTitle>
+          <a
+            href={getAddressExplorerUrl(CONTRACT_ADDRESSES.forwarder)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 font-mono text-xs text-muted-foreground hover:text-foreground"
+          >
+            {shortAddress(CONTRACT_ADDRESSES.forwarder)}
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading forwarder stats...
+          </div>
+        ) : !stats ? (
+          <p className="py-8 text-center text-sm text-red-600">Failed to read forwarder stats</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="p-3 rounded-lg bg-secondary">
+              <p className={`text-lg font-bold ${stats.isPaused ? "text-red-600" : "text-emerald-600"}`}>
+                {stats.isPaused ? "Paused" : "Active"}
+              </p>
+              <p className="text-xs text-muted-foreground">Status</p>
+            </div>
+            <div className="p-3 rounded-lg bg-secondary">
+              <p className="text-lg font-bold">{Number(toEther(stats.balance)).toLocaleString(undefined, { maximumFractionDigits: 6 })} ETH</p>
+              <p className="text-xs text-muted-foreground">Balance</p>
+            </div>
+            <div className="p-3 rounded-lg bg-secondary">
+              <p className="text-lg font-bold">{stats.maxGasLimit.toLocaleString()}</p>
+              <p className="text-xs text-muted-foreground">Max Gas per Call</p>
+            </div>
+            <div className="p-3 rounded-lg bg-secondary">
+              <p className="text-lg font-bold">{stats.totalRelayed.toLocaleString()}</p>
+              <p className="text-xs text-muted-foreground">Relayed Transactions</p>
+            </div>
+          </div>
+        )}
+
+        {owner && !isOwner && (
+          <p className="text-sm text-amber-600 flex items-center gap-2">
+            <AlertCircle className="w-4 h-4" />
+            Pause, gas limit and withdrawals are limited to the forwarder owner {shortAddress(owner)}. Anyone can fund it.
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>Relay Status</Label>
+            {stats?.isPaused ? (
+              <Button variant="outline" onClick={() => run("unpause", { method: "unpause" })} disabled={!isOwner || isBusy}>
+                <Play className="w-4 h-4 mr-2" />
+                Unpause Relay
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => run("pause", { method: "pause" })} disabled={!isOwner || isBusy || !stats}>
+                <Pause className="w-4 h-4 mr-2" />
+                Pause Relay
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="max-gas">Max Gas Limit</Label>
+            <div className="flex gap-2">
+              <Input
+                id="max-gas"
+                inputMode="numeric"
+                placeholder={stats ? String(stats.maxGasLimit) : "500000"}
+                value={maxGasInput}
+                onChange={(e) => setMaxGasInput(e.target.value)}
+                disabled={!isOwner}
+              />
+              <Button variant="outline" onClick={handleSetMaxGas} disabled={!isOwner || isBusy || !maxGasInput}>
+                <Fuel className="w-4 h-4 mr-2" />
+                Set
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="fund-amount">Fund (ETH)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="fund-amount"
+                inputMode="decimal"
+                placeholder="0.05"
+                value={fundAmount}
+                onChange={(e) => setFundAmount(e.target.value)}
+              />
+              <Button variant="outline" onClick={handleFund} disabled={isBusy || !fundAmount}>
+                Fund
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="withdraw-to">Withdraw (ETH)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="withdraw-to"
+                placeholder="Recipient 0x..."
+                value={withdrawTo}
+                onChange={(e) => setWithdrawTo(e.target.value)}
+                disabled={!isOwner}
+              />
+              <Input
+                aria-label="Withdraw amount"
+                inputMode="decimal"
+                placeholder="0.05"
+                className="w-28"
+                value={withdrawAmount}
+                onChange={(e) => setWithdrawAmount(e.target.value)}
+                disabled={!isOwner}
+              />
+              <Button variant="outline" onClick={handleWithdraw} disabled={!isOwner || isBusy || !withdrawTo || !withdrawAmount}>
+                Withdraw
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <ActionNotice state={action} />
+      </CardContent>
+    </Card>
+  )
+}
+
+// ============ HOSPITAL REGISTRY ============
+
+function RegistryPanel({ account }: { account: Account }) {
+  const [registry, setRegistry] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [newRegistry, setNewRegistry] = useState("")
+  const [action, setAction] = useState<ActionState | null>(null)
+
+  useEffect(() => {
+    getHospitalRegistryAddress()
+      .then(setRegistry)
+      .finally(() => setLoading(false))
+  }, [])
+
+  const handleUpdate = async () => {
+    const address = newRegistry.trim()
+    if (!isAddress(address)) {
+      setAction({ status: "error", message: "Enter a valid registry address (0x...)" })
+      return
+    }
+
+    setAction({ status: "pending", message: "Waiting for wallet confirmation..." })
+    const result = await setHospitalRegistry(account, address)
+    if (!result.success) {
+      setAction({ status: "error", message: result.error || "Failed to update hospital registry" })
+      return
+    }
+
+    setNewRegistry("")
+    setRegistry(address)
+    setAction({
+      status: "success",
+      message: address === ZERO_ADDRESS ? "Registry disabled" : "Hospital registry updated",
+      txHash: result.txHash,
+    })
+  }
+
+  const isDisabled = registry === ZERO_ADDRESS
+  const differsFromConfig = !!registry && !isDisabled && registry.toLowerCase() !== CONTRACT_ADDRESSES.hospitalRegistry.toLowerCase()
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Landmark className="w-4 h-4" />
+          Hospital Registry
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="text-sm">
+          <p className="text-muted-foreground mb-1">Hospitals verified in this registry are authorized without being whitelisted.</p>
+          {loading ? (
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          ) : registry === null ? (
+            <p className="text-red-600">Failed to read the current registry</p>
+          ) : isDisabled ? (
+            <p className="font-medium">No registry set; only whitelisted hospitals are authorized</p>
+          ) : (
+            <a
+              href={getAddressExplorerUrl(registry)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 font-mono hover:underline"
+            >
+              {registry}
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          )}
+          {differsFromConfig && (
+            <p className="text-xs text-amber-600 mt-1">
+              Differs from NEXT_PUBLIC_HOSPITAL_REGISTRY_ADDRESS, which the app uses for registration and lookups
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="new-registry">New Registry Address</Label>
+          <div className="flex gap-2">
+            <Input
+              id="new-registry"
+              placeholder={`0x... (${shortAddress(ZERO_ADDRESS)} disables the registry)`}
+              value={newRegistry}
+              onChange={(e) => setNewRegistry(e.target.value)}
+            />
+            <Button variant="outline" onClick={handleUpdate} disabled={action?.status === "pending" || !newRegistry}>
+              Update
+            </Button>
+          </div>
+        </div>
+
+        <ActionNotice state={action} />
+      </CardContent>
+    </Card>
+  )
+}
+
+// ============ WHITELIST ============
+
+function WhitelistPanel({ account }: { account: Account }) {
+  const [hospitals, setHospitals] = useState<WhitelistedHospital[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [confirmRemove, setConfirmRemove] = useState<string | null>(null)
+  const [action, setAction] = useState<ActionState | null>(null)
+
+  const [showAddForm, setShowAddForm] = useState(false)
+  const [newAddress, setNewAddress] = useState("")
+  const [newName, setNewName] = useState("")
+
+  const loadHospitals = useCallback(async () => {
+    setHospitals(await getWhitelistedHospitals())
+    setError(null)
+  }, [])
+
+  useEffect(() => {
+    loadHospitals()
+      .catch(() => setError("Failed to load whitelist events"))
+      .finally(() => setLoading(false))
+  }, [loadHospitals])
+
+  const handleRefresh = async () => {
+    setLoading(true)
+    try {
+      await loadHospitals()
+    } catch {
+      setError("Failed to load whitelist events")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const isBusy = action?.status === "pending"
+
+  const handleRemove = async (hospital: WhitelistedHospital) => {
+    setConfirmRemove(null)
+    setAction({ status: "pending", message: `Removing ${hospital.name}...` })
+
+    const result = await removeHospitalFromWhitelist(account, hospital.address)
+    if (!result.success) {
+      setAction({ status: "error", message: result.error || "Failed to remove hospital" })
+      return
+    }
+
+    setHospitals((prev) => prev.filter((h) => h.address !== hospital.address))
+    setAction({ status: "success", message: `${hospital.name} removed from the whitelist`, txHash: result.txHash })
+  }
+
+  const handleAdd = async () => {
+    const address = newAddress.trim()
+    const name = newName.trim()
+    if (!isAddress(address)) {
+      setAction({ status: "error", message: "Enter a valid hospital wallet address (0x...)" })
+      return
+    }
+    if (!name) {
+      setAction({ status: "error", message: "Enter the hospital name" })
+      return
+    }
+
+    setAction({ status: "pending", message: "Waiting for wallet confirmation..." })
+    const result = await whitelistHospital(account, address, name)
+    if (!result.success) {
+      setAction({ status: "error", message: result.error || "Failed to whitelist hospital" })
+      return
+    }
+
+    setShowAddForm(false)
+    setNewAddress("")
+    setNewName("")
+    setAction({ status: "success", message: `${name} whitelisted`, txHash: result.txHash })
+    await loadHospitals().catch(() => setError("Failed to load whitelist events"))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Building2 className="w-4 h-4" />
+            Whitelisted Hospitals
+            <span className="text-sm font-normal text-muted-foreground">({hospitals.length})</span>
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleRefresh} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={() => setShowAddForm((open) => !open)} disabled={isBusy}>
+              <Plus className="w-4 h-4 mr-2" />
+              Whitelist Hospital
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showAddForm && (
+          <div className="grid grid-cols-1 md:grid-cols-[2fr_2fr_auto] gap-3 items-end p-4 rounded-lg border border-border">
+            <div className="space-y-2">
+              <Label htmlFor="hospital-address">Wallet Address</Label>
+              <Input id="hospital-address" placeholder="0x..." value={newAddress} onChange={(e) => setNewAddress(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="hospital-name">Hospital Name</Label>
+              <Input id="hospital-name" placeholder="RS Sehat Sentosa" value={newName} onChange={(e) => setNewName(e.target.value)} />
+            </div>
+            <Button onClick={handleAdd} disabled={isBusy}>Whitelist</Button>
+          </div>
+        )}
+
+        <ActionNotice state={action} />
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading whitelist events...
+          </div>
+        ) : error ? (
+          <p className="py-12 text-center text-sm text-red-600">{error}</p>
+        ) : hospitals.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">No hospitals on the local whitelist</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Hospital</TableHead>
+                <TableHead className="hidden md:table-cell">Wallet</TableHead>
+                <TableHead className="hidden sm:table-cell">Whitelisted</TableHead>
+                <TableHead className="text-right">Action</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {hospitals.map((hospital) => (
+                <TableRow key={hospital.address}>
+                  <TableCell className="font-medium">{hospital.name || "Unnamed hospital"}</TableCell>
+                  <TableCell className="hidden md:table-cell font-mono text-sm text-muted-foreground">
+                    {shortAddress(hospital.address)}
+                  </TableCell>
+                  <TableCell className="hidden sm:table-cell text-sm text-muted-foreground">
+                    <a
+                      href={getExplorerUrl(hospital.txHash)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 hover:text-foreground"
+                    >
+                      {hospital.whitelistedAt ? new Date(hospital.whitelistedAt * 1000).toLocaleDateString() : "-"}
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {confirmRemove === hospital.address ? (
+                      <div className="inline-flex gap-2">
+                        <Button variant="destructive" size="sm" onClick={() => handleRemove(hospital)} disabled={isBusy}>
+                          Confirm
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setConfirmRemove(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setConfirmRemove(hospital.address)}
+                        disabled={isBusy}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Remove
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+// ============ USAGE ============
+
+function UsagePanel() {
+  const [report, setReport] = useState<UsageReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [showIps, setShowIps] = useState(false)
+
+  const loadUsage = useCallback(
+    () =>
+      getApiUsage().then((result) => {
+        setReport(result.report ?? null)
+        setError(result.success ? null : result.error || "Failed to load usage")
+        setLoading(false)
+      }),
+    []
+  )
+
+  useEffect(() => {
+    loadUsage()
+  }, [loadUsage])
+
+  const handleRefresh = () => {
+    setLoading(true)
+    loadUsage()
+  }
+
+  const entries = report?.entries.filter((entry) => entry.kind === (showIps ? "ip" : "wallet")) ?? []
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Activity className="w-4 h-4" />
+            API Usage
+            {report && <span className="text-sm font-normal text-muted-foreground">({report.day} UTC)</span>}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowIps((ips) => !ips)}>
+              {showIps ? "By Wallet" : "By IP"}
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleRefresh} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-2">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+
+        {loading && !report ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading usage...
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">No paid API calls today</p>
+        ) : (
+          report && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{showIps ? "IP" : "Wallet"}</TableHead>
+                  <TableHead>Route</TableHead>
+                  <TableHead className="hidden sm:table-cell">Last Minute</TableHead>
+                  <TableHead>Today</TableHead>
+                  <TableHead className="hidden md:table-cell">Rejected</TableHead>
+                  <TableHead className="hidden md:table-cell">Last Seen</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => {
+                  const limit = report.limits[entry.route]
+                  const windowLimit = showIps ? limit.perIp : limit.perWallet
+                  const quota = entry.role ? limit.dailyQuota[entry.role] : undefined
+                  const nearQuota = quota !== undefined && entry.dayCount >= quota * 0.8
+
+                  return (
+                    <TableRow key={`${entry.route}:${entry.subject}`}>
+                      <TableCell className="font-mono text-sm">
+                        {showIps ? entry.subject : shortAddress(entry.subject)}
+                        {entry.role && <span className="ml-2 font-sans text-xs text-muted-foreground capitalize">{entry.role}</span>}
+                      </TableCell>
+                      <TableCell className="text-sm">{limit.label}</TableCell>
+                      <TableCell className="hidden sm:table-cell text-sm text-muted-foreground">
+                        {entry.hits.length} / {windowLimit}
+                      </TableCell>
+                      <TableCell className={`text-sm ${nearQuota ? "text-amber-600 font-medium" : ""}`}>
+                        {entry.dayCount}
+                        {quota !== undefined && <span className="text-muted-foreground"> / {quota}</span>}
+                      </TableCell>
+                      <TableCell className={`hidden md:table-cell text-sm ${entry.rejectedToday > 0 ? "text-red-600" : "text-muted-foreground"}`}>
+                        {entry.rejectedToday}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell text-sm text-muted-foreground">
+                        {new Date(entry.lastSeen).toLocaleTimeString()}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function AdminConsole() {
+  // AdminShell renders children only once an admin wallet is connected
+  const account = useActiveAccount()
+  if (!account) return null
+
+  return (
+    <div className="space-y-6">
+      <ForwarderPanel account={account} />
+      <RegistryPanel account={account} />
+      <WhitelistPanel account={account} />
+      <UsagePanel />
+    </div>
+  )
+}
+
+export default function AdminPage() {
+  return (
+    <AdminShell
+      title="Operations"
+      description="Manage hospital access, the hospital registry, the gasless relay forwarder and API usage limits"
+    >
+      <AdminConsole />
+    </AdminShell>
+  )
+}
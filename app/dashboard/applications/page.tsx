@@ -0,0 +1,325 @@
+"use client"
+
+import { useState, useMemo, useEffect, useCallback } from "react"
+import { useActiveAccount } from "thirdweb/react"
+import { type Account } from "thirdweb/wallets"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import {
+  AlertCircle,
+  CheckCircle2,
+  ExternalLink,
+  FileText,
+  Loader2,
+  RefreshCw,
+  ShieldQuestion,
+  XCircle,
+} from "lucide-react"
+import { AdminShell } from "@/components/admin-shell"
+import { hospitalTypeLabels } from "@/lib/hospitalStorage"
+import { getExplorerUrl } from "@/lib/services/blockchain"
+import {
+  getApplicationDocumentUrl,
+  listHospitalApplications,
+  reviewHospitalApplication,
+  type ApplicationReview,
+  type ApplicationStatus,
+  type LicenseCheckStatus,
+} from "@/lib/services/registration"
+
+const statusStyles: Record<ApplicationStatus, string> = {
+  pending: "bg-amber-100 text-amber-700",
+  approved: "bg-green-100 text-green-700",
+  rejected: "bg-red-100 text-red-700",
+}
+
+const licenseStyles: Record<LicenseCheckStatus, { label: string; className: string }> = {
+  match: { label: "Matches license register", className: "bg-emerald-500/10 text-emerald-600" },
+  partial: { label: "Differs from license register", className: "bg-amber-500/10 text-amber-600" },
+  not_found: { label: "Not in license register", className: "bg-red-500/10 text-red-600" },
+  unavailable: { label: "No license dataset", className: "bg-muted text-muted-foreground" },
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+
+function ApplicationQueue({ account }: { account: Account }) {
+  const [applications, setApplications] = useState<ApplicationReview[]>([])
+  const [datasetSize, setDatasetSize] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showAll, setShowAll] = useState(false)
+
+  const [processing, setProcessing] = useState<string | null>(null)
+  const [rejecting, setRejecting] = useState<string | null>(null)
+  const [rejectReason, setRejectReason] = useState("")
+  const [actionError, setActionError] = useState<{ address: string; message: string } | null>(null)
+
+  const loadApplications = useCallback(
+    () =>
+      listHospitalApplications().then((result) => {
+        if (result.success && result.applications) {
+          setApplications(result.applications)
+          setDatasetSize(result.datasetSize ?? 0)
+          setError(null)
+        } else {
+          setError(result.error || "Failed to load applications")
+        }
+        setLoading(false)
+      }),
+    []
+  )
+
+  useEffect(() => {
+    loadApplications()
+  }, [loadApplications])
+
+  const handleRefresh = () => {
+    setLoading(true)
+    loadApplications()
+  }
+
+  const handleDecision = async (application: ApplicationReview, decision: "approve" | "reject") => {
+    setProcessing(application.address)
+    setActionError(null)
+
+    const result = await reviewHospitalApplication(
+      account,
+      application,
+      decision,
+      decision === "reject" ? rejectReason.trim() : ""
+    )
+    setProcessing(null)
+
+    if (!result.success || !result.application) {
+      setActionError({ address: application.address, message: result.error || "Review failed" })
+      return
+    }
+
+    const updated = result.application
+    setApplications((prev) =>
+      prev.map((a) => (a.address === updated.address ? { ...updated, licenseCheck: a.licenseCheck } : a))
+    )
+    setRejecting(null)
+    setRejectReason("")
+  }
+
+  const visible = useMemo(
+    () => (showAll ? applications : applications.filter((a) => a.status === "pending" || (a.status === "approved" && !a.whitelistTxHash))),
+    [applications, showAll]
+  )
+  const pendingCount = applications.filter((a) => a.status === "pending").length
+
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {pendingCount} pending · {datasetSize > 0 ? `${datasetSize.toLocaleString()} licenses in register` : "No license dataset loaded"}
+        </p>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setShowAll((all) => !all)}>
+            {showAll ? "Show Open Only" : "Show All"}
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleRefresh} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading && applications.length === 0 ? (
+        <div className="py-12 flex justify-center">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="py-12 text-center text-sm text-muted-foreground">No applications waiting for review</p>
+      ) : (
+        visible.map((application) => {
+          const check = licenseStyles[application.licenseCheck.status]
+          const isProcessing = processing === application.address
+
+          return (
+            <Card key={application.address}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-base">{application.name}</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {hospitalTypeLabels[application.hospitalType]} · {application.city} · License {application.licenseNumber}
+                    </p>
+                  </div>
+                  <span className={`px-2 py-1 rounded-md text-xs font-medium capitalize ${statusStyles[application.status]}`}>
+                    {application.status}
+                  </span>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div className="space-y-1">
+                    <p className="text-muted-foreground">Facility</p>
+                    <p>{application.physicalAddress}</p>
+                    <p>{application.phone}</p>
+                    <p className="font-mono text-xs text-muted-foreground break-all">{application.address}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-muted-foreground">Person in charge</p>
+                    <p>
+                      {application.picName}
+                      {application.picPosition && <span className="text-muted-foreground"> · {application.picPosition}</span>}
+                    </p>
+                    <p>{application.picPhone}</p>
+                    <p>{application.picEmail}</p>
+                  </div>
+                </div>
+
+                <div className="p-3 rounded-lg border border-border space-y-2">
+                  <span className={`inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded font-medium ${check.className}`}>
+                    {application.licenseCheck.status === "match" ? (
+                      <CheckCircle2 className="w-3 h-3" />
+                    ) : (
+                      <ShieldQuestion className="w-3 h-3" />
+                    )}
+                    {check.label}
+                  </span>
+                  {application.licenseCheck.record && (
+                    <p className="text-xs text-muted-foreground">
+                      Register: {application.licenseCheck.record.name}
+                      {application.licenseCheck.record.city && ` · ${application.licenseCheck.record.city}`}
+                      {application.licenseCheck.record.status && ` · ${application.licenseCheck.record.status}`}
+                      {application.licenseCheck.record.expiresAt && ` · valid until ${application.licenseCheck.record.expiresAt}`}
+                    </p>
+                  )}
+                  {application.licenseCheck.issues.map((issue) => (
+                    <p key={issue} className="text-xs text-amber-600 flex items-center gap-1">
+                      <AlertCircle className="w-3 h-3" />
+                      {issue}
+                    </p>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {application.documents.map((doc) => (
+                    <Button key={doc.id} variant="outline" size="sm" asChild>
+                      <a href={getApplicationDocumentUrl(application.address, doc.id)} target="_blank" rel="noopener noreferrer">
+                        <FileText className="w-4 h-4 mr-1" />
+                        {doc.name}
+                        <span className="text-muted-foreground ml-1">({formatSize(doc.size)})</span>
+                      </a>
+                    </Button>
+                  ))}
+                </div>
+
+                <p className="text-xs text-muted-foreground">
+                  Submitted {new Date(application.submittedAt * 1000).toLocaleString()}
+                  {application.reviewedAt && ` · reviewed ${new Date(application.reviewedAt * 1000).toLocaleString()}`}
+                </p>
+
+                {application.status === "rejected" && application.rejectionReason && (
+                  <p className="text-sm text-red-600">Rejected: {application.rejectionReason}</p>
+                )}
+
+                {application.status === "approved" && (
+                  application.whitelistTxHash ? (
+                    <a
+                      href={getExplorerUrl(application.whitelistTxHash)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-sm text-emerald-600 hover:text-emerald-700"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                      Whitelisted on-chain
+                    </a>
+                  ) : (
+                    <p className="text-sm text-amber-600">
+                      Registry signature issued, but whitelisting failed{application.whitelistError && `: ${application.whitelistError}`}
+                    </p>
+                  )
+                )}
+
+                {actionError?.address === application.address && (
+                  <p className="text-sm text-red-600 flex items-center gap-2">
+                    <AlertCircle className="w-4 h-4" />
+                    {actionError.message}
+                  </p>
+                )}
+
+                {rejecting === application.address ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={rejectReason}
+                      onChange={(e) => setRejectReason(e.target.value)}
+                      placeholder="Reason shown to the applicant, e.g. license number does not match the uploaded permit"
+                      rows={2}
+                      maxLength={500}
+                      className="flex w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring resize-none"
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleDecision(application, "reject")}
+                        disabled={isProcessing || !rejectReason.trim()}
+                      >
+                        {isProcessing && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                        Reject Application
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setRejecting(null)} disabled={isProcessing}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : application.status === "pending" ? (
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleDecision(application, "approve")} disabled={!!processing}>
+                      {isProcessing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <CheckCircle2 className="w-4 h-4 mr-1" />}
+                      Approve & Whitelist
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setRejecting(application.address)
+                        setRejectReason("")
+                      }}
+                      disabled={!!processing}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <XCircle className="w-4 h-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                ) : application.status === "approved" && !application.whitelistTxHash ? (
+                  <Button size="sm" variant="outline" onClick={() => handleDecision(application, "approve")} disabled={!!processing}>
+                    {isProcessing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-1" />}
+                    Retry Whitelist
+                  </Button>
+                ) : null}
+              </CardContent>
+            </Card>
+          )
+        })
+      )}
+    </div>
+  )
+}
+
+function ApplicationReviewConsole() {
+  // AdminShell renders children only once an admin wallet is connected
+  const account = useActiveAccount()
+  if (!account) return null
+  return <ApplicationQueue account={account} />
+}
+
+export default function ApplicationsPage() {
+  return (
+    <AdminShell
+      title="Hospital Applications"
+      description="Check registrations against the facility license register and uploaded documents before they are whitelisted"
+    >
+      <ApplicationReviewConsole />
+    </AdminShell>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useActiveAccount, ConnectButton } from "thirdweb/react";
 import { client, hospitalTheme, wallets, liskSepolia } from "@/lib/thirdWeb";
+import { siweAuth } from "@/lib/services/auth";
 import { useRouter } from "next/navigation";
 import { useState, useEffect, useRef } from "react";
 import jsQR from "jsqr";
@@ -21,7 +22,9 @@ import {
   Send,
   Printer,
   RefreshCw,
-  Loader2
+  Loader2,
+  History,
+  AlertTriangle
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -31,13 +34,59 @@ import {
   requestPatientAccess, 
   checkAccess, 
   hasPatientIdentity,
+  redeemSignedGrant,
   addMedicalRecord,
   createDataHash,
   getPatientRecords,
   hasHospitalProfile,
   getHospitalProfile as getHospitalProfileFromChain
 } from "@/lib/services/blockchain";
-import { uploadMedicalRecord, getMedicalRecord, type MedicalRecordData } from "@/lib/services/ipfs";
+import {
+  uploadMedicalRecord,
+  getMedicalRecord,
+  checkDataHash,
+  type IntegrityResult,
+  type MedicalRecordData,
+  type RecordAmendment,
+  type TypedRecordData
+} from "@/lib/services/ipfs";
+import { prefetchIpfsContent } from "@/lib/services/retrieval";
+import { collapseRecordChains } from "@/lib/services/amendments";
+import { selectAttachmentFiles, type AttachmentRef } from "@/lib/services/attachments";
+import { ensureEncryptionKey } from "@/lib/services/encryption";
+import { lookupPatient, formatPatientId, type DirectoryMatch } from "@/lib/services/directory";
+import { validateIcd10Code } from "@/lib/services/icd10";
+import {
+  OCR_FIELD_LABELS,
+  getUnconfirmedOcrFields,
+  type OcrField,
+  type OcrResult,
+  type OcrReview
+} from "@/lib/services/ocr";
+import {
+  RECORD_KINDS,
+  emptyRecordFields,
+  normalizeRecordKind,
+  summarizeRecordFields,
+  validateRecordFields,
+  type RecordKind,
+  type TypedRecordFields
+} from "@/lib/services/records";
+import { Icd10Autocomplete, Icd10Info } from "@/components/icd10-fields";
+import { RecordKindBadge, RecordKindDetails, RecordKindForm, RecordKindSelector } from "@/components/record-kind-fields";
+import { RecordVersionHistory } from "@/components/record-version-history";
+import { AttachmentPicker, RecordAttachments, collectRecordAttachments } from "@/components/record-attachments";
+import { IntegrityBadge, VerifyAllRecords } from "@/components/record-integrity";
+import { OCRUploadSection, OcrFieldEvidence, OcrSourceBadge } from "@/components/ocr-upload";
+import { FhirImportSection } from "@/components/fhir-import";
+import {
+  parsePatientQR,
+  redeemPatientQR,
+  isOpenConsent,
+  PATIENT_QR_TYPE,
+  CONSENT_QR_TYPE,
+  type SignedConsentQR
+} from "@/lib/services/qr";
 
 // Types
 interface ScannedPatientData {
@@ -71,8 +120,78 @@ interface MedicalRecordInput {
   dokterPenanggungJawab: string;
 }
 
+// Decrypted record from the patient's on-chain history
+interface HistoryRecord {
+  id: number;
+  ipfsCid: string;
+  dataHash: string;
+  integrity: IntegrityResult; // Decrypted content checked against dataHash
+  noRekamMedik: string;
+  tanggalMasuk: string;
+  tanggalKeluar: string;
+  diagnosisUtama: string;
+  icdCode: string;
+  diagnosisSekunder: string;
+  keluhan: string;
+  riwayatAlergi: string;
+  tindakan: string;
+  resepObat: string;
+  keadaanKeluar: string;
+  dokterPenanggungJawab: string;
+  hospital: string;
+  hospitalAddress: string;
+  timestamp: number;
+  isVerified: boolean;
+  recordType: string;
+  fields?: TypedRecordFields; // Set for typed (non-diagnosis) records
+  attachments?: AttachmentRef[];
+  amends?: RecordAmendment;
+  previousVersions: HistoryRecord[]; // Superseded versions, oldest first
+}
+
+// Record being corrected by the form (the new record supersedes it)
+interface PendingAmendment extends RecordAmendment {
+  label: string;
+}
+
 type FlowStep = "search" | "input" | "success";
 
+// Build patient display data for a wallet address (local profile first, then on-chain identity)
+async function resolvePatient(address: string): Promise<ScannedPatientData | null> {
+  const localPatientData = getPatientData(address);
+
+  if (localPatientData) {
+    // Found in localStorage - use actual patient data
+    return {
+      type: "medichain_patient",
+      walletAddress: localPatientData.walletAddress,
+      name: localPatientData.name,
+      nik: localPatientData.nik,
+      bloodType: localPatientData.bloodType,
+      gender: localPatientData.gender,
+      age: localPatientData.age,
+      isManualEntry: false,
+    };
+  }
+
+  // Not in localStorage - check if registered on blockchain
+  const isRegistered = await hasPatientIdentity(address);
+  if (!isRegistered) return null;
+
+  // Patient exists on blockchain but no local data
+  // Create entry with wallet address, hospital can still request access
+  return {
+    type: "medichain_patient",
+    walletAddress: address,
+    name: "Verified Patient",
+    nik: address.slice(0, 10) + "...",
+    bloodType: "-",
+    gender: "-",
+    age: 0,
+    isManualEntry: true,
+  };
+}
+
 export default function HospitalDashboard() {
   const account = useActiveAccount();
   const router = useRouter();
@@ -100,10 +219,28 @@ export default function HospitalDashboard() {
   const [showScanner, setShowScanner] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // Records imported from a FHIR bundle, waiting to be loaded into the form one by one
+  const [importQueue, setImportQueue] = useState<MedicalRecordInput[]>([]);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+
+  // Set while the form amends one of this hospital's existing records
+  const [amendment, setAmendment] = useState<PendingAmendment | null>(null);
+
+  // Kind of record the form creates; non-diagnosis kinds fill schema fields instead of the discharge form
+  const [recordKind, setRecordKind] = useState<RecordKind>("DIAGNOSIS");
+  const [typedFields, setTypedFields] = useState<TypedRecordFields>({});
+
+  // Files to encrypt and attach to the record being entered
+  const [attachmentFiles, setAttachmentFiles] = useState<File[]>([]);
+
+  // OCR output in the form; low-confidence values must be confirmed before pushing
+  const [ocrReview, setOcrReview] = useState<OcrReview | null>(null);
   
   // Hospital data
   const [hospitalData, setHospitalData] = useState<HospitalData | null>(null);
   const [isLoadingHospital, setIsLoadingHospital] = useState(true);
+  const [encryptionError, setEncryptionError] = useState<string | null>(null);
 
   useEffect(() => {
     const checkAndLoadHospital = async () => {
@@ -169,6 +306,16 @@ export default function HospitalDashboard() {
     checkAndLoadHospital();
   }, [account, router]);
 
+  // Hospitals need their own encryption key to read records shared with them
+  const hasHospitalData = !!hospitalData;
+  useEffect(() => {
+    if (!account || !hasHospitalData) return;
+    
+    ensureEncryptionKey(account).then((result) => {
+      setEncryptionError(result.success ? null : result.error ?? "Failed to set up encryption key");
+    });
+  }, [account, hasHospitalData]);
+
   if (!account) {
     return null;
   }
@@ -193,35 +340,77 @@ export default function HospitalDashboard() {
 
   const handleSubmitRecord = async () => {
     if (!patient || !account || !hospitalData) return;
+
+    const unconfirmed = ocrReview && recordKind === "DIAGNOSIS" ? getUnconfirmedOcrFields(ocrReview, medicalRecord) : [];
+    if (unconfirmed.length > 0) {
+      setSubmitError(`Confirm the low-confidence OCR values first: ${unconfirmed.map((field) => OCR_FIELD_LABELS[field]).join(", ")}`);
+      return;
+    }
     
     setIsSubmitting(true);
     setSubmitError(null);
     
     try {
-      // 1. Prepare medical record data for IPFS
-      const ipfsRecordData: MedicalRecordData = {
-        patientAddress: patient.walletAddress,
-        noRekamMedik: medicalRecord.noRekamMedik,
-        tanggalMasuk: medicalRecord.tanggalMasuk,
-        tanggalKeluar: medicalRecord.tanggalKeluar,
-        diagnosisUtama: medicalRecord.diagnosisUtama,
-        icdCode: medicalRecord.icdCode,
-        diagnosisSekunder: medicalRecord.diagnosisSekunder,
-        keluhan: medicalRecord.keluhan,
-        riwayatAlergi: medicalRecord.riwayatAlergi,
-        tindakan: medicalRecord.tindakan,
-        resepObat: medicalRecord.resepObat,
-        keadaanKeluar: medicalRecord.keadaanKeluar,
-        dokterPenanggungJawab: medicalRecord.dokterPenanggungJawab,
-        hospitalAddress: account.address,
-        hospitalName: hospitalData.name,
-        timestamp: Math.floor(Date.now() / 1000),
-        recordType: "DIAGNOSIS",
-      };
+      const amends = amendment
+        ? { ipfsCid: amendment.ipfsCid, dataHash: amendment.dataHash, reason: amendment.reason.trim() }
+        : undefined;
+      let ipfsRecordData: MedicalRecordData | TypedRecordData;
+      let icdCode: string;
+
+      if (recordKind !== "DIAGNOSIS") {
+        // 0. Typed records are checked against their kind's schema before anything is uploaded
+        const errors = validateRecordFields(recordKind, typedFields);
+        if (errors.length > 0) {
+          throw new Error(errors.join("; "));
+        }
+        icdCode = summarizeRecordFields(recordKind, typedFields).icdCode;
+        const { icdField } = RECORD_KINDS[recordKind];
+
+        // 1. Prepare the typed payload for IPFS
+        ipfsRecordData = {
+          patientAddress: patient.walletAddress,
+          recordType: recordKind,
+          fields: icdField ? { ...typedFields, [icdField]: icdCode } : typedFields,
+          icdCode,
+          hospitalAddress: account.address,
+          hospitalName: hospitalData.name,
+          timestamp: Math.floor(Date.now() / 1000),
+          ...(amends && { amends }),
+        };
+      } else {
+        // 0. The ICD-10 code is written on-chain permanently, so malformed codes never leave the form
+        const icd = medicalRecord.icdCode ? validateIcd10Code(medicalRecord.icdCode) : null;
+        if (icd?.status === "invalid") {
+          throw new Error(icd.message);
+        }
+        icdCode = icd?.code ?? "";
+
+        // 1. Prepare medical record data for IPFS
+        ipfsRecordData = {
+          patientAddress: patient.walletAddress,
+          noRekamMedik: medicalRecord.noRekamMedik,
+          tanggalMasuk: medicalRecord.tanggalMasuk,
+          tanggalKeluar: medicalRecord.tanggalKeluar,
+          diagnosisUtama: medicalRecord.diagnosisUtama,
+          icdCode,
+          diagnosisSekunder: medicalRecord.diagnosisSekunder,
+          keluhan: medicalRecord.keluhan,
+          riwayatAlergi: medicalRecord.riwayatAlergi,
+          tindakan: medicalRecord.tindakan,
+          resepObat: medicalRecord.resepObat,
+          keadaanKeluar: medicalRecord.keadaanKeluar,
+          dokterPenanggungJawab: medicalRecord.dokterPenanggungJawab,
+          hospitalAddress: account.address,
+          hospitalName: hospitalData.name,
+          timestamp: Math.floor(Date.now() / 1000),
+          recordType: "DIAGNOSIS",
+          ...(amends && { amends }),
+        };
+      }
       
       // 2. Upload encrypted data to IPFS
       console.log("Uploading to IPFS...");
-      const ipfsResult = await uploadMedicalRecord(ipfsRecordData);
+      const ipfsResult = await uploadMedicalRecord(ipfsRecordData, attachmentFiles);
       
       if (!ipfsResult.success || !ipfsResult.cid || !ipfsResult.dataHash) {
         throw new Error(ipfsResult.error || "Failed to upload to IPFS");
@@ -236,8 +425,8 @@ export default function HospitalDashboard() {
         patient.walletAddress,
         ipfsResult.cid,
         ipfsResult.dataHash,
-        medicalRecord.icdCode,
-        "DIAGNOSIS"
+        icdCode,
+        recordKind
       );
       
       if (!blockchainResult.success) {
@@ -246,7 +435,21 @@ export default function HospitalDashboard() {
       
       console.log("Blockchain transaction successful:", blockchainResult.txHash);
       
+      setAmendment(null);
+      setAttachmentFiles([]);
+      setOcrReview(null);
+
+      // More imported records to go: load the next one for review instead of finishing
+      if (importQueue.length > 0) {
+        const [next, ...rest] = importQueue;
+        setMedicalRecord(next);
+        setImportQueue(rest);
+        setImportNotice(`Record saved. Loaded the next imported record (${rest.length} more queued).`);
+        return;
+      }
+
       // Success!
+      setImportNotice(null);
       setCurrentStep("success");
     } catch (error) {
       console.error("Error submitting medical record:", error);
@@ -256,6 +459,26 @@ export default function HospitalDashboard() {
     }
   };
 
+  const handleImportRecords = (records: MedicalRecordInput[]) => {
+    if (records.length === 0) return;
+    setAmendment(null);
+    setRecordKind("DIAGNOSIS");
+    setAttachmentFiles([]);
+    setOcrReview(null);
+    setMedicalRecord(records[0]);
+    setImportQueue(records.slice(1));
+    setImportNotice(
+      records.length > 1
+        ? `Loaded imported record 1 of ${records.length}. The rest load after each push.`
+        : "Loaded the imported record. Review it before pushing."
+    );
+  };
+
+  const handleClearImportQueue = () => {
+    setImportQueue([]);
+    setImportNotice(null);
+  };
+
   // Reset form only (stay on input page with same patient)
   const handleResetForm = () => {
     setMedicalRecord({
@@ -272,6 +495,9 @@ export default function HospitalDashboard() {
       keadaanKeluar: "",
       dokterPenanggungJawab: "",
     });
+    setTypedFields(emptyRecordFields(recordKind));
+    setAttachmentFiles([]);
+    setOcrReview(null);
     setCurrentStep("input");
   };
 
@@ -279,6 +505,8 @@ export default function HospitalDashboard() {
   const handleFullReset = () => {
     setCurrentStep("search");
     setPatient(null);
+    setAttachmentFiles([]);
+    setOcrReview(null);
     setMedicalRecord({
       noRekamMedik: "",
       tanggalMasuk: new Date().toISOString().split('T')[0],
@@ -314,6 +542,7 @@ export default function HospitalDashboard() {
           {/* Thirdweb Connect Wallet Button */}
           <ConnectButton 
             client={client} 
+            auth={siweAuth}
             theme={hospitalTheme}
             wallets={wallets}
             chain={liskSepolia}
@@ -323,6 +552,13 @@ export default function HospitalDashboard() {
 
       {/* Main Content */}
       <main className="max-w-6xl mx-auto p-6">
+        {encryptionError && (
+          <div className="mb-6 flex items-start gap-2 rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>{encryptionError}</span>
+          </div>
+        )}
+
         {currentStep === "search" && (
           <SearchPatientStep
             nikInput={nikInput}
@@ -339,9 +575,29 @@ export default function HospitalDashboard() {
             medicalRecord={medicalRecord}
             setMedicalRecord={setMedicalRecord}
             onSubmit={handleSubmitRecord}
-            onBack={() => setCurrentStep("search")}
+            onBack={() => {
+              handleClearImportQueue();
+              setAmendment(null);
+              setAttachmentFiles([]);
+              setOcrReview(null);
+              setCurrentStep("search");
+            }}
             isSubmitting={isSubmitting}
             submitError={submitError}
+            onImportRecords={handleImportRecords}
+            importQueueLength={importQueue.length}
+            importNotice={importNotice}
+            onClearImportQueue={handleClearImportQueue}
+            amendment={amendment}
+            setAmendment={setAmendment}
+            recordKind={recordKind}
+            setRecordKind={setRecordKind}
+            typedFields={typedFields}
+            setTypedFields={setTypedFields}
+            attachments={attachmentFiles}
+            setAttachments={setAttachmentFiles}
+            ocrReview={ocrReview}
+            setOcrReview={setOcrReview}
           />
         )}
 
@@ -357,8 +613,6 @@ export default function HospitalDashboard() {
   );
 }
 
-import { searchPatients, PatientData as StoragePatientData } from "@/lib/patientStorage";
-
 // Step 1: Search Patient
 function SearchPatientStep({
   nikInput,
@@ -373,29 +627,51 @@ function SearchPatientStep({
   setShowScanner: (v: boolean) => void;
   onPatientFound: (data: ScannedPatientData) => void;
 }) {
-  const [searchResults, setSearchResults] = useState<StoragePatientData[]>([]);
-
-  // Search effect
+  const [searchResult, setSearchResult] = useState<DirectoryMatch | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchedQuery, setSearchedQuery] = useState("");
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectError, setSelectError] = useState<string | null>(null);
+
+  // Debounced directory lookup (exact NIK or Medichain ID match, no name search)
   useEffect(() => {
-    if (nikInput.length >= 2) {
-      const results = searchPatients(nikInput);
-      setSearchResults(results);
-    } else {
-      setSearchResults([]);
-    }
+    const query = nikInput.trim();
+    if (query.length < 2) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      const lookup = await lookupPatient(query);
+      if (cancelled) return;
+      setSearchResult(lookup.patient);
+      setSearchError(lookup.success ? null : lookup.error || "Failed to search the patient directory");
+      setSearchedQuery(query);
+      setIsSearching(false);
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
   }, [nikInput]);
 
-  const handleSelectResult = (data: StoragePatientData) => {
-    // Map StoragePatientData to ScannedPatientData format expected by the dashboard
-    onPatientFound({
-      type: "medichain_patient",
-      walletAddress: data.walletAddress,
-      name: data.name,
-      nik: data.nik,
-      gender: data.gender,
-      age: data.age,
-      bloodType: data.bloodType
-    });
+  const hasQuery = nikInput.trim().length >= 2;
+  const currentResult = hasQuery && searchedQuery === nikInput.trim() ? searchResult : null;
+
+  const handleSelectResult = async (match: DirectoryMatch) => {
+    setIsSelecting(true);
+    setSelectError(null);
+    try {
+      const patientData = await resolvePatient(match.walletAddress);
+      if (patientData) {
+        onPatientFound(patientData);
+      } else {
+        setSelectError("This patient is no longer registered in Medichain.");
+      }
+    } finally {
+      setIsSelecting(false);
+    }
   };
 
   return (
@@ -411,7 +687,7 @@ function SearchPatientStep({
           Search Patient Data
         </h1>
         <p className="text-muted-foreground mb-8">
-          Scan QR Code from patient&apos;s app or manually input ID/Name to create a new medical record.
+          Scan QR Code from patient&apos;s app or enter their NIK or Medichain ID to create a new medical record.
         </p>
 
         {/* NIK Input */}
@@ -421,36 +697,69 @@ function SearchPatientStep({
             type="text"
             value={nikInput}
             onChange={(e) => setNikInput(e.target.value)}
-            placeholder="Search Patient Name or ID..."
+            placeholder="Patient NIK or Medichain ID (MC-000123)..."
             className="w-full h-14 pl-12 pr-4 bg-card border border-border rounded-xl text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500"
           />
         </div>
 
-        {/* Search Results */}
-        {searchResults.length > 0 && (
-          <div className="w-full bg-card border border-border rounded-xl shadow-lg mb-6 overflow-hidden text-left max-h-60 overflow-y-auto">
-             {searchResults.map((result) => (
-                <div 
-                  key={result.walletAddress}
-                  onClick={() => handleSelectResult(result)}
-                  className="p-4 hover:bg-muted/50 cursor-pointer border-b last:border-0 transition-colors"
-                >
-                  <p className="font-semibold text-foreground">{result.name}</p>
-                  <div className="flex justify-between text-xs text-muted-foreground mt-1">
-                    <span>ID: {result.nik}</span>
-                    <span>{result.gender} • {result.age} yrs</span>
-                  </div>
-                </div>
-             ))}
-          </div>
+        {/* Search Result */}
+        {currentResult && (
+          <button
+            onClick={() => handleSelectResult(currentResult)}
+            disabled={!currentResult.isRegistered || currentResult.disputed || isSelecting}
+            className="w-full bg-card border border-border rounded-xl shadow-lg mb-6 p-4 text-left hover:bg-muted/50 transition-colors disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="font-semibold text-foreground">
+                  {currentResult.patientId !== null ? formatPatientId(currentResult.patientId) : "Medichain Patient"}
+                </p>
+                <p className="text-xs text-muted-foreground font-mono mt-1">
+                  {currentResult.walletAddress.slice(0, 6)}...{currentResult.walletAddress.slice(-4)}
+                </p>
+              </div>
+              {isSelecting ? (
+                <Loader2 className="w-4 h-4 animate-spin text-teal-600" />
+              ) : currentResult.disputed ? (
+                <span className="text-xs font-medium text-amber-600">Disputed</span>
+              ) : currentResult.isRegistered ? (
+                <span className="flex items-center gap-1 text-xs font-medium text-teal-600">
+                  <CheckCircle2 className="w-4 h-4" />
+                  Registered
+                </span>
+              ) : (
+                <span className="text-xs font-medium text-red-600">Not registered</span>
+              )}
+            </div>
+            {currentResult.disputed && (
+              <p className="text-xs text-amber-700 mt-2">
+                More than one wallet lists this NIK on its profile. Scan the patient&apos;s QR to confirm which wallet is theirs.
+              </p>
+            )}
+          </button>
+        )}
+
+        {hasQuery && isSearching && (
+          <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground mb-6">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Searching patient directory...
+          </p>
+        )}
+
+        {hasQuery && !isSearching && searchedQuery === nikInput.trim() && searchError && (
+          <p className="text-sm text-red-600 mb-6">{searchError}</p>
         )}
 
-        {nikInput.length > 2 && searchResults.length === 0 && (
+        {hasQuery && !isSearching && searchedQuery === nikInput.trim() && !searchResult && !searchError && (
            <p className="text-sm text-red-600 mb-6">
-             No patient found with keyword &quot;{nikInput}&quot;
+             No patient found with NIK or ID &quot;{nikInput}&quot;
            </p>
         )}
 
+        {selectError && (
+          <p className="text-sm text-red-600 mb-6">{selectError}</p>
+        )}
+
         {/* Divider */}
         <div className="flex items-center gap-4 my-6">
           <div className="flex-1 h-px bg-border" />
@@ -488,6 +797,20 @@ function InputRecordStep({
   onBack,
   isSubmitting = false,
   submitError = null,
+  onImportRecords,
+  importQueueLength,
+  importNotice,
+  onClearImportQueue,
+  amendment,
+  setAmendment,
+  recordKind,
+  setRecordKind,
+  typedFields,
+  setTypedFields,
+  attachments,
+  setAttachments,
+  ocrReview,
+  setOcrReview,
 }: {
   patient: ScannedPatientData;
   medicalRecord: MedicalRecordInput;
@@ -496,39 +819,132 @@ function InputRecordStep({
   onBack: () => void;
   isSubmitting?: boolean;
   submitError?: string | null;
+  onImportRecords: (records: MedicalRecordInput[]) => void;
+  importQueueLength: number;
+  importNotice: string | null;
+  onClearImportQueue: () => void;
+  amendment: PendingAmendment | null;
+  setAmendment: (amendment: PendingAmendment | null) => void;
+  recordKind: RecordKind;
+  setRecordKind: (kind: RecordKind) => void;
+  typedFields: TypedRecordFields;
+  setTypedFields: (fields: TypedRecordFields) => void;
+  attachments: File[];
+  setAttachments: React.Dispatch<React.SetStateAction<File[]>>;
+  ocrReview: OcrReview | null;
+  setOcrReview: React.Dispatch<React.SetStateAction<OcrReview | null>>;
 }) {
+  const account = useActiveAccount();
+  const hospitalAddress = account?.address;
   const [activeTab, setActiveTab] = useState<"history" | "new">("history");
-  const [medicalHistory, setMedicalHistory] = useState<Array<{
-    id: number;
-    ipfsCid: string;
-    noRekamMedik: string;
-    tanggalMasuk: string;
-    tanggalKeluar: string;
-    diagnosisUtama: string;
-    icdCode: string;
-    diagnosisSekunder: string;
-    keluhan: string;
-    riwayatAlergi: string;
-    tindakan: string;
-    resepObat: string;
-    keadaanKeluar: string;
-    dokterPenanggungJawab: string;
-    hospital: string;
-    hospitalAddress: string;
-    timestamp: number;
-    isVerified: boolean;
-  }>>([]);
+  const [medicalHistory, setMedicalHistory] = useState<HistoryRecord[]>([]);
   const [isLoadingHistory, setIsLoadingHistory] = useState(true);
   const [historyError, setHistoryError] = useState<string | null>(null);
-  const [selectedRecord, setSelectedRecord] = useState<typeof medicalHistory[0] | null>(null);
+  const [selectedRecord, setSelectedRecord] = useState<HistoryRecord | null>(null);
   
-  const isFormValid = medicalRecord.diagnosisUtama && medicalRecord.keluhan && medicalRecord.dokterPenanggungJawab;
+  const icdStatus = medicalRecord.icdCode.trim() ? validateIcd10Code(medicalRecord.icdCode).status : null;
+  const unconfirmedOcrFields = ocrReview && recordKind === "DIAGNOSIS" ? getUnconfirmedOcrFields(ocrReview, medicalRecord) : [];
+  const isFormValid = (recordKind === "DIAGNOSIS"
+    ? medicalRecord.diagnosisUtama && medicalRecord.keluhan && medicalRecord.dokterPenanggungJawab && icdStatus !== "invalid" && unconfirmedOcrFields.length === 0
+    : validateRecordFields(recordKind, typedFields).length === 0)
+    && (!amendment || amendment.reason.trim());
+
+  // Keep the scanned documents the OCR read from as attachments of the record
+  const handleAttachScans = async (files: File[]) => {
+    const added = files.filter((file) => !attachments.some((f) => f.name === file.name && f.size === file.size));
+    const { accepted } = await selectAttachmentFiles(attachments, added);
+    if (accepted.length > 0) setAttachments((current) => [...current, ...accepted]);
+  };
+
+  const handleOCRComplete = (result: OcrResult, images: Record<number, string>) => {
+    setMedicalRecord({ ...result.data, keadaanKeluar: result.data.keadaanKeluar as MedicalRecordInput["keadaanKeluar"] });
+    setOcrReview({
+      values: result.data,
+      sources: result.sources,
+      confidence: result.confidence,
+      pages: result.pages,
+      images,
+      confirmed: [],
+    });
+  };
+
+  // Another page's value picked for a field the pages disagreed on; picking it confirms it
+  const handleApplyOcrValue = (field: OcrField, value: string, pages: number[]) => {
+    setMedicalRecord({ ...medicalRecord, [field]: value });
+    setOcrReview((current) =>
+      current && {
+        ...current,
+        values: { ...current.values, [field]: value },
+        sources: { ...current.sources, [field]: pages },
+        confirmed: [...current.confirmed, field],
+      }
+    );
+  };
+
+  const handleConfirmOcrField = (field: OcrField) => {
+    setOcrReview((current) => current && { ...current, confirmed: [...current.confirmed, field] });
+  };
+
+  // Unconfirmed low-confidence OCR fields are highlighted until confirmed or edited
+  const ocrFieldClass = (field: OcrField) =>
+    unconfirmedOcrFields.includes(field) ? "rounded-lg p-2 -m-2 bg-amber-500/10 ring-1 ring-amber-500/40" : "";
+
+  const handleRecordKindChange = (kind: RecordKind) => {
+    setRecordKind(kind);
+    setTypedFields(emptyRecordFields(kind));
+  };
+
+  // Only the issuing hospital can amend a record, and only one it could decrypt
+  const canAmend = (record: HistoryRecord) =>
+    !!hospitalAddress && record.hospitalAddress.toLowerCase() === hospitalAddress.toLowerCase() && record.keluhan !== "(Encrypted)";
+
+  const handleStartAmendment = (record: HistoryRecord) => {
+    if (record.fields) {
+      // Typed records are amended with their own kind's form
+      const kind = normalizeRecordKind(record.recordType);
+      setRecordKind(kind);
+      setTypedFields({ ...emptyRecordFields(kind), ...record.fields });
+    } else {
+      setRecordKind("DIAGNOSIS");
+      setMedicalRecord({
+        noRekamMedik: record.noRekamMedik,
+        tanggalMasuk: record.tanggalMasuk,
+        tanggalKeluar: record.tanggalKeluar,
+        diagnosisUtama: record.diagnosisUtama,
+        icdCode: record.icdCode,
+        diagnosisSekunder: record.diagnosisSekunder,
+        keluhan: record.keluhan,
+        riwayatAlergi: record.riwayatAlergi,
+        tindakan: record.tindakan,
+        resepObat: record.resepObat,
+        keadaanKeluar: record.keadaanKeluar as MedicalRecordInput["keadaanKeluar"],
+        dokterPenanggungJawab: record.dokterPenanggungJawab,
+      });
+    }
+    setAmendment({
+      ipfsCid: record.ipfsCid,
+      dataHash: record.dataHash,
+      reason: "",
+      label: [record.noRekamMedik, record.diagnosisUtama].filter(Boolean).join(" · "),
+    });
+    onClearImportQueue();
+    setSelectedRecord(null);
+    setActiveTab("new");
+  };
 
   // Print single record
-  const handlePrintRecord = (record: typeof medicalHistory[0]) => {
+  const handlePrintRecord = (record: HistoryRecord) => {
     const printWindow = window.open('', '_blank');
     if (!printWindow) return;
 
+    // Typed records print their schema fields in place of the discharge summary sections
+    const kindSchema = RECORD_KINDS[normalizeRecordKind(record.recordType)];
+    const typedSection = record.fields
+      ? `<div class="section-title">${kindSchema.label.toUpperCase()}</div>
+              ${kindSchema.fields.map((spec) => `<div class="row"><div class="cell label">${spec.label}</div><div class="cell value">${record.fields?.[spec.key] || "-"}</div></div>`).join("")}
+              <div class="row"><div class="cell label">Healthcare Facility</div><div class="cell value">${record.hospital}</div></div>`
+      : null;
+
     printWindow.document.write(`
       <!DOCTYPE html>
       <html>
@@ -576,6 +992,7 @@ function InputRecordStep({
               <div class="row"><div class="cell label">Blood Type</div><div class="cell value">${patient.bloodType}</div></div>
               <div class="row"><div class="cell label">Allergy History</div><div class="cell value">${record.riwayatAlergi || "-"}</div></div>
               
+              ${typedSection ?? `
               <div class="section-title">VISIT DATA</div>
               <div class="row"><div class="cell label">Medical Record No.</div><div class="cell value">${record.noRekamMedik}</div></div>
               <div class="row"><div class="cell label">Admission Date</div><div class="cell value">${record.tanggalMasuk}</div></div>
@@ -595,6 +1012,7 @@ function InputRecordStep({
               <div class="section-title">VISIT OUTCOME</div>
               <div class="row"><div class="cell label">Discharge Status</div><div class="cell value">${record.keadaanKeluar || "-"}</div></div>
               <div class="row"><div class="cell label">Attending Physician</div><div class="cell value">${record.dokterPenanggungJawab}</div></div>
+              `}
             </div>
             <div class="footer">
               <div class="date">Printed: ${new Date().toLocaleDateString('en-US', { day: 'numeric', month: 'long', year: 'numeric' })}</div>
@@ -627,15 +1045,16 @@ function InputRecordStep({
           return;
         }
         
-        // Fetch and decrypt each record from IPFS
-        const history: typeof medicalHistory = [];
+        // Fetch and decrypt each record from IPFS (downloads run in parallel, cached ones skip the network)
+        prefetchIpfsContent(recordRefs.map((ref) => ref.ipfsCid));
+        const history: HistoryRecord[] = [];
         
         for (let i = 0; i < recordRefs.length; i++) {
           const ref = recordRefs[i];
           try {
-            const ipfsResult = await getMedicalRecord(ref.ipfsCid, patient.walletAddress);
+            const ipfsResult = await getMedicalRecord(ref.ipfsCid, patient.walletAddress, hospitalAddress);
             
-            if (ipfsResult.success && ipfsResult.data) {
+            if (ipfsResult.success && ipfsResult.data && ipfsResult.contentHash) {
               history.push({
                 id: i + 1,
                 ipfsCid: ref.ipfsCid,
@@ -655,6 +1074,13 @@ function InputRecordStep({
                 hospitalAddress: ref.hospitalAddress,
                 timestamp: ref.timestamp,
                 isVerified: ref.isVerified,
+                recordType: ipfsResult.data.recordType || ref.recordType,
+                fields: ipfsResult.data.fields,
+                attachments: ipfsResult.data.attachments,
+                dataHash: ref.dataHash,
+                integrity: checkDataHash(ipfsResult.contentHash, ref.dataHash),
+                amends: ipfsResult.data.amends,
+                previousVersions: [],
               });
             } else {
               // Fallback with blockchain data only
@@ -677,6 +1103,10 @@ function InputRecordStep({
                 hospitalAddress: ref.hospitalAddress,
                 timestamp: ref.timestamp,
                 isVerified: ref.isVerified,
+                recordType: ref.recordType,
+                dataHash: ref.dataHash,
+                integrity: { status: "unavailable", error: ipfsResult.error },
+                previousVersions: [],
               });
             }
           } catch (err) {
@@ -684,10 +1114,16 @@ function InputRecordStep({
           }
         }
         
+        // Collapse amendment chains into their latest version
+        const latestHistory = collapseRecordChains(history).map(({ latest, previous }) => ({
+          ...latest,
+          previousVersions: previous,
+        }));
+
         // Sort by timestamp descending
-        history.sort((a, b) => b.timestamp - a.timestamp);
+        latestHistory.sort((a, b) => b.timestamp - a.timestamp);
         
-        setMedicalHistory(history);
+        setMedicalHistory(latestHistory);
       } catch (err) {
         console.error("Error fetching medical history:", err);
         setHistoryError("Failed to load medical history");
@@ -697,7 +1133,7 @@ function InputRecordStep({
     };
     
     fetchHistory();
-  }, [patient.walletAddress]);
+  }, [patient.walletAddress, hospitalAddress]);
 
   return (
     <div className="py-6">
@@ -826,56 +1262,81 @@ function InputRecordStep({
                     <p>{historyError}</p>
                   </div>
                 ) : medicalHistory.length > 0 ? (
-                  medicalHistory.map((record) => (
-                    <div 
-                      key={record.id} 
-                      className="p-4 bg-muted/30 border border-border rounded-xl cursor-pointer hover:border-teal-500/50 hover:shadow-md transition-all"
-                      onClick={() => setSelectedRecord(record)}
-                    >
-                      <div className="flex items-start justify-between mb-3">
-                        <div>
+                  <>
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm text-muted-foreground">
+                        {medicalHistory.length} record{medicalHistory.length !== 1 ? "s" : ""}
+                      </p>
+                      <VerifyAllRecords
+                        patientAddress={patient.walletAddress}
+                        readerAddress={hospitalAddress}
+                        disabled={!hospitalAddress}
+                      />
+                    </div>
+                    {medicalHistory.map((record) => (
+                      <div 
+                        key={record.id} 
+                        className="p-4 bg-muted/30 border border-border rounded-xl cursor-pointer hover:border-teal-500/50 hover:shadow-md transition-all"
+                        onClick={() => setSelectedRecord(record)}
+                      >
+                        <div className="flex items-start justify-between mb-3">
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <RecordKindBadge recordType={record.recordType} />
+                              <span className="text-xs text-muted-foreground">{record.tanggalMasuk}</span>
+                              {record.icdCode && (
+                                <span className="text-xs px-1.5 py-0.5 bg-blue-500/10 text-blue-600 rounded font-mono">
+                                  {record.icdCode}
+                                </span>
+                              )}
+                              {record.previousVersions.length > 0 && (
+                                <span className="inline-flex items-center gap-1 text-xs px-1.5 py-0.5 bg-amber-500/10 text-amber-600 rounded font-medium">
+                                  <History className="w-3 h-3" />
+                                  Amended
+                                </span>
+                              )}
+                            </div>
+                            <h4 className="font-semibold text-foreground mt-1">{record.diagnosisUtama}</h4>
+                            <Icd10Info code={record.icdCode} className="mt-0.5" />
+                          </div>
                           <div className="flex items-center gap-2">
-                            <span className="text-xs text-muted-foreground">{record.tanggalMasuk}</span>
-                            {record.icdCode && (
-                              <span className="text-xs px-1.5 py-0.5 bg-blue-500/10 text-blue-600 rounded font-mono">
-                                {record.icdCode}
+                            <IntegrityBadge result={record.integrity} />
+                            {record.isVerified && (
+                              <span title="Verified on blockchain" className="text-emerald-500">
+                                <ShieldCheck className="w-4 h-4" />
                               </span>
                             )}
-                          </div>
-                          <h4 className="font-semibold text-foreground mt-1">{record.diagnosisUtama}</h4>
-                        </div>
-                        <div className="flex items-center gap-2">
-                          {record.isVerified && (
-                            <span title="Verified on blockchain" className="text-emerald-500">
-                              <ShieldCheck className="w-4 h-4" />
+                            <span className="text-xs px-2 py-1 bg-emerald-500/10 text-emerald-600 rounded-full font-medium">
+                              {record.keadaanKeluar || "Complete"}
                             </span>
-                          )}
-                          <span className="text-xs px-2 py-1 bg-emerald-500/10 text-emerald-600 rounded-full font-medium">
-                            {record.keadaanKeluar || "Complete"}
-                          </span>
+                          </div>
                         </div>
-                      </div>
                       
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
-                        <div>
-                          <p className="text-xs text-muted-foreground mb-1">Symptoms</p>
-                          <p className="text-sm text-foreground line-clamp-2">{record.keluhan}</p>
-                        </div>
-                        <div>
-                          <p className="text-xs text-muted-foreground mb-1">Treatment</p>
-                          <p className="text-sm text-foreground line-clamp-2">{record.resepObat}</p>
-                        </div>
-                      </div>
+                        {record.fields ? (
+                          <p className="text-sm text-foreground line-clamp-2 mb-3">{record.keluhan}</p>
+                        ) : (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+                            <div>
+                              <p className="text-xs text-muted-foreground mb-1">Symptoms</p>
+                              <p className="text-sm text-foreground line-clamp-2">{record.keluhan}</p>
+                            </div>
+                            <div>
+                              <p className="text-xs text-muted-foreground mb-1">Treatment</p>
+                              <p className="text-sm text-foreground line-clamp-2">{record.resepObat}</p>
+                            </div>
+                          </div>
+                        )}
                       
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                          <ShieldCheck className="w-3 h-3 text-teal-600" />
-                          {record.hospital}
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <ShieldCheck className="w-3 h-3 text-teal-600" />
+                            {record.hospital}
+                          </div>
+                          <span className="text-xs text-teal-600 font-medium">Click to view details →</span>
                         </div>
-                        <span className="text-xs text-teal-600 font-medium">Click to view details →</span>
                       </div>
-                    </div>
-                  ))
+                    ))}
+                  </>
                 ) : (
                   <div className="text-center py-12 text-muted-foreground">
                     <FileText className="w-12 h-12 mx-auto mb-3 opacity-50" />
@@ -886,157 +1347,249 @@ function InputRecordStep({
             ) : (
               /* New Record Form with OCR */
               <div className="space-y-5">
-                {/* OCR Upload Section */}
-                <OCRUploadSection 
-                  onOCRComplete={(data) => setMedicalRecord(data)}
-                />
+                {amendment && (
+                  <div className="p-4 bg-amber-500/10 border border-amber-500/20 rounded-lg space-y-3">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="flex items-start gap-2 text-sm text-amber-700">
+                        <History className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        <div>
+                          <p className="font-medium">Amending {amendment.label}</p>
+                          <p className="text-xs">
+                            The original stays on-chain; this record supersedes it in the patient&apos;s history.
+                          </p>
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => setAmendment(null)}
+                        className="text-xs font-medium text-amber-700 underline whitespace-nowrap"
+                      >
+                        Cancel amendment
+                      </button>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-muted-foreground mb-1.5">REASON FOR AMENDMENT *</label>
+                      <input
+                        type="text"
+                        value={amendment.reason}
+                        onChange={(e) => setAmendment({ ...amendment, reason: e.target.value })}
+                        placeholder="e.g. Corrected ICD-10 code after lab results"
+                        className="w-full h-10 px-3 bg-background border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-amber-500/20"
+                      />
+                    </div>
+                  </div>
+                )}
 
-                {/* Divider */}
-                <div className="flex items-center gap-4">
-                  <div className="flex-1 h-px bg-border" />
-                  <span className="text-xs text-muted-foreground uppercase">Or Manual Input</span>
-                  <div className="flex-1 h-px bg-border" />
+                {/* Record Kind */}
+                <div>
+                  <label className="block text-xs font-medium text-muted-foreground mb-1.5">RECORD TYPE</label>
+                  <RecordKindSelector value={recordKind} onChange={handleRecordKindChange} disabled={!!amendment} />
                 </div>
 
-                {/* Row 1: No RM & Tanggal */}
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <div>
-                    <label className="block text-xs font-medium text-muted-foreground mb-1.5">MEDICAL RECORD NO.</label>
-                    <input
-                      type="text"
-                      value={medicalRecord.noRekamMedik}
-                      onChange={(e) => setMedicalRecord({ ...medicalRecord, noRekamMedik: e.target.value })}
-                      placeholder="MR-2024-00001"
-                      className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-muted-foreground mb-1.5">ADMISSION DATE (MRS)</label>
-                    <input
-                      type="date"
-                      value={medicalRecord.tanggalMasuk}
-                      onChange={(e) => setMedicalRecord({ ...medicalRecord, tanggalMasuk: e.target.value })}
-                      className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-muted-foreground mb-1.5">DISCHARGE DATE (KRS)</label>
-                    <input
-                      type="date"
-                      value={medicalRecord.tanggalKeluar}
-                      onChange={(e) => setMedicalRecord({ ...medicalRecord, tanggalKeluar: e.target.value })}
-                      className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
+                {recordKind === "DIAGNOSIS" ? (
+                  <>
+                    {/* OCR Upload Section */}
+                    <OCRUploadSection 
+                      onOCRComplete={handleOCRComplete}
+                      onApplyValue={handleApplyOcrValue}
+                      onReset={() => setOcrReview(null)}
+                      onFilesSelected={handleAttachScans}
                     />
-                  </div>
-                </div>
 
-                {/* Row 2: Diagnosa */}
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <div className="md:col-span-2">
-                    <label className="block text-xs font-medium text-muted-foreground mb-1.5">PRIMARY DIAGNOSIS *</label>
-                    <input
-                      type="text"
-                      value={medicalRecord.diagnosisUtama}
-                      onChange={(e) => setMedicalRecord({ ...medicalRecord, diagnosisUtama: e.target.value })}
-                      placeholder="e.g. Acute Bronchitis"
-                      className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-muted-foreground mb-1.5">ICD-X CODE</label>
-                    <input
-                      type="text"
-                      value={medicalRecord.icdCode}
-                      onChange={(e) => setMedicalRecord({ ...medicalRecord, icdCode: e.target.value })}
-                      placeholder="J20.9"
-                      className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
-                    />
-                  </div>
-                </div>
+                    {/* FHIR Import */}
+                    <FhirImportSection onImport={onImportRecords} />
 
-                {/* Row 3: Diagnosa Sekunder */}
-                <div>
-                  <label className="block text-xs font-medium text-muted-foreground mb-1.5">SECONDARY DIAGNOSIS / COMPLICATIONS</label>
-                  <input
-                    type="text"
-                    value={medicalRecord.diagnosisSekunder}
-                    onChange={(e) => setMedicalRecord({ ...medicalRecord, diagnosisSekunder: e.target.value })}
-                    placeholder="If any..."
-                    className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
-                  />
-                </div>
+                    {importNotice && (
+                      <div className="p-3 bg-teal-500/10 border border-teal-500/20 rounded-lg flex items-center justify-between gap-3 text-sm text-teal-700">
+                        <span className="flex items-center gap-2">
+                          <Info className="w-4 h-4 flex-shrink-0" />
+                          {importNotice}
+                        </span>
+                        {importQueueLength > 0 && (
+                          <button onClick={onClearImportQueue} className="text-xs font-medium underline whitespace-nowrap">
+                            Discard queue
+                          </button>
+                        )}
+                      </div>
+                    )}
 
-                {/* Row 4: Keluhan & Riwayat Alergi */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-xs font-medium text-muted-foreground mb-1.5">SYMPTOMS / COMPLAINTS *</label>
-                    <textarea
-                      value={medicalRecord.keluhan}
-                      onChange={(e) => setMedicalRecord({ ...medicalRecord, keluhan: e.target.value })}
-                      placeholder="Detail patient symptoms..."
-                      className="w-full h-24 px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20 resize-none"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-muted-foreground mb-1.5">ALLERGY HISTORY</label>
-                    <textarea
-                      value={medicalRecord.riwayatAlergi}
-                      onChange={(e) => setMedicalRecord({ ...medicalRecord, riwayatAlergi: e.target.value })}
-                      placeholder="None / Specify..."
-                      className="w-full h-24 px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20 resize-none"
-                    />
-                  </div>
-                </div>
+                    {/* Divider */}
+                    <div className="flex items-center gap-4">
+                      <div className="flex-1 h-px bg-border" />
+                      <span className="text-xs text-muted-foreground uppercase">Or Manual Input</span>
+                      <div className="flex-1 h-px bg-border" />
+                    </div>
 
-                {/* Row 5: Tindakan & Resep */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-xs font-medium text-muted-foreground mb-1.5">PROCEDURE / SURGERY</label>
-                    <textarea
-                      value={medicalRecord.tindakan}
-                      onChange={(e) => setMedicalRecord({ ...medicalRecord, tindakan: e.target.value })}
-                      placeholder="Examination, procedures, surgery..."
-                      className="w-full h-24 px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20 resize-none"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-muted-foreground mb-1.5">PRESCRIPTION</label>
-                    <textarea
-                      value={medicalRecord.resepObat}
-                      onChange={(e) => setMedicalRecord({ ...medicalRecord, resepObat: e.target.value })}
-                      placeholder="Medications given..."
-                      className="w-full h-24 px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20 resize-none"
-                    />
-                  </div>
-                </div>
+                    {/* Row 1: No RM & Tanggal */}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className={ocrFieldClass("noRekamMedik")}>
+                        <label className="block text-xs font-medium text-muted-foreground mb-1.5">MEDICAL RECORD NO.<OcrSourceBadge field="noRekamMedik" value={medicalRecord.noRekamMedik} review={ocrReview} /></label>
+                        <input
+                          type="text"
+                          value={medicalRecord.noRekamMedik}
+                          onChange={(e) => setMedicalRecord({ ...medicalRecord, noRekamMedik: e.target.value })}
+                          placeholder="MR-2024-00001"
+                          className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
+                        />
+                        <OcrFieldEvidence field="noRekamMedik" value={medicalRecord.noRekamMedik} review={ocrReview} onConfirm={handleConfirmOcrField} />
+                      </div>
+                      <div className={ocrFieldClass("tanggalMasuk")}>
+                        <label className="block text-xs font-medium text-muted-foreground mb-1.5">ADMISSION DATE (MRS)<OcrSourceBadge field="tanggalMasuk" value={medicalRecord.tanggalMasuk} review={ocrReview} /></label>
+                        <input
+                          type="date"
+                          value={medicalRecord.tanggalMasuk}
+                          onChange={(e) => setMedicalRecord({ ...medicalRecord, tanggalMasuk: e.target.value })}
+                          className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
+                        />
+                        <OcrFieldEvidence field="tanggalMasuk" value={medicalRecord.tanggalMasuk} review={ocrReview} onConfirm={handleConfirmOcrField} />
+                      </div>
+                      <div className={ocrFieldClass("tanggalKeluar")}>
+                        <label className="block text-xs font-medium text-muted-foreground mb-1.5">DISCHARGE DATE (KRS)<OcrSourceBadge field="tanggalKeluar" value={medicalRecord.tanggalKeluar} review={ocrReview} /></label>
+                        <input
+                          type="date"
+                          value={medicalRecord.tanggalKeluar}
+                          onChange={(e) => setMedicalRecord({ ...medicalRecord, tanggalKeluar: e.target.value })}
+                          className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
+                        />
+                        <OcrFieldEvidence field="tanggalKeluar" value={medicalRecord.tanggalKeluar} review={ocrReview} onConfirm={handleConfirmOcrField} />
+                      </div>
+                    </div>
 
-                {/* Row 6: Keadaan Keluar & Dokter */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-xs font-medium text-muted-foreground mb-1.5">DISCHARGE STATUS</label>
-                    <select
-                      value={medicalRecord.keadaanKeluar}
-                      onChange={(e) => setMedicalRecord({ ...medicalRecord, keadaanKeluar: e.target.value as MedicalRecordInput["keadaanKeluar"] })}
-                      className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
-                    >
-                      <option value="">Select...</option>
-                      <option value="sembuh">Cured</option>
-                      <option value="membaik">Improved</option>
-                      <option value="belumSembuh">Not Cured</option>
-                      <option value="meninggal">Deceased</option>
-                    </select>
-                  </div>
-                  <div>
-                    <label className="block text-xs font-medium text-muted-foreground mb-1.5">ATTENDING PHYSICIAN *</label>
-                    <input
-                      type="text"
-                      value={medicalRecord.dokterPenanggungJawab}
-                      onChange={(e) => setMedicalRecord({ ...medicalRecord, dokterPenanggungJawab: e.target.value })}
-                      placeholder="Dr. Full Name, Sp.X"
-                      className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
-                    />
-                  </div>
-                </div>
+                    {/* Row 2: Diagnosa */}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className={`md:col-span-2 ${ocrFieldClass("diagnosisUtama")}`}>
+                        <label className="block text-xs font-medium text-muted-foreground mb-1.5">PRIMARY DIAGNOSIS *<OcrSourceBadge field="diagnosisUtama" value={medicalRecord.diagnosisUtama} review={ocrReview} /></label>
+                        <Icd10Autocomplete
+                          value={medicalRecord.diagnosisUtama}
+                          onChange={(value) => setMedicalRecord({ ...medicalRecord, diagnosisUtama: value })}
+                          onSelect={(entry) => setMedicalRecord({ ...medicalRecord, diagnosisUtama: entry.description, icdCode: entry.code })}
+                          placeholder="e.g. Acute Bronchitis"
+                          className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
+                        />
+                        <OcrFieldEvidence field="diagnosisUtama" value={medicalRecord.diagnosisUtama} review={ocrReview} onConfirm={handleConfirmOcrField} />
+                      </div>
+                      <div className={ocrFieldClass("icdCode")}>
+                        <label className="block text-xs font-medium text-muted-foreground mb-1.5">ICD-X CODE<OcrSourceBadge field="icdCode" value={medicalRecord.icdCode} review={ocrReview} /></label>
+                        <Icd10Autocomplete
+                          value={medicalRecord.icdCode}
+                          onChange={(value) => setMedicalRecord({ ...medicalRecord, icdCode: value })}
+                          onSelect={(entry) => setMedicalRecord({
+                            ...medicalRecord,
+                            icdCode: entry.code,
+                            diagnosisUtama: medicalRecord.diagnosisUtama || entry.description,
+                          })}
+                          placeholder="J20.9"
+                          className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
+                        />
+                        <OcrFieldEvidence field="icdCode" value={medicalRecord.icdCode} review={ocrReview} onConfirm={handleConfirmOcrField} />
+                        <Icd10Info code={medicalRecord.icdCode} className="mt-1.5" />
+                      </div>
+                    </div>
+
+                    {/* Row 3: Diagnosa Sekunder */}
+                    <div className={ocrFieldClass("diagnosisSekunder")}>
+                      <label className="block text-xs font-medium text-muted-foreground mb-1.5">SECONDARY DIAGNOSIS / COMPLICATIONS<OcrSourceBadge field="diagnosisSekunder" value={medicalRecord.diagnosisSekunder} review={ocrReview} /></label>
+                      <Icd10Autocomplete
+                        value={medicalRecord.diagnosisSekunder}
+                        query={medicalRecord.diagnosisSekunder.split(";").pop()}
+                        onChange={(value) => setMedicalRecord({ ...medicalRecord, diagnosisSekunder: value })}
+                        onSelect={(entry) => {
+                          // Replace the diagnosis being typed (after the last ";") with the coded one
+                          const previous = medicalRecord.diagnosisSekunder.split(";").slice(0, -1).map((d) => d.trim());
+                          setMedicalRecord({
+                            ...medicalRecord,
+                            diagnosisSekunder: [...previous, `${entry.description} (${entry.code})`].join("; "),
+                          });
+                        }}
+                        placeholder="If any... (separate multiple with ;)"
+                        className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
+                      />
+                      <OcrFieldEvidence field="diagnosisSekunder" value={medicalRecord.diagnosisSekunder} review={ocrReview} onConfirm={handleConfirmOcrField} />
+                    </div>
+
+                    {/* Row 4: Keluhan & Riwayat Alergi */}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className={ocrFieldClass("keluhan")}>
+                        <label className="block text-xs font-medium text-muted-foreground mb-1.5">SYMPTOMS / COMPLAINTS *<OcrSourceBadge field="keluhan" value={medicalRecord.keluhan} review={ocrReview} /></label>
+                        <textarea
+                          value={medicalRecord.keluhan}
+                          onChange={(e) => setMedicalRecord({ ...medicalRecord, keluhan: e.target.value })}
+                          placeholder="Detail patient symptoms..."
+                          className="w-full h-24 px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20 resize-none"
+                        />
+                        <OcrFieldEvidence field="keluhan" value={medicalRecord.keluhan} review={ocrReview} onConfirm={handleConfirmOcrField} />
+                      </div>
+                      <div className={ocrFieldClass("riwayatAlergi")}>
+                        <label className="block text-xs font-medium text-muted-foreground mb-1.5">ALLERGY HISTORY<OcrSourceBadge field="riwayatAlergi" value={medicalRecord.riwayatAlergi} review={ocrReview} /></label>
+                        <textarea
+                          value={medicalRecord.riwayatAlergi}
+                          onChange={(e) => setMedicalRecord({ ...medicalRecord, riwayatAlergi: e.target.value })}
+                          placeholder="None / Specify..."
+                          className="w-full h-24 px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20 resize-none"
+                        />
+                        <OcrFieldEvidence field="riwayatAlergi" value={medicalRecord.riwayatAlergi} review={ocrReview} onConfirm={handleConfirmOcrField} />
+                      </div>
+                    </div>
+
+                    {/* Row 5: Tindakan & Resep */}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className={ocrFieldClass("tindakan")}>
+                        <label className="block text-xs font-medium text-muted-foreground mb-1.5">PROCEDURE / SURGERY<OcrSourceBadge field="tindakan" value={medicalRecord.tindakan} review={ocrReview} /></label>
+                        <textarea
+                          value={medicalRecord.tindakan}
+                          onChange={(e) => setMedicalRecord({ ...medicalRecord, tindakan: e.target.value })}
+                          placeholder="Examination, procedures, surgery..."
+                          className="w-full h-24 px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20 resize-none"
+                        />
+                        <OcrFieldEvidence field="tindakan" value={medicalRecord.tindakan} review={ocrReview} onConfirm={handleConfirmOcrField} />
+                      </div>
+                      <div className={ocrFieldClass("resepObat")}>
+                        <label className="block text-xs font-medium text-muted-foreground mb-1.5">PRESCRIPTION<OcrSourceBadge field="resepObat" value={medicalRecord.resepObat} review={ocrReview} /></label>
+                        <textarea
+                          value={medicalRecord.resepObat}
+                          onChange={(e) => setMedicalRecord({ ...medicalRecord, resepObat: e.target.value })}
+                          placeholder="Medications given..."
+                          className="w-full h-24 px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20 resize-none"
+                        />
+                        <OcrFieldEvidence field="resepObat" value={medicalRecord.resepObat} review={ocrReview} onConfirm={handleConfirmOcrField} />
+                      </div>
+                    </div>
+
+                    {/* Row 6: Keadaan Keluar & Dokter */}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className={ocrFieldClass("keadaanKeluar")}>
+                        <label className="block text-xs font-medium text-muted-foreground mb-1.5">DISCHARGE STATUS<OcrSourceBadge field="keadaanKeluar" value={medicalRecord.keadaanKeluar} review={ocrReview} /></label>
+                        <select
+                          value={medicalRecord.keadaanKeluar}
+                          onChange={(e) => setMedicalRecord({ ...medicalRecord, keadaanKeluar: e.target.value as MedicalRecordInput["keadaanKeluar"] })}
+                          className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
+                        >
+                          <option value="">Select...</option>
+                          <option value="sembuh">Cured</option>
+                          <option value="membaik">Improved</option>
+                          <option value="belumSembuh">Not Cured</option>
+                          <option value="meninggal">Deceased</option>
+                        </select>
+                        <OcrFieldEvidence field="keadaanKeluar" value={medicalRecord.keadaanKeluar} review={ocrReview} onConfirm={handleConfirmOcrField} />
+                      </div>
+                      <div className={ocrFieldClass("dokterPenanggungJawab")}>
+                        <label className="block text-xs font-medium text-muted-foreground mb-1.5">ATTENDING PHYSICIAN *<OcrSourceBadge field="dokterPenanggungJawab" value={medicalRecord.dokterPenanggungJawab} review={ocrReview} /></label>
+                        <input
+                          type="text"
+                          value={medicalRecord.dokterPenanggungJawab}
+                          onChange={(e) => setMedicalRecord({ ...medicalRecord, dokterPenanggungJawab: e.target.value })}
+                          placeholder="Dr. Full Name, Sp.X"
+                          className="w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
+                        />
+                        <OcrFieldEvidence field="dokterPenanggungJawab" value={medicalRecord.dokterPenanggungJawab} review={ocrReview} onConfirm={handleConfirmOcrField} />
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <RecordKindForm kind={recordKind} fields={typedFields} onChange={setTypedFields} />
+                )}
+
+                {/* Attachments */}
+                <AttachmentPicker files={attachments} onChange={setAttachments} />
 
                 {/* Error Message */}
                 {submitError && (
@@ -1046,6 +1599,15 @@ function InputRecordStep({
                   </div>
                 )}
 
+                {unconfirmedOcrFields.length > 0 && (
+                  <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg flex items-center gap-2 text-amber-700 mt-4">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    <span className="text-sm">
+                      Confirm or correct the highlighted OCR values before pushing: {unconfirmedOcrFields.map((field) => OCR_FIELD_LABELS[field]).join(", ")}
+                    </span>
+                  </div>
+                )}
+
                 {/* Submit Button */}
                 <Button
                   onClick={onSubmit}
@@ -1060,7 +1622,7 @@ function InputRecordStep({
                   ) : (
                     <>
                       <CheckCircle2 className="w-5 h-5" />
-                      Push to Blockchain
+                      {amendment ? "Push Amendment" : "Push to Blockchain"}
                     </>
                   )}
                 </Button>
@@ -1080,17 +1642,20 @@ function InputRecordStep({
                 <div className="flex items-start justify-between">
                   <div>
                     <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
-                      <span className="font-mono">{selectedRecord.noRekamMedik}</span>
-                      <span>•</span>
+                      {selectedRecord.noRekamMedik && (
+                        <>
+                          <span className="font-mono">{selectedRecord.noRekamMedik}</span>
+                          <span>•</span>
+                        </>
+                      )}
                       <span>{selectedRecord.tanggalMasuk}</span>
                     </div>
                     <h2 className="text-2xl font-bold text-foreground">{selectedRecord.diagnosisUtama}</h2>
                     <p className="text-sm text-muted-foreground mt-1">ICD: {selectedRecord.icdCode || "-"}</p>
+                    <Icd10Info code={selectedRecord.icdCode} className="mt-1" />
                     <div className="flex items-center gap-2 mt-3">
-                      <span className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-md font-medium bg-teal-500/20 text-teal-600">
-                        <Stethoscope className="w-3 h-3" />
-                        Diagnosis
-                      </span>
+                      <RecordKindBadge recordType={selectedRecord.recordType} className="px-2 py-1 rounded-md" />
+                      <IntegrityBadge result={selectedRecord.integrity} className="px-2 py-1 rounded-md" />
                       {selectedRecord.keadaanKeluar && (
                         <span className="text-xs px-2 py-1 bg-emerald-500/20 text-emerald-600 rounded-md font-medium">
                           {selectedRecord.keadaanKeluar}
@@ -1112,65 +1677,93 @@ function InputRecordStep({
 
               {/* Modal Body */}
               <div className="p-6 space-y-5">
-                {/* Keluhan */}
-                <div>
-                  <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Symptoms / Complaints</h4>
-                  <p className="text-foreground">{selectedRecord.keluhan || "-"}</p>
-                </div>
-
-                {/* Riwayat Alergi */}
-                {selectedRecord.riwayatAlergi && (
-                  <div>
-                    <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Allergy History</h4>
-                    <p className="text-foreground">{selectedRecord.riwayatAlergi}</p>
+                {selectedRecord.integrity.status === "mismatch" && (
+                  <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-600 flex items-start gap-2">
+                    <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    This record&apos;s content does not match the hash recorded on-chain. Do not rely on it for treatment decisions.
                   </div>
                 )}
+                {selectedRecord.fields ? (
+                  <>
+                    <RecordKindDetails recordType={selectedRecord.recordType} fields={selectedRecord.fields} />
+                    <div className="pt-4 border-t border-border">
+                      <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Healthcare Facility</h4>
+                      <p className="text-foreground">{selectedRecord.hospital}</p>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    {/* Keluhan */}
+                    <div>
+                      <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Symptoms / Complaints</h4>
+                      <p className="text-foreground">{selectedRecord.keluhan || "-"}</p>
+                    </div>
 
-                {/* Diagnosa Sekunder */}
-                {selectedRecord.diagnosisSekunder && (
-                  <div>
-                    <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Secondary Diagnosis</h4>
-                    <p className="text-foreground">{selectedRecord.diagnosisSekunder}</p>
-                  </div>
-                )}
+                    {/* Riwayat Alergi */}
+                    {selectedRecord.riwayatAlergi && (
+                      <div>
+                        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Allergy History</h4>
+                        <p className="text-foreground">{selectedRecord.riwayatAlergi}</p>
+                      </div>
+                    )}
 
-                {/* Tindakan */}
-                {selectedRecord.tindakan && (
-                  <div>
-                    <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Procedure</h4>
-                    <p className="text-foreground">{selectedRecord.tindakan}</p>
-                  </div>
-                )}
+                    {/* Diagnosa Sekunder */}
+                    {selectedRecord.diagnosisSekunder && (
+                      <div>
+                        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Secondary Diagnosis</h4>
+                        <p className="text-foreground">{selectedRecord.diagnosisSekunder}</p>
+                      </div>
+                    )}
 
-                {/* Resep */}
-                <div>
-                  <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Prescription / Therapy</h4>
-                  <p className="text-foreground">{selectedRecord.resepObat || "-"}</p>
-                </div>
+                    {/* Tindakan */}
+                    {selectedRecord.tindakan && (
+                      <div>
+                        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Procedure</h4>
+                        <p className="text-foreground">{selectedRecord.tindakan}</p>
+                      </div>
+                    )}
 
-                {/* Hospital & Doctor Info */}
-                <div className="grid grid-cols-2 gap-4 pt-4 border-t border-border">
-                  <div>
-                    <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Healthcare Facility</h4>
-                    <p className="text-foreground">{selectedRecord.hospital}</p>
-                  </div>
-                  <div>
-                    <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Attending Physician</h4>
-                    <p className="text-foreground">{selectedRecord.dokterPenanggungJawab || "-"}</p>
-                  </div>
-                </div>
+                    {/* Resep */}
+                    <div>
+                      <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Prescription / Therapy</h4>
+                      <p className="text-foreground">{selectedRecord.resepObat || "-"}</p>
+                    </div>
 
-                {/* Dates */}
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Admission Date</h4>
-                    <p className="text-foreground">{selectedRecord.tanggalMasuk}</p>
-                  </div>
-                  <div>
-                    <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Discharge Date</h4>
-                    <p className="text-foreground">{selectedRecord.tanggalKeluar || "-"}</p>
-                  </div>
-                </div>
+                    {/* Hospital & Doctor Info */}
+                    <div className="grid grid-cols-2 gap-4 pt-4 border-t border-border">
+                      <div>
+                        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Healthcare Facility</h4>
+                        <p className="text-foreground">{selectedRecord.hospital}</p>
+                      </div>
+                      <div>
+                        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Attending Physician</h4>
+                        <p className="text-foreground">{selectedRecord.dokterPenanggungJawab || "-"}</p>
+                      </div>
+                    </div>
+
+                    {/* Dates */}
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Admission Date</h4>
+                        <p className="text-foreground">{selectedRecord.tanggalMasuk}</p>
+                      </div>
+                      <div>
+                        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Discharge Date</h4>
+                        <p className="text-foreground">{selectedRecord.tanggalKeluar || "-"}</p>
+                      </div>
+                    </div>
+                  </>
+                )}
+
+                {/* Attachments */}
+                <RecordAttachments
+                  items={collectRecordAttachments([...selectedRecord.previousVersions, selectedRecord])}
+                  patientAddress={patient.walletAddress}
+                  readerAddress={hospitalAddress}
+                />
+
+                {/* Amendment History */}
+                <RecordVersionHistory versions={[...selectedRecord.previousVersions, selectedRecord]} />
               </div>
 
               {/* Modal Footer */}
@@ -1178,6 +1771,12 @@ function InputRecordStep({
                 <Button variant="outline" onClick={() => setSelectedRecord(null)}>
                   Close
                 </Button>
+                {canAmend(selectedRecord) && (
+                  <Button variant="outline" onClick={() => handleStartAmendment(selectedRecord)} className="gap-2">
+                    <History className="w-4 h-4" />
+                    Amend Record
+                  </Button>
+                )}
                 <Button 
                   onClick={() => handlePrintRecord(selectedRecord)}
                   className="gap-2 bg-teal-600 hover:bg-teal-700"
@@ -1194,149 +1793,6 @@ function InputRecordStep({
   );
 }
 
-// OCR Upload Section Component
-import { Upload, FileCheck, Sparkles, AlertTriangle } from "lucide-react";
-
-function OCRUploadSection({
-  onOCRComplete,
-}: {
-  onOCRComplete: (data: MedicalRecordInput) => void;
-}) {
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [isComplete, setIsComplete] = useState(false);
-  const [ocrError, setOcrError] = useState<string | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    setOcrError(null);
-    setIsComplete(false);
-
-    // Show preview and get base64
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      const base64Image = event.target?.result as string;
-      setUploadedImage(base64Image);
-
-      // Call OCR API
-      setIsProcessing(true);
-      try {
-        const response = await fetch("/api/ocr", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ imageBase64: base64Image }),
-        });
-
-        const result = await response.json();
-
-        if (result.success && result.data) {
-          setIsComplete(true);
-          onOCRComplete(result.data);
-        } else {
-          setOcrError(result.error || "Failed to extract data from image");
-        }
-      } catch (err) {
-        console.error("OCR error:", err);
-        setOcrError("Failed to process image. Please try again.");
-      } finally {
-        setIsProcessing(false);
-      }
-    };
-    reader.readAsDataURL(file);
-  };
-
-  const handleReset = () => {
-    setUploadedImage(null);
-    setIsProcessing(false);
-    setIsComplete(false);
-    setOcrError(null);
-    if (fileInputRef.current) fileInputRef.current.value = "";
-  };
-
-  return (
-    <div className="border-2 border-dashed border-border rounded-xl p-6 bg-muted/20">
-      <input
-        ref={fileInputRef}
-        type="file"
-        accept="image/*"
-        onChange={handleFileUpload}
-        className="hidden"
-      />
-
-      {!uploadedImage ? (
-        // Upload State
-        <div 
-          className="flex flex-col items-center justify-center py-8 cursor-pointer hover:bg-muted/30 rounded-lg transition-colors"
-          onClick={() => fileInputRef.current?.click()}
-        >
-          <div className="w-16 h-16 bg-teal-500/10 rounded-2xl flex items-center justify-center mb-4">
-            <Upload className="w-8 h-8 text-teal-600" />
-          </div>
-          <h4 className="font-semibold text-foreground mb-1">Upload Medical Document</h4>
-          <p className="text-sm text-muted-foreground text-center max-w-xs">
-            Upload prescription photo, lab results, or diagnosis document for auto-fill
-          </p>
-          <div className="flex items-center gap-2 mt-4 text-xs text-teal-600">
-            <Sparkles className="w-3 h-3" />
-            <span>Powered by AI</span>
-          </div>
-        </div>
-      ) : (
-        // Preview & Processing State
-        <div className="space-y-4">
-          {/* Image Preview */}
-          <div className="relative aspect-[4/3] w-full max-w-xs mx-auto rounded-lg overflow-hidden bg-black">
-            <img 
-              src={uploadedImage} 
-              alt="Uploaded document" 
-              className="w-full h-full object-contain"
-            />
-            {isProcessing && (
-              <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center">
-                <Loader2 className="w-8 h-8 text-teal-400 animate-spin mb-2" />
-                <p className="text-white text-sm">Analyzing with AI...</p>
-              </div>
-            )}
-            {isComplete && (
-              <div className="absolute inset-0 bg-emerald-600/80 flex flex-col items-center justify-center">
-                <FileCheck className="w-10 h-10 text-white mb-2" />
-                <p className="text-white font-semibold">Auto-fill Successful!</p>
-              </div>
-            )}
-            {ocrError && (
-              <div className="absolute inset-0 bg-red-600/80 flex flex-col items-center justify-center p-4">
-                <AlertTriangle className="w-10 h-10 text-white mb-2" />
-                <p className="text-white text-sm text-center">{ocrError}</p>
-              </div>
-            )}
-          </div>
-
-          {/* Actions */}
-          <div className="flex justify-center gap-3">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleReset}
-              disabled={isProcessing}
-            >
-              {ocrError ? "Try Again" : "Re-upload"}
-            </Button>
-          </div>
-
-          {isComplete && (
-            <p className="text-xs text-center text-emerald-600">
-              ✓ Data extracted successfully. Please review and edit if needed.
-            </p>
-          )}
-        </div>
-      )}
-    </div>
-  );
-}
-
 // Step 3: Success
 function SuccessStep({ 
   patient,
@@ -1407,6 +1863,7 @@ function QRScannerModal({
   const [requestMessage, setRequestMessage] = useState("");
   const [manualAddress, setManualAddress] = useState("");
   const [isCheckingApproval, setIsCheckingApproval] = useState(false);
+  const [isRedeemingConsent, setIsRedeemingConsent] = useState(false);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -1478,44 +1935,12 @@ function QRScannerModal({
     setError(null);
 
     try {
-      // First, try to get patient data from localStorage
-      const localPatientData = getPatientData(manualAddress);
-      
-      if (localPatientData) {
-        // Found in localStorage - use actual patient data
-        const patientData: ScannedPatientData = {
-          type: "medichain_patient",
-          walletAddress: localPatientData.walletAddress,
-          name: localPatientData.name,
-          nik: localPatientData.nik,
-          bloodType: localPatientData.bloodType,
-          gender: localPatientData.gender,
-          age: localPatientData.age,
-          isManualEntry: false,
-        };
+      const patientData = await resolvePatient(manualAddress);
+      if (patientData) {
         await handlePatientScanned(patientData);
       } else {
-        // Not in localStorage - check if registered on blockchain
-        const isRegistered = await hasPatientIdentity(manualAddress);
-        
-        if (isRegistered) {
-          // Patient exists on blockchain but no local data
-          // Create entry with wallet address, hospital can still request access
-          const manualPatientData: ScannedPatientData = {
-            type: "medichain_patient",
-            walletAddress: manualAddress,
-            name: "Verified Patient",
-            nik: manualAddress.slice(0, 10) + "...",
-            bloodType: "-",
-            gender: "-",
-            age: 0,
-            isManualEntry: true,
-          };
-          await handlePatientScanned(manualPatientData);
-        } else {
-          // Patient not found anywhere
-          setError("Patient not found. This wallet address is not registered in Medichain.");
-        }
+        // Patient not found anywhere
+        setError("Patient not found. This wallet address is not registered in Medichain.");
       }
     } catch (err) {
       console.error("Error with manual address:", err);
@@ -1525,6 +1950,81 @@ function QRScannerModal({
     }
   };
 
+  // One-scan consent: redeem the patient's pre-signed grant in a single transaction
+  const handleConsentQR = async (consent: SignedConsentQR) => {
+    if (!account) return;
+
+    if (consent.x <= Math.floor(Date.now() / 1000)) {
+      setError("This consent QR has expired. Ask the patient to create a new one.");
+      return;
+    }
+    if (!isOpenConsent(consent) && consent.h.toLowerCase() !== account.address.toLowerCase()) {
+      setError("This consent QR was issued to a different hospital.");
+      return;
+    }
+
+    setIsRedeemingConsent(true);
+    try {
+      const result = await redeemSignedGrant(account, {
+        patient: consent.a,
+        accessor: consent.h,
+        accessType: consent.t,
+        accessDuration: consent.d,
+        deadline: consent.x,
+        nonce: consent.n,
+        signature: consent.s,
+      });
+
+      if (!result.success) {
+        setError(result.error || "Failed to redeem patient consent");
+        return;
+      }
+
+      const patientData = await resolvePatient(consent.a);
+      if (patientData) {
+        await handlePatientScanned(patientData);
+      }
+    } finally {
+      setIsRedeemingConsent(false);
+    }
+  };
+
+  // Verify the patient's signature, expiry and nonce before trusting a scanned code
+  const handleQRText = async (text: string) => {
+    setProcessing(true);
+    setError(null);
+
+    try {
+      const { payload, consent, error: parseError } = parsePatientQR(text);
+      if (consent) {
+        await handleConsentQR(consent);
+        return;
+      }
+      if (!payload) {
+        setError(parseError || "Invalid QR Code.");
+        return;
+      }
+
+      const redeemed = await redeemPatientQR(payload);
+      if (!redeemed.success || !redeemed.patient) {
+        setError(redeemed.error || "QR Code could not be verified.");
+        return;
+      }
+
+      const patientData = await resolvePatient(redeemed.patient);
+      if (patientData) {
+        await handlePatientScanned(patientData);
+      } else {
+        setError("Patient not found. This wallet address is not registered in Medichain.");
+      }
+    } catch (err) {
+      console.error("Error verifying patient QR:", err);
+      setError("Failed to verify QR Code.");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
   const scanQRCode = () => {
     const video = videoRef.current;
     const canvas = canvasRef.current;
@@ -1549,8 +2049,10 @@ function QRScannerModal({
       if (code) {
         try {
           const data = JSON.parse(code.data);
-          if (data.type === "medichain_patient") {
-            handlePatientScanned(data);
+          if (data.type === PATIENT_QR_TYPE || data.type === CONSENT_QR_TYPE) {
+            setScanning(false);
+            stopCamera();
+            handleQRText(code.data);
             return;
           }
         } catch {
@@ -1616,12 +2118,7 @@ function QRScannerModal({
       });
 
       if (code) {
-        const qrData = JSON.parse(code.data);
-        if (qrData.type === "medichain_patient") {
-          await handlePatientScanned(qrData);
-        } else {
-          setError("Invalid QR Code.");
-        }
+        await handleQRText(code.data);
       } else {
         setError("Cannot read QR Code from image. Try manual entry below.");
       }
@@ -1708,7 +2205,13 @@ function QRScannerModal({
               <h3 className="text-lg font-bold text-foreground">Scan Patient QR</h3>
             </div>
 
-            {scanning ? (
+            {isRedeemingConsent ? (
+              <div className="text-center py-6">
+                <Loader2 className="w-6 h-6 text-teal-600 animate-spin mx-auto mb-3" />
+                <p className="font-medium text-foreground">Redeeming patient consent...</p>
+                <p className="text-sm text-muted-foreground mt-1">Confirm the transaction in your wallet.</p>
+              </div>
+            ) : scanning ? (
               <>
                 <div className="relative aspect-square bg-black rounded-xl overflow-hidden mb-4">
                   <video ref={videoRef} className="absolute inset-0 w-full h-full object-cover" playsInline />
@@ -2,6 +2,7 @@
 
 import { useActiveAccount, ConnectButton } from "thirdweb/react";
 import { client, hospitalTheme, wallets, liskSepolia } from "@/lib/thirdWeb";
+import { siweAuth } from "@/lib/services/auth";
 import { useRouter } from "next/navigation";
 import { useState, useEffect } from "react";
 import { 
@@ -17,7 +18,12 @@ import {
   Mail,
   Briefcase,
   Loader2,
-  ExternalLink
+  ExternalLink,
+  Clock,
+  RefreshCw,
+  Upload,
+  X,
+  XCircle
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -30,82 +36,37 @@ import {
   SelectTrigger, 
   SelectValue 
 } from "@/components/ui/select";
-import { saveHospitalData, isHospitalRegistered, HospitalData } from "@/lib/hospitalStorage";
+import {
+  saveHospitalData,
+  isHospitalRegistered,
+  HospitalData,
+  getRegistrationDraft,
+  saveRegistrationDraft,
+  clearRegistrationDraft,
+  type HospitalRegistrationDraft
+} from "@/lib/hospitalStorage";
 import { 
   setHospitalProfile, 
   hasHospitalProfile, 
   getHospitalProfile as getHospitalProfileFromChain,
   registerHospitalInRegistry,
-  isHospitalVerifiedInRegistry,
-  getHospitalDetailsFromRegistry
+  getHospitalDetailsFromRegistry,
+  getExplorerUrl
 } from "@/lib/services/blockchain";
+import {
+  MAX_LICENSE_DOCUMENTS,
+  getApplicationStatus,
+  submitHospitalApplication,
+  validateLicenseDocument,
+  type ApplicationStatusView
+} from "@/lib/services/registration";
 
 type Step = 1 | 2;
 
-interface FormData {
-  // Step 1: Hospital Info
-  name: string;
-  type: HospitalData["type"] | "";
-  licenseNumber: string;
-  address: string;
-  city: string;
-  phone: string;
-  // Step 2: PIC Info
-  picName: string;
-  picPosition: string;
-  picPhone: string;
-  picEmail: string;
-}
-
-// Get signature from backend for hospital registration
-async function getRegistrationSignature(
-  hospitalAddress: string, 
-  hospitalName: string, 
-  licenseNumber: string
-): Promise<{ success: boolean; signature?: string; error?: string }> {
-  try {
-    const response = await fetch("/api/hospital/register", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ hospitalAddress, hospitalName, licenseNumber }),
-    });
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      throw new Error(data.error || "Failed to get signature");
-    }
-
-    return { success: true, signature: data.signature };
-  } catch (error) {
-    console.error("Signature error:", error);
-    return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
-  }
-}
+type FormData = HospitalRegistrationDraft;
 
-// Whitelist hospital on blockchain (for patient access)
-async function whitelistHospitalOnChain(hospitalAddress: string, hospitalName: string): Promise<{ success: boolean; txHash?: string; error?: string }> {
-  try {
-    const response = await fetch("/api/hospital/whitelist", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ hospitalAddress, hospitalName }),
-    });
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      throw new Error(data.error || "Failed to whitelist hospital");
-    }
-
-    return { success: true, txHash: data.txHash };
-  } catch (error) {
-    console.error("Whitelist error:", error);
-    return { success: false,
-      error: error instanceof Error ? error.message : "Unknown error",
-    };
-  }
-}
+// How often a pending application's status is re-checked
+const STATUS_POLL_MS = 30000;
 
 export default function HospitalRegistration() {
   const account = useActiveAccount();
@@ -128,6 +89,11 @@ export default function HospitalRegistration() {
     picPhone: "",
     picEmail: "",
   });
+  const [documents, setDocuments] = useState<File[]>([]);
+  const [documentError, setDocumentError] = useState<string | null>(null);
+  const [application, setApplication] = useState<ApplicationStatusView | null>(null);
+  const [isCheckingStatus, setIsCheckingStatus] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
 
   useEffect(() => {
     const checkRegistration = async () => {
@@ -170,11 +136,35 @@ export default function HospitalRegistration() {
       } catch (error) {
         console.error("Error checking blockchain profile:", error);
       }
+
+      // Resume an application submitted earlier from this wallet
+      const status = await getApplicationStatus(account.address);
+      const draft = getRegistrationDraft(account.address);
+      if (draft || status) {
+        // The approval is bound to the reviewed name and license number
+        setFormData(prev => ({
+          ...prev,
+          ...draft,
+          ...(status ? { name: status.name, licenseNumber: status.licenseNumber } : {}),
+        }));
+      }
+      setApplication(status);
     };
     
     checkRegistration();
   }, [account, router]);
 
+  // Keep checking while the application waits for review
+  useEffect(() => {
+    if (!account || application?.status !== "pending") return;
+
+    const interval = setInterval(async () => {
+      const status = await getApplicationStatus(account.address);
+      if (status) setApplication(status);
+    }, STATUS_POLL_MS);
+    return () => clearInterval(interval);
+  }, [account, application?.status]);
+
   if (!account) {
     return null;
   }
@@ -182,6 +172,7 @@ export default function HospitalRegistration() {
   const isStep1Valid = formData.name && formData.type && formData.licenseNumber && 
                        formData.address && formData.city && formData.phone;
   const isStep2Valid = formData.picName && formData.picPhone && formData.picEmail;
+  const isUnderReview = application?.status === "pending" && !isEditing;
 
   const handleNext = () => {
     if (currentStep === 1 && isStep1Valid) {
@@ -195,98 +186,155 @@ export default function HospitalRegistration() {
     }
   };
 
-  const handleSubmit = async () => {
-    if (!isStep2Valid || !formData.type || isSubmitting) return;
+  const approval = application?.status === "approved" && application.signature ? application : null;
 
-    setIsSubmitting(true);
-    setSubmitError(null);
+  const handleCheckStatus = async () => {
+    setIsCheckingStatus(true);
+    const status = await getApplicationStatus(account.address);
+    if (status) setApplication(status);
+    setIsCheckingStatus(false);
+  };
 
-    try {
-      // Step 1: Get signature from backend for AutomatedHospitalRegistry
-      console.log("Getting registration signature from backend...");
-      const signatureResult = await getRegistrationSignature(
-        account.address,
-        formData.name,
-        formData.licenseNumber
-      );
-
-      if (!signatureResult.success || !signatureResult.signature) {
-        throw new Error(signatureResult.error || "Failed to get registration signature");
-      }
+  const handleAddDocuments = async (files: FileList | null) => {
+    if (!files) return;
+    setDocumentError(null);
 
-      // Step 2: Register in AutomatedHospitalRegistry (from user's wallet)
-      console.log("Registering hospital in AutomatedHospitalRegistry...");
-      const registryResult = await registerHospitalInRegistry(
-        account,
-        formData.name,
-        formData.licenseNumber,
-        signatureResult.signature
-      );
-
-      if (!registryResult.success) {
-        // Check if already registered
-        const existingDetails = await getHospitalDetailsFromRegistry(account.address);
-        if (!existingDetails) {
-          throw new Error(registryResult.error || "Failed to register in hospital registry");
-        }
-        console.log("Hospital already registered in registry");
-      } else {
-        console.log("Registry TX:", registryResult.txHash);
-        setTxHash(registryResult.txHash || null);
+    const accepted: File[] = [];
+    for (const file of Array.from(files)) {
+      if (documents.length + accepted.length >= MAX_LICENSE_DOCUMENTS) {
+        setDocumentError(`At most ${MAX_LICENSE_DOCUMENTS} documents can be attached`);
+        break;
       }
-
-      // Step 3: Whitelist hospital in MedichainPatientIdentity (for patient access)
-      console.log("Whitelisting hospital for patient access...");
-      const whitelistResult = await whitelistHospitalOnChain(account.address, formData.name);
-      if (!whitelistResult.success && !whitelistResult.error?.includes("already")) {
-        console.warn("Whitelist warning:", whitelistResult.error);
-        // Don't throw - continue with profile setup
+      const error = await validateLicenseDocument(file);
+      if (error) {
+        setDocumentError(error);
+        continue;
       }
+      accepted.push(file);
+    }
+    setDocuments(prev => [...prev, ...accepted]);
+  };
 
-      // Step 4: Set hospital profile in MedichainHospitalProfile
-      console.log("Setting hospital profile on blockchain...");
-      const profileResult = await setHospitalProfile(
-        account,
-        formData.type,
-        formData.address,
-        formData.city,
-        formData.phone,
-        formData.picName,
-        formData.picPosition || "",
-        formData.picPhone,
-        formData.picEmail
-      );
-
-      if (!profileResult.success) {
-        console.warn("Profile setup warning:", profileResult.error);
-        // Don't throw - localStorage backup will still work
-      } else {
-        console.log("Profile TX:", profileResult.txHash);
-      }
+  // Send the application for admin review; nothing is written on-chain yet
+  const submitApplication = async () => {
+    if (!formData.type) return;
+
+    if (documents.length === 0) {
+      throw new Error("Attach your operating license (PDF or image) for review");
+    }
 
-      // Step 5: Save to localStorage (backup)
-      const hospitalData: HospitalData = {
+    saveRegistrationDraft(account.address, formData);
+
+    const result = await submitHospitalApplication(
+      account,
+      {
         name: formData.name,
-        type: formData.type as HospitalData["type"],
+        hospitalType: formData.type,
         licenseNumber: formData.licenseNumber,
-        address: formData.address,
+        physicalAddress: formData.address,
         city: formData.city,
         phone: formData.phone,
         picName: formData.picName,
         picPosition: formData.picPosition,
         picPhone: formData.picPhone,
         picEmail: formData.picEmail,
-        walletAddress: account.address,
-        registeredAt: new Date().toISOString(),
-      };
+      },
+      documents
+    );
 
-      saveHospitalData(hospitalData);
-      setShowSuccess(true);
+    if (!result.success || !result.application) {
+      throw new Error(result.error || "Failed to submit application");
+    }
 
-      // Redirect after showing success
-      setTimeout(() => {
-        router.push("/dashboard/hospital");
-      }, 3000);
+    setDocuments([]);
+    setIsEditing(false);
+    setApplication(result.application);
+  };
+
+  // Approved: register with the issued signature, then publish the hospital profile
+  const completeRegistration = async (approval: ApplicationStatusView) => {
+    if (!formData.type || !approval.signature) return;
+
+    // The signature covers the approved license number, so the approved name and license are used
+    console.log("Registering hospital in AutomatedHospitalRegistry...");
+    const registryResult = await registerHospitalInRegistry(
+      account,
+      approval.name,
+      approval.licenseNumber,
+      approval.signature
+    );
+
+    if (!registryResult.success) {
+      // Check if already registered
+      const existingDetails = await getHospitalDetailsFromRegistry(account.address);
+      if (!existingDetails) {
+        throw new Error(registryResult.error || "Failed to register in hospital registry");
+      }
+      console.log("Hospital already registered in registry");
+    } else {
+      console.log("Registry TX:", registryResult.txHash);
+      setTxHash(registryResult.txHash || null);
+    }
+
+    // Set hospital profile in MedichainHospitalProfile
+    console.log("Setting hospital profile on blockchain...");
+    const profileResult = await setHospitalProfile(
+      account,
+      formData.type,
+      formData.address,
+      formData.city,
+      formData.phone,
+      formData.picName,
+      formData.picPosition || "",
+      formData.picPhone,
+      formData.picEmail
+    );
+
+    if (!profileResult.success) {
+      console.warn("Profile setup warning:", profileResult.error);
+      // Don't throw - localStorage backup will still work
+    } else {
+      console.log("Profile TX:", profileResult.txHash);
+    }
+
+    // Save to localStorage (backup)
+    const hospitalData: HospitalData = {
+      name: approval.name,
+      type: formData.type as HospitalData["type"],
+      licenseNumber: approval.licenseNumber,
+      address: formData.address,
+      city: formData.city,
+      phone: formData.phone,
+      picName: formData.picName,
+      picPosition: formData.picPosition,
+      picPhone: formData.picPhone,
+      picEmail: formData.picEmail,
+      walletAddress: account.address,
+      registeredAt: new Date().toISOString(),
+    };
+
+    saveHospitalData(hospitalData);
+    clearRegistrationDraft(account.address);
+    setShowSuccess(true);
+
+    // Redirect after showing success
+    setTimeout(() => {
+      router.push("/dashboard/hospital");
+    }, 3000);
+  };
+
+  const handleSubmit = async () => {
+    if (!isStep2Valid || !formData.type || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      if (approval) {
+        await completeRegistration(approval);
+      } else {
+        await submitApplication();
+      }
     } catch (error) {
       console.error("Registration error:", error);
       setSubmitError(error instanceof Error ? error.message : "Registration failed");
@@ -351,6 +399,7 @@ export default function HospitalRegistration() {
           
           <ConnectButton 
             client={client} 
+            auth={siweAuth}
             theme={hospitalTheme}
             wallets={wallets}
             chain={liskSepolia}
@@ -362,248 +411,357 @@ export default function HospitalRegistration() {
       <main className="max-w-2xl mx-auto p-6">
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold text-foreground mb-2">Hospital Registration</h1>
-          <p className="text-muted-foreground">Complete the form below to register your healthcare facility</p>
-        </div>
-
-        {/* Progress Bar */}
-        <div className="mb-8">
-          <div className="flex items-center justify-between mb-2">
-            <span className="text-sm font-medium text-foreground">Step {currentStep} of 2</span>
-            <span className="text-sm text-muted-foreground">
-              {currentStep === 1 ? "Hospital Information" : "PIC Information"}
-            </span>
-          </div>
-          <div className="h-2 bg-muted rounded-full overflow-hidden">
-            <div 
-              className="h-full bg-gradient-to-r from-teal-600 to-teal-500 transition-all duration-300 ease-out"
-              style={{ width: currentStep === 1 ? "50%" : "100%" }}
-            />
-          </div>
+          <p className="text-muted-foreground">Complete the form below to apply; an administrator verifies your license before registration</p>
         </div>
 
-        {/* Form Card */}
-        <Card>
-          <CardContent className="p-6">
-            {currentStep === 1 ? (
-              /* Step 1: Hospital Information */
-              <div className="space-y-5">
-                <div className="flex items-center gap-2 mb-6">
-                  <Building2 className="w-5 h-5 text-teal-600" />
-                  <h2 className="text-lg font-semibold text-foreground">Hospital Information</h2>
-                </div>
-
-                {/* Hospital Name */}
-                <div className="space-y-2">
-                  <Label htmlFor="name">Hospital Name *</Label>
-                  <Input
-                    id="name"
-                    type="text"
-                    value={formData.name}
-                    onChange={(e) => updateField("name", e.target.value)}
-                    placeholder="e.g. Siloam Hospital Jakarta"
-                    className="h-11"
-                  />
+        {application && isUnderReview ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <div className="w-16 h-16 bg-amber-500/10 rounded-full flex items-center justify-center mx-auto mb-5">
+                <Clock className="w-8 h-8 text-amber-600" />
+              </div>
+              <h2 className="text-xl font-semibold text-foreground mb-2">Application Under Review</h2>
+              <p className="text-muted-foreground text-sm mb-6">
+                An administrator is checking license {application.licenseNumber} for {application.name} against the
+                facility license register and your uploaded documents. You can finish registration once it is approved.
+              </p>
+              <p className="text-xs text-muted-foreground mb-6">
+                Submitted {new Date(application.submittedAt * 1000).toLocaleString()}
+              </p>
+              <div className="flex gap-3 justify-center">
+                <Button variant="outline" onClick={() => setIsEditing(true)} className="gap-2">
+                  <FileText className="w-4 h-4" />
+                  Edit Application
+                </Button>
+                <Button onClick={handleCheckStatus} disabled={isCheckingStatus} className="gap-2">
+                  <RefreshCw className={`w-4 h-4 ${isCheckingStatus ? "animate-spin" : ""}`} />
+                  Check Status
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {application?.status === "rejected" && (
+              <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-sm flex gap-3">
+                <XCircle className="w-5 h-5 text-red-500 shrink-0" />
+                <div>
+                  <p className="font-medium text-red-600">Your application was rejected</p>
+                  <p className="text-muted-foreground">{application.rejectionReason}</p>
+                  <p className="text-muted-foreground mt-1">Correct your details or documents and submit again.</p>
                 </div>
+              </div>
+            )}
 
-                {/* Hospital Type */}
-                <div className="space-y-2">
-                  <Label>Hospital Type *</Label>
-                  <Select 
-                    value={formData.type} 
-                    onValueChange={(value) => updateField("type", value)}
-                  >
-                    <SelectTrigger className="w-full h-11">
-                      <SelectValue placeholder="Select type..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="general">General Hospital</SelectItem>
-                      <SelectItem value="clinic">Clinic</SelectItem>
-                      <SelectItem value="laboratory">Laboratory</SelectItem>
-                      <SelectItem value="specialist">Specialist Hospital</SelectItem>
-                    </SelectContent>
-                  </Select>
+            {approval && (
+              <div className="mb-6 p-4 bg-emerald-500/10 border border-emerald-500/20 rounded-xl text-sm flex gap-3">
+                <CheckCircle2 className="w-5 h-5 text-emerald-600 shrink-0" />
+                <div>
+                  <p className="font-medium text-emerald-700">Your application was approved</p>
+                  <p className="text-muted-foreground">
+                    Confirm your details and complete registration to register on-chain and publish your hospital profile.
+                  </p>
+                  {approval.whitelistTxHash && (
+                    <a
+                      href={getExplorerUrl(approval.whitelistTxHash)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-emerald-600 hover:text-emerald-700 mt-1"
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                      Whitelist transaction
+                    </a>
+                  )}
                 </div>
+              </div>
+            )}
 
-                {/* License Number */}
-                <div className="space-y-2">
-                  <Label htmlFor="license" className="flex items-center gap-1">
-                    <FileText className="w-3 h-3" />
-                    License Number *
-                  </Label>
-                  <Input
-                    id="license"
-                    type="text"
-                    value={formData.licenseNumber}
-                    onChange={(e) => updateField("licenseNumber", e.target.value)}
-                    placeholder="Operating license / SIP number"
-                    className="h-11"
-                  />
-                </div>
+          {/* Progress Bar */}
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-foreground">Step {currentStep} of 2</span>
+              <span className="text-sm text-muted-foreground">
+                {currentStep === 1 ? "Hospital Information" : "PIC Information"}
+              </span>
+            </div>
+            <div className="h-2 bg-muted rounded-full overflow-hidden">
+              <div 
+                className="h-full bg-gradient-to-r from-teal-600 to-teal-500 transition-all duration-300 ease-out"
+                style={{ width: currentStep === 1 ? "50%" : "100%" }}
+              />
+            </div>
+          </div>
 
-                {/* Address */}
-                <div className="space-y-2">
-                  <Label htmlFor="address" className="flex items-center gap-1">
-                    <MapPin className="w-3 h-3" />
-                    Address *
-                  </Label>
-                  <textarea
-                    id="address"
-                    value={formData.address}
-                    onChange={(e) => updateField("address", e.target.value)}
-                    placeholder="Full address..."
-                    rows={2}
-                    className="flex w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring resize-none"
-                  />
-                </div>
+          {/* Form Card */}
+          <Card>
+            <CardContent className="p-6">
+              {currentStep === 1 ? (
+                /* Step 1: Hospital Information */
+                <div className="space-y-5">
+                  <div className="flex items-center gap-2 mb-6">
+                    <Building2 className="w-5 h-5 text-teal-600" />
+                    <h2 className="text-lg font-semibold text-foreground">Hospital Information</h2>
+                  </div>
 
-                {/* City & Phone - 2 columns */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {/* Hospital Name */}
                   <div className="space-y-2">
-                    <Label htmlFor="city">City *</Label>
+                    <Label htmlFor="name">Hospital Name *</Label>
                     <Input
-                      id="city"
+                      id="name"
                       type="text"
-                      value={formData.city}
-                      onChange={(e) => updateField("city", e.target.value)}
-                      placeholder="e.g. Jakarta"
+                      value={formData.name}
+                      onChange={(e) => updateField("name", e.target.value)}
+                      placeholder="e.g. Siloam Hospital Jakarta"
                       className="h-11"
+                      disabled={!!approval}
                     />
                   </div>
+
+                  {/* Hospital Type */}
                   <div className="space-y-2">
-                    <Label htmlFor="phone" className="flex items-center gap-1">
-                      <Phone className="w-3 h-3" />
-                      Phone Number *
+                    <Label>Hospital Type *</Label>
+                    <Select 
+                      value={formData.type} 
+                      onValueChange={(value) => updateField("type", value)}
+                    >
+                      <SelectTrigger className="w-full h-11">
+                        <SelectValue placeholder="Select type..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="general">General Hospital</SelectItem>
+                        <SelectItem value="clinic">Clinic</SelectItem>
+                        <SelectItem value="laboratory">Laboratory</SelectItem>
+                        <SelectItem value="specialist">Specialist Hospital</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* License Number */}
+                  <div className="space-y-2">
+                    <Label htmlFor="license" className="flex items-center gap-1">
+                      <FileText className="w-3 h-3" />
+                      License Number *
                     </Label>
                     <Input
-                      id="phone"
-                      type="tel"
-                      value={formData.phone}
-                      onChange={(e) => updateField("phone", e.target.value)}
-                      placeholder="+62 21 xxx xxxx"
+                      id="license"
+                      type="text"
+                      value={formData.licenseNumber}
+                      onChange={(e) => updateField("licenseNumber", e.target.value)}
+                      placeholder="Operating license / SIP number"
                       className="h-11"
+                      disabled={!!approval}
                     />
                   </div>
-                </div>
 
-                {/* Next Button */}
-                <Button
-                  onClick={handleNext}
-                  disabled={!isStep1Valid}
-                  className="w-full h-12 gap-2 bg-gradient-to-r from-teal-600 to-teal-500 hover:from-teal-700 hover:to-teal-600 text-base font-semibold mt-4"
-                >
-                  Next Step
-                  <ArrowRight className="w-4 h-4" />
-                </Button>
-              </div>
-            ) : (
-              /* Step 2: PIC Information */
-              <div className="space-y-5">
-                <div className="flex items-center gap-2 mb-6">
-                  <User className="w-5 h-5 text-teal-600" />
-                  <h2 className="text-lg font-semibold text-foreground">Person in Charge (PIC)</h2>
-                </div>
+                  {/* Address */}
+                  <div className="space-y-2">
+                    <Label htmlFor="address" className="flex items-center gap-1">
+                      <MapPin className="w-3 h-3" />
+                      Address *
+                    </Label>
+                    <textarea
+                      id="address"
+                      value={formData.address}
+                      onChange={(e) => updateField("address", e.target.value)}
+                      placeholder="Full address..."
+                      rows={2}
+                      className="flex w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring resize-none"
+                    />
+                  </div>
 
-                {/* PIC Name */}
-                <div className="space-y-2">
-                  <Label htmlFor="picName">PIC Name *</Label>
-                  <Input
-                    id="picName"
-                    type="text"
-                    value={formData.picName}
-                    onChange={(e) => updateField("picName", e.target.value)}
-                    placeholder="Full name of person in charge"
-                    className="h-11"
-                  />
-                </div>
+                  {/* City & Phone - 2 columns */}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="city">City *</Label>
+                      <Input
+                        id="city"
+                        type="text"
+                        value={formData.city}
+                        onChange={(e) => updateField("city", e.target.value)}
+                        placeholder="e.g. Jakarta"
+                        className="h-11"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="phone" className="flex items-center gap-1">
+                        <Phone className="w-3 h-3" />
+                        Phone Number *
+                      </Label>
+                      <Input
+                        id="phone"
+                        type="tel"
+                        value={formData.phone}
+                        onChange={(e) => updateField("phone", e.target.value)}
+                        placeholder="+62 21 xxx xxxx"
+                        className="h-11"
+                      />
+                    </div>
+                  </div>
 
-                {/* PIC Position */}
-                <div className="space-y-2">
-                  <Label htmlFor="picPosition" className="flex items-center gap-1">
-                    <Briefcase className="w-3 h-3" />
-                    Position
-                  </Label>
-                  <Input
-                    id="picPosition"
-                    type="text"
-                    value={formData.picPosition}
-                    onChange={(e) => updateField("picPosition", e.target.value)}
-                    placeholder="e.g. Admin Manager, IT Director"
-                    className="h-11"
-                  />
+                  {/* Next Button */}
+                  <Button
+                    onClick={handleNext}
+                    disabled={!isStep1Valid}
+                    className="w-full h-12 gap-2 bg-gradient-to-r from-teal-600 to-teal-500 hover:from-teal-700 hover:to-teal-600 text-base font-semibold mt-4"
+                  >
+                    Next Step
+                    <ArrowRight className="w-4 h-4" />
+                  </Button>
                 </div>
+              ) : (
+                /* Step 2: PIC Information */
+                <div className="space-y-5">
+                  <div className="flex items-center gap-2 mb-6">
+                    <User className="w-5 h-5 text-teal-600" />
+                    <h2 className="text-lg font-semibold text-foreground">Person in Charge (PIC)</h2>
+                  </div>
 
-                {/* PIC Phone & Email - 2 columns */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {/* PIC Name */}
                   <div className="space-y-2">
-                    <Label htmlFor="picPhone" className="flex items-center gap-1">
-                      <Phone className="w-3 h-3" />
-                      PIC Phone *
-                    </Label>
+                    <Label htmlFor="picName">PIC Name *</Label>
                     <Input
-                      id="picPhone"
-                      type="tel"
-                      value={formData.picPhone}
-                      onChange={(e) => updateField("picPhone", e.target.value)}
-                      placeholder="+62 812 xxx xxxx"
+                      id="picName"
+                      type="text"
+                      value={formData.picName}
+                      onChange={(e) => updateField("picName", e.target.value)}
+                      placeholder="Full name of person in charge"
                       className="h-11"
                     />
                   </div>
+
+                  {/* PIC Position */}
                   <div className="space-y-2">
-                    <Label htmlFor="picEmail" className="flex items-center gap-1">
-                      <Mail className="w-3 h-3" />
-                      PIC Email *
+                    <Label htmlFor="picPosition" className="flex items-center gap-1">
+                      <Briefcase className="w-3 h-3" />
+                      Position
                     </Label>
                     <Input
-                      id="picEmail"
-                      type="email"
-                      value={formData.picEmail}
-                      onChange={(e) => updateField("picEmail", e.target.value)}
-                      placeholder="admin@hospital.com"
+                      id="picPosition"
+                      type="text"
+                      value={formData.picPosition}
+                      onChange={(e) => updateField("picPosition", e.target.value)}
+                      placeholder="e.g. Admin Manager, IT Director"
                       className="h-11"
                     />
                   </div>
-                </div>
 
-                {/* Error Message */}
-                {submitError && (
-                  <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-500 text-sm">
-                    {submitError}
+                  {/* PIC Phone & Email - 2 columns */}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="picPhone" className="flex items-center gap-1">
+                        <Phone className="w-3 h-3" />
+                        PIC Phone *
+                      </Label>
+                      <Input
+                        id="picPhone"
+                        type="tel"
+                        value={formData.picPhone}
+                        onChange={(e) => updateField("picPhone", e.target.value)}
+                        placeholder="+62 812 xxx xxxx"
+                        className="h-11"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="picEmail" className="flex items-center gap-1">
+                        <Mail className="w-3 h-3" />
+                        PIC Email *
+                      </Label>
+                      <Input
+                        id="picEmail"
+                        type="email"
+                        value={formData.picEmail}
+                        onChange={(e) => updateField("picEmail", e.target.value)}
+                        placeholder="admin@hospital.com"
+                        className="h-11"
+                      />
+                    </div>
                   </div>
-                )}
 
-                {/* Buttons */}
-                <div className="flex gap-3 mt-6">
-                  <Button
-                    variant="outline"
-                    onClick={handleBack}
-                    className="flex-1 h-12 gap-2"
-                    disabled={isSubmitting}
-                  >
-                    <ArrowLeft className="w-4 h-4" />
-                    Back
-                  </Button>
-                  <Button
-                    onClick={handleSubmit}
-                    disabled={!isStep2Valid || isSubmitting}
-                    className="flex-1 h-12 gap-2 bg-gradient-to-r from-emerald-600 to-emerald-500 hover:from-emerald-700 hover:to-emerald-600 text-base font-semibold"
-                  >
-                    {isSubmitting ? (
-                      <>
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                        Registering on Blockchain...
-                      </>
-                    ) : (
-                      <>
-                        <CheckCircle2 className="w-4 h-4" />
-                        Complete Registration
-                      </>
-                    )}
-                  </Button>
+                  {/* License Documents (reviewed by an administrator) */}
+                  {!approval && (
+                    <div className="space-y-2">
+                      <Label className="flex items-center gap-1">
+                        <FileText className="w-3 h-3" />
+                        License Documents *
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        Operating license or permit, PDF, PNG or JPEG, up to {MAX_LICENSE_DOCUMENTS} files
+                      </p>
+                      {documents.map((file, index) => (
+                        <div key={`${file.name}-${index}`} className="flex items-center justify-between gap-2 p-2 border border-border rounded-lg text-sm">
+                          <span className="truncate">{file.name}</span>
+                          <button
+                            type="button"
+                            onClick={() => setDocuments(prev => prev.filter((_, i) => i !== index))}
+                            className="p-1 rounded hover:bg-muted text-muted-foreground"
+                            aria-label={`Remove ${file.name}`}
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                      {documents.length < MAX_LICENSE_DOCUMENTS && (
+                        <label className="flex items-center justify-center gap-2 h-11 border border-dashed border-input rounded-md text-sm text-muted-foreground cursor-pointer hover:bg-muted/50">
+                          <Upload className="w-4 h-4" />
+                          Add document
+                          <input
+                            type="file"
+                            accept="application/pdf,image/png,image/jpeg"
+                            multiple
+                            className="hidden"
+                            onChange={(e) => {
+                              handleAddDocuments(e.target.files);
+                              e.target.value = "";
+                            }}
+                          />
+                        </label>
+                      )}
+                      {documentError && <p className="text-xs text-red-500">{documentError}</p>}
+                    </div>
+                  )}
+
+                  {/* Error Message */}
+                  {submitError && (
+                    <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-500 text-sm">
+                      {submitError}
+                    </div>
+                  )}
+
+                  {/* Buttons */}
+                  <div className="flex gap-3 mt-6">
+                    <Button
+                      variant="outline"
+                      onClick={handleBack}
+                      className="flex-1 h-12 gap-2"
+                      disabled={isSubmitting}
+                    >
+                      <ArrowLeft className="w-4 h-4" />
+                      Back
+                    </Button>
+                    <Button
+                      onClick={handleSubmit}
+                      disabled={!isStep2Valid || isSubmitting}
+                      className="flex-1 h-12 gap-2 bg-gradient-to-r from-emerald-600 to-emerald-500 hover:from-emerald-700 hover:to-emerald-600 text-base font-semibold"
+                    >
+                      {isSubmitting ? (
+                        <>
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          {approval ? "Registering on Blockchain..." : "Submitting Application..."}
+                        </>
+                      ) : (
+                        <>
+                          <CheckCircle2 className="w-4 h-4" />
+                          {approval ? "Complete Registration" : application ? "Resubmit Application" : "Submit for Review"}
+                        </>
+                      )}
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+              )}
+            </CardContent>
+          </Card>
+          </>
+        )}
       </main>
     </div>
   );
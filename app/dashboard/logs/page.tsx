@@ -1,6 +1,17 @@
 "use client"
 
+import { useState, useEffect, useMemo, useCallback } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import {
   Table,
   TableBody,
@@ -9,22 +20,136 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
-import { FileText, Eye, Download, Shield } from "lucide-react"
+import { FileText, Eye, KeyRound, FilePlus, RefreshCw, Loader2, ExternalLink } from "lucide-react"
+import {
+  getAuditLogs,
+  getHospitalBasicInfo,
+  getExplorerUrl,
+  type AuditAction,
+  type AuditLogEntry,
+} from "@/lib/services/blockchain"
+
+const actionLabels: Record<AuditAction, string> = {
+  AccessGranted: "Access Granted",
+  AccessRevoked: "Access Revoked",
+  AccessRequested: "Access Request",
+  AccessRequestApproved: "Request Approved",
+  AccessRequestRejected: "Request Rejected",
+  RecordAdded: "Record Added",
+  RecordVerified: "Record Verified",
+  ProfileAccessed: "Profile Viewed",
+}
 
-const logs = [
-  { id: "LOG-001", action: "View Record", user: "Dr. Andi", patient: "Budi Santoso", time: "2024-12-12 10:30:15", ip: "192.168.1.***" },
-  { id: "LOG-002", action: "Download Report", user: "Admin", patient: "Siti Aminah", time: "2024-12-12 10:28:42", ip: "192.168.1.***" },
-  { id: "LOG-003", action: "Update Record", user: "Dr. Andi", patient: "Ahmad Wijaya", time: "2024-12-12 10:15:33", ip: "192.168.1.***" },
-  { id: "LOG-004", action: "Access Request", user: "RS Medika", patient: "Dewi Lestari", time: "2024-12-12 09:45:21", ip: "10.0.0.***" },
-  { id: "LOG-005", action: "View Record", user: "Dr. Sari", patient: "Rudi Hartono", time: "2024-12-12 09:30:08", ip: "192.168.1.***" },
-]
+const actionStyles: Record<AuditAction, string> = {
+  AccessGranted: "bg-green-100 text-green-700",
+  AccessRevoked: "bg-red-100 text-red-700",
+  AccessRequested: "bg-amber-100 text-amber-700",
+  AccessRequestApproved: "bg-green-100 text-green-700",
+  AccessRequestRejected: "bg-red-100 text-red-700",
+  RecordAdded: "bg-blue-100 text-blue-700",
+  RecordVerified: "bg-blue-100 text-blue-700",
+  ProfileAccessed: "bg-secondary",
+}
+
+const accessActions: AuditAction[] = ["AccessGranted", "AccessRevoked", "AccessRequestApproved", "AccessRequestRejected"]
+const recordActions: AuditAction[] = ["RecordAdded", "RecordVerified"]
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
 
 export default function LogsPage() {
+  const [logs, setLogs] = useState<AuditLogEntry[]>([])
+  const [hospitalNames, setHospitalNames] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Filters
+  const [patientFilter, setPatientFilter] = useState("")
+  const [hospitalFilter, setHospitalFilter] = useState("")
+  const [actionFilter, setActionFilter] = useState<AuditAction | "all">("all")
+  const [dateFrom, setDateFrom] = useState("")
+  const [dateTo, setDateTo] = useState("")
+
+  const loadLogs = useCallback(async () => {
+    const entries = await getAuditLogs()
+    setLogs(entries)
+    setError(null)
+
+    // Resolve hospital names for display
+    const actors = [...new Set(entries.map((e) => e.actor).filter((a): a is string => !!a))]
+    const names: Record<string, string> = {}
+    await Promise.all(
+      actors.map(async (actor) => {
+        const info = await getHospitalBasicInfo(actor)
+        if (info) names[actor.toLowerCase()] = info.name
+      })
+    )
+    setHospitalNames(names)
+  }, [])
+
+  useEffect(() => {
+    loadLogs()
+      .catch(() => setError("Failed to load on-chain logs"))
+      .finally(() => setLoading(false))
+  }, [loadLogs])
+
+  const handleRefresh = async () => {
+    setLoading(true)
+    try {
+      await loadLogs()
+    } catch {
+      setError("Failed to load on-chain logs")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const filteredLogs = useMemo(() => {
+    const patient = patientFilter.trim().toLowerCase()
+    const hospital = hospitalFilter.trim().toLowerCase()
+    const from = dateFrom ? new Date(`${dateFrom}T00:00:00`).getTime() / 1000 : null
+    const to = dateTo ? new Date(`${dateTo}T23:59:59`).getTime() / 1000 : null
+
+    return logs.filter((log) => {
+      if (patient && !log.patient.toLowerCase().includes(patient)) return false
+      if (hospital) {
+        const actor = log.actor?.toLowerCase() ?? ""
+        const name = hospitalNames[actor]?.toLowerCase() ?? ""
+        if (!actor.includes(hospital) && !name.includes(hospital)) return false
+      }
+      if (actionFilter !== "all" && log.action !== actionFilter) return false
+      if (from !== null && log.timestamp < from) return false
+      if (to !== null && log.timestamp > to) return false
+      return true
+    })
+  }, [logs, hospitalNames, patientFilter, hospitalFilter, actionFilter, dateFrom, dateTo])
+
+  const stats = useMemo(() => ({
+    profileViews: filteredLogs.filter((l) => l.action === "ProfileAccessed").length,
+    accessChanges: filteredLogs.filter((l) => accessActions.includes(l.action)).length,
+    recordEvents: filteredLogs.filter((l) => recordActions.includes(l.action)).length,
+  }), [filteredLogs])
+
+  const hasFilters = patientFilter || hospitalFilter || actionFilter !== "all" || dateFrom || dateTo
+
+  const clearFilters = () => {
+    setPatientFilter("")
+    setHospitalFilter("")
+    setActionFilter("all")
+    setDateFrom("")
+    setDateTo("")
+  }
+
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold">Access Logs</h1>
-        <p className="text-muted-foreground">Monitor all data access activities on the blockchain</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Access Logs</h1>
+          <p className="text-muted-foreground">Monitor all data access activities on the blockchain</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleRefresh} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
       </div>
 
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
@@ -35,8 +160,8 @@ export default function LogsPage() {
                 <Eye className="w-5 h-5" />
               </div>
               <div>
-                <p className="text-2xl font-bold">1,247</p>
-                <p className="text-sm text-muted-foreground">Total Views Today</p>
+                <p className="text-2xl font-bold">{stats.profileViews.toLocaleString()}</p>
+                <p className="text-sm text-muted-foreground">Profile Views</p>
               </div>
             </div>
           </CardContent>
@@ -45,11 +170,11 @@ export default function LogsPage() {
           <CardContent className="pt-6">
             <div className="flex items-center gap-4">
               <div className="w-10 h-10 rounded-md bg-secondary flex items-center justify-center">
-                <Download className="w-5 h-5" />
+                <KeyRound className="w-5 h-5" />
               </div>
               <div>
-                <p className="text-2xl font-bold">89</p>
-                <p className="text-sm text-muted-foreground">Downloads Today</p>
+                <p className="text-2xl font-bold">{stats.accessChanges.toLocaleString()}</p>
+                <p className="text-sm text-muted-foreground">Access Changes</p>
               </div>
             </div>
           </CardContent>
@@ -58,53 +183,141 @@ export default function LogsPage() {
           <CardContent className="pt-6">
             <div className="flex items-center gap-4">
               <div className="w-10 h-10 rounded-md bg-secondary flex items-center justify-center">
-                <Shield className="w-5 h-5" />
+                <FilePlus className="w-5 h-5" />
               </div>
               <div>
-                <p className="text-2xl font-bold">0</p>
-                <p className="text-sm text-muted-foreground">Security Alerts</p>
+                <p className="text-2xl font-bold">{stats.recordEvents.toLocaleString()}</p>
+                <p className="text-sm text-muted-foreground">Record Events</p>
               </div>
             </div>
           </CardContent>
         </Card>
       </div>
 
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="patient-filter">Patient</Label>
+              <Input
+                id="patient-filter"
+                placeholder="0x..."
+                value={patientFilter}
+                onChange={(e) => setPatientFilter(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="hospital-filter">Hospital</Label>
+              <Input
+                id="hospital-filter"
+                placeholder="Name or 0x..."
+                value={hospitalFilter}
+                onChange={(e) => setHospitalFilter(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={actionFilter} onValueChange={(value) => setActionFilter(value as AuditAction | "all")}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="All actions" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {(Object.keys(actionLabels) as AuditAction[]).map((action) => (
+                    <SelectItem key={action} value={action}>{actionLabels[action]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="date-from">From</Label>
+              <Input id="date-from" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="date-to">To</Label>
+              <Input id="date-to" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            </div>
+          </div>
+          {hasFilters && (
+            <div className="mt-4 flex justify-end">
+              <Button variant="ghost" size="sm" onClick={clearFilters}>Clear filters</Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2 text-base">
             <FileText className="w-4 h-4" />
-            Recent Access Logs
+            On-Chain Access Logs
+            <span className="text-sm font-normal text-muted-foreground">
+              ({filteredLogs.length} of {logs.length})
+            </span>
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Log ID</TableHead>
-                <TableHead>Action</TableHead>
-                <TableHead>User</TableHead>
-                <TableHead className="hidden md:table-cell">Patient</TableHead>
-                <TableHead className="hidden sm:table-cell">Timestamp</TableHead>
-                <TableHead className="hidden lg:table-cell">IP Address</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {logs.map((log) => (
-                <TableRow key={log.id}>
-                  <TableCell className="font-mono text-sm">{log.id}</TableCell>
-                  <TableCell>
-                    <span className="px-2 py-1 rounded-md text-xs font-medium bg-secondary">
-                      {log.action}
-                    </span>
-                  </TableCell>
-                  <TableCell className="font-medium">{log.user}</TableCell>
-                  <TableCell className="hidden md:table-cell text-muted-foreground">{log.patient}</TableCell>
-                  <TableCell className="hidden sm:table-cell text-muted-foreground text-sm">{log.time}</TableCell>
-                  <TableCell className="hidden lg:table-cell font-mono text-sm text-muted-foreground">{log.ip}</TableCell>
+          {loading ? (
+            <div className="flex items-center justify-center py-12 text-muted-foreground">
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              Loading events from Lisk Sepolia...
+            </div>
+          ) : error ? (
+            <p className="py-12 text-center text-sm text-red-600">{error}</p>
+          ) : filteredLogs.length === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">No events match the current filters</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Hospital / Accessor</TableHead>
+                  <TableHead className="hidden md:table-cell">Patient</TableHead>
+                  <TableHead className="hidden lg:table-cell">Details</TableHead>
+                  <TableHead className="hidden sm:table-cell">Timestamp</TableHead>
+                  <TableHead>Tx</TableHead>
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+              </TableHeader>
+              <TableBody>
+                {filteredLogs.map((log) => (
+                  <TableRow key={log.id}>
+                    <TableCell>
+                      <span className={`px-2 py-1 rounded-md text-xs font-medium ${actionStyles[log.action]}`}>
+                        {actionLabels[log.action]}
+                      </span>
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {log.actor
+                        ? log.actor.toLowerCase() === log.patient.toLowerCase()
+                          ? "Patient (self)"
+                          : hospitalNames[log.actor.toLowerCase()] ?? <span className="font-mono text-sm">{shortAddress(log.actor)}</span>
+                        : "Validator"}
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell font-mono text-sm text-muted-foreground">
+                      {shortAddress(log.patient)}
+                    </TableCell>
+                    <TableCell className="hidden lg:table-cell text-sm text-muted-foreground max-w-xs truncate">
+                      {log.detail}
+                    </TableCell>
+                    <TableCell className="hidden sm:table-cell text-muted-foreground text-sm">
+                      {log.timestamp ? new Date(log.timestamp * 1000).toLocaleString() : `Block ${log.blockNumber}`}
+                    </TableCell>
+                    <TableCell>
+                      <a
+                        href={getExplorerUrl(log.txHash)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 font-mono text-sm text-muted-foreground hover:text-foreground"
+                      >
+                        {log.txHash.slice(0, 8)}
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -3,22 +3,27 @@
 import { useState, useEffect } from "react"
 import { useActiveAccount, useDisconnect, ConnectButton, lightTheme } from "thirdweb/react"
 import { client, wallets } from "@/lib/thirdWeb"
+import { siweAuth } from "@/lib/services/auth"
 import { useRouter } from "next/navigation"
 import { PatientRegistrationForm } from "@/components/patient-registration-form"
 import { PatientQRCode } from "@/components/patient-qr-code"
 import { PatientProfileSection } from "@/components/patient-profile-section"
 import { MedicalHistorySection } from "@/components/medical-history-section"
 import { PendingAccessRequests } from "@/components/pending-access-requests"
+import { AccessManagementSection } from "@/components/access-management-section"
 import { getPatientData, PatientData, getBiometricEnabled, setBiometricEnabled as saveBiometricEnabled, linkWalletToPatient } from "@/lib/patientStorage"
 import { useBiometricAuth } from "@/hooks/use-biometric-auth"
-import { User, Loader2 } from "lucide-react"
+import { ensureEncryptionKey } from "@/lib/services/encryption"
+import { ensureDirectoryEntry } from "@/lib/services/directory"
+import { User, Loader2, AlertCircle } from "lucide-react"
 
 export default function PatientDashboard() {
-  const [activeTab, setActiveTab] = useState<"profile" | "history">("profile")
+  const [activeTab, setActiveTab] = useState<"profile" | "history" | "access">("profile")
   const [biometricEnabled, setBiometricEnabled] = useState(false)
   const [patientData, setPatientData] = useState<PatientData | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [showQR, setShowQR] = useState(false)
+  const [encryptionError, setEncryptionError] = useState<string | null>(null)
   const account = useActiveAccount()
   const { disconnect } = useDisconnect()
   const router = useRouter()
@@ -74,6 +79,26 @@ export default function PatientDashboard() {
     setIsLoading(false)
   }, [account, router, isRegistering])
 
+  // Make sure this wallet holds a record encryption key (created or restored on first visit)
+  const isRegistered = !!patientData
+  useEffect(() => {
+    if (!account || !isRegistered) return
+
+    ensureEncryptionKey(account).then((result) => {
+      setEncryptionError(result.success ? null : result.error ?? "Failed to set up encryption key")
+    })
+  }, [account, isRegistered])
+
+  // List the hashed NIK in the patient directory so hospitals on other devices can find this wallet
+  const nik = patientData?.nik
+  useEffect(() => {
+    if (!account || !nik) return
+
+    ensureDirectoryEntry(account, nik).then((result) => {
+      if (!result.success) console.warn("Failed to update patient directory:", result.error)
+    })
+  }, [account, nik])
+
   if (!account && !isRegistering) {
     return null
   }
@@ -140,11 +165,22 @@ export default function PatientDashboard() {
             >
               Medical History
             </button>
+            <button
+              onClick={() => setActiveTab("access")}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                activeTab === "access"
+                  ? "bg-background text-foreground shadow-sm"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              Who Has Access
+            </button>
           </div>
 
           {/* Thirdweb Connect Button */}
           <ConnectButton
             client={client}
+            auth={siweAuth}
             wallets={wallets}
             theme={lightTheme({
               colors: {
@@ -186,11 +222,27 @@ export default function PatientDashboard() {
           >
             Medical History
           </button>
+          <button
+            onClick={() => setActiveTab("access")}
+            className={`flex-1 py-3 text-sm font-medium transition-colors ${
+              activeTab === "access"
+                ? "text-primary border-b-2 border-primary bg-primary/5"
+                : "text-muted-foreground"
+            }`}
+          >
+            Access
+          </button>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="max-w-5xl mx-auto px-4 sm:px-6 py-4 sm:py-6 space-y-4 sm:space-y-6">
+        {encryptionError && (
+          <div className="flex items-start gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>{encryptionError}</span>
+          </div>
+        )}
         {activeTab === "profile" ? (
           <>
             <PatientProfileSection
@@ -206,8 +258,10 @@ export default function PatientDashboard() {
               patientAddress={account.address}
             />
           </>
-        ) : (
+        ) : activeTab === "history" ? (
           <MedicalHistorySection patientData={patientData} />
+        ) : (
+          <AccessManagementSection account={account} />
         )}
       </main>
 
@@ -0,0 +1,348 @@
+"use client"
+
+import { useState, useEffect, useMemo, useCallback } from "react"
+import { useActiveAccount } from "thirdweb/react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { AlertCircle, Building2, CheckCircle2, ClipboardCheck, ExternalLink, Loader2, RefreshCw, ShieldCheck, Users } from "lucide-react"
+import { AdminShell } from "@/components/admin-shell"
+import { RecordKindBadge } from "@/components/record-kind-fields"
+import {
+  getUnverifiedRecords,
+  getHospitalDetailsFromRegistry,
+  verifyRecords,
+  getExplorerUrl,
+  type UnverifiedRecord,
+  type RecordVerificationResult,
+} from "@/lib/services/blockchain"
+
+type HospitalDetails = NonNullable<Awaited<ReturnType<typeof getHospitalDetailsFromRegistry>>>
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+const recordKey = (record: { patient: string; recordIndex: number }) => `${record.patient.toLowerCase()}-${record.recordIndex}`
+
+function RecordQueue() {
+  const account = useActiveAccount()
+  const [records, setRecords] = useState<UnverifiedRecord[]>([])
+  const [hospitals, setHospitals] = useState<Record<string, HospitalDetails | null>>({})
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [results, setResults] = useState<Record<string, RecordVerificationResult>>({})
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadQueue = useCallback(async () => {
+    const queue = await getUnverifiedRecords()
+    setRecords(queue)
+    setSelected(new Set())
+    setError(null)
+
+    // Issuer details from the registry; null when the hospital never registered there
+    const issuers = [...new Set(queue.map((r) => r.hospitalAddress.toLowerCase()))]
+    const details: Record<string, HospitalDetails | null> = {}
+    await Promise.all(
+      issuers.map(async (issuer) => {
+        details[issuer] = await getHospitalDetailsFromRegistry(issuer)
+      })
+    )
+    setHospitals(details)
+  }, [])
+
+  useEffect(() => {
+    loadQueue()
+      .catch(() => setError("Failed to load unverified records"))
+      .finally(() => setLoading(false))
+  }, [loadQueue])
+
+  const handleRefresh = async () => {
+    setLoading(true)
+    try {
+      await loadQueue()
+    } catch {
+      setError("Failed to load unverified records")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const isApproving = progress !== null
+  const allSelected = records.length > 0 && selected.size === records.length
+
+  const toggleRecord = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(records.map(recordKey)))
+  }
+
+  const handleApprove = async () => {
+    if (!account) return
+    const batch = records.filter((r) => selected.has(recordKey(r)))
+    if (batch.length === 0) return
+
+    setResults({})
+    setProgress({ done: 0, total: batch.length })
+
+    const outcome = await verifyRecords(account, batch, (result, done) => {
+      setResults((prev) => ({ ...prev, [recordKey(result)]: result }))
+      setProgress({ done, total: batch.length })
+    })
+    setProgress(null)
+
+    // Approved records leave the queue; failed ones stay selected for another attempt
+    const approved = new Set(outcome.filter((r) => r.success).map(recordKey))
+    setRecords((prev) => prev.filter((r) => !approved.has(recordKey(r))))
+    setSelected(new Set(outcome.filter((r) => !r.success).map(recordKey)))
+  }
+
+  const stats = useMemo(() => ({
+    patients: new Set(records.map((r) => r.patient.toLowerCase())).size,
+    hospitals: new Set(records.map((r) => r.hospitalAddress.toLowerCase())).size,
+  }), [records])
+
+  const completed = Object.values(results)
+  const failed = completed.filter((r) => !r.success)
+  const succeeded = completed.filter((r) => r.success)
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-4">
+              <div className="w-10 h-10 rounded-md bg-secondary flex items-center justify-center">
+                <ClipboardCheck className="w-5 h-5" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{records.length.toLocaleString()}</p>
+                <p className="text-sm text-muted-foreground">Awaiting Verification</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-4">
+              <div className="w-10 h-10 rounded-md bg-secondary flex items-center justify-center">
+                <Users className="w-5 h-5" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{stats.patients.toLocaleString()}</p>
+                <p className="text-sm text-muted-foreground">Patients</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-4">
+              <div className="w-10 h-10 rounded-md bg-secondary flex items-center justify-center">
+                <Building2 className="w-5 h-5" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{stats.hospitals.toLocaleString()}</p>
+                <p className="text-sm text-muted-foreground">Issuing Hospitals</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {completed.length > 0 && !isApproving && (
+        <Card>
+          <CardContent className="pt-6 space-y-2">
+            {succeeded.length > 0 && (
+              <p className="text-sm text-emerald-600 flex items-center gap-2">
+                <CheckCircle2 className="w-4 h-4" />
+                Verified {succeeded.length} {succeeded.length === 1 ? "record" : "records"} on-chain.
+              </p>
+            )}
+            {failed.map((result) => (
+              <p key={recordKey(result)} className="text-sm text-red-600 flex items-center gap-2">
+                <AlertCircle className="w-4 h-4" />
+                Record #{result.recordIndex + 1} of {shortAddress(result.patient)}: {result.error}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <ShieldCheck className="w-4 h-4" />
+              Unverified Records
+              {selected.size > 0 && (
+                <span className="text-sm font-normal text-muted-foreground">({selected.size} selected)</span>
+              )}
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              {selected.size > 1 && (
+                <span className="text-xs text-muted-foreground">One transaction per record</span>
+              )}
+              <Button variant="outline" size="sm" onClick={handleRefresh} disabled={loading || isApproving}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+                Refresh
+              </Button>
+              <Button size="sm" onClick={handleApprove} disabled={selected.size === 0 || isApproving || loading}>
+                {isApproving ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Verifying {progress.done + 1} of {progress.total}...
+                  </>
+                ) : (
+                  <>
+                    <CheckCircle2 className="w-4 h-4 mr-2" />
+                    Verify Selected
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12 text-muted-foreground">
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              Loading records from Lisk Sepolia...
+            </div>
+          ) : error ? (
+            <p className="py-12 text-center text-sm text-red-600">{error}</p>
+          ) : records.length === 0 ? (
+            <p className="py-12 text-center text-sm text-muted-foreground">Every record has been verified</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all records"
+                      checked={allSelected}
+                      onChange={toggleAll}
+                      disabled={isApproving}
+                      className="accent-teal-600"
+                    />
+                  </TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Issuing Hospital</TableHead>
+                  <TableHead className="hidden md:table-cell">Patient</TableHead>
+                  <TableHead className="hidden lg:table-cell">CID</TableHead>
+                  <TableHead className="hidden sm:table-cell">Added</TableHead>
+                  <TableHead>Tx</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {records.map((record) => {
+                  const key = recordKey(record)
+                  const hospital = hospitals[record.hospitalAddress.toLowerCase()]
+                  const result = results[key]
+
+                  return (
+                    <TableRow key={key} data-state={selected.has(key) ? "selected" : undefined}>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          aria-label={`Select record ${record.recordIndex + 1} of ${record.patient}`}
+                          checked={selected.has(key)}
+                          onChange={() => toggleRecord(key)}
+                          disabled={isApproving}
+                          className="accent-teal-600"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">#{record.recordIndex + 1}</span>
+                          <RecordKindBadge recordType={record.recordType} />
+                        </div>
+                        {record.icd10Code && (
+                          <p className="text-xs text-muted-foreground mt-1">ICD-10: {record.icd10Code}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {hospital ? (
+                          <>
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">{hospital.name}</span>
+                              {hospital.isVerified ? (
+                                <span className="text-[10px] px-1.5 py-0.5 rounded font-medium bg-emerald-500/10 text-emerald-600">
+                                  Registry verified
+                                </span>
+                              ) : (
+                                <span className="text-[10px] px-1.5 py-0.5 rounded font-medium bg-amber-500/10 text-amber-600">
+                                  Unverified
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-1">License {hospital.licenseNumber}</p>
+                          </>
+                        ) : (
+                          <div>
+                            <span className="font-mono text-sm">{shortAddress(record.hospitalAddress)}</span>
+                            <p className="text-xs text-amber-600 mt-1">Not in hospital registry</p>
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="hidden md:table-cell font-mono text-sm text-muted-foreground">
+                        {shortAddress(record.patient)}
+                      </TableCell>
+                      <TableCell className="hidden lg:table-cell font-mono text-xs text-muted-foreground max-w-[10rem] truncate" title={record.ipfsCid}>
+                        {record.ipfsCid}
+                      </TableCell>
+                      <TableCell className="hidden sm:table-cell text-muted-foreground text-sm">
+                        {new Date(record.timestamp * 1000).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        {result?.txHash ? (
+                          <a
+                            href={getExplorerUrl(result.txHash)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center gap-1 font-mono text-sm text-muted-foreground hover:text-foreground"
+                          >
+                            {result.txHash.slice(0, 8)}
+                            <ExternalLink className="w-3 h-3" />
+                          </a>
+                        ) : result ? (
+                          <span className="text-xs text-red-600" title={result.error}>Failed</span>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default function ValidatorPage() {
+  return (
+    <AdminShell
+      title="Record Validation"
+      description="Review records issued by hospitals and mark them as verified on-chain"
+    >
+      <RecordQueue />
+    </AdminShell>
+  )
+}
@@ -0,0 +1,191 @@
+"use client"
+
+import { Suspense, useEffect, useMemo, useState } from "react"
+import { useSearchParams } from "next/navigation"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { CheckCircle2, XCircle, Loader2, AlertCircle, ExternalLink } from "lucide-react"
+import { getAddressExplorerUrl, getHospitalBasicInfo } from "@/lib/services/blockchain"
+import {
+  parseSummaryVerificationParams,
+  verifyMedicalSummary,
+  type SummaryVerificationResult,
+} from "@/lib/services/summary"
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+function VerifySummary() {
+  const searchParams = useSearchParams()
+  const params = useMemo(() => parseSummaryVerificationParams(searchParams), [searchParams])
+  const [result, setResult] = useState<SummaryVerificationResult | null>(null)
+  const [hospitalNames, setHospitalNames] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!params) return
+
+    let cancelled = false
+    verifyMedicalSummary(params)
+      .then(async (verification) => {
+        if (cancelled) return
+        setResult(verification)
+
+        // Resolve issuing hospital names for display
+        const issuers = [...new Set(verification.records.map((r) => r.hospitalAddress.toLowerCase()))]
+        const names: Record<string, string> = {}
+        await Promise.all(
+          issuers.map(async (issuer) => {
+            const info = await getHospitalBasicInfo(issuer)
+            if (info) names[issuer] = info.name
+          })
+        )
+        if (!cancelled) setHospitalNames(names)
+      })
+      .catch((err) => {
+        console.error("Error verifying summary:", err)
+        if (!cancelled) setError("Failed to read records from the blockchain")
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [params])
+
+  if (!params) {
+    return (
+      <Card>
+        <CardContent className="pt-6 flex items-center gap-3 text-red-600">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <p className="text-sm">This verification link is incomplete or malformed.</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="pt-6 flex items-center gap-3 text-red-600">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          <p className="text-sm">{error}</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!result) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16">
+        <Loader2 className="w-8 h-8 animate-spin text-primary mb-4" />
+        <p className="text-muted-foreground">Checking record references on-chain...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className={result.valid ? "border-green-300" : "border-red-300"}>
+        <CardContent className="pt-6">
+          <div className="flex items-start gap-4">
+            {result.valid ? (
+              <CheckCircle2 className="w-10 h-10 text-green-600 shrink-0" />
+            ) : (
+              <XCircle className="w-10 h-10 text-red-600 shrink-0" />
+            )}
+            <div className="space-y-1">
+              <p className="text-lg font-bold">
+                {result.valid ? "Summary matches the blockchain" : "Summary does not match the blockchain"}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {result.valid
+                  ? `All ${params.count} record references (IPFS CID and data hash) listed on this summary are recorded on-chain for this patient, and the issue time is unchanged.`
+                  : result.error}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Only the record references are checked. Diagnoses, names and other text printed on the summary are not
+                covered; confirm them with the issuing hospital.
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Issued {new Date(params.issuedAt * 1000).toLocaleString()}
+                {result.onChainCount > params.count &&
+                  ` · ${result.onChainCount - params.count} newer record(s) added since`}
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Patient</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <a
+            href={getAddressExplorerUrl(params.patient)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 font-mono text-sm text-primary hover:underline break-all"
+          >
+            {params.patient}
+            <ExternalLink className="w-3 h-3 shrink-0" />
+          </a>
+        </CardContent>
+      </Card>
+
+      {result.valid && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">On-chain Records ({result.records.length})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {result.records.map((record, index) => (
+              <div key={`${record.ipfsCid}-${index}`} className="border rounded-md p-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium">
+                    #{index + 1} · {new Date(record.timestamp * 1000).toLocaleDateString()}
+                    {record.icd10Code && ` · ICD-10 ${record.icd10Code}`}
+                  </p>
+                  <span
+                    className={`text-xs px-2 py-0.5 rounded ${
+                      record.isVerified ? "bg-green-100 text-green-700" : "bg-secondary"
+                    }`}
+                  >
+                    {record.isVerified ? "Verified" : "Unverified"}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Issued by {hospitalNames[record.hospitalAddress.toLowerCase()] ?? shortAddress(record.hospitalAddress)}
+                </p>
+                <p className="text-xs font-mono break-all">CID: {record.ipfsCid}</p>
+                <p className="text-xs font-mono break-all">Hash: {record.dataHash}</p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+export default function VerifyPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-3xl mx-auto px-4 py-10 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Verify Medical Summary</h1>
+          <p className="text-muted-foreground">
+            Checks a printed Medichain summary against the records on Lisk Sepolia. No medical data is decrypted.
+          </p>
+        </div>
+        <Suspense
+          fallback={
+            <div className="flex justify-center py-16">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          }
+        >
+          <VerifySummary />
+        </Suspense>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,536 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  ShieldCheck,
+  Building2,
+  Clock,
+  CalendarPlus,
+  XCircle,
+  Plus,
+  Loader2,
+  AlertCircle,
+  CheckCircle2,
+  RefreshCw,
+} from "lucide-react"
+import { type Account } from "thirdweb/wallets"
+import {
+  getActiveAccessors,
+  checkAccess,
+  getHospitalBasicInfo,
+  isHospitalWhitelisted,
+  grantAccess,
+  revokeAccess,
+  waitForTransaction,
+  AccessPermission,
+} from "@/lib/services/blockchain"
+import { shareRecordKeys, revokeRecordKeys } from "@/lib/services/ipfs"
+
+const DAY = 24 * 60 * 60
+
+const DURATION_OPTIONS = [
+  { label: "1 day", value: DAY },
+  { label: "7 days", value: 7 * DAY },
+  { label: "30 days", value: 30 * DAY },
+  { label: "1 year", value: 365 * DAY },
+  { label: "Until revoked", value: 0 },
+]
+
+const ACCESS_TYPE_OPTIONS = [
+  { label: "Full access", value: "FULL" },
+  { label: "Read only", value: "READ_ONLY" },
+]
+
+interface AccessManagementSectionProps {
+  account: Account
+}
+
+type Accessor = {
+  address: string
+  name: string
+  hospitalType?: string
+  city?: string
+  permission: AccessPermission
+}
+
+type ProcessingState = {
+  address: string
+  action: "revoke" | "extend" | "grant"
+  status: "processing" | "confirming" | "success" | "error"
+  message?: string
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleDateString("en-US", { day: "numeric", month: "short", year: "numeric" })
+
+const formatCountdown = (seconds: number): string => {
+  if (seconds <= 0) return "Expired"
+  const days = Math.floor(seconds / DAY)
+  const hours = Math.floor((seconds % DAY) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  if (days > 0) return `${days}d ${hours}h left`
+  if (hours > 0) return `${hours}h ${minutes}m left`
+  return `${minutes}m ${seconds % 60}s left`
+}
+
+const accessTypeLabel = (accessType: string) =>
+  ACCESS_TYPE_OPTIONS.find((option) => option.value === accessType)?.label || accessType
+
+export function AccessManagementSection({ account }: AccessManagementSectionProps) {
+  const [accessors, setAccessors] = useState<Accessor[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [processing, setProcessing] = useState<ProcessingState | null>(null)
+  const [extendTarget, setExtendTarget] = useState<string | null>(null)
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000))
+
+  // Proactive grant form
+  const [showGrantForm, setShowGrantForm] = useState(false)
+  const [grantAddress, setGrantAddress] = useState("")
+  const [grantDuration, setGrantDuration] = useState(30 * DAY)
+  const [grantType, setGrantType] = useState("FULL")
+  const [grantError, setGrantError] = useState<string | null>(null)
+
+  const fetchAccessors = useCallback(async (showRefreshIndicator = false) => {
+    try {
+      if (showRefreshIndicator) setIsRefreshing(true)
+      else setLoading(true)
+
+      const addresses = await getActiveAccessors(account.address)
+      const entries = await Promise.all(
+        addresses.map(async (address): Promise<Accessor | null> => {
+          const [{ permission }, info] = await Promise.all([
+            checkAccess(account.address, address),
+            getHospitalBasicInfo(address),
+          ])
+          if (!permission) return null
+          return {
+            address,
+            name: info?.name || "Unknown Hospital",
+            hospitalType: info?.hospitalType,
+            city: info?.city,
+            permission,
+          }
+        })
+      )
+
+      setAccessors(
+        entries
+          .filter((entry): entry is Accessor => entry !== null)
+          .sort((a, b) => b.permission.grantedAt - a.permission.grantedAt)
+      )
+      setError(null)
+    } catch (err) {
+      console.error("Error fetching active accessors:", err)
+      setError("Failed to load who has access")
+    } finally {
+      setLoading(false)
+      setIsRefreshing(false)
+    }
+  }, [account.address])
+
+  useEffect(() => {
+    fetchAccessors()
+  }, [fetchAccessors])
+
+  // Tick the expiry countdowns
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const finishProcessing = (next: ProcessingState) => {
+    setProcessing(next)
+    if (next.status === "success") {
+      setTimeout(async () => {
+        setProcessing(null)
+        await fetchAccessors(true)
+      }, 1500)
+    } else {
+      setTimeout(() => setProcessing(null), 3000)
+    }
+  }
+
+  const handleRevoke = async (accessor: Accessor) => {
+    const { address } = accessor
+    setExtendTarget(null)
+    setProcessing({ address, action: "revoke", status: "confirming", message: "Waiting for wallet confirmation..." })
+
+    const result = await revokeAccess(account, address)
+    if (!result.success) {
+      finishProcessing({ address, action: "revoke", status: "error", message: result.error || "Failed to revoke access" })
+      return
+    }
+
+    // Drop the re-wrapped record keys so the hospital cannot decrypt anything it has not cached
+    setProcessing({ address, action: "revoke", status: "processing", message: "Removing shared record keys..." })
+    const keyResult = await revokeRecordKeys(account, address)
+
+    finishProcessing({
+      address,
+      action: "revoke",
+      status: "success",
+      message: keyResult.success
+        ? `Access revoked for ${accessor.name}`
+        : `Access revoked, but shared keys could not be removed: ${keyResult.error}`,
+    })
+  }
+
+  const handleExtend = async (accessor: Accessor, duration: number) => {
+    const { address, permission } = accessor
+    // Extensions stack on the current expiry; 0 makes the grant last until revoked
+    const expiresAt = duration === 0 ? 0 : Math.max(permission.expiresAt, now) + duration
+
+    setExtendTarget(null)
+    setProcessing({ address, action: "extend", status: "confirming", message: "Waiting for wallet confirmation..." })
+
+    const result = await grantAccess(account, address, permission.accessType, expiresAt)
+    if (!result.success) {
+      finishProcessing({ address, action: "extend", status: "error", message: result.error || "Failed to extend access" })
+      return
+    }
+
+    // The key grant route checks the on-chain permission, so the extension must be mined first
+    setProcessing({ address, action: "extend", status: "processing", message: "Waiting for the extension to be confirmed..." })
+    const mined = result.txHash ? await waitForTransaction(result.txHash) : { success: false, error: "No transaction hash" }
+    if (!mined.success) {
+      finishProcessing({ address, action: "extend", status: "error", message: mined.error || "The extension was not confirmed" })
+      return
+    }
+
+    setProcessing({ address, action: "extend", status: "processing", message: "Updating shared record keys..." })
+    const shareResult = await shareRecordKeys(account, address, expiresAt)
+
+    finishProcessing({
+      address,
+      action: "extend",
+      status: "success",
+      message: shareResult.success
+        ? expiresAt === 0 ? "Access now lasts until you revoke it" : `Access extended to ${formatDate(expiresAt)}`
+        : `Access extended, but records could not be re-shared: ${shareResult.error}`,
+    })
+  }
+
+  const handleGrant = async () => {
+    const address = grantAddress.trim()
+    setGrantError(null)
+
+    if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+      setGrantError("Please enter a valid hospital wallet address (0x...)")
+      return
+    }
+    if (address.toLowerCase() === account.address.toLowerCase()) {
+      setGrantError("You cannot grant access to your own wallet")
+      return
+    }
+
+    setProcessing({ address, action: "grant", status: "processing", message: "Checking hospital verification..." })
+
+    if (!(await isHospitalWhitelisted(address))) {
+      setProcessing(null)
+      setGrantError("This address is not a verified hospital")
+      return
+    }
+
+    const info = await getHospitalBasicInfo(address)
+    const name = info?.name || shortAddress(address)
+    const expiresAt = grantDuration === 0 ? 0 : Math.floor(Date.now() / 1000) + grantDuration
+
+    setProcessing({ address, action: "grant", status: "confirming", message: "Waiting for wallet confirmation..." })
+    const result = await grantAccess(account, address, grantType, expiresAt)
+    if (!result.success) {
+      finishProcessing({ address, action: "grant", status: "error", message: result.error || "Failed to grant access" })
+      return
+    }
+
+    // The key grant route checks the on-chain permission, so the grant must be mined first
+    setProcessing({ address, action: "grant", status: "processing", message: "Waiting for the grant to be confirmed..." })
+    const mined = result.txHash ? await waitForTransaction(result.txHash) : { success: false, error: "No transaction hash" }
+    if (!mined.success) {
+      finishProcessing({ address, action: "grant", status: "error", message: mined.error || "The grant was not confirmed" })
+      return
+    }
+
+    setProcessing({ address, action: "grant", status: "processing", message: "Sharing record keys with hospital..." })
+    const shareResult = await shareRecordKeys(account, address, expiresAt)
+
+    setShowGrantForm(false)
+    setGrantAddress("")
+    finishProcessing({
+      address,
+      action: "grant",
+      status: "success",
+      message: shareResult.success
+        ? `${name} can now view your records`
+        : `Access granted, but records could not be shared yet: ${shareResult.error}`,
+    })
+  }
+
+  const renderProcessing = (state: ProcessingState) => {
+    if (state.status === "processing" || state.status === "confirming") {
+      return (
+        <div className="mt-4 p-3 bg-primary/10 rounded-lg flex items-center gap-3">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          <div>
+            <p className="text-sm font-medium text-foreground">
+              {state.status === "processing" ? "Processing..." : "Confirming transaction..."}
+            </p>
+            {state.message && <p className="text-xs text-muted-foreground">{state.message}</p>}
+          </div>
+        </div>
+      )
+    }
+
+    if (state.status === "success") {
+      return (
+        <div className="mt-4 p-3 bg-green-500/10 rounded-lg flex items-center gap-3">
+          <CheckCircle2 className="w-5 h-5 text-green-600" />
+          <p className="text-sm font-medium text-green-600">{state.message}</p>
+        </div>
+      )
+    }
+
+    return (
+      <div className="mt-4 p-3 bg-destructive/10 rounded-lg flex items-center gap-3">
+        <AlertCircle className="w-5 h-5 text-destructive" />
+        <p className="text-sm font-medium text-destructive">{state.message}</p>
+      </div>
+    )
+  }
+
+  const chipClass = (selected: boolean) =>
+    `px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+      selected ? "bg-primary text-primary-foreground border-primary" : "border-border text-muted-foreground hover:bg-muted"
+    }`
+
+  const grantProcessing = processing?.action === "grant" ? processing : null
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-primary" />
+            <h3 className="text-lg font-semibold text-foreground">Who Has Access</h3>
+            {accessors.length > 0 && (
+              <span className="px-2 py-0.5 bg-primary text-primary-foreground text-xs font-medium rounded-full">
+                {accessors.length}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => fetchAccessors(true)}
+              disabled={isRefreshing || loading}
+              className="gap-2"
+            >
+              <RefreshCw className={`w-4 h-4 ${isRefreshing ? "animate-spin" : ""}`} />
+              <span className="hidden sm:inline">{isRefreshing ? "Refreshing..." : "Refresh"}</span>
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => {
+                setShowGrantForm(!showGrantForm)
+                setGrantError(null)
+              }}
+              disabled={processing !== null}
+              className="gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Grant Access
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-destructive/10 border border-destructive/20 rounded-lg flex items-center gap-2 text-destructive text-sm">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        )}
+
+        {/* Proactive grant */}
+        {(showGrantForm || grantProcessing) && (
+          <div className="mb-4 p-4 rounded-xl border border-primary/30 bg-primary/5 space-y-4">
+            <div>
+              <p className="text-sm font-medium text-foreground mb-2">Hospital wallet address</p>
+              <Input
+                value={grantAddress}
+                onChange={(e) => setGrantAddress(e.target.value)}
+                placeholder="0x..."
+                className="font-mono"
+                disabled={grantProcessing !== null}
+              />
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-foreground mb-2">Duration</p>
+              <div className="flex flex-wrap gap-2">
+                {DURATION_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setGrantDuration(option.value)}
+                    disabled={grantProcessing !== null}
+                    className={chipClass(grantDuration === option.value)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-foreground mb-2">Access type</p>
+              <div className="flex flex-wrap gap-2">
+                {ACCESS_TYPE_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setGrantType(option.value)}
+                    disabled={grantProcessing !== null}
+                    className={chipClass(grantType === option.value)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {grantError && (
+              <div className="p-3 bg-destructive/10 rounded-lg flex items-center gap-2 text-destructive text-sm">
+                <AlertCircle className="w-4 h-4" />
+                {grantError}
+              </div>
+            )}
+
+            {grantProcessing ? (
+              renderProcessing(grantProcessing)
+            ) : (
+              <div className="flex gap-2">
+                <Button size="sm" className="flex-1 gap-1" onClick={handleGrant} disabled={processing !== null}>
+                  <ShieldCheck className="w-4 h-4" />
+                  Grant Access
+                </Button>
+                <Button size="sm" variant="outline" className="flex-1" onClick={() => setShowGrantForm(false)}>
+                  Cancel
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            <span className="ml-2 text-muted-foreground">Loading access list...</span>
+          </div>
+        ) : accessors.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <ShieldCheck className="w-12 h-12 mx-auto mb-3 opacity-30" />
+            <p className="font-medium">No one has access</p>
+            <p className="text-sm">Hospitals you approve or grant access to will appear here</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {accessors.map((accessor) => {
+              const { permission } = accessor
+              const isProcessingThis = processing?.address === accessor.address && processing.action !== "grant"
+              const remaining = permission.expiresAt === 0 ? null : permission.expiresAt - now
+              const expiringSoon = remaining !== null && remaining < DAY
+
+              return (
+                <div
+                  key={accessor.address}
+                  className={`p-4 rounded-xl border transition-all ${
+                    isProcessingThis ? "bg-muted/50 border-primary/30" : "bg-muted/30 border-border"
+                  }`}
+                >
+                  <div className="flex items-start gap-3">
+                    <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                      <Building2 className="w-5 h-5 text-primary" />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-semibold text-foreground">{accessor.name}</p>
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-secondary text-secondary-foreground">
+                          {accessTypeLabel(permission.accessType)}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground font-mono">
+                        {shortAddress(accessor.address)}
+                        {accessor.city && <span className="font-sans"> · {accessor.city}</span>}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-muted-foreground">
+                        <span>Granted {formatDate(permission.grantedAt)}</span>
+                        <span>•</span>
+                        <span className={`flex items-center gap-1 ${expiringSoon ? "text-amber-600 font-medium" : ""}`}>
+                          <Clock className="w-3 h-3" />
+                          {remaining === null
+                            ? "Until revoked"
+                            : `${formatCountdown(remaining)} (${formatDate(permission.expiresAt)})`}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+
+                  {isProcessingThis && processing && renderProcessing(processing)}
+
+                  {extendTarget === accessor.address && !isProcessingThis && (
+                    <div className="mt-4">
+                      <p className="text-xs text-muted-foreground mb-2">Extend access by</p>
+                      <div className="flex flex-wrap gap-2">
+                        {DURATION_OPTIONS.map((option) => (
+                          <button
+                            key={option.value}
+                            onClick={() => handleExtend(accessor, option.value)}
+                            className={chipClass(false)}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {(!isProcessingThis || processing?.status === "error") && (
+                    <div className="flex gap-2 mt-4">
+                      {permission.expiresAt !== 0 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="flex-1 gap-1"
+                          onClick={() => setExtendTarget(extendTarget === accessor.address ? null : accessor.address)}
+                          disabled={processing !== null}
+                        >
+                          <CalendarPlus className="w-4 h-4" />
+                          Extend
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="flex-1 gap-1 border-destructive text-destructive hover:bg-destructive/10"
+                        onClick={() => handleRevoke(accessor)}
+                        disabled={processing !== null}
+                      >
+                        <XCircle className="w-4 h-4" />
+                        Revoke
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,112 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+import { ConnectButton, useActiveAccount } from "thirdweb/react"
+import { ClipboardList, FileText, Loader2, Settings, ShieldCheck, ShieldOff } from "lucide-react"
+import { client, hospitalTheme, wallets, liskSepolia } from "@/lib/thirdWeb"
+import { siweAuth } from "@/lib/services/auth"
+import { hasAdminRole } from "@/lib/services/blockchain"
+import { cn } from "@/lib/utils"
+
+const adminNavItems = [
+  { href: "/dashboard/admin", icon: Settings, label: "Operations" },
+  { href: "/dashboard/applications", icon: ClipboardList, label: "Hospital Applications" },
+  { href: "/dashboard/validator", icon: ShieldCheck, label: "Record Validation" },
+  { href: "/dashboard/logs", icon: FileText, label: "Access Logs" },
+]
+
+interface AdminShellProps {
+  title: string
+  description: string
+  children: React.ReactNode
+}
+
+// Header, navigation and ADMIN_ROLE gate for operator pages; children render only for admins
+export function AdminShell({ title, description, children }: AdminShellProps) {
+  const account = useActiveAccount()
+  const pathname = usePathname()
+  const [roleCheck, setRoleCheck] = useState<{ address: string; isAdmin: boolean } | null>(null)
+
+  useEffect(() => {
+    if (!account) return
+
+    let cancelled = false
+    hasAdminRole(account.address).then((isAdmin) => {
+      if (!cancelled) setRoleCheck({ address: account.address, isAdmin })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [account])
+
+  // null while the connected wallet's role is still being checked
+  const isAdmin = account && roleCheck?.address === account.address ? roleCheck.isAdmin : null
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-secondary/20">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="max-w-6xl mx-auto px-6 py-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-teal-600 to-teal-500 rounded-xl flex items-center justify-center">
+              <ShieldCheck className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <span className="font-bold text-foreground">MediChain</span>
+              <span className="text-muted-foreground text-sm ml-2">ADMIN CONSOLE</span>
+            </div>
+          </div>
+          <ConnectButton client={client} theme={hospitalTheme} wallets={wallets} chain={liskSepolia} auth={siweAuth} />
+        </div>
+        <nav className="max-w-6xl mx-auto px-6 flex gap-1">
+          {adminNavItems.map((item) => (
+            <Link
+              key={item.href}
+              href={item.href}
+              className={cn(
+                "flex items-center gap-2 px-3 py-2 text-sm border-b-2 transition-colors",
+                pathname === item.href
+                  ? "border-teal-600 text-foreground font-medium"
+                  : "border-transparent text-muted-foreground hover:text-foreground"
+              )}
+            >
+              <item.icon className="w-4 h-4" />
+              {item.label}
+            </Link>
+          ))}
+        </nav>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-6 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">{title}</h1>
+          <p className="text-muted-foreground">{description}</p>
+        </div>
+
+        {!account ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <ShieldCheck className="w-12 h-12 text-muted-foreground mb-4" />
+            <p className="font-medium text-foreground mb-1">Connect an admin wallet</p>
+            <p className="text-sm text-muted-foreground">This area is limited to wallets holding ADMIN_ROLE on the identity contract.</p>
+          </div>
+        ) : isAdmin === null ? (
+          <div className="flex items-center justify-center py-16 text-muted-foreground">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Checking permissions...
+          </div>
+        ) : !isAdmin ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <ShieldOff className="w-12 h-12 text-red-500 mb-4" />
+            <p className="font-medium text-foreground mb-1">Not authorized</p>
+            <p className="text-sm text-muted-foreground">
+              <span className="font-mono">{account.address}</span> does not hold ADMIN_ROLE.
+            </p>
+          </div>
+        ) : (
+          children
+        )}
+      </main>
+    </div>
+  )
+}
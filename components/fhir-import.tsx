@@ -0,0 +1,163 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { AlertTriangle, FileCheck, FileJson } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { parseFhirImport, type FhirImportResult, type FhirMappedRecord } from "@/lib/services/fhir"
+
+interface FhirImportSectionProps {
+  onImport: (records: FhirMappedRecord[]) => void
+}
+
+// FHIR R4 file import: lists the records found so the hospital can pick which to load into the form
+export function FhirImportSection({ onImport }: FhirImportSectionProps) {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [result, setResult] = useState<FhirImportResult | null>(null)
+  const [selected, setSelected] = useState<number[]>([])
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setFileName(file.name)
+    try {
+      const parsed = parseFhirImport(JSON.parse(await file.text()))
+      setResult(parsed)
+      // Pre-select everything with a usable ICD-10 code
+      setSelected(parsed.records.flatMap((record, index) => (record.icdValid ? [index] : [])))
+    } catch {
+      setResult({ records: [], unmapped: [], error: "Could not read this file as JSON." })
+      setSelected([])
+    }
+  }
+
+  const handleReset = () => {
+    setFileName(null)
+    setResult(null)
+    setSelected([])
+    if (fileInputRef.current) fileInputRef.current.value = ""
+  }
+
+  const toggleRecord = (index: number) => {
+    setSelected((current) =>
+      current.includes(index) ? current.filter((i) => i !== index) : [...current, index].sort((a, b) => a - b)
+    )
+  }
+
+  const handleLoad = () => {
+    if (!result) return
+    onImport(selected.map((index) => result.records[index].record))
+    handleReset()
+  }
+
+  return (
+    <div className="border border-border rounded-xl p-4 bg-muted/10">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json,application/fhir+json"
+        onChange={handleFileUpload}
+        className="hidden"
+      />
+
+      {!result ? (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full flex items-center gap-3 text-left"
+        >
+          <div className="w-10 h-10 bg-teal-500/10 rounded-lg flex items-center justify-center flex-shrink-0">
+            <FileJson className="w-5 h-5 text-teal-600" />
+          </div>
+          <div>
+            <p className="text-sm font-semibold text-foreground">Import from FHIR</p>
+            <p className="text-xs text-muted-foreground">
+              Upload a FHIR R4 Bundle or Encounter/Condition resources (JSON) from your EHR
+            </p>
+          </div>
+        </button>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-semibold text-foreground truncate">{fileName}</p>
+            <Button variant="outline" size="sm" onClick={handleReset}>
+              Cancel
+            </Button>
+          </div>
+
+          {result.error && (
+            <div className="p-3 bg-red-500/10 rounded-lg flex items-center gap-2 text-red-600 text-sm">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {result.error}
+            </div>
+          )}
+
+          {result.records.map((imported, index) => (
+            <label
+              key={index}
+              className={`block p-3 rounded-lg border cursor-pointer transition-colors ${
+                selected.includes(index) ? "border-teal-500 bg-teal-500/5" : "border-border"
+              }`}
+            >
+              <div className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(index)}
+                  onChange={() => toggleRecord(index)}
+                  className="mt-1 accent-teal-600"
+                />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <p className="text-sm font-medium text-foreground">
+                      {imported.record.diagnosisUtama || "No primary diagnosis"}
+                    </p>
+                    {imported.record.icdCode && (
+                      <span className={`px-1.5 py-0.5 rounded text-xs font-mono ${
+                        imported.icdValid ? "bg-teal-500/10 text-teal-700" : "bg-red-500/10 text-red-600"
+                      }`}>
+                        {imported.record.icdCode}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {imported.record.tanggalMasuk}
+                    {imported.record.noRekamMedik && ` · ${imported.record.noRekamMedik}`}
+                    {imported.record.dokterPenanggungJawab && ` · ${imported.record.dokterPenanggungJawab}`}
+                  </p>
+                  {imported.warnings.map((warning) => (
+                    <p key={warning} className="text-xs text-amber-600 flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                      {warning}
+                    </p>
+                  ))}
+                  {imported.unmapped.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Not imported: {imported.unmapped.join(", ")}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </label>
+          ))}
+
+          {result.unmapped.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Skipped resources: {result.unmapped.join(", ")}
+            </p>
+          )}
+
+          {result.records.length > 0 && (
+            <Button
+              onClick={handleLoad}
+              disabled={selected.length === 0}
+              className="w-full gap-2 bg-teal-600 hover:bg-teal-700"
+            >
+              <FileCheck className="w-4 h-4" />
+              {selected.length > 1 ? `Load ${selected.length} records` : "Load into form"}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { AlertTriangle, BookOpen, XCircle } from "lucide-react"
+import { searchIcd10, validateIcd10Code, type Icd10Entry } from "@/lib/services/icd10"
+
+interface Icd10AutocompleteProps {
+  value: string
+  query?: string // Text to search for, when only part of the value is being typed
+  onChange: (value: string) => void
+  onSelect: (entry: Icd10Entry) => void
+  placeholder?: string
+  className?: string
+}
+
+// Text input with ICD-10 suggestions (by code or description) from the local catalogue
+export function Icd10Autocomplete({ value, query, onChange, onSelect, placeholder, className }: Icd10AutocompleteProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+  const suggestions = useMemo(() => searchIcd10(query ?? value), [query, value])
+
+  const select = (entry: Icd10Entry) => {
+    onSelect(entry)
+    setIsOpen(false)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || suggestions.length === 0) return
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault()
+      setHighlighted((highlighted + 1) % suggestions.length)
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault()
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length)
+    } else if (e.key === "Enter") {
+      e.preventDefault()
+      select(suggestions[Math.min(highlighted, suggestions.length - 1)])
+    } else if (e.key === "Escape") {
+      setIsOpen(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          setHighlighted(0)
+          setIsOpen(true)
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        autoComplete="off"
+        className={className}
+      />
+      {isOpen && suggestions.length > 0 && (
+        <div className="absolute z-20 mt-1 w-full min-w-[280px] max-h-64 overflow-y-auto bg-card border border-border rounded-lg shadow-lg">
+          {suggestions.map((entry, index) => (
+            <button
+              key={entry.code}
+              type="button"
+              // Keep focus on the input so blur doesn't close the list before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(entry)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`w-full text-left px-3 py-2 text-sm flex gap-3 ${
+                index === highlighted ? "bg-teal-500/10" : "hover:bg-muted/50"
+              }`}
+            >
+              <span className="font-mono font-medium text-teal-700 shrink-0 w-14">{entry.code}</span>
+              <span className="text-foreground">{entry.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface Icd10InfoProps {
+  code: string
+  className?: string
+}
+
+// Catalogue description and chapter for a stored code; flags unlisted and invalid codes
+export function Icd10Info({ code, className = "" }: Icd10InfoProps) {
+  if (!code.trim()) return null
+
+  const icd = validateIcd10Code(code)
+
+  if (icd.status === "invalid") {
+    return (
+      <p className={`text-xs text-red-600 flex items-start gap-1 ${className}`}>
+        <XCircle className="w-3 h-3 mt-0.5 shrink-0" />
+        {icd.message}
+      </p>
+    )
+  }
+
+  if (icd.status === "unlisted") {
+    return (
+      <p className={`text-xs text-amber-600 flex items-start gap-1 ${className}`}>
+        <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+        <span>
+          {icd.category ? `${icd.category.description} (unlisted subcode)` : "Not in the local ICD-10 catalogue"}
+          {icd.chapter && ` · Chapter ${icd.chapter.chapter}: ${icd.chapter.title}`}
+        </span>
+      </p>
+    )
+  }
+
+  return (
+    <p className={`text-xs text-muted-foreground flex items-start gap-1 ${className}`}>
+      <BookOpen className="w-3 h-3 mt-0.5 shrink-0" />
+      <span>
+        <span className="text-foreground">{icd.entry?.description}</span>
+        {icd.chapter && ` · Chapter ${icd.chapter.chapter}: ${icd.chapter.title}`}
+      </span>
+    </p>
+  )
+}
@@ -5,22 +5,47 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { PatientData } from "@/lib/patientStorage"
-import { getPatientRecords, MedicalRecordRef } from "@/lib/services/blockchain"
-import { getMedicalRecord, MedicalRecordData } from "@/lib/services/ipfs"
+import QRCode from "qrcode"
+import {
+  getPatientRecords,
+  getPatientProfileEncrypted,
+  decodePatientProfile,
+  MedicalRecordRef
+} from "@/lib/services/blockchain"
+import { checkDataHash, getMedicalRecord, MedicalRecordData, type IntegrityResult, type RecordAmendment } from "@/lib/services/ipfs"
+import { prefetchIpfsContent } from "@/lib/services/retrieval"
+import { buildFhirBundle } from "@/lib/services/fhir"
+import { buildSummaryVerificationUrl, getRecordSetDigest } from "@/lib/services/summary"
+import { lookupIcd10 } from "@/lib/services/icd10"
+import { collapseRecordChains } from "@/lib/services/amendments"
+import { type AttachmentRef } from "@/lib/services/attachments"
+import {
+  RECORD_KINDS,
+  RECORD_KIND_ORDER,
+  normalizeRecordKind,
+  type RecordKind,
+  type TypedRecordFields
+} from "@/lib/services/records"
+import { Icd10Info } from "@/components/icd10-fields"
+import { RecordKindBadge, RecordKindDetails, RecordKindIcon, getRecordKindStyle } from "@/components/record-kind-fields"
+import { RecordVersionHistory } from "@/components/record-version-history"
+import { RecordAttachments, collectRecordAttachments } from "@/components/record-attachments"
+import { IntegrityBadge, VerifyAllRecords } from "@/components/record-integrity"
 import { 
   FileText,
   Search,
   Calendar,
   Building2,
   X,
-  Stethoscope,
-  FlaskConical,
   Printer,
   User,
   Loader2,
   RefreshCw,
   AlertCircle,
-  ShieldCheck
+  ShieldCheck,
+  Download,
+  FileDown,
+  History
 } from "lucide-react"
 
 // Medical record type - matching rekam medis format
@@ -41,12 +66,27 @@ export interface MedicalRecord {
   dokterPenanggungJawab: string
   hospital: string
   hospitalAddress: string
-  category: "Diagnose" | "Lab"
+  recordType: RecordKind
+  fields?: TypedRecordFields // Set for typed (non-diagnosis) records
+  attachments?: AttachmentRef[]
   timestamp: number
   isVerified: boolean
+  isDecrypted: boolean
+  dataHash: string
+  integrity: IntegrityResult // Decrypted content checked against dataHash
+  amends?: RecordAmendment
+  previousVersions: MedicalRecord[] // Superseded versions, oldest first
 }
 
-const categories = ["All", "Diagnose", "Lab"]
+const categories: ("All" | RecordKind)[] = ["All", ...RECORD_KIND_ORDER]
+
+// Decrypted record text is interpolated into print HTML
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
 
 interface MedicalHistorySectionProps {
   patientData: PatientData
@@ -54,12 +94,14 @@ interface MedicalHistorySectionProps {
 
 export function MedicalHistorySection({ patientData }: MedicalHistorySectionProps) {
   const [searchQuery, setSearchQuery] = useState("")
-  const [selectedCategory, setSelectedCategory] = useState("All")
+  const [selectedCategory, setSelectedCategory] = useState<"All" | RecordKind>("All")
   const [selectedRecord, setSelectedRecord] = useState<MedicalRecord | null>(null)
   const [medicalRecords, setMedicalRecords] = useState<MedicalRecord[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [recordRefs, setRecordRefs] = useState<MedicalRecordRef[]>([])
+  const [isPrintingSummary, setIsPrintingSummary] = useState(false)
 
   // Fetch records from blockchain and IPFS
   const fetchRecords = async () => {
@@ -71,6 +113,7 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
     try {
       // Get record references from blockchain
       const recordRefs = await getPatientRecords(patientData.walletAddress)
+      setRecordRefs(recordRefs)
       
       if (recordRefs.length === 0) {
         setMedicalRecords([])
@@ -79,7 +122,8 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
         return
       }
       
-      // Fetch and decrypt each record from IPFS
+      // Fetch and decrypt each record from IPFS (downloads run in parallel, cached ones skip the network)
+      prefetchIpfsContent(recordRefs.map((ref) => ref.ipfsCid))
       const records: MedicalRecord[] = []
       
       for (let i = 0; i < recordRefs.length; i++) {
@@ -88,29 +132,39 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
         try {
           const ipfsResult = await getMedicalRecord(ref.ipfsCid, patientData.walletAddress)
           
-          if (ipfsResult.success && ipfsResult.data) {
-            records.push({
-              id: i + 1,
-              ipfsCid: ref.ipfsCid,
-              noRekamMedik: ipfsResult.data.noRekamMedik || `MR-${ref.timestamp}`,
-              tanggalMasuk: ipfsResult.data.tanggalMasuk || new Date(ref.timestamp * 1000).toLocaleDateString(),
-              tanggalKeluar: ipfsResult.data.tanggalKeluar || "",
-              diagnosisUtama: ipfsResult.data.diagnosisUtama || ref.icd10Code,
-              icdCode: ipfsResult.data.icdCode || ref.icd10Code,
-              diagnosisSekunder: ipfsResult.data.diagnosisSekunder || "",
-              keluhan: ipfsResult.data.keluhan || "",
-              riwayatAlergi: ipfsResult.data.riwayatAlergi || "",
-              tindakan: ipfsResult.data.tindakan || "",
-              resepObat: ipfsResult.data.resepObat || "",
-              keadaanKeluar: ipfsResult.data.keadaanKeluar || "",
-              dokterPenanggungJawab: ipfsResult.data.dokterPenanggungJawab || "",
-              hospital: ipfsResult.data.hospitalName || `Hospital ${ref.hospitalAddress.slice(0, 8)}`,
-              hospitalAddress: ref.hospitalAddress,
-              category: ref.recordType === "Lab" ? "Lab" : "Diagnose",
-              timestamp: ref.timestamp,
-              isVerified: ref.isVerified,
-            })
+          if (!ipfsResult.success || !ipfsResult.data || !ipfsResult.contentHash) {
+            throw new Error(ipfsResult.error || "Failed to decrypt record")
           }
+
+          records.push({
+            id: i + 1,
+            ipfsCid: ref.ipfsCid,
+            noRekamMedik: ipfsResult.data.noRekamMedik || `MR-${ref.timestamp}`,
+            tanggalMasuk: ipfsResult.data.tanggalMasuk || new Date(ref.timestamp * 1000).toLocaleDateString(),
+            tanggalKeluar: ipfsResult.data.tanggalKeluar || "",
+            diagnosisUtama: ipfsResult.data.diagnosisUtama || ref.icd10Code,
+            icdCode: ipfsResult.data.icdCode || ref.icd10Code,
+            diagnosisSekunder: ipfsResult.data.diagnosisSekunder || "",
+            keluhan: ipfsResult.data.keluhan || "",
+            riwayatAlergi: ipfsResult.data.riwayatAlergi || "",
+            tindakan: ipfsResult.data.tindakan || "",
+            resepObat: ipfsResult.data.resepObat || "",
+            keadaanKeluar: ipfsResult.data.keadaanKeluar || "",
+            dokterPenanggungJawab: ipfsResult.data.dokterPenanggungJawab || "",
+            hospital: ipfsResult.data.hospitalName || `Hospital ${ref.hospitalAddress.slice(0, 8)}`,
+            hospitalAddress: ref.hospitalAddress,
+            // The on-chain recordType is what the issuing hospital committed to; the payload's copy is only a fallback
+            recordType: normalizeRecordKind(ref.recordType || ipfsResult.data.recordType),
+            fields: ipfsResult.data.fields,
+            attachments: ipfsResult.data.attachments,
+            timestamp: ref.timestamp,
+            isVerified: ref.isVerified,
+            isDecrypted: true,
+            dataHash: ref.dataHash,
+            integrity: checkDataHash(ipfsResult.contentHash, ref.dataHash),
+            amends: ipfsResult.data.amends,
+            previousVersions: [],
+          })
         } catch (ipfsError) {
           console.error(`Failed to fetch record ${ref.ipfsCid}:`, ipfsError)
           // Add record with minimal info from blockchain
@@ -131,17 +185,30 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
             dokterPenanggungJawab: "",
             hospital: `Hospital ${ref.hospitalAddress.slice(0, 8)}...`,
             hospitalAddress: ref.hospitalAddress,
-            category: ref.recordType === "Lab" ? "Lab" : "Diagnose",
+            recordType: normalizeRecordKind(ref.recordType),
             timestamp: ref.timestamp,
             isVerified: ref.isVerified,
+            isDecrypted: false,
+            dataHash: ref.dataHash,
+            integrity: {
+              status: "unavailable",
+              error: ipfsError instanceof Error ? ipfsError.message : "Failed to fetch record",
+            },
+            previousVersions: [],
           })
         }
       }
       
+      // Collapse amendment chains into their latest version
+      const latestRecords = collapseRecordChains(records).map(({ latest, previous }) => ({
+        ...latest,
+        previousVersions: previous,
+      }))
+
       // Sort by timestamp descending (newest first)
-      records.sort((a, b) => b.timestamp - a.timestamp)
+      latestRecords.sort((a, b) => b.timestamp - a.timestamp)
       
-      setMedicalRecords(records)
+      setMedicalRecords(latestRecords)
     } catch (err) {
       console.error("Error fetching records:", err)
       setError("Failed to fetch medical records from blockchain")
@@ -163,7 +230,7 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
       record.hospital.toLowerCase().includes(searchQuery.toLowerCase()) ||
       record.dokterPenanggungJawab.toLowerCase().includes(searchQuery.toLowerCase())
     
-    const matchesCategory = selectedCategory === "All" || record.category === selectedCategory
+    const matchesCategory = selectedCategory === "All" || record.recordType === selectedCategory
     
     return matchesSearch && matchesCategory
   })
@@ -173,6 +240,22 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
     const printWindow = window.open('', '_blank')
     if (!printWindow) return
 
+    // Typed records print their schema fields in place of the discharge summary sections
+    const kindSchema = RECORD_KINDS[record.recordType]
+    const typedSection = record.fields
+      ? `
+              <div class="section-title">${kindSchema.label.toUpperCase()}</div>
+              ${kindSchema.fields.map(spec => `
+              <div class="row">
+                <div class="cell label">${spec.label}</div>
+                <div class="cell value">${escapeHtml(record.fields?.[spec.key] || "-")}</div>
+              </div>`).join("")}
+              <div class="row">
+                <div class="cell label">Healthcare Facility</div>
+                <div class="cell value">${escapeHtml(record.hospital)}</div>
+              </div>`
+      : null
+
     printWindow.document.write(`
       <!DOCTYPE html>
       <html>
@@ -359,6 +442,7 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
                 </div>
               </div>
 
+              ${typedSection ?? `
               <!-- Record Info Section -->
               <div class="section-title">VISIT DATA</div>
               <div class="row">
@@ -420,6 +504,7 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
                 <div class="cell label">Attending Physician</div>
                 <div class="cell value">${record.dokterPenanggungJawab}</div>
               </div>
+              `}
             </div>
 
             <!-- Footer -->
@@ -443,6 +528,239 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
     }, 250)
   }
 
+  const exportableRecords = medicalRecords.filter(record => record.isDecrypted)
+
+  // Download all decrypted records as a FHIR R4 Bundle (JSON)
+  const handleExportFhir = () => {
+    const bundle = buildFhirBundle(
+      patientData,
+      exportableRecords.map(({ hospital, ...record }) => ({
+        ...record,
+        hospitalName: hospital,
+      }))
+    )
+
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/fhir+json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `medichain-fhir-${patientData.name.replace(/\s+/g, "-").toLowerCase()}-${new Date().toISOString().slice(0, 10)}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Print a full history summary (save as PDF) with a QR that verifies it against the chain
+  const handlePrintSummary = async () => {
+    if (recordRefs.length === 0) return
+
+    // Open synchronously so the popup isn't blocked after the awaits below
+    const printWindow = window.open('', '_blank')
+    if (!printWindow) return
+
+    setIsPrintingSummary(true)
+    try {
+      // Identity comes from the on-chain profile; fall back to the local copy
+      const encodedProfile = await getPatientProfileEncrypted(patientData.walletAddress)
+      const profile = encodedProfile ? decodePatientProfile(encodedProfile) : null
+      const identity = {
+        name: profile?.name || patientData.name,
+        nik: profile?.nik || patientData.nik,
+        gender: profile?.gender || patientData.gender,
+        dateOfBirth: profile?.dateOfBirth || "-",
+        bloodType: profile?.bloodType || patientData.bloodType,
+        allergies: profile?.allergies?.length ? profile.allergies.join(", ") : "-",
+      }
+
+      const issuedAt = Math.floor(Date.now() / 1000)
+      const verificationUrl = buildSummaryVerificationUrl(window.location.origin, {
+        patient: patientData.walletAddress,
+        count: recordRefs.length,
+        issuedAt,
+        digest: getRecordSetDigest(patientData.walletAddress, issuedAt, recordRefs),
+      })
+      const qrDataUrl = await QRCode.toDataURL(verificationUrl, {
+        width: 300,
+        margin: 1,
+        errorCorrectionLevel: "M",
+      })
+
+      // Chronological (on-chain order), superseded versions included; records that failed to load still list their CID and hash
+      const allVersions = medicalRecords.flatMap(r => [r, ...r.previousVersions])
+      const rows = recordRefs.map((ref, index) => {
+        const record = allVersions.find(r => r.id === index + 1)
+        const amendedRecord = record?.amends ? allVersions.find(r => r.ipfsCid === record.amends?.ipfsCid) : null
+        const decrypted = record?.isDecrypted ? record : null
+        const icdCode = decrypted?.icdCode || ref.icd10Code
+        const icdEntry = icdCode ? lookupIcd10(icdCode) : null
+        return `
+          <tr>
+            <td>${index + 1}</td>
+            <td>${escapeHtml(decrypted?.tanggalMasuk || new Date(ref.timestamp * 1000).toLocaleDateString())}</td>
+            <td>${escapeHtml(decrypted?.hospital || record?.hospital || ref.hospitalAddress)}</td>
+            <td>
+              ${decrypted
+                ? `${decrypted.recordType !== "DIAGNOSIS" ? `${RECORD_KINDS[decrypted.recordType].label}: ` : ""}${escapeHtml(decrypted.diagnosisUtama)}`
+                : '<em>Not decrypted</em>'}
+              <div class="muted">ICD-10: ${escapeHtml(icdCode || "-")}${icdEntry ? ` (${escapeHtml(icdEntry.description)})` : ""}</div>
+              ${amendedRecord && record?.amends ? `<div class="muted">Amends #${amendedRecord.id}: ${escapeHtml(record.amends.reason)}</div>` : ""}
+            </td>
+            <td>${escapeHtml(decrypted?.dokterPenanggungJawab || "-")}</td>
+            <td>${ref.isVerified ? 'Yes' : 'No'}</td>
+            <td class="mono">CID: ${escapeHtml(ref.ipfsCid)}<br />Hash: ${escapeHtml(ref.dataHash)}</td>
+          </tr>
+        `
+      }).join("")
+
+      printWindow.document.write(`
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <title>Medical Summary - ${escapeHtml(identity.name)}</title>
+            <style>
+              * { margin: 0; padding: 0; box-sizing: border-box; }
+              body {
+                font-family: system-ui, -apple-system, sans-serif;
+                padding: 24px;
+                background: #fff;
+                color: #1a1a1a;
+                font-size: 11px;
+              }
+              .container {
+                max-width: 1000px;
+                margin: 0 auto;
+                border: 2px solid #333;
+              }
+              .header {
+                display: flex;
+                justify-content: space-between;
+                align-items: center;
+                padding: 16px 20px;
+                border-bottom: 2px solid #333;
+                background: linear-gradient(135deg, #0077C0, #005a94);
+                color: white;
+              }
+              .logo h1 { font-size: 18px; font-weight: bold; }
+              .logo p { font-size: 10px; opacity: 0.8; }
+              .badge {
+                background: #C7EEFF;
+                color: #0077C0;
+                padding: 4px 12px;
+                border-radius: 4px;
+                font-size: 10px;
+                font-weight: 600;
+              }
+              .section-title {
+                background: #e8e8e8;
+                padding: 8px 12px;
+                font-weight: bold;
+                font-size: 12px;
+                border-bottom: 1px solid #ddd;
+              }
+              .identity {
+                display: grid;
+                grid-template-columns: 1fr 1fr;
+              }
+              .row { display: flex; border-bottom: 1px solid #ddd; }
+              .cell { padding: 6px 12px; border-right: 1px solid #ddd; flex: 1; }
+              .cell.label {
+                background: #f9f9f9;
+                font-weight: 600;
+                flex: 0 0 140px;
+                color: #555;
+              }
+              table { width: 100%; border-collapse: collapse; }
+              th, td {
+                padding: 6px 8px;
+                border-bottom: 1px solid #ddd;
+                text-align: left;
+                vertical-align: top;
+              }
+              th { background: #f9f9f9; font-size: 10px; color: #555; }
+              tr { page-break-inside: avoid; }
+              .muted { color: #666; font-size: 10px; }
+              .mono { font-family: monospace; font-size: 9px; word-break: break-all; max-width: 260px; }
+              .footer {
+                padding: 12px;
+                background: #f5f5f5;
+                border-top: 2px solid #333;
+                display: flex;
+                gap: 16px;
+                align-items: center;
+              }
+              .footer img { width: 110px; height: 110px; }
+              .footer p { font-size: 10px; color: #444; margin-bottom: 4px; }
+              @media print {
+                body { padding: 0; }
+                .container { border: 1px solid #333; }
+              }
+            </style>
+          </head>
+          <body>
+            <div class="container">
+              <div class="header">
+                <div class="logo">
+                  <h1>MEDICHAIN</h1>
+                  <p>Decentralized Health Record</p>
+                </div>
+                <span class="badge">MEDICAL SUMMARY</span>
+              </div>
+
+              <div class="section-title">PATIENT IDENTITY</div>
+              <div class="identity">
+                <div class="row"><div class="cell label">Patient Name</div><div class="cell">${escapeHtml(identity.name)}</div></div>
+                <div class="row"><div class="cell label">Government ID</div><div class="cell">${escapeHtml(identity.nik)}</div></div>
+                <div class="row"><div class="cell label">Gender</div><div class="cell">${escapeHtml(identity.gender)}</div></div>
+                <div class="row"><div class="cell label">Date of Birth</div><div class="cell">${escapeHtml(identity.dateOfBirth)}</div></div>
+                <div class="row"><div class="cell label">Blood Type</div><div class="cell">${escapeHtml(identity.bloodType)}</div></div>
+                <div class="row"><div class="cell label">Allergies</div><div class="cell">${escapeHtml(identity.allergies)}</div></div>
+                <div class="row"><div class="cell label">Wallet</div><div class="cell mono">${escapeHtml(patientData.walletAddress)}</div></div>
+                <div class="row"><div class="cell label">Identity Source</div><div class="cell">${profile ? 'On-chain profile' : 'Local profile'}</div></div>
+              </div>
+
+              <div class="section-title">MEDICAL RECORDS (${recordRefs.length})</div>
+              <table>
+                <thead>
+                  <tr>
+                    <th>#</th>
+                    <th>Date</th>
+                    <th>Issuing Hospital</th>
+                    <th>Diagnosis</th>
+                    <th>Physician</th>
+                    <th>Verified</th>
+                    <th>On-chain Reference</th>
+                  </tr>
+                </thead>
+                <tbody>${rows}</tbody>
+              </table>
+
+              <div class="footer">
+                <img src="${qrDataUrl}" alt="Verification QR" />
+                <div>
+                  <p><strong>Verify this summary</strong></p>
+                  <p>Scan the QR code to check the patient wallet, the issue time and the CID and hash of these ${recordRefs.length} records against the Lisk Sepolia blockchain.</p>
+                  <p>The names, diagnoses and other text printed above are not covered by the QR. Confirm them with the issuing hospital or by opening the records.</p>
+                  <p class="mono">${escapeHtml(verificationUrl)}</p>
+                  <p>Issued: ${new Date(issuedAt * 1000).toLocaleString('en-US')}</p>
+                </div>
+              </div>
+            </div>
+          </body>
+        </html>
+      `)
+      printWindow.document.close()
+      printWindow.focus()
+      setTimeout(() => {
+        printWindow.print()
+      }, 250)
+    } catch (err) {
+      console.error("Error generating medical summary:", err)
+      printWindow.close()
+      setError("Failed to generate medical summary")
+    } finally {
+      setIsPrintingSummary(false)
+    }
+  }
+
   return (
     <div className="space-y-6">
       {/* Header with Refresh Button */}
@@ -451,16 +769,52 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
           <h2 className="text-lg font-bold text-foreground">Medical History</h2>
           
         </div>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={fetchRecords}
-          disabled={isRefreshing}
-          className="gap-2"
-        >
-          <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
-          Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          <VerifyAllRecords
+            patientAddress={patientData.walletAddress}
+            disabled={isLoading || recordRefs.length === 0}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExportFhir}
+            disabled={isLoading || exportableRecords.length === 0}
+            className="gap-2"
+            title={
+              exportableRecords.length < medicalRecords.length
+                ? `Download as FHIR R4 Bundle (JSON). ${medicalRecords.length - exportableRecords.length} record(s) that could not be decrypted are left out.`
+                : "Download as FHIR R4 Bundle (JSON)"
+            }
+          >
+            <Download className="w-4 h-4" />
+            Export FHIR
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handlePrintSummary}
+            disabled={isLoading || isPrintingSummary || recordRefs.length === 0}
+            className="gap-2"
+            title="Print or save a verifiable summary as PDF"
+          >
+            {isPrintingSummary ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <FileDown className="w-4 h-4" />
+            )}
+            Print Summary
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={fetchRecords}
+            disabled={isRefreshing}
+            className="gap-2"
+          >
+            <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
       </div>
 
       {/* Loading State */}
@@ -531,10 +885,9 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
                         : "bg-muted/50 text-muted-foreground hover:bg-muted hover:text-foreground"
                     }`}
                   >
-                    {category === "Diagnose" && <Stethoscope className="w-3 h-3 sm:w-4 sm:h-4" />}
-                    {category === "Lab" && <FlaskConical className="w-3 h-3 sm:w-4 sm:h-4" />}
-                    <span className="hidden sm:inline">{category}</span>
-                    <span className="sm:hidden">{category === "All" ? "All" : category}</span>
+                    {category !== "All" && <RecordKindIcon recordType={category} className="w-3 h-3 sm:w-4 sm:h-4" />}
+                    <span className="hidden sm:inline">{category === "All" ? "All" : RECORD_KINDS[category].label}</span>
+                    <span className="sm:hidden">{category === "All" ? "All" : RECORD_KINDS[category].label.split(" ")[0]}</span>
                   </button>
                 ))}
               </div>
@@ -558,9 +911,7 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
                 >
                   <CardContent className="p-0">
                     {/* Card Header with Category Color */}
-                    <div className={`h-1.5 sm:h-2 ${
-                      record.category === "Diagnose" ? "bg-blue-500" : "bg-emerald-500"
-                    }`} />
+                    <div className={`h-1.5 sm:h-2 ${getRecordKindStyle(record.recordType).accent}`} />
                     
                     <div className="p-4 sm:p-5">
                       {/* Date, No RM, and Verification */}
@@ -570,6 +921,16 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
                           {record.tanggalMasuk}
                         </div>
                         <div className="flex items-center gap-2">
+                          {record.previousVersions.length > 0 && (
+                            <span
+                              title={`Amended ${record.previousVersions.length} time${record.previousVersions.length !== 1 ? "s" : ""}`}
+                              className="inline-flex items-center gap-0.5 text-[10px] px-1.5 py-0.5 bg-amber-500/10 text-amber-600 rounded font-medium"
+                            >
+                              <History className="w-3 h-3" />
+                              Amended
+                            </span>
+                          )}
+                          <IntegrityBadge result={record.integrity} />
                           {record.isVerified && (
                             <span title="Verified on blockchain">
                               <ShieldCheck className="w-3.5 h-3.5 text-green-500" />
@@ -585,20 +946,16 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
                       <h4 className="font-bold text-lg text-foreground mb-2 group-hover:text-primary transition-colors">
                         {record.diagnosisUtama}
                       </h4>
+                      <Icd10Info code={record.icdCode} className="-mt-1 mb-3" />
 
                   {/* Category Badge & Status */}
                   <div className="flex items-center gap-2 mb-3">
-                    <span className={`inline-flex items-center gap-1 text-xs px-2 py-1 rounded-md font-medium ${
-                      record.category === "Diagnose" 
-                        ? "bg-blue-500/10 text-blue-600" 
-                        : "bg-emerald-500/10 text-emerald-600"
-                    }`}>
-                      {record.category === "Diagnose" ? <Stethoscope className="w-3 h-3" /> : <FlaskConical className="w-3 h-3" />}
-                      {record.category}
-                    </span>
-                    <span className="text-xs px-2 py-1 bg-emerald-500/10 text-emerald-600 rounded-md font-medium">
-                      {record.keadaanKeluar}
-                    </span>
+                    <RecordKindBadge recordType={record.recordType} className="px-2 py-1 rounded-md" />
+                    {record.keadaanKeluar && (
+                      <span className="text-xs px-2 py-1 bg-emerald-500/10 text-emerald-600 rounded-md font-medium">
+                        {record.keadaanKeluar}
+                      </span>
+                    )}
                   </div>
 
                   {/* Preview */}
@@ -653,11 +1010,7 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
           <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
             <CardContent className="p-0">
               {/* Modal Header */}
-              <div className={`p-6 ${
-                selectedRecord.category === "Diagnose" 
-                  ? "bg-gradient-to-r from-blue-500/20 to-blue-500/5" 
-                  : "bg-gradient-to-r from-emerald-500/20 to-emerald-500/5"
-              }`}>
+              <div className={`p-6 ${getRecordKindStyle(selectedRecord.recordType).gradient}`}>
                 <div className="flex items-start justify-between">
                   <div>
                     <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
@@ -667,18 +1020,15 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
                     </div>
                     <h2 className="text-2xl font-bold text-foreground">{selectedRecord.diagnosisUtama}</h2>
                     <p className="text-sm text-muted-foreground mt-1">ICD: {selectedRecord.icdCode || "-"}</p>
+                    <Icd10Info code={selectedRecord.icdCode} className="mt-1" />
                     <div className="flex items-center gap-2 mt-3">
-                      <span className={`inline-flex items-center gap-1 text-xs px-2 py-1 rounded-md font-medium ${
-                        selectedRecord.category === "Diagnose" 
-                          ? "bg-blue-500/20 text-blue-600" 
-                          : "bg-emerald-500/20 text-emerald-600"
-                      }`}>
-                        {selectedRecord.category === "Diagnose" ? <Stethoscope className="w-3 h-3" /> : <FlaskConical className="w-3 h-3" />}
-                        {selectedRecord.category}
-                      </span>
-                      <span className="text-xs px-2 py-1 bg-emerald-500/20 text-emerald-600 rounded-md font-medium">
-                        {selectedRecord.keadaanKeluar}
-                      </span>
+                      <RecordKindBadge recordType={selectedRecord.recordType} className="px-2 py-1 rounded-md" />
+                      <IntegrityBadge result={selectedRecord.integrity} className="px-2 py-1 rounded-md" />
+                      {selectedRecord.keadaanKeluar && (
+                        <span className="text-xs px-2 py-1 bg-emerald-500/20 text-emerald-600 rounded-md font-medium">
+                          {selectedRecord.keadaanKeluar}
+                        </span>
+                      )}
                     </div>
                   </div>
                   <button onClick={() => setSelectedRecord(null)} className="p-2 rounded-full hover:bg-muted/50 transition-colors">
@@ -689,50 +1039,62 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
 
               {/* Modal Body */}
               <div className="p-6 space-y-5">
-                {/* Keluhan */}
-                <div>
-                  <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
-                    Symptoms / Complaints
-                  </h4>
-                  <p className="text-foreground">{selectedRecord.keluhan}</p>
-                </div>
-
-                {/* Riwayat Alergi */}
-                {selectedRecord.riwayatAlergi && (
-                  <div>
-                    <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
-                      Allergy History
-                    </h4>
-                    <p className="text-foreground">{selectedRecord.riwayatAlergi}</p>
+                {selectedRecord.integrity.status === "mismatch" && (
+                  <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-sm text-red-600 flex items-start gap-2">
+                    <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    This record&apos;s content does not match the hash recorded on-chain. It may have been altered after it was issued.
                   </div>
                 )}
+                {selectedRecord.fields ? (
+                  <RecordKindDetails recordType={selectedRecord.recordType} fields={selectedRecord.fields} />
+                ) : (
+                  <>
+                    {/* Keluhan */}
+                    <div>
+                      <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
+                        Symptoms / Complaints
+                      </h4>
+                      <p className="text-foreground">{selectedRecord.keluhan}</p>
+                    </div>
 
-                {/* Tindakan */}
-                {selectedRecord.tindakan && (
-                  <div>
-                    <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
-                      Procedure
-                    </h4>
-                    <p className="text-foreground">{selectedRecord.tindakan}</p>
-                  </div>
-                )}
+                    {/* Riwayat Alergi */}
+                    {selectedRecord.riwayatAlergi && (
+                      <div>
+                        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
+                          Allergy History
+                        </h4>
+                        <p className="text-foreground">{selectedRecord.riwayatAlergi}</p>
+                      </div>
+                    )}
 
-                {/* Resep */}
-                <div>
-                  <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
-                    {selectedRecord.category === "Diagnose" ? "Prescription / Therapy" : "Test Results"}
-                  </h4>
-                  <p className="text-foreground">{selectedRecord.resepObat}</p>
-                </div>
+                    {/* Tindakan */}
+                    {selectedRecord.tindakan && (
+                      <div>
+                        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
+                          Procedure
+                        </h4>
+                        <p className="text-foreground">{selectedRecord.tindakan}</p>
+                      </div>
+                    )}
 
-                {/* Diagnosa Sekunder */}
-                {selectedRecord.diagnosisSekunder && (
-                  <div>
-                    <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
-                      Secondary Diagnosis
-                    </h4>
-                    <p className="text-foreground">{selectedRecord.diagnosisSekunder}</p>
-                  </div>
+                    {/* Resep */}
+                    <div>
+                      <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
+                        Prescription / Therapy
+                      </h4>
+                      <p className="text-foreground">{selectedRecord.resepObat}</p>
+                    </div>
+
+                    {/* Diagnosa Sekunder */}
+                    {selectedRecord.diagnosisSekunder && (
+                      <div>
+                        <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
+                          Secondary Diagnosis
+                        </h4>
+                        <p className="text-foreground">{selectedRecord.diagnosisSekunder}</p>
+                      </div>
+                    )}
+                  </>
                 )}
 
                 {/* Footer Info */}
@@ -747,6 +1109,15 @@ export function MedicalHistorySection({ patientData }: MedicalHistorySectionProp
                   </div>
                 </div>
 
+                {/* Attachments */}
+                <RecordAttachments
+                  items={collectRecordAttachments([...selectedRecord.previousVersions, selectedRecord])}
+                  patientAddress={patientData.walletAddress}
+                />
+
+                {/* Amendment History */}
+                <RecordVersionHistory versions={[...selectedRecord.previousVersions, selectedRecord]} />
+
                 {/* Print Button */}
                 <Button
                   onClick={() => handlePrintSingleRecord(selectedRecord)}
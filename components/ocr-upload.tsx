@@ -0,0 +1,386 @@
+"use client"
+
+import { useRef, useState } from "react"
+import NextImage from "next/image"
+import { AlertTriangle, CheckCircle2, FileCheck, FileText, Files, Loader2, Sparkles, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { validateAttachmentFile } from "@/lib/services/attachments"
+import {
+  MAX_OCR_FILES,
+  MAX_OCR_TOTAL_SIZE,
+  OCR_CONFIDENCE_THRESHOLD,
+  OCR_FIELD_LABELS,
+  formatOcrPages,
+  isOcrFieldUnconfirmed,
+  type OcrConflict,
+  type OcrField,
+  type OcrResult,
+  type OcrReview,
+} from "@/lib/services/ocr"
+
+interface OcrUploadPreview {
+  name: string
+  dataUrl: string
+  isPdf: boolean
+}
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+
+interface OcrSourceBadgeProps {
+  field: OcrField
+  value: string
+  review: OcrReview | null
+}
+
+// Source pages and confidence of an OCR value; hidden once the field is edited
+export function OcrSourceBadge({ field, value, review }: OcrSourceBadgeProps) {
+  if (!review || value === "" || review.values[field] !== value) return null
+  const pages = review.sources[field] ?? []
+  const score = review.confidence[field]?.confidence
+  const isLow = score !== undefined && score < OCR_CONFIDENCE_THRESHOLD
+
+  const from = pages.map((page) => {
+    const ref = review.pages.find((p) => p.page === page)
+    return ref ? `${ref.file}, page ${ref.filePage}` : `page ${page}`
+  })
+
+  return (
+    <span
+      title={from.length > 0 ? `Read from ${from.join("; ")}` : "Not read from the document"}
+      className={`ml-2 inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium ${
+        isLow && !review.confirmed.includes(field) ? "bg-amber-500/10 text-amber-700" : "bg-teal-500/10 text-teal-600"
+      }`}
+    >
+      <FileText className="w-3 h-3" />
+      {pages.length > 0 ? formatOcrPages(pages) : "Default"}
+      {score !== undefined && ` · ${Math.round(score * 100)}%`}
+      {isLow && review.confirmed.includes(field) && <CheckCircle2 className="w-3 h-3" />}
+    </span>
+  )
+}
+
+interface OcrFieldEvidenceProps extends OcrSourceBadgeProps {
+  onConfirm: (field: OcrField) => void
+}
+
+// The text a low-confidence OCR value was read from, with a confirm button
+export function OcrFieldEvidence({ field, value, review, onConfirm }: OcrFieldEvidenceProps) {
+  if (!review || !isOcrFieldUnconfirmed(review, field, value)) return null
+  const evidence = review.confidence[field]
+  const image = evidence?.page !== undefined ? review.images[evidence.page] : undefined
+
+  return (
+    <div className="mt-1.5 space-y-1.5">
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-[11px] text-amber-700">
+          {evidence?.page === undefined
+            ? "Not found in the document. Check this value."
+            : evidence.snippet
+              ? <>Read as &ldquo;{evidence.snippet}&rdquo; on {formatOcrPages([evidence.page])}</>
+              : `No source text on ${formatOcrPages([evidence.page])}`}
+        </p>
+        <button
+          type="button"
+          onClick={() => onConfirm(field)}
+          className="shrink-0 inline-flex items-center gap-1 px-2 py-0.5 rounded-md border border-amber-500/40 bg-background text-[11px] font-medium text-amber-700 hover:bg-amber-500/10"
+        >
+          <CheckCircle2 className="w-3 h-3" />
+          Confirm
+        </button>
+      </div>
+      {image && evidence?.box && (
+        <div className="relative w-40 rounded border border-border overflow-hidden">
+          <NextImage
+            src={image}
+            alt={`Source of ${OCR_FIELD_LABELS[field]}`}
+            width={800}
+            height={1100}
+            unoptimized
+            className="w-full h-auto"
+          />
+          <div
+            className="absolute border-2 border-amber-500 bg-amber-500/20"
+            style={{
+              left: `${evidence.box.x * 100}%`,
+              top: `${evidence.box.y * 100}%`,
+              width: `${evidence.box.width * 100}%`,
+              height: `${evidence.box.height * 100}%`,
+            }}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface OCRUploadSectionProps {
+  onOCRComplete: (result: OcrResult, images: Record<number, string>) => void
+  onApplyValue: (field: OcrField, value: string, pages: number[]) => void
+  onReset?: () => void
+  onFilesSelected?: (files: File[]) => void
+}
+
+// Discharge summary upload for auto-fill; lets the hospital pick another page's value where pages disagree
+export function OCRUploadSection({ onOCRComplete, onApplyValue, onReset, onFilesSelected }: OCRUploadSectionProps) {
+  const [previews, setPreviews] = useState<OcrUploadPreview[]>([])
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [isComplete, setIsComplete] = useState(false)
+  const [ocrError, setOcrError] = useState<string | null>(null)
+  const [ocrWarnings, setOcrWarnings] = useState<string[]>([])
+  const [result, setResult] = useState<OcrResult | null>(null)
+  // The value currently applied for each conflicting field
+  const [chosen, setChosen] = useState<Partial<Record<OcrField, string>>>({})
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    if (files.length === 0) return
+
+    setOcrError(null)
+    setOcrWarnings([])
+    setIsComplete(false)
+    setResult(null)
+    setChosen({})
+
+    if (files.length > MAX_OCR_FILES) {
+      setOcrError(`Select at most ${MAX_OCR_FILES} files at once.`)
+      return
+    }
+    if (files.reduce((total, file) => total + file.size, 0) > MAX_OCR_TOTAL_SIZE) {
+      setOcrError(`Files are larger than ${MAX_OCR_TOTAL_SIZE / (1024 * 1024)} MB in total. Please upload smaller scans.`)
+      return
+    }
+    for (const file of files) {
+      const { error } = await validateAttachmentFile(file)
+      if (error) {
+        setOcrError(error)
+        return
+      }
+    }
+
+    onFilesSelected?.(files)
+
+    // Show previews and get base64
+    let uploads: OcrUploadPreview[]
+    try {
+      uploads = await Promise.all(
+        files.map(async (file) => ({
+          name: file.name,
+          dataUrl: await readAsDataUrl(file),
+          isPdf: file.type === "application/pdf",
+        }))
+      )
+    } catch (err) {
+      console.error("Failed to read files:", err)
+      setOcrError("Failed to read the selected files.")
+      return
+    }
+    setPreviews(uploads)
+
+    // Call OCR API
+    setIsProcessing(true)
+    try {
+      const response = await fetch("/api/ocr", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ files: uploads.map(({ name, dataUrl }) => ({ name, dataUrl })) }),
+      })
+
+      const data = await response.json()
+
+      if (data.success && data.data) {
+        const ocr: OcrResult = {
+          data: data.data,
+          sources: data.sources,
+          confidence: data.confidence,
+          conflicts: data.conflicts,
+          pages: data.pages,
+        }
+        // Photo pages can show where each value was read; PDFs aren't rendered here
+        const images = Object.fromEntries(
+          ocr.pages.flatMap((ref) => {
+            const upload = uploads.find((u) => u.name === ref.file && !u.isPdf)
+            return upload ? [[ref.page, upload.dataUrl]] : []
+          })
+        )
+        setIsComplete(true)
+        setOcrWarnings(data.warnings ?? [])
+        setResult(ocr)
+        setChosen(Object.fromEntries(ocr.conflicts.map((conflict) => [conflict.field, conflict.chosen])))
+        onOCRComplete(ocr, images)
+      } else {
+        setOcrError(data.error || "Failed to extract data from the document")
+      }
+    } catch (err) {
+      console.error("OCR error:", err)
+      setOcrError("Failed to process the document. Please try again.")
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleChoose = (conflict: OcrConflict, option: OcrConflict["values"][number]) => {
+    setChosen((current) => ({ ...current, [conflict.field]: option.value }))
+    onApplyValue(conflict.field, option.value, option.pages)
+  }
+
+  const handleReset = () => {
+    setPreviews([])
+    setIsProcessing(false)
+    setIsComplete(false)
+    setOcrError(null)
+    setOcrWarnings([])
+    setResult(null)
+    setChosen({})
+    onReset?.()
+    if (fileInputRef.current) fileInputRef.current.value = ""
+  }
+
+  return (
+    <div className="border-2 border-dashed border-border rounded-xl p-6 bg-muted/20">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/png,image/jpeg,image/webp,application/pdf"
+        multiple
+        onChange={handleFileUpload}
+        className="hidden"
+      />
+
+      {previews.length === 0 && !ocrError ? (
+        // Upload State
+        <div 
+          className="flex flex-col items-center justify-center py-8 cursor-pointer hover:bg-muted/30 rounded-lg transition-colors"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <div className="w-16 h-16 bg-teal-500/10 rounded-2xl flex items-center justify-center mb-4">
+            <Upload className="w-8 h-8 text-teal-600" />
+          </div>
+          <h4 className="font-semibold text-foreground mb-1">Upload Medical Document</h4>
+          <p className="text-sm text-muted-foreground text-center max-w-xs">
+            Upload a discharge summary PDF or photos of each page (up to {MAX_OCR_FILES} files) for auto-fill. The documents are attached to the record.
+          </p>
+          <div className="flex items-center gap-2 mt-4 text-xs text-teal-600">
+            <Sparkles className="w-3 h-3" />
+            <span>Powered by AI</span>
+          </div>
+        </div>
+      ) : (
+        // Preview & Processing State
+        <div className="space-y-4">
+          {/* Document Previews */}
+          <div className="relative min-h-32 w-full rounded-lg overflow-hidden bg-black p-2">
+            <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
+              {previews.map((preview, index) => (
+                <div key={`${index}-${preview.name}`} className="aspect-[3/4] rounded bg-white/5 overflow-hidden flex flex-col items-center justify-center">
+                  {preview.isPdf ? (
+                    <>
+                      <Files className="w-8 h-8 text-white/70 mb-1" />
+                      <p className="text-[10px] text-white/70 px-1 truncate max-w-full">{preview.name}</p>
+                    </>
+                  ) : (
+                    <img src={preview.dataUrl} alt={preview.name} className="w-full h-full object-contain" />
+                  )}
+                </div>
+              ))}
+            </div>
+            {isProcessing && (
+              <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center">
+                <Loader2 className="w-8 h-8 text-teal-400 animate-spin mb-2" />
+                <p className="text-white text-sm">Analyzing {previews.length > 1 ? `${previews.length} files` : "document"} with AI...</p>
+              </div>
+            )}
+            {isComplete && (
+              <div className="absolute inset-0 bg-emerald-600/80 flex flex-col items-center justify-center">
+                <FileCheck className="w-10 h-10 text-white mb-2" />
+                <p className="text-white font-semibold">Auto-fill Successful!</p>
+              </div>
+            )}
+            {ocrError && (
+              <div className="absolute inset-0 bg-red-600/80 flex flex-col items-center justify-center p-4">
+                <AlertTriangle className="w-10 h-10 text-white mb-2" />
+                <p className="text-white text-sm text-center">{ocrError}</p>
+              </div>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-center gap-3">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleReset}
+              disabled={isProcessing}
+            >
+              {ocrError ? "Try Again" : "Re-upload"}
+            </Button>
+          </div>
+
+          {isComplete && result && (
+            <div className="space-y-1 text-center">
+              <p className="text-xs text-emerald-600">
+                ✓ Data extracted from {result.pages.length} {result.pages.length === 1 ? "page" : "pages"}. Please review and edit if needed.
+              </p>
+              {Object.values(result.confidence).some((c) => c && c.confidence < OCR_CONFIDENCE_THRESHOLD) && (
+                <p className="text-xs text-amber-600">Low-confidence values are highlighted in the form and must be confirmed.</p>
+              )}
+              {result.pages.length > 1 && (
+                <p className="text-xs text-muted-foreground">
+                  {result.pages.map((ref) => `p. ${ref.page}: ${ref.file}${ref.filePage > 1 || previews.find((p) => p.name === ref.file)?.isPdf ? ` (page ${ref.filePage})` : ""}`).join(" · ")}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Pages that disagree: the merged value is applied, any other page's value can be picked */}
+          {result && result.conflicts.length > 0 && (
+            <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg space-y-3">
+              <p className="text-xs font-medium text-amber-700 flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3 shrink-0" />
+                Pages disagree on {result.conflicts.length} {result.conflicts.length === 1 ? "field" : "fields"}. Check the value used for each.
+              </p>
+              {result.conflicts.map((conflict) => (
+                <div key={conflict.field} className="space-y-1">
+                  <p className="text-xs text-foreground">
+                    {OCR_FIELD_LABELS[conflict.field]}
+                    <span className="text-muted-foreground"> · {conflict.reason}</span>
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {conflict.values.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => handleChoose(conflict, option)}
+                        className={`px-2 py-1 rounded-md border text-xs text-left transition-colors ${
+                          chosen[conflict.field] === option.value
+                            ? "border-teal-500 bg-teal-500/10 text-teal-700"
+                            : "border-border bg-background text-muted-foreground hover:text-foreground"
+                        }`}
+                      >
+                        {option.value}
+                        <span className="ml-1 opacity-70">({formatOcrPages(option.pages)})</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {ocrWarnings.map((warning) => (
+            <p key={warning} className="text-xs text-center text-amber-600 flex items-center justify-center gap-1">
+              <AlertTriangle className="w-3 h-3 shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,355 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Image from "next/image"
+import QRCode from "qrcode"
+import { useActiveAccount } from "thirdweb/react"
+import { ArrowLeft, ShieldCheck, Loader2, CheckCircle2, AlertCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  cancelSignedGrant,
+  checkAccess,
+  getActiveAccessors,
+  getHospitalBasicInfo,
+  isSignedGrantUsed,
+} from "@/lib/services/blockchain"
+import { shareRecordKeys } from "@/lib/services/ipfs"
+import { createSignedConsentQR, isOpenConsent, CONSENT_QR_TTL_SECONDS, type SignedConsentQR } from "@/lib/services/qr"
+
+const DAY = 24 * 60 * 60
+
+const DURATION_OPTIONS = [
+  { label: "1 day", value: DAY },
+  { label: "7 days", value: 7 * DAY },
+  { label: "30 days", value: 30 * DAY },
+  { label: "1 year", value: 365 * DAY },
+  { label: "Until revoked", value: 0 },
+]
+
+const ACCESS_TYPE_OPTIONS = [
+  { label: "Full access", value: "FULL" },
+  { label: "Read only", value: "READ_ONLY" },
+]
+
+interface PatientConsentQRProps {
+  onClose: () => void
+}
+
+type RedeemedState = {
+  hospitalAddress: string
+  hospitalName: string
+  keysShared: boolean
+}
+
+export function PatientConsentQR({ onClose }: PatientConsentQRProps) {
+  const account = useActiveAccount()
+  const [anyHospital, setAnyHospital] = useState(true)
+  const [hospitalAddress, setHospitalAddress] = useState("")
+  const [accessDuration, setAccessDuration] = useState(7 * DAY)
+  const [accessType, setAccessType] = useState("FULL")
+  const [consent, setConsent] = useState<SignedConsentQR | null>(null)
+  const [qrDataUrl, setQrDataUrl] = useState("")
+  const [isSigning, setIsSigning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [redeemed, setRedeemed] = useState<RedeemedState | null>(null)
+  const [isCancelling, setIsCancelling] = useState(false)
+
+  const handleGenerate = async () => {
+    if (!account) return
+
+    if (!anyHospital && !/^0x[0-9a-fA-F]{40}$/.test(hospitalAddress)) {
+      setError("Please enter a valid hospital wallet address (0x...)")
+      return
+    }
+
+    setIsSigning(true)
+    setError(null)
+
+    try {
+      const signed = await createSignedConsentQR(account, {
+        accessor: anyHospital ? null : hospitalAddress,
+        accessType,
+        accessDuration,
+      })
+      const url = await QRCode.toDataURL(JSON.stringify(signed), {
+        width: 600,
+        margin: 3,
+        errorCorrectionLevel: "M",
+      })
+      setConsent(signed)
+      setQrDataUrl(url)
+    } catch (err) {
+      console.error("Error signing consent QR:", err)
+      setError("Approve the signature request in your wallet to create the consent QR.")
+    } finally {
+      setIsSigning(false)
+    }
+  }
+
+  // Burn the QR's nonce on-chain so a photo or copy of it can't be redeemed later
+  const handleCancel = async () => {
+    if (!account || !consent) return
+
+    setIsCancelling(true)
+    setError(null)
+    const result = await cancelSignedGrant(account, consent.n)
+    setIsCancelling(false)
+
+    if (!result.success) {
+      setError(result.error || "Failed to cancel the consent QR")
+      return
+    }
+    setConsent(null)
+    setQrDataUrl("")
+  }
+
+  // Wait for the hospital to redeem the grant, then re-wrap existing record keys to it
+  useEffect(() => {
+    if (!consent || !account || redeemed) return
+
+    let cancelled = false
+    let checking = false
+    const issuedAt = consent.x - CONSENT_QR_TTL_SECONDS
+
+    const findRedeemer = async (): Promise<string | null> => {
+      if (!isOpenConsent(consent)) return consent.h
+      const accessors = await getActiveAccessors(account.address)
+      for (const accessor of accessors) {
+        const { permission } = await checkAccess(account.address, accessor)
+        if (permission && permission.grantedAt >= issuedAt) return accessor
+      }
+      return null
+    }
+
+    const interval = setInterval(async () => {
+      if (checking) return
+      checking = true
+      try {
+        if (!(await isSignedGrantUsed(account.address, consent.n))) return
+
+        const hospital = await findRedeemer()
+        if (!hospital || cancelled) return
+        clearInterval(interval)
+
+        const { permission } = await checkAccess(account.address, hospital)
+        const [info, shareResult] = await Promise.all([
+          getHospitalBasicInfo(hospital),
+          shareRecordKeys(account, hospital, permission?.expiresAt ?? 0),
+        ])
+
+        if (!cancelled) {
+          setRedeemed({
+            hospitalAddress: hospital,
+            hospitalName: info?.name || `${hospital.slice(0, 6)}...${hospital.slice(-4)}`,
+            keysShared: shareResult.success,
+          })
+        }
+      } finally {
+        checking = false
+      }
+    }, 5000)
+
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [consent, account, redeemed])
+
+  const validUntil = consent
+    ? new Date(consent.x * 1000).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
+    : null
+
+  const durationLabel = DURATION_OPTIONS.find((option) => option.value === accessDuration)?.label
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-white flex flex-col items-center justify-center p-6 overflow-y-auto">
+      <button
+        onClick={onClose}
+        className="absolute top-4 left-4 flex items-center gap-2 text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="w-5 h-5" />
+        Back
+      </button>
+
+      {redeemed ? (
+        <div className="w-full max-w-sm text-center">
+          <CheckCircle2 className="w-14 h-14 text-teal-600 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-gray-900">Access Granted</h2>
+          <p className="text-gray-600 mt-2">
+            <span className="font-semibold">{redeemed.hospitalName}</span> can now view your records
+            {accessDuration === 0 ? " until you revoke access." : ` for ${durationLabel}.`}
+          </p>
+          {!redeemed.keysShared && (
+            <p className="text-sm text-amber-600 mt-3">
+              Your existing records could not be shared with this hospital. New records they add will still be readable.
+            </p>
+          )}
+          <Button onClick={onClose} className="w-full mt-6 bg-teal-600 hover:bg-teal-700 text-white">
+            Done
+          </Button>
+        </div>
+      ) : consent ? (
+        <>
+          <div className="text-center mb-6">
+            <h2 className="text-xl font-bold text-gray-900">One-Scan Check-in</h2>
+            <p className="text-gray-600 mt-1">Show this to the front desk to grant access instantly</p>
+          </div>
+
+          <div className="bg-white p-4 rounded-2xl shadow-lg border-4 border-teal-500">
+            {qrDataUrl && (
+              <Image
+                src={qrDataUrl}
+                alt="Consent QR Code"
+                width={320}
+                height={320}
+                unoptimized
+                className="w-[280px] h-[280px] sm:w-[320px] sm:h-[320px]"
+              />
+            )}
+          </div>
+
+          <div className="mt-6 text-center text-sm text-gray-600 space-y-1">
+            <p>
+              {isOpenConsent(consent) ? "Any verified hospital" : `${consent.h.slice(0, 6)}...${consent.h.slice(-4)}`}
+              {" · "}
+              {ACCESS_TYPE_OPTIONS.find((option) => option.value === consent.t)?.label || consent.t}
+              {" · "}
+              {durationLabel}
+            </p>
+            <p className="text-gray-500">Single use &middot; valid until {validUntil}</p>
+          </div>
+
+          <p className="mt-8 flex items-center gap-2 text-sm text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Waiting for the hospital to scan
+          </p>
+
+          {error && (
+            <div className="mt-4 flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg max-w-sm">
+              <AlertCircle className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <Button
+            variant="outline"
+            onClick={handleCancel}
+            disabled={isCancelling}
+            className="mt-4 gap-2 text-red-600 hover:text-red-700"
+          >
+            {isCancelling ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Cancelling...
+              </>
+            ) : (
+              "Cancel this QR"
+            )}
+          </Button>
+        </>
+      ) : (
+        <div className="w-full max-w-sm">
+          <div className="text-center mb-6">
+            <ShieldCheck className="w-10 h-10 text-teal-600 mx-auto mb-3" />
+            <h2 className="text-xl font-bold text-gray-900">One-Scan Check-in</h2>
+            <p className="text-gray-600 mt-1 text-sm">
+              Pre-approve access so the hospital gets it as soon as they scan. No approval step needed.
+            </p>
+          </div>
+
+          <div className="space-y-5">
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Hospital</p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setAnyHospital(true)}
+                  className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                    anyHospital ? "bg-teal-600 text-white border-teal-600" : "border-gray-200 text-gray-600 hover:bg-gray-50"
+                  }`}
+                >
+                  Any verified hospital
+                </button>
+                <button
+                  onClick={() => setAnyHospital(false)}
+                  className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                    !anyHospital ? "bg-teal-600 text-white border-teal-600" : "border-gray-200 text-gray-600 hover:bg-gray-50"
+                  }`}
+                >
+                  Specific hospital
+                </button>
+              </div>
+              {!anyHospital && (
+                <input
+                  type="text"
+                  value={hospitalAddress}
+                  onChange={(e) => setHospitalAddress(e.target.value)}
+                  placeholder="Hospital wallet address (0x...)"
+                  className="w-full mt-2 h-11 px-3 border border-gray-200 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-teal-500/20 focus:border-teal-500"
+                />
+              )}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Duration</p>
+              <div className="flex flex-wrap gap-2">
+                {DURATION_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setAccessDuration(option.value)}
+                    className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                      accessDuration === option.value ? "bg-teal-600 text-white border-teal-600" : "border-gray-200 text-gray-600 hover:bg-gray-50"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Access type</p>
+              <div className="flex gap-2">
+                {ACCESS_TYPE_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setAccessType(option.value)}
+                    className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                      accessType === option.value ? "bg-teal-600 text-white border-teal-600" : "border-gray-200 text-gray-600 hover:bg-gray-50"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {error && (
+              <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
+                <p className="text-sm text-red-700">{error}</p>
+              </div>
+            )}
+
+            <Button
+              onClick={handleGenerate}
+              disabled={isSigning || !account}
+              className="w-full h-12 gap-2 bg-gradient-to-r from-teal-600 to-teal-500 hover:from-teal-700 hover:to-teal-600 text-white font-semibold"
+            >
+              {isSigning ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Waiting for signature...
+                </>
+              ) : (
+                <>
+                  <ShieldCheck className="w-4 h-4" />
+                  Create Consent QR
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
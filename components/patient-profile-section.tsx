@@ -1,9 +1,12 @@
 "use client"
 
+import { useState, useEffect } from "react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Switch } from "@/components/ui/switch"
 import { PatientData } from "@/lib/patientStorage"
+import { getPatientId } from "@/lib/services/blockchain"
+import { formatPatientId } from "@/lib/services/directory"
 import { 
   User, 
   ShieldCheck, 
@@ -27,6 +30,12 @@ export function PatientProfileSection({
   onShowPatientCard,
   onEditProfile
 }: PatientProfileSectionProps) {
+  const [patientId, setPatientId] = useState<bigint | null>(null)
+
+  useEffect(() => {
+    getPatientId(patientData.walletAddress).then((id) => setPatientId(id && id > BigInt(0) ? id : null))
+  }, [patientData.walletAddress])
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
       {/* Left: Profile Card */}
@@ -39,6 +48,11 @@ export function PatientProfileSection({
             </div>
             <h2 className="text-2xl font-bold text-foreground">{patientData.name}</h2>
             <p className="text-sm text-muted-foreground font-mono">{patientData.nik}</p>
+            {patientId !== null && (
+              <p className="mt-1 px-2 py-0.5 rounded bg-primary/10 text-xs font-semibold text-primary font-mono">
+                Medichain ID {formatPatientId(patientId)}
+              </p>
+            )}
           </div>
 
           {/* Stats Row */}
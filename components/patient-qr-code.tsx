@@ -2,9 +2,13 @@
 
 import { useState, useEffect, useRef } from "react"
 import QRCode from "qrcode"
-import { X, Download, Printer, Sparkles, User, Droplet, Calendar, QrCode, ArrowLeft } from "lucide-react"
+import { X, Download, Printer, Sparkles, User, Droplet, Calendar, QrCode, ArrowLeft, ShieldCheck } from "lucide-react"
+import { useActiveAccount } from "thirdweb/react"
 import { Button } from "@/components/ui/button"
 import { PatientData } from "@/lib/patientStorage"
+import { createSignedPatientQR } from "@/lib/services/qr"
+import { supportsSignedGrants } from "@/lib/services/blockchain"
+import { PatientConsentQR } from "@/components/patient-consent-qr"
 
 interface PatientQRCodeProps {
   patientData: PatientData
@@ -12,24 +16,29 @@ interface PatientQRCodeProps {
   onClose: () => void
 }
 
+const QR_IMAGE_OPTIONS = {
+  width: 600,
+  margin: 3,
+  color: {
+    dark: "#000000",
+    light: "#FFFFFF",
+  },
+  errorCorrectionLevel: "H" as const,
+}
+
 export function PatientQRCode({ patientData, isOpen, onClose }: PatientQRCodeProps) {
+  const account = useActiveAccount()
+  const [qrData, setQrData] = useState<string>("")
   const [qrDataUrl, setQrDataUrl] = useState<string>("")
+  const [qrExpiresAt, setQrExpiresAt] = useState<number | null>(null)
+  const [qrError, setQrError] = useState<string | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
   const [showLargeQR, setShowLargeQR] = useState(false)
+  const [showConsentQR, setShowConsentQR] = useState(false)
+  // One-scan consent is hidden until the deployed contract is known to support it
+  const [consentSupported, setConsentSupported] = useState(false)
   const cardRef = useRef<HTMLDivElement>(null)
 
-  // Encode patient data as JSON string
-  const qrData = JSON.stringify({
-    type: "medichain_patient",
-    standard: "ERC-721",
-    walletAddress: patientData.walletAddress,
-    name: patientData.name,
-    nik: patientData.nik,
-    gender: patientData.gender,
-    age: patientData.age,
-    bloodType: patientData.bloodType,
-    mintedAt: patientData.registeredAt,
-  })
-
   // Format wallet address for display
   const shortAddress = `${patientData.walletAddress.slice(0, 6)}...${patientData.walletAddress.slice(-4)}`
   
@@ -45,29 +54,83 @@ export function PatientQRCode({ patientData, isOpen, onClose }: PatientQRCodePro
     year: 'numeric'
   })
 
+  // The QR carries only a signed address, nonce and expiry. Sign a fresh single-use
+  // code when the card opens, and again shortly before it expires.
   useEffect(() => {
-    if (isOpen) {
-      QRCode.toDataURL(qrData, {
-        width: 600,
-        margin: 3,
-        color: {
-          dark: "#000000",
-          light: "#FFFFFF",
-        },
-        errorCorrectionLevel: "H",
+    if (!isOpen || !account) return
+
+    let cancelled = false
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined
+
+    createSignedPatientQR(account, "live")
+      .then((payload) => {
+        if (cancelled) return
+        setQrData(JSON.stringify(payload))
+        setQrExpiresAt(payload.x)
+        setQrError(null)
+        const refreshIn = Math.max(payload.x * 1000 - Date.now() - 60 * 1000, 30 * 1000)
+        refreshTimer = setTimeout(() => setRefreshKey((key) => key + 1), refreshIn)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        console.error("Error signing patient QR:", err)
+        setQrError("Approve the signature request in your wallet to show your QR code.")
       })
+
+    return () => {
+      cancelled = true
+      clearTimeout(refreshTimer)
+    }
+  }, [isOpen, account, refreshKey])
+
+  useEffect(() => {
+    if (isOpen && qrData) {
+      QRCode.toDataURL(qrData, QR_IMAGE_OPTIONS)
         .then((url) => setQrDataUrl(url))
         .catch((err) => console.error(err))
     }
   }, [isOpen, qrData])
 
-  const handlePrint = () => {
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    supportsSignedGrants().then((supported) => {
+      if (!cancelled) setConsentSupported(supported)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen])
+
+  const qrValidUntil = qrExpiresAt
+    ? new Date(qrExpiresAt * 1000).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })
+    : null
+
+  const handlePrint = async () => {
     const printContent = cardRef.current
-    if (!printContent) return
+    if (!printContent || !account) return
 
     const printWindow = window.open('', '_blank')
     if (!printWindow) return
 
+    // Printed cards get their own longer-lived, reusable code
+    let cardQrDataUrl: string
+    let cardValidUntil: string
+    try {
+      const payload = await createSignedPatientQR(account, "card")
+      cardQrDataUrl = await QRCode.toDataURL(JSON.stringify(payload), QR_IMAGE_OPTIONS)
+      cardValidUntil = new Date(payload.x * 1000).toLocaleDateString('en-US', {
+        day: 'numeric',
+        month: 'short',
+        year: 'numeric'
+      })
+    } catch (err) {
+      console.error("Error signing card QR:", err)
+      printWindow.close()
+      setQrError("Could not sign the QR code for printing.")
+      return
+    }
+
     printWindow.document.write(`
       <!DOCTYPE html>
       <html>
@@ -192,12 +255,12 @@ export function PatientQRCode({ patientData, isOpen, onClose }: PatientQRCodePro
             </div>
             <div class="content">
               <div class="qr-section">
-                <img src="${qrDataUrl}" alt="QR Code" />
+                <img src="${cardQrDataUrl}" alt="QR Code" />
               </div>
               <div class="info-section">
                 <div>
                   <div class="patient-name">${patientData.name}</div>
-                  <div class="gov-id">${patientData.nik}</div>
+                  <div class="gov-id">${censoredNik}</div>
                 </div>
                 <div class="stats">
                   <div class="stat">
@@ -218,6 +281,7 @@ export function PatientQRCode({ patientData, isOpen, onClose }: PatientQRCodePro
             <div class="footer">
               <span>${shortAddress}</span>
               <span>Registered: ${registeredDate}</span>
+              <span>QR valid until ${cardValidUntil}</span>
             </div>
           </div>
         </body>
@@ -277,7 +341,7 @@ export function PatientQRCode({ patientData, isOpen, onClose }: PatientQRCodePro
       
       ctx.font = "12px monospace"
       ctx.fillStyle = "rgba(255,255,255,0.8)"
-      ctx.fillText(patientData.nik, 160, 100)
+      ctx.fillText(censoredNik, 160, 100)
 
       // Draw stats
       const stats = [
@@ -409,6 +473,18 @@ export function PatientQRCode({ patientData, isOpen, onClose }: PatientQRCodePro
           </div>
         </div>
 
+        {qrError && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-center">
+            <p className="text-sm text-red-700">{qrError}</p>
+            <button
+              onClick={() => setRefreshKey((key) => key + 1)}
+              className="mt-1 text-xs font-semibold text-red-700 underline"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex gap-2 mt-4">
           <Button
@@ -420,6 +496,18 @@ export function PatientQRCode({ patientData, isOpen, onClose }: PatientQRCodePro
             Show QR for Hospital
           </Button>
         </div>
+
+        {consentSupported && (
+          <div className="flex gap-2 mt-2">
+            <Button
+              onClick={() => setShowConsentQR(true)}
+              className="flex-1 gap-2 bg-white text-teal-700 hover:bg-white/90 font-semibold justify-center"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              One-Scan Check-in
+            </Button>
+          </div>
+        )}
         
         <div className="flex gap-2 mt-2">
           <Button
@@ -442,6 +530,11 @@ export function PatientQRCode({ patientData, isOpen, onClose }: PatientQRCodePro
         </button>
       </div>
 
+      {/* Consent QR (pre-signed access grant) */}
+      {showConsentQR && (
+        <PatientConsentQR onClose={() => setShowConsentQR(false)} />
+      )}
+
       {/* Large QR Modal for Scanning */}
       {showLargeQR && (
         <div className="fixed inset-0 z-[60] bg-white flex flex-col items-center justify-center p-6">
@@ -473,6 +566,12 @@ export function PatientQRCode({ patientData, isOpen, onClose }: PatientQRCodePro
             <p className="font-mono text-sm text-gray-500 mt-1">{shortAddress}</p>
           </div>
           
+          {qrValidUntil && (
+            <p className="mt-4 text-sm text-gray-500">
+              Single use &middot; valid until {qrValidUntil}
+            </p>
+          )}
+
           <p className="mt-8 text-sm text-gray-400">
             The hospital will request access after scanning
           </p>
@@ -18,8 +18,10 @@ import {
   getPendingAccessRequests, 
   approveAccessRequest, 
   rejectAccessRequest,
+  waitForTransaction,
   AccessRequest 
 } from "@/lib/services/blockchain"
+import { shareRecordKeys } from "@/lib/services/ipfs"
 
 interface PendingAccessRequestsProps {
   account: Account
@@ -65,7 +67,9 @@ export function PendingAccessRequests({ account, patientAddress }: PendingAccess
     return () => clearInterval(interval)
   }, [fetchRequests])
 
-  const handleApprove = async (index: number) => {
+  // index is the on-chain request index (request.requestIndex), not the position in this list
+  const handleApprove = async (request: AccessRequest) => {
+    const index = request.requestIndex
     setProcessing({ index, action: "approve", status: "processing" })
     setError(null)
     
@@ -75,12 +79,35 @@ export function PendingAccessRequests({ account, patientAddress }: PendingAccess
       const result = await approveAccessRequest(account, index)
       
       if (result.success) {
-        setProcessing({ index, action: "approve", status: "success", message: "Access granted successfully!" })
+        // The key grant route checks the on-chain permission, so the approval must be mined first
+        setProcessing({ index, action: "approve", status: "processing", message: "Waiting for the approval to be confirmed..." })
+        const mined = result.txHash ? await waitForTransaction(result.txHash) : { success: false, error: "No transaction hash" }
+        if (!mined.success) {
+          setProcessing({ index, action: "approve", status: "error", message: mined.error || "Approval was not confirmed" })
+          setTimeout(() => setProcessing(null), 3000)
+          return
+        }
+
+        // Re-wrap record keys so the hospital can actually decrypt, bounded by the same expiry
+        setProcessing({ index, action: "approve", status: "processing", message: "Sharing record keys with hospital..." })
+        const expiresAt = request.accessDuration === 0
+          ? 0
+          : Math.floor(Date.now() / 1000) + request.accessDuration
+        const shareResult = await shareRecordKeys(account, request.hospitalAddress, expiresAt)
+        
+        setProcessing({
+          index,
+          action: "approve",
+          status: "success",
+          message: shareResult.success
+            ? "Access granted successfully!"
+            : `Access granted, but records could not be shared yet: ${shareResult.error}`,
+        })
         
         // Wait a moment to show success, then refresh
         setTimeout(async () => {
           // Remove the approved request from local state immediately
-          setRequests(prev => prev.filter((_, i) => i !== index))
+          setRequests(prev => prev.filter((r) => r.requestIndex !== index))
           setProcessing(null)
           
           // Then fetch fresh data from blockchain
@@ -97,7 +124,8 @@ export function PendingAccessRequests({ account, patientAddress }: PendingAccess
     }
   }
 
-  const handleReject = async (index: number) => {
+  const handleReject = async (request: AccessRequest) => {
+    const index = request.requestIndex
     setProcessing({ index, action: "reject", status: "processing" })
     setError(null)
     
@@ -112,7 +140,7 @@ export function PendingAccessRequests({ account, patientAddress }: PendingAccess
         // Wait a moment to show success, then refresh
         setTimeout(async () => {
           // Remove the rejected request from local state immediately
-          setRequests(prev => prev.filter((_, i) => i !== index))
+          setRequests(prev => prev.filter((r) => r.requestIndex !== index))
           setProcessing(null)
           
           // Then fetch fresh data from blockchain
@@ -247,8 +275,8 @@ export function PendingAccessRequests({ account, patientAddress }: PendingAccess
           </div>
         ) : (
           <div className="space-y-3">
-            {requests.map((request, index) => {
-              const isProcessingThis = processing?.index === index
+            {requests.map((request) => {
+              const isProcessingThis = processing?.index === request.requestIndex
               
               return (
                 <div 
@@ -287,7 +315,7 @@ export function PendingAccessRequests({ account, patientAddress }: PendingAccess
                   </div>
 
                   {/* Processing Status UI */}
-                  {getProcessingUI(index)}
+                  {getProcessingUI(request.requestIndex)}
 
                   {/* Action Buttons - hide when processing this item */}
                   {(!isProcessingThis || processing?.status === "error") && (
@@ -295,7 +323,7 @@ export function PendingAccessRequests({ account, patientAddress }: PendingAccess
                       <Button
                         size="sm"
                         className="flex-1 gap-1 bg-green-600 hover:bg-green-700"
-                        onClick={() => handleApprove(index)}
+                        onClick={() => handleApprove(request)}
                         disabled={processing !== null}
                       >
                         <CheckCircle2 className="w-4 h-4" />
@@ -305,7 +333,7 @@ export function PendingAccessRequests({ account, patientAddress }: PendingAccess
                         size="sm"
                         variant="outline"
                         className="flex-1 gap-1 border-destructive text-destructive hover:bg-destructive/10"
-                        onClick={() => handleReject(index)}
+                        onClick={() => handleReject(request)}
                         disabled={processing !== null}
                       >
                         <XCircle className="w-4 h-4" />
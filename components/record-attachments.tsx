@@ -0,0 +1,231 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Image from "next/image"
+import { AlertCircle, Download, Eye, FileText, ImageIcon, Loader2, Paperclip, X } from "lucide-react"
+import { getRecordAttachment } from "@/lib/services/ipfs"
+import {
+  ATTACHMENT_MIME_TYPES,
+  MAX_ATTACHMENTS_PER_RECORD,
+  MAX_ATTACHMENT_SIZE,
+  formatAttachmentSize,
+  selectAttachmentFiles,
+  type AttachmentRef,
+} from "@/lib/services/attachments"
+
+interface AttachmentPickerProps {
+  files: File[]
+  onChange: (files: File[]) => void
+}
+
+// File picker for a new record's attachments (validated here, encrypted on submit)
+export function AttachmentPicker({ files, onChange }: AttachmentPickerProps) {
+  const [errors, setErrors] = useState<string[]>([])
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const handleSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? [])
+    e.target.value = ""
+    if (selected.length === 0) return
+
+    const { accepted, errors } = await selectAttachmentFiles(files, selected)
+    setErrors(errors)
+    if (accepted.length > 0) onChange([...files, ...accepted])
+  }
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-muted-foreground mb-1.5">ATTACHMENTS</label>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={ATTACHMENT_MIME_TYPES.join(",")}
+        onChange={handleSelect}
+        className="hidden"
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={files.length >= MAX_ATTACHMENTS_PER_RECORD}
+        className="w-full p-3 border-2 border-dashed border-border rounded-lg flex items-center justify-center gap-2 text-sm text-muted-foreground hover:border-teal-500/50 hover:text-foreground transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Paperclip className="w-4 h-4" />
+        Attach PDF or image
+      </button>
+      <p className="text-xs text-muted-foreground mt-1.5">
+        PDF, PNG, JPEG or WebP, up to {formatAttachmentSize(MAX_ATTACHMENT_SIZE)} each, {MAX_ATTACHMENTS_PER_RECORD} per record.
+        Files are encrypted with the record.
+      </p>
+
+      {files.length > 0 && (
+        <div className="mt-2 space-y-1.5">
+          {files.map((file, index) => (
+            <div key={`${file.name}-${index}`} className="flex items-center gap-2 px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm">
+              {file.type === "application/pdf" ? (
+                <FileText className="w-4 h-4 text-red-500 flex-shrink-0" />
+              ) : (
+                <ImageIcon className="w-4 h-4 text-teal-600 flex-shrink-0" />
+              )}
+              <span className="flex-1 truncate text-foreground">{file.name}</span>
+              <span className="text-xs text-muted-foreground">{formatAttachmentSize(file.size)}</span>
+              <button
+                type="button"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                className="p-1 rounded hover:bg-muted text-muted-foreground hover:text-foreground"
+                title="Remove attachment"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {errors.map((error) => (
+            <p key={error} className="text-xs text-red-600 flex items-start gap-1">
+              <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              {error}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export interface RecordAttachmentItem {
+  recordCid: string // Record whose data key encrypts the attachment
+  attachment: AttachmentRef
+  version?: number // Set when the attachment belongs to a superseded version
+}
+
+// Attachments of every version in an amendment chain (oldest first, current version last)
+export function collectRecordAttachments(
+  versions: { ipfsCid: string; attachments?: AttachmentRef[] }[]
+): RecordAttachmentItem[] {
+  return versions.flatMap((version, index) =>
+    (version.attachments ?? []).map((attachment) => ({
+      recordCid: version.ipfsCid,
+      attachment,
+      version: index < versions.length - 1 ? index + 1 : undefined,
+    }))
+  )
+}
+
+interface RecordAttachmentsProps {
+  items: RecordAttachmentItem[]
+  patientAddress: string
+  readerAddress?: string // Wallet whose device key unwraps the record (defaults to the patient)
+}
+
+// Attachment list for record details; files are fetched and decrypted only when opened
+export function RecordAttachments({ items, patientAddress, readerAddress }: RecordAttachmentsProps) {
+  const [preview, setPreview] = useState<{ key: string; url: string; item: RecordAttachmentItem } | null>(null)
+  const [loadingKey, setLoadingKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Object URLs hold the decrypted file in memory until revoked
+  useEffect(() => {
+    return () => {
+      if (preview) URL.revokeObjectURL(preview.url)
+    }
+  }, [preview])
+
+  if (items.length === 0) return null
+
+  const handleOpen = async (item: RecordAttachmentItem, key: string) => {
+    if (preview?.key === key) {
+      setPreview(null)
+      return
+    }
+
+    setLoadingKey(key)
+    setError(null)
+    const result = await getRecordAttachment(item.recordCid, item.attachment, patientAddress, readerAddress)
+    setLoadingKey(null)
+
+    if (!result.success || !result.blob) {
+      setError(result.error || "Failed to decrypt attachment")
+      return
+    }
+    setPreview({ key, url: URL.createObjectURL(result.blob), item })
+  }
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2 flex items-center gap-1.5">
+        <Paperclip className="w-3.5 h-3.5" />
+        Attachments ({items.length})
+      </h4>
+      <div className="space-y-1.5">
+        {items.map((item, index) => {
+          const key = `${item.recordCid}:${index}`
+          const { attachment } = item
+          return (
+            <div key={key} className="flex items-center gap-2 px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm">
+              {attachment.mimeType === "application/pdf" ? (
+                <FileText className="w-4 h-4 text-red-500 flex-shrink-0" />
+              ) : (
+                <ImageIcon className="w-4 h-4 text-teal-600 flex-shrink-0" />
+              )}
+              <span className="flex-1 min-w-0">
+                <span className="block truncate text-foreground">{attachment.name}</span>
+                <span className="block text-xs text-muted-foreground">
+                  {formatAttachmentSize(attachment.size)}
+                  {item.version && ` · from version ${item.version}`}
+                </span>
+              </span>
+              <button
+                type="button"
+                onClick={() => handleOpen(item, key)}
+                disabled={loadingKey !== null}
+                className="inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium text-teal-700 hover:bg-teal-500/10 disabled:opacity-50"
+              >
+                {loadingKey === key ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Eye className="w-3.5 h-3.5" />}
+                {preview?.key === key ? "Hide" : "View"}
+              </button>
+            </div>
+          )
+        })}
+      </div>
+
+      {error && (
+        <p className="mt-2 text-xs text-red-600 flex items-start gap-1">
+          <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {preview && (
+        <div className="mt-3 border border-border rounded-lg overflow-hidden">
+          <div className="flex items-center justify-between px-3 py-2 bg-muted/50 text-xs">
+            <span className="truncate font-medium text-foreground">{preview.item.attachment.name}</span>
+            <a
+              href={preview.url}
+              download={preview.item.attachment.name}
+              className="inline-flex items-center gap-1 text-teal-700 font-medium hover:underline"
+            >
+              <Download className="w-3.5 h-3.5" />
+              Download
+            </a>
+          </div>
+          {preview.item.attachment.mimeType === "application/pdf" ? (
+            <iframe src={preview.url} title={preview.item.attachment.name} className="w-full h-[480px] bg-white" />
+          ) : (
+            <Image
+              src={preview.url}
+              alt={preview.item.attachment.name}
+              width={800}
+              height={600}
+              unoptimized
+              className="w-full h-auto max-h-[480px] object-contain bg-muted/20"
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,214 @@
+"use client"
+
+import { useState } from "react"
+import { AlertCircle, CloudOff, FileCheck, ListChecks, Loader2, Lock, ShieldAlert, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { RecordKindBadge } from "@/components/record-kind-fields"
+import { type IntegrityResult } from "@/lib/services/ipfs"
+import { getIntegrityProblems, verifyAllRecords, type IntegrityReport } from "@/lib/services/integrity"
+
+const BADGES = {
+  verified: {
+    icon: FileCheck,
+    label: "Hash verified",
+    className: "bg-emerald-500/10 text-emerald-600",
+  },
+  mismatch: {
+    icon: ShieldAlert,
+    label: "Hash mismatch",
+    className: "bg-red-500/10 text-red-600",
+  },
+  unavailable: {
+    icon: CloudOff,
+    label: "Unavailable",
+    className: "bg-muted text-muted-foreground",
+  },
+  locked: {
+    icon: Lock,
+    label: "Unavailable",
+    className: "bg-muted text-muted-foreground",
+  },
+}
+
+const badgeFor = (result: IntegrityResult) =>
+  BADGES[result.reason === "locked" ? "locked" : result.status]
+
+interface IntegrityBadgeProps {
+  result: IntegrityResult
+  className?: string
+}
+
+// Whether a record's content matches its on-chain dataHash
+export function IntegrityBadge({ result, className = "" }: IntegrityBadgeProps) {
+  const { icon: Icon, label, className: colors } = badgeFor(result)
+  const title =
+    result.status === "verified"
+      ? "Decrypted content matches the hash recorded on-chain"
+      : result.error || label
+
+  return (
+    <span
+      title={title}
+      className={`inline-flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded font-medium whitespace-nowrap ${colors} ${className}`}
+    >
+      <Icon className="w-3 h-3" />
+      {label}
+    </span>
+  )
+}
+
+interface VerifyAllRecordsProps {
+  patientAddress: string
+  readerAddress?: string // Wallet whose device key unwraps the records (defaults to the patient)
+  disabled?: boolean
+}
+
+// Button that checks every on-chain record of a patient and shows what failed
+export function VerifyAllRecords({ patientAddress, readerAddress, disabled = false }: VerifyAllRecordsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [progress, setProgress] = useState<{ checked: number; total: number } | null>(null)
+  const [report, setReport] = useState<IntegrityReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const isRunning = progress !== null
+
+  const handleVerify = async () => {
+    setIsOpen(true)
+    setReport(null)
+    setError(null)
+    setProgress({ checked: 0, total: 0 })
+
+    try {
+      const result = await verifyAllRecords(patientAddress, readerAddress, (checked, total) =>
+        setProgress({ checked, total })
+      )
+      setReport(result)
+    } catch (err) {
+      console.error("Error verifying records:", err)
+      setError("Failed to load records from blockchain")
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const problems = report ? getIntegrityProblems(report) : []
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleVerify}
+        disabled={disabled || isRunning}
+        className="gap-2"
+        title="Check every record against its on-chain hash"
+      >
+        {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <ListChecks className="w-4 h-4" />}
+        Verify All
+      </Button>
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+          onClick={() => !isRunning && setIsOpen(false)}
+        >
+          <Card className="w-full max-w-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+            <CardContent className="p-6 space-y-4">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h3 className="text-lg font-semibold text-foreground">Integrity Report</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Every on-chain record, including superseded versions, checked against its data hash
+                  </p>
+                </div>
+                <button
+                  onClick={() => setIsOpen(false)}
+                  disabled={isRunning}
+                  className="p-2 rounded-lg hover:bg-muted text-muted-foreground disabled:opacity-50"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              {progress && (
+                <div className="flex items-center gap-3 py-6 justify-center text-sm text-muted-foreground">
+                  <Loader2 className="w-5 h-5 animate-spin text-primary" />
+                  {progress.total > 0
+                    ? `Checked ${progress.checked} of ${progress.total} records...`
+                    : "Loading records from blockchain..."}
+                </div>
+              )}
+
+              {error && (
+                <p className="text-sm text-red-600 flex items-center gap-2">
+                  <AlertCircle className="w-4 h-4" />
+                  {error}
+                </p>
+              )}
+
+              {report && (
+                <>
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="p-3 rounded-lg bg-emerald-500/10 text-center">
+                      <p className="text-2xl font-bold text-emerald-600">{report.counts.verified}</p>
+                      <p className="text-xs text-muted-foreground">Verified</p>
+                    </div>
+                    <div className="p-3 rounded-lg bg-red-500/10 text-center">
+                      <p className="text-2xl font-bold text-red-600">{report.counts.mismatch}</p>
+                      <p className="text-xs text-muted-foreground">Mismatch</p>
+                    </div>
+                    <div className="p-3 rounded-lg bg-muted text-center">
+                      <p className="text-2xl font-bold text-foreground">{report.counts.unavailable}</p>
+                      <p className="text-xs text-muted-foreground">Unavailable</p>
+                    </div>
+                  </div>
+
+                  {report.entries.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No records on-chain yet</p>
+                  ) : problems.length === 0 ? (
+                    <p className="text-sm text-emerald-600 flex items-center gap-2">
+                      <FileCheck className="w-4 h-4" />
+                      All {report.entries.length} records match their on-chain hashes.
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {problems.map((entry) => (
+                        <div key={`${entry.ref.ipfsCid}-${entry.index}`} className="p-3 border border-border rounded-lg space-y-1.5">
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                              <span className="font-semibold text-foreground">Record #{entry.index + 1}</span>
+                              <RecordKindBadge recordType={entry.ref.recordType} />
+                              <span>{new Date(entry.ref.timestamp * 1000).toLocaleDateString()}</span>
+                            </div>
+                            <IntegrityBadge result={entry} />
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            {entry.status === "mismatch"
+                              ? "Content was changed after it was recorded on-chain."
+                              : entry.reason === "missing"
+                                ? "No gateway serves this CID."
+                                : "This wallet has no key for the record."}
+                            {entry.status === "unavailable" && entry.error && ` ${entry.error}`}
+                          </p>
+                          <p className="text-xs font-mono text-muted-foreground break-all">CID: {entry.ref.ipfsCid}</p>
+                          <p className="text-xs font-mono text-muted-foreground break-all">
+                            Issued by {entry.ref.hospitalAddress}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <p className="text-xs text-muted-foreground">
+                    Checked {new Date(report.checkedAt).toLocaleString()}
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </>
+  )
+}
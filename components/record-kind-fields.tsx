@@ -0,0 +1,233 @@
+"use client"
+
+import { FlaskConical, Pill, ScanLine, Scissors, Stethoscope, Syringe, type LucideIcon } from "lucide-react"
+import { Icd10Autocomplete, Icd10Info } from "@/components/icd10-fields"
+import {
+  RECORD_KINDS,
+  RECORD_KIND_ORDER,
+  normalizeRecordKind,
+  type RecordFieldSpec,
+  type RecordKind,
+  type TypedRecordFields,
+} from "@/lib/services/records"
+
+interface RecordKindStyle {
+  icon: LucideIcon
+  className: string // Badge colors
+  accent: string // Card stripe
+  gradient: string // Detail header
+}
+
+const KIND_STYLES: Record<RecordKind, RecordKindStyle> = {
+  DIAGNOSIS: {
+    icon: Stethoscope,
+    className: "bg-blue-500/10 text-blue-600",
+    accent: "bg-blue-500",
+    gradient: "bg-gradient-to-r from-blue-500/20 to-blue-500/5",
+  },
+  LAB_RESULT: {
+    icon: FlaskConical,
+    className: "bg-emerald-500/10 text-emerald-600",
+    accent: "bg-emerald-500",
+    gradient: "bg-gradient-to-r from-emerald-500/20 to-emerald-500/5",
+  },
+  PRESCRIPTION: {
+    icon: Pill,
+    className: "bg-violet-500/10 text-violet-600",
+    accent: "bg-violet-500",
+    gradient: "bg-gradient-to-r from-violet-500/20 to-violet-500/5",
+  },
+  IMAGING: {
+    icon: ScanLine,
+    className: "bg-indigo-500/10 text-indigo-600",
+    accent: "bg-indigo-500",
+    gradient: "bg-gradient-to-r from-indigo-500/20 to-indigo-500/5",
+  },
+  VACCINATION: {
+    icon: Syringe,
+    className: "bg-cyan-500/10 text-cyan-600",
+    accent: "bg-cyan-500",
+    gradient: "bg-gradient-to-r from-cyan-500/20 to-cyan-500/5",
+  },
+  PROCEDURE: {
+    icon: Scissors,
+    className: "bg-orange-500/10 text-orange-600",
+    accent: "bg-orange-500",
+    gradient: "bg-gradient-to-r from-orange-500/20 to-orange-500/5",
+  },
+}
+
+// Kind colors for surfaces other than the badge (card stripes, detail headers)
+export function getRecordKindStyle(recordType: string): Pick<RecordKindStyle, "accent" | "gradient"> {
+  const { accent, gradient } = KIND_STYLES[normalizeRecordKind(recordType)]
+  return { accent, gradient }
+}
+
+const inputClassName =
+  "w-full h-10 px-3 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20"
+const textareaClassName =
+  "w-full h-24 px-3 py-2 bg-muted/30 border border-border rounded-lg text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-teal-500/20 resize-none"
+
+interface RecordKindIconProps {
+  recordType: string
+  className?: string
+}
+
+export function RecordKindIcon({ recordType, className = "w-3 h-3" }: RecordKindIconProps) {
+  const Icon = KIND_STYLES[normalizeRecordKind(recordType)].icon
+  return <Icon className={className} />
+}
+
+interface RecordKindBadgeProps {
+  recordType: string
+  className?: string
+}
+
+// Icon + label for a record's kind (legacy recordType values are normalized)
+export function RecordKindBadge({ recordType, className = "" }: RecordKindBadgeProps) {
+  const kind = normalizeRecordKind(recordType)
+  const { icon: Icon, className: colors } = KIND_STYLES[kind]
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs px-1.5 py-0.5 rounded font-medium ${colors} ${className}`}>
+      <Icon className="w-3 h-3" />
+      {RECORD_KINDS[kind].label}
+    </span>
+  )
+}
+
+interface RecordKindSelectorProps {
+  value: RecordKind
+  onChange: (kind: RecordKind) => void
+  disabled?: boolean
+}
+
+// Chips for choosing which kind of record the form creates
+export function RecordKindSelector({ value, onChange, disabled = false }: RecordKindSelectorProps) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+      {RECORD_KIND_ORDER.map((kind) => {
+        const { icon: Icon, className: colors } = KIND_STYLES[kind]
+        const isActive = kind === value
+        return (
+          <button
+            key={kind}
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange(kind)}
+            className={`flex items-start gap-2 p-3 rounded-lg border text-left transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              isActive ? "border-teal-500 bg-teal-500/5" : "border-border hover:border-teal-500/50"
+            }`}
+          >
+            <span className={`p-1.5 rounded-md ${colors}`}>
+              <Icon className="w-4 h-4" />
+            </span>
+            <span>
+              <span className="block text-sm font-medium text-foreground">{RECORD_KINDS[kind].label}</span>
+              <span className="block text-xs text-muted-foreground">{RECORD_KINDS[kind].description}</span>
+            </span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+interface RecordKindFormProps {
+  kind: RecordKind
+  fields: TypedRecordFields
+  onChange: (fields: TypedRecordFields) => void
+}
+
+// Entry form generated from a record kind's schema
+export function RecordKindForm({ kind, fields, onChange }: RecordKindFormProps) {
+  const setField = (key: string, value: string) => onChange({ ...fields, [key]: value })
+
+  const renderInput = (spec: RecordFieldSpec) => {
+    const value = fields[spec.key] ?? ""
+
+    switch (spec.type) {
+      case "textarea":
+        return (
+          <textarea
+            value={value}
+            onChange={(e) => setField(spec.key, e.target.value)}
+            placeholder={spec.placeholder}
+            className={textareaClassName}
+          />
+        )
+      case "select":
+        return (
+          <select value={value} onChange={(e) => setField(spec.key, e.target.value)} className={inputClassName}>
+            <option value="">Select...</option>
+            {spec.options?.map((option) => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        )
+      case "icd":
+        return (
+          <>
+            <Icd10Autocomplete
+              value={value}
+              onChange={(next) => setField(spec.key, next)}
+              onSelect={(entry) => setField(spec.key, entry.code)}
+              placeholder={spec.placeholder ?? "J20.9"}
+              className={inputClassName}
+            />
+            <Icd10Info code={value} className="mt-1.5" />
+          </>
+        )
+      default:
+        return (
+          <input
+            type={spec.type === "date" ? "date" : "text"}
+            value={value}
+            onChange={(e) => setField(spec.key, e.target.value)}
+            placeholder={spec.placeholder}
+            className={inputClassName}
+          />
+        )
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {RECORD_KINDS[kind].fields.map((spec) => (
+        <div key={spec.key} className={spec.type === "textarea" ? "md:col-span-2" : ""}>
+          <label className="block text-xs font-medium text-muted-foreground mb-1.5">
+            {spec.label.toUpperCase()}
+            {spec.required && " *"}
+          </label>
+          {renderInput(spec)}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface RecordKindDetailsProps {
+  recordType: string
+  fields: TypedRecordFields
+}
+
+// Filled-in fields of a typed record, in schema order, for detail views
+export function RecordKindDetails({ recordType, fields }: RecordKindDetailsProps) {
+  const specs = RECORD_KINDS[normalizeRecordKind(recordType)].fields.filter((spec) => fields[spec.key]?.trim())
+
+  if (specs.length === 0) {
+    return <p className="text-sm text-muted-foreground">No details recorded</p>
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {specs.map((spec) => (
+        <div key={spec.key} className={spec.type === "textarea" ? "md:col-span-2" : ""}>
+          <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">{spec.label}</h4>
+          <p className={`text-foreground whitespace-pre-line ${spec.type === "icd" ? "font-mono" : ""}`}>{fields[spec.key]}</p>
+          {spec.type === "icd" && <Icd10Info code={fields[spec.key]} className="mt-1" />}
+        </div>
+      ))}
+    </div>
+  )
+}
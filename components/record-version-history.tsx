@@ -0,0 +1,79 @@
+"use client"
+
+import { History } from "lucide-react"
+import { diffRecords, type AmendableRecord } from "@/lib/services/amendments"
+import { type RecordAmendment } from "@/lib/services/ipfs"
+
+export type RecordVersion = AmendableRecord & {
+  ipfsCid: string
+  timestamp: number
+  hospital: string
+  amends?: RecordAmendment
+}
+
+interface RecordVersionHistoryProps {
+  versions: RecordVersion[] // Oldest first; the last entry is the current version
+}
+
+// Amendment history of a record, newest first, with what each amendment changed
+export function RecordVersionHistory({ versions }: RecordVersionHistoryProps) {
+  if (versions.length < 2) return null
+
+  const entries = versions
+    .map((version, index) => ({
+      version,
+      number: index + 1,
+      changes: index > 0 ? diffRecords(versions[index - 1], version) : [],
+    }))
+    .reverse()
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-3 flex items-center gap-1.5">
+        <History className="w-3.5 h-3.5" />
+        Version History ({versions.length})
+      </h4>
+      <div className="space-y-3">
+        {entries.map(({ version, number, changes }) => (
+          <div key={version.ipfsCid} className="border border-border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="font-semibold text-foreground">
+                Version {number}
+                {number === versions.length && " (current)"}
+                {number === 1 && " (original)"}
+              </span>
+              <span className="text-muted-foreground">
+                {new Date(version.timestamp * 1000).toLocaleString()} · {version.hospital}
+              </span>
+            </div>
+
+            {version.amends?.reason && (
+              <p className="text-sm text-foreground">
+                <span className="text-muted-foreground">Reason: </span>
+                {version.amends.reason}
+              </p>
+            )}
+
+            {number > 1 && changes.length === 0 && (
+              <p className="text-xs text-muted-foreground">No field changes</p>
+            )}
+
+            {changes.map((change) => (
+              <div key={change.field} className="text-xs">
+                <p className="font-medium text-muted-foreground mb-0.5">{change.label}</p>
+                <p className="px-2 py-1 rounded bg-red-500/10 text-red-700 line-through break-words">
+                  {change.before || "(empty)"}
+                </p>
+                <p className="px-2 py-1 mt-0.5 rounded bg-emerald-500/10 text-emerald-700 break-words">
+                  {change.after || "(empty)"}
+                </p>
+              </div>
+            ))}
+
+            <p className="text-[10px] font-mono text-muted-foreground break-all">CID: {version.ipfsCid}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+/**
+ * Server startup checks. Next.js calls register() once when a server instance starts.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { assertAuthConfigured } = await import("@/lib/server/auth");
+    assertAuthConfigured();
+  }
+}
@@ -0,0 +1,92 @@
+export interface CachedContent {
+    cid: string;
+    bytes: ArrayBuffer;           // Ciphertext exactly as pinned (already checked against the CID)
+    size: number;
+    storedAt: number;
+}
+
+const DB_NAME = "medichain_ipfs_cache";
+const STORE_NAME = "content";
+const MAX_CACHE_BYTES = 200 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> | null {
+    if (typeof window === "undefined" || typeof indexedDB === "undefined") return null;
+
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: "cid" });
+                store.createIndex("storedAt", "storedAt");
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Private browsing or a blocked database: retry on the next call, callers fall back to the network
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+}
+
+function runTransaction<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+    const opening = openDatabase();
+    if (!opening) return Promise.resolve(undefined);
+
+    return opening.then((db) => new Promise<T | undefined>((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = action(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => resolve(request ? request.result : undefined);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    }));
+}
+
+// Content is addressed by CID, so a cached entry never goes stale
+export async function getCachedContent(cid: string): Promise<ArrayBuffer | null> {
+    try {
+        const entry = await runTransaction<CachedContent>("readonly", (store) => store.get(cid));
+        return entry ? entry.bytes : null;
+    } catch {
+        return null;
+    }
+}
+
+export async function saveCachedContent(cid: string, bytes: ArrayBuffer): Promise<void> {
+    try {
+        const entry: CachedContent = { cid, bytes, size: bytes.byteLength, storedAt: Date.now() };
+        await runTransaction("readwrite", (store) => store.put(entry));
+        await pruneCachedContent();
+    } catch {
+        // Quota exceeded or storage unavailable; the content is simply fetched again next time
+    }
+}
+
+// Drop the oldest entries once the cache grows past MAX_CACHE_BYTES
+async function pruneCachedContent(): Promise<void> {
+    await runTransaction("readwrite", (store) => {
+        let total = 0;
+        const cursorRequest = store.index("storedAt").openCursor(null, "prev");
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            total += (cursor.value as CachedContent).size;
+            if (total > MAX_CACHE_BYTES) cursor.delete();
+            cursor.continue();
+        };
+    });
+}
+
+export async function clearCachedContent(): Promise<void> {
+    try {
+        await runTransaction("readwrite", (store) => store.clear());
+    } catch {
+        // Nothing cached
+    }
+}
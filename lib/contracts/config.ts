@@ -8,6 +8,10 @@ export const CHAIN_CONFIG = {
   name: "Lisk Sepolia Testnet",
   rpcUrl: process.env.NEXT_PUBLIC_RPC_URL || "https://rpc.sepolia-api.lisk.com",
   blockExplorer: "https://sepolia-blockscout.lisk.com",
+  // First block to scan for contract events (audit log)
+  deploymentBlock: BigInt(process.env.NEXT_PUBLIC_DEPLOYMENT_BLOCK || "0"),
+  // Blocks per eth_getLogs call; public RPCs reject wider ranges
+  eventScanBlockRange: BigInt(process.env.NEXT_PUBLIC_EVENT_SCAN_BLOCK_RANGE || "10000"),
   nativeCurrency: {
     name: "ETH",
     symbol: "ETH",
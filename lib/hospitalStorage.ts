@@ -45,6 +45,36 @@ export function clearHospitalData(walletAddress: string): void {
     localStorage.removeItem(`${STORAGE_KEY}_${walletAddress}`);
 }
 
+// Registration form kept while an application waits for review
+export type HospitalRegistrationDraft = Omit<HospitalData, "type" | "walletAddress" | "registeredAt"> & {
+    type: HospitalData["type"] | "";
+};
+
+const DRAFT_STORAGE_KEY = "medichain_hospital_registration_draft";
+
+export function getRegistrationDraft(walletAddress: string): HospitalRegistrationDraft | null {
+    if (typeof window === "undefined") return null;
+
+    const data = localStorage.getItem(`${DRAFT_STORAGE_KEY}_${walletAddress}`);
+    if (!data) return null;
+
+    try {
+        return JSON.parse(data) as HospitalRegistrationDraft;
+    } catch {
+        return null;
+    }
+}
+
+export function saveRegistrationDraft(walletAddress: string, draft: HospitalRegistrationDraft): void {
+    if (typeof window === "undefined") return;
+    localStorage.setItem(`${DRAFT_STORAGE_KEY}_${walletAddress}`, JSON.stringify(draft));
+}
+
+export function clearRegistrationDraft(walletAddress: string): void {
+    if (typeof window === "undefined") return;
+    localStorage.removeItem(`${DRAFT_STORAGE_KEY}_${walletAddress}`);
+}
+
 export const hospitalTypeLabels: Record<HospitalData["type"], string> = {
     general: "General Hospital",
     clinic: "Clinic",
@@ -0,0 +1,31 @@
+export interface StoredKeyPair {
+    address: string;              // Owner wallet (lowercase)
+    publicKey: string;            // Base64 raw P-256 public key
+    privateKey: JsonWebKey;       // ECDH private key, never leaves this device unencrypted
+    createdAt: number;
+}
+
+const STORAGE_KEY = "medichain_encryption_key";
+
+export function getStoredKeyPair(walletAddress: string): StoredKeyPair | null {
+    if (typeof window === "undefined") return null;
+
+    const data = localStorage.getItem(`${STORAGE_KEY}_${walletAddress.toLowerCase()}`);
+    if (!data) return null;
+
+    try {
+        return JSON.parse(data) as StoredKeyPair;
+    } catch {
+        return null;
+    }
+}
+
+export function saveStoredKeyPair(keyPair: StoredKeyPair): void {
+    if (typeof window === "undefined") return;
+    localStorage.setItem(`${STORAGE_KEY}_${keyPair.address.toLowerCase()}`, JSON.stringify(keyPair));
+}
+
+export function clearStoredKeyPair(walletAddress: string): void {
+    if (typeof window === "undefined") return;
+    localStorage.removeItem(`${STORAGE_KEY}_${walletAddress.toLowerCase()}`);
+}
@@ -31,43 +31,6 @@ export function getPatientData(walletAddress: string): PatientData | null {
     }
 }
 
-export function searchPatients(query: string): PatientData[] {
-    if (typeof window === "undefined") return [];
-    
-    const patients: PatientData[] = [];
-    const seenNIKs = new Set<string>(); // Avoid duplicates from linked addresses
-    const keys = Object.keys(localStorage);
-    
-    keys.forEach(key => {
-        if (key.startsWith(`${STORAGE_KEY}_`)) {
-            try {
-                const item = localStorage.getItem(key);
-                if (item) {
-                    const data = JSON.parse(item) as PatientData;
-                    
-                    // Skip if we've already seen this patient (by NIK)
-                    if (seenNIKs.has(data.nik)) return;
-                    seenNIKs.add(data.nik);
-                    
-                    const cleanQuery = query.toLowerCase().trim();
-                    const cleanName = data.name ? data.name.toLowerCase() : "";
-                    const cleanNIK = data.nik ? data.nik.toString().toLowerCase() : "";
-                    
-                    if (!cleanQuery || 
-                        cleanName.includes(cleanQuery) || 
-                        cleanNIK.includes(cleanQuery)) {
-                        patients.push(data);
-                    }
-                }
-            } catch (e) {
-                console.error("Error parsing patient data", e);
-            }
-        }
-    });
-    
-    return patients;
-}
-
 // Save patient data (saves under primary wallet and all linked addresses)
 export function savePatientData(data: PatientData): void {
     if (typeof window === "undefined") return;
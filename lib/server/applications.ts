@@ -0,0 +1,164 @@
+/**
+ * Hospital Application Store
+ * Applications live in the JSON store; license documents are written next to it under
+ * <data dir>/hospital-applications/<wallet>/<sha256>. Approval signs the registry message and
+ * whitelists the hospital with the relayer key. Only import from API routes.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { createThirdwebClient, getContract, prepareContractCall, sendTransaction } from "thirdweb";
+import { verifySignature } from "thirdweb/auth";
+import { defineChain } from "thirdweb/chains";
+import { privateKeyToAccount as privateKeyToThirdwebAccount } from "thirdweb/wallets";
+import { encodePacked, keccak256, toBytes } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { isAdmin } from "@/lib/server/auth";
+import { type HospitalApplication } from "@/lib/services/registration";
+
+const DATA_DIR = process.env.MEDICHAIN_DATA_DIR || path.join(process.cwd(), ".data");
+const DOCUMENTS_DIR = path.join(DATA_DIR, "hospital-applications");
+
+const RELAYER_PRIVATE_KEY = process.env.RELAYER_PRIVATE_KEY;
+const THIRDWEB_CLIENT_ID = process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID || "";
+const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || "https://rpc.sepolia-api.lisk.com";
+const PATIENT_IDENTITY_ADDRESS = process.env.NEXT_PUBLIC_PATIENT_IDENTITY_ADDRESS || "0x19Ab8F63ED13ae191A8080c9638eefe86bF8ffbC";
+
+export const APPLICATIONS_COLLECTION = "hospital-applications";
+
+// Signed requests older than this are rejected (replay protection)
+const MAX_SIGNATURE_AGE_SECONDS = 10 * 60;
+
+// An approval claim older than this is treated as abandoned (the process died mid-approval)
+const APPROVAL_CLAIM_SECONDS = 5 * 60;
+
+const liskSepolia = defineChain({
+  id: 4202,
+  name: "Lisk Sepolia Testnet",
+  rpc: RPC_URL,
+  nativeCurrency: {
+    name: "ETH",
+    symbol: "ETH",
+    decimals: 18,
+  },
+});
+
+const client = createThirdwebClient({ clientId: THIRDWEB_CLIENT_ID });
+
+export const isAddress = (value: unknown): value is string =>
+  typeof value === "string" && /^0x[0-9a-fA-F]{40}$/.test(value);
+
+export const isDocumentId = (value: string) => /^[0-9a-f]{64}$/.test(value);
+
+export const isFresh = (issuedAt: number) =>
+  Math.abs(Math.floor(Date.now() / 1000) - issuedAt) <= MAX_SIGNATURE_AGE_SECONDS;
+
+// ============ DOCUMENTS ============
+
+const documentPath = (applicant: string, documentId: string) =>
+  path.join(DOCUMENTS_DIR, applicant.toLowerCase(), documentId);
+
+export async function saveApplicationDocument(applicant: string, documentId: string, bytes: Uint8Array): Promise<void> {
+  const target = documentPath(applicant, documentId);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, bytes);
+  await fs.rename(tmp, target);
+}
+
+export async function readApplicationDocument(applicant: string, documentId: string): Promise<Uint8Array<ArrayBuffer> | null> {
+  try {
+    const buffer = await fs.readFile(documentPath(applicant, documentId));
+    return new Uint8Array(buffer);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Remove documents a resubmitted application no longer lists
+ */
+export async function pruneApplicationDocuments(applicant: string, keep: string[]): Promise<void> {
+  const dir = path.join(DOCUMENTS_DIR, applicant.toLowerCase());
+  const entries = await fs.readdir(dir).catch(() => [] as string[]);
+  await Promise.all(
+    entries.filter((entry) => !keep.includes(entry)).map((entry) => fs.rm(path.join(dir, entry), { force: true }))
+  );
+}
+
+// ============ REVIEWERS ============
+
+/**
+ * Check a signed admin message; resolves to an error message, or null when the signer is an admin
+ */
+export async function verifyAdminSignature(
+  address: unknown,
+  message: string,
+  signature: unknown,
+  issuedAt: number
+): Promise<string | null> {
+  if (!isAddress(address) || typeof signature !== "string" || !signature) {
+    return "Missing reviewer signature";
+  }
+  if (!isFresh(issuedAt)) {
+    return "Signature expired, please try again";
+  }
+
+  const isValid = await verifySignature({ message, signature, address, client, chain: liskSepolia });
+  if (!isValid) {
+    return "Invalid signature";
+  }
+  if (!(await isAdmin(address))) {
+    return "This wallet does not hold ADMIN_ROLE";
+  }
+  return null;
+}
+
+// ============ APPROVAL ============
+
+/**
+ * Whether another request is signing and whitelisting this application right now
+ */
+export const isApprovalInProgress = (application: HospitalApplication | undefined) =>
+  !!application?.approvingSince && Math.floor(Date.now() / 1000) - application.approvingSince < APPROVAL_CLAIM_SECONDS;
+
+/**
+ * Sign the AutomatedHospitalRegistry message for an approved application.
+ * Contract: keccak256(abi.encodePacked(sender, _licenseNumber)), EIP-191 prefixed.
+ */
+export async function signRegistration(applicant: string, licenseNumber: string): Promise<string> {
+  if (!RELAYER_PRIVATE_KEY) {
+    throw new Error("System verifier not configured");
+  }
+
+  const messageHash = keccak256(
+    encodePacked(["address", "string"], [applicant as `0x${string}`, licenseNumber])
+  );
+  const verifier = privateKeyToAccount(RELAYER_PRIVATE_KEY as `0x${string}`);
+  return verifier.signMessage({ message: { raw: toBytes(messageHash) } });
+}
+
+/**
+ * Whitelist an approved hospital in PatientIdentity with the relayer key
+ */
+export async function whitelistApplicant(application: HospitalApplication): Promise<string> {
+  if (!RELAYER_PRIVATE_KEY) {
+    throw new Error("Relayer not configured");
+  }
+
+  const relayerAccount = privateKeyToThirdwebAccount({ client, privateKey: RELAYER_PRIVATE_KEY });
+  const contract = getContract({ client, chain: liskSepolia, address: PATIENT_IDENTITY_ADDRESS });
+
+  const tx = prepareContractCall({
+    contract,
+    method: "function whitelistHospital(address _hospital, string _hospitalName)",
+    params: [application.address, application.name],
+  });
+
+  const result = await sendTransaction({
+    account: relayerAccount,
+    transaction: tx,
+  });
+  return result.transactionHash;
+}
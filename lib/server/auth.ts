@@ -0,0 +1,252 @@
+/**
+ * Sign-In with Ethereum Sessions
+ * Wallets sign an EIP-4361 login message once and receive a JWT in an HTTP-only cookie.
+ * Signatures are checked with verifySignature, so ERC-1271 smart accounts (thirdweb
+ * in-app wallets) and undeployed ERC-6492 accounts sign in like EOAs. Route guards then
+ * check the wallet's on-chain role. Only import from API routes.
+ */
+
+import { randomBytes } from "crypto";
+import { NextRequest } from "next/server";
+import { createThirdwebClient, getContract, readContract } from "thirdweb";
+import { createAuth, type LoginPayload } from "thirdweb/auth";
+import { defineChain } from "thirdweb/chains";
+import { privateKeyToAccount } from "thirdweb/wallets";
+import { keccak256, stringToHex } from "viem";
+import { getItem, updateCollection } from "@/lib/server/jsonStore";
+
+// Kept apart from RELAYER_PRIVATE_KEY so a leaked session key can't move admin funds or roles
+const AUTH_PRIVATE_KEY = process.env.AUTH_PRIVATE_KEY;
+// Login messages name this host, so production must set the real one
+const AUTH_DOMAIN = process.env.AUTH_DOMAIN || (process.env.NODE_ENV === "production" ? "" : "localhost:3000");
+const THIRDWEB_CLIENT_ID = process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID || "";
+const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || "https://rpc.sepolia-api.lisk.com";
+const PATIENT_IDENTITY_ADDRESS = process.env.NEXT_PUBLIC_PATIENT_IDENTITY_ADDRESS || "0x19Ab8F63ED13ae191A8080c9638eefe86bF8ffbC";
+
+export const SESSION_COOKIE = "medichain_session";
+export const SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+// A login message must be signed within this window, and its nonce is single use
+const LOGIN_PAYLOAD_TTL_SECONDS = 10 * 60;
+
+const NONCES_COLLECTION = "auth-nonces";
+const SESSIONS_COLLECTION = "auth-sessions";
+
+const ADMIN_ROLE = keccak256(stringToHex("ADMIN_ROLE"));
+
+export type SessionRole = "admin" | "hospital";
+
+export interface Session {
+  address: string;
+  expiresAt: number;
+}
+
+// Nonces and session IDs only need their expiry; logging out deletes the session ID
+interface ExpiringEntry {
+  expiresAt: number;
+}
+
+// Also caches the chain, so smart-account signatures are checked against our RPC
+const liskSepolia = defineChain({
+  id: 4202,
+  name: "Lisk Sepolia Testnet",
+  rpc: RPC_URL,
+  nativeCurrency: {
+    name: "ETH",
+    symbol: "ETH",
+    decimals: 18,
+  },
+});
+
+const client = createThirdwebClient({ clientId: THIRDWEB_CLIENT_ID });
+
+const now = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Store a fresh random ID that expires after ttl seconds, dropping expired ones
+ */
+async function issueId(collection: string, ttl: number): Promise<string> {
+  const id = randomBytes(16).toString("hex");
+  await updateCollection<ExpiringEntry, void>(collection, (data) => {
+    for (const [key, entry] of Object.entries(data)) {
+      if (entry.expiresAt <= now()) delete data[key];
+    }
+    data[id] = { expiresAt: now() + ttl };
+  });
+  return id;
+}
+
+let auth: ReturnType<typeof createAuth> | null = null;
+
+/**
+ * Throw unless sign-in is fully configured. Called when the server starts (instrumentation.ts)
+ * so a missing key or domain stops the deploy instead of failing every request.
+ */
+export function assertAuthConfigured(): void {
+  const missing = [
+    !AUTH_PRIVATE_KEY && "AUTH_PRIVATE_KEY",
+    !AUTH_DOMAIN && "AUTH_DOMAIN",
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    throw new Error(`Sign-in not configured: set ${missing.join(" and ")}`);
+  }
+}
+
+function getAuth() {
+  assertAuthConfigured();
+
+  auth ??= createAuth({
+    domain: AUTH_DOMAIN,
+    client,
+    adminAccount: privateKeyToAccount({ client, privateKey: AUTH_PRIVATE_KEY as string }),
+    login: {
+      statement: "Sign in to Medichain. This request does not trigger a transaction or cost any gas.",
+      payloadExpirationTimeSeconds: LOGIN_PAYLOAD_TTL_SECONDS,
+      nonce: {
+        generate: () => issueId(NONCES_COLLECTION, LOGIN_PAYLOAD_TTL_SECONDS),
+        // Consumed on first use so a signed login message can't be replayed
+        validate: (nonce) =>
+          updateCollection<ExpiringEntry, boolean>(NONCES_COLLECTION, (data) => {
+            const entry = data[nonce];
+            delete data[nonce];
+            return !!entry && entry.expiresAt > now();
+          }),
+      },
+    },
+    jwt: {
+      expirationTimeSeconds: SESSION_TTL_SECONDS,
+      jwtId: {
+        generate: () => issueId(SESSIONS_COLLECTION, SESSION_TTL_SECONDS),
+        validate: async (jwtId) => {
+          const entry = await getItem<ExpiringEntry>(SESSIONS_COLLECTION, jwtId);
+          return !!entry && entry.expiresAt > now();
+        },
+      },
+    },
+  });
+  return auth;
+}
+
+// ============ LOGIN ============
+
+/**
+ * EIP-4361 message fields for a wallet to sign, always bound to Lisk Sepolia
+ */
+export async function getLoginPayload(address: string): Promise<LoginPayload> {
+  return getAuth().generatePayload({ address, chainId: liskSepolia.id });
+}
+
+/**
+ * Verify a signed login payload; resolves to a session JWT or an error message
+ */
+export async function login(
+  payload: LoginPayload,
+  signature: string
+): Promise<{ jwt: string } | { error: string }> {
+  // The payload comes back from the client, so its chain must be pinned before verification
+  if (payload.chain_id !== String(liskSepolia.id)) {
+    return { error: "Sign in on Lisk Sepolia" };
+  }
+
+  const verified = await getAuth().verifyPayload({ payload, signature });
+  if (!verified.valid) {
+    return { error: verified.error };
+  }
+  return { jwt: await getAuth().generateJWT({ payload: verified.payload }) };
+}
+
+/**
+ * Session for the request's cookie, or null when missing, expired or logged out
+ */
+export async function getSession(request: NextRequest): Promise<Session | null> {
+  const jwt = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!jwt || !AUTH_PRIVATE_KEY) return null;
+
+  const result = await getAuth().verifyJWT({ jwt });
+  if (!result.valid) return null;
+
+  return { address: result.parsedJWT.sub.toLowerCase(), expiresAt: result.parsedJWT.exp };
+}
+
+/**
+ * Invalidate the request's session server-side (the cookie is cleared by the caller)
+ */
+export async function endSession(request: NextRequest): Promise<void> {
+  const jwt = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!jwt || !AUTH_PRIVATE_KEY) return;
+
+  const result = await getAuth().verifyJWT({ jwt });
+  if (!result.valid) return;
+
+  await updateCollection<ExpiringEntry, void>(SESSIONS_COLLECTION, (data) => {
+    delete data[result.parsedJWT.jti];
+  });
+}
+
+// ============ ROLES ============
+
+function getPatientIdentityContract() {
+  return getContract({ client, chain: liskSepolia, address: PATIENT_IDENTITY_ADDRESS });
+}
+
+/**
+ * Whether a wallet holds ADMIN_ROLE on PatientIdentity
+ */
+export async function isAdmin(address: string): Promise<boolean> {
+  return readContract({
+    contract: getPatientIdentityContract(),
+    method: "function hasRole(bytes32 role, address account) view returns (bool)",
+    params: [ADMIN_ROLE, address],
+  });
+}
+
+/**
+ * Whether a wallet may act as a hospital (whitelisted or verified in the registry)
+ */
+export async function isAuthorizedHospital(address: string): Promise<boolean> {
+  return readContract({
+    contract: getPatientIdentityContract(),
+    method: "function isHospitalAuthorized(address _hospital) view returns (bool)",
+    params: [address],
+  });
+}
+
+/**
+ * Check the on-chain permission for patient -> accessor
+ */
+export async function hasOnChainAccess(patient: string, accessor: string): Promise<boolean> {
+  const [hasAccess] = await readContract({
+    contract: getPatientIdentityContract(),
+    method: "function checkAccess(address _patient, address _accessor) view returns (bool hasAccess, (bool isGranted, uint256 expiresAt, uint256 grantedAt, string accessType) accessDetails)",
+    params: [patient, accessor],
+  });
+  return hasAccess;
+}
+
+/**
+ * Resolve the caller's session, optionally requiring an on-chain role.
+ * Returns the session, or the error and status code the route should respond with.
+ */
+export async function requireSession(
+  request: NextRequest,
+  role?: SessionRole
+): Promise<{ session: Session } | { error: string; status: 401 | 403 }> {
+  const session = await getSession(request);
+  if (!session) {
+    return { error: "Sign in with your wallet to continue", status: 401 };
+  }
+
+  if (role === "admin" && !(await isAdmin(session.address))) {
+    return { error: "This wallet does not hold ADMIN_ROLE", status: 403 };
+  }
+  if (role === "hospital" && !(await isAuthorizedHospital(session.address))) {
+    return { error: "Only whitelisted hospitals can do this", status: 403 };
+  }
+  return { session };
+}
+
+/**
+ * Whether the session belongs to the given wallet
+ */
+export const isSessionFor = (session: Session, address: string) =>
+  session.address === address.toLowerCase();
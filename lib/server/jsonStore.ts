@@ -0,0 +1,87 @@
+/**
+ * Server-side JSON Store for Medichain
+ * Small file-backed collections for data that has to be shared between devices
+ * (e.g. the public encryption key directory). Only import from API routes.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+const DATA_DIR = process.env.MEDICHAIN_DATA_DIR || path.join(process.cwd(), ".data");
+
+// Serialize writes per collection so concurrent requests don't clobber each other
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function collectionPath(collection: string): string {
+  return path.join(DATA_DIR, `${collection}.json`);
+}
+
+async function readCollection<T>(collection: string): Promise<Record<string, T>> {
+  try {
+    const raw = await fs.readFile(collectionPath(collection), "utf-8");
+    return JSON.parse(raw) as Record<string, T>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw error;
+  }
+}
+
+async function writeCollection<T>(collection: string, data: Record<string, T>): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const target = collectionPath(collection);
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2), "utf-8");
+  await fs.rename(tmp, target);
+}
+
+/**
+ * Run a read-modify-write against a collection, serialized per collection
+ */
+export async function updateCollection<T, R>(
+  collection: string,
+  update: (data: Record<string, T>) => R | Promise<R>
+): Promise<R> {
+  const previous = writeQueues.get(collection) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(async () => {
+    const data = await readCollection<T>(collection);
+    const result = await update(data);
+    await writeCollection(collection, data);
+    return result;
+  });
+  writeQueues.set(collection, next);
+  return next;
+}
+
+/**
+ * Get a single item by key
+ */
+export async function getItem<T>(collection: string, key: string): Promise<T | null> {
+  const data = await readCollection<T>(collection);
+  return data[key] ?? null;
+}
+
+/**
+ * Get all items in a collection
+ */
+export async function listItems<T>(collection: string): Promise<T[]> {
+  const data = await readCollection<T>(collection);
+  return Object.values(data);
+}
+
+/**
+ * Insert or replace an item
+ */
+export async function setItem<T>(collection: string, key: string, value: T): Promise<void> {
+  await updateCollection<T, void>(collection, (data) => {
+    data[key] = value;
+  });
+}
+
+/**
+ * Remove an item (no-op if missing)
+ */
+export async function deleteItem(collection: string, key: string): Promise<void> {
+  await updateCollection<unknown, void>(collection, (data) => {
+    delete data[key];
+  });
+}
@@ -0,0 +1,178 @@
+/**
+ * Facility License Dataset
+ * Loads the facility-license register (exported from the health ministry's facility
+ * registry) from a local JSON or CSV file and checks hospital applications against it.
+ * Only import from API routes.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  type ApplicationDetails,
+  type LicenseCheck,
+  type LicenseRecord,
+} from "@/lib/services/registration";
+
+const DATA_DIR = process.env.MEDICHAIN_DATA_DIR || path.join(process.cwd(), ".data");
+
+// JSON array of records, or CSV with a header row (license_number, name, city, type, status, expires_at)
+const DATASET_PATH = process.env.FACILITY_LICENSE_DATASET || path.join(DATA_DIR, "facility-licenses.json");
+
+// Statuses that count as a valid license (anything else is flagged)
+const ACTIVE_STATUSES = new Set(["active", "aktif", "valid", "berlaku"]);
+
+// Share of name words that must match the licensed name
+const NAME_MATCH_THRESHOLD = 0.6;
+
+// Reloaded when the file changes
+let cache: { mtimeMs: number; records: Map<string, LicenseRecord> } | null = null;
+
+// ============ LOADING ============
+
+const normalizeLicense = (value: string) => value.toUpperCase().replace(/[\s./-]/g, "");
+
+const normalizeName = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9\s]/g, " ").split(/\s+/).filter(Boolean);
+
+// Splits one CSV line, honouring double-quoted fields
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map((value) => value.trim());
+}
+
+// Accepts snake_case, camelCase or spaced column names
+const COLUMN_ALIASES: Record<string, keyof LicenseRecord> = {
+  licensenumber: "licenseNumber",
+  license: "licenseNumber",
+  name: "name",
+  facilityname: "name",
+  city: "city",
+  type: "hospitalType",
+  hospitaltype: "hospitalType",
+  status: "status",
+  expiresat: "expiresAt",
+  expiry: "expiresAt",
+};
+
+function toRecord(row: Record<string, unknown>): LicenseRecord | null {
+  const record: Partial<LicenseRecord> = {};
+  for (const [column, value] of Object.entries(row)) {
+    const field = COLUMN_ALIASES[column.toLowerCase().replace(/[^a-z]/g, "")];
+    if (field && value !== undefined && value !== null && String(value).trim()) {
+      record[field] = String(value).trim();
+    }
+  }
+  return record.licenseNumber && record.name ? (record as LicenseRecord) : null;
+}
+
+function parseDataset(raw: string, format: "json" | "csv"): LicenseRecord[] {
+  if (format === "json") {
+    const rows = JSON.parse(raw);
+    if (!Array.isArray(rows)) throw new Error("License dataset must be a JSON array");
+    return rows.map((row) => toRecord(row)).filter((record): record is LicenseRecord => record !== null);
+  }
+
+  const [header, ...lines] = raw.split(/\r?\n/).filter((line) => line.trim());
+  if (!header) return [];
+  const columns = parseCsvLine(header);
+  return lines
+    .map((line) => {
+      const values = parseCsvLine(line);
+      return toRecord(Object.fromEntries(columns.map((column, i) => [column, values[i]])));
+    })
+    .filter((record): record is LicenseRecord => record !== null);
+}
+
+/**
+ * License records keyed by normalized license number; null when no dataset is installed
+ */
+export async function loadLicenseDataset(): Promise<Map<string, LicenseRecord> | null> {
+  try {
+    const stat = await fs.stat(DATASET_PATH);
+    if (cache && cache.mtimeMs === stat.mtimeMs) return cache.records;
+
+    const raw = await fs.readFile(DATASET_PATH, "utf-8");
+    const format = DATASET_PATH.toLowerCase().endsWith(".csv") ? "csv" : "json";
+    const records = new Map<string, LicenseRecord>();
+    for (const record of parseDataset(raw, format)) {
+      records.set(normalizeLicense(record.licenseNumber), record);
+    }
+
+    cache = { mtimeMs: stat.mtimeMs, records };
+    return records;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Error loading facility license dataset:", error);
+    }
+    return null;
+  }
+}
+
+// ============ CHECKING ============
+
+/**
+ * Compare an application with the licensed facility; issues explain every difference
+ */
+export function checkLicense(
+  details: Pick<ApplicationDetails, "licenseNumber" | "name" | "city">,
+  dataset: Map<string, LicenseRecord> | null
+): LicenseCheck {
+  if (!dataset) {
+    return { status: "unavailable", issues: ["No facility license dataset is loaded"] };
+  }
+
+  const record = dataset.get(normalizeLicense(details.licenseNumber));
+  if (!record) {
+    return { status: "not_found", issues: [`License ${details.licenseNumber} is not in the dataset`] };
+  }
+
+  const issues: string[] = [];
+
+  const applied = normalizeName(details.name);
+  const licensed = new Set(normalizeName(record.name));
+  const shared = applied.filter((word) => licensed.has(word)).length;
+  if (shared / Math.max(applied.length, licensed.size, 1) < NAME_MATCH_THRESHOLD) {
+    issues.push(`Licensed to "${record.name}"`);
+  }
+
+  if (record.city && normalizeName(record.city).join(" ") !== normalizeName(details.city).join(" ")) {
+    issues.push(`Licensed in ${record.city}, applied from ${details.city}`);
+  }
+
+  if (record.status && !ACTIVE_STATUSES.has(record.status.toLowerCase())) {
+    issues.push(`License status is "${record.status}"`);
+  }
+
+  if (record.expiresAt) {
+    const expiresAt = Date.parse(record.expiresAt);
+    if (!Number.isNaN(expiresAt) && expiresAt < Date.now()) {
+      issues.push(`License expired on ${record.expiresAt}`);
+    }
+  }
+
+  return { status: issues.length === 0 ? "match" : "partial", record, issues };
+}
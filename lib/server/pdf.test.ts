@@ -0,0 +1,53 @@
+import { PDFDocument } from "pdf-lib";
+import { describe, expect, it } from "vitest";
+import { countPdfPages, splitPdfPages } from "@/lib/server/pdf";
+
+// Pages get distinct sizes so a split page can be matched to its source page
+const createPdf = async (pageCount: number, useObjectStreams: boolean) => {
+  const pdf = await PDFDocument.create();
+  for (let index = 0; index < pageCount; index++) {
+    pdf.addPage([200 + index, 300]);
+  }
+  return Buffer.from(await pdf.save({ useObjectStreams }));
+};
+
+describe("countPdfPages", () => {
+  it("reads the page tree of a classic PDF", async () => {
+    expect(countPdfPages(await createPdf(3, false))).toBe(3);
+  });
+
+  it("reads page tree nodes inside compressed object streams", async () => {
+    const bytes = await createPdf(4, true);
+    expect(bytes.toString("latin1")).not.toMatch(/\/Type\s*\/Pages\b/);
+    expect(countPdfPages(bytes)).toBe(4);
+  });
+
+  it("counts /Page objects when no /Pages node has a count", () => {
+    const bytes = Buffer.from("%PDF-1.4\n1 0 obj\n<< /Type /Page >>\nendobj\n2 0 obj\n<< /Type /Page >>\nendobj\n", "latin1");
+    expect(countPdfPages(bytes)).toBe(2);
+  });
+
+  it("gives up on files without a page tree", () => {
+    expect(countPdfPages(Buffer.from("%PDF-1.4\n%%EOF\n", "latin1"))).toBeNull();
+  });
+});
+
+describe("splitPdfPages", () => {
+  it("splits a PDF into one-page PDFs in page order", async () => {
+    const { pageCount, pages } = await splitPdfPages(await createPdf(3, true), 10);
+
+    expect(pageCount).toBe(3);
+    expect(pages).toHaveLength(3);
+    for (const [index, page] of pages.entries()) {
+      const single = await PDFDocument.load(page);
+      expect(single.getPageCount()).toBe(1);
+      expect(single.getPage(0).getWidth()).toBe(200 + index);
+    }
+  });
+
+  it("stops at the page limit but reports the full count", async () => {
+    const { pageCount, pages } = await splitPdfPages(await createPdf(5, false), 2);
+    expect(pageCount).toBe(5);
+    expect(pages).toHaveLength(2);
+  });
+});
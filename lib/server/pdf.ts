@@ -0,0 +1,89 @@
+/**
+ * PDF Page Counting and Splitting
+ * Reads a PDF's page count from its page tree without rendering it, so uploads can be
+ * checked against page limits before they are sent anywhere. Page tree nodes of PDF 1.5+
+ * files often sit in compressed object streams, which are inflated and searched as well.
+ * Counted files are then split into single-page PDFs for OCR. Only import from API routes.
+ */
+
+import { PDFDocument } from "pdf-lib";
+import { constants, inflateSync } from "zlib";
+
+// Object streams larger than this once inflated are skipped (a zip bomb can't stall the route)
+const MAX_INFLATED_STREAM_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Decompressed contents of the file's object streams
+ */
+function inflateObjectStreams(text: string, bytes: Buffer): string[] {
+  const streams: string[] = [];
+  const streamStart = /\bstream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamStart.exec(text))) {
+    // The stream's dictionary sits between its "obj" header and the stream keyword
+    const header = text.slice(text.lastIndexOf(" obj", match.index), match.index);
+    const start = match.index + match[0].length;
+    const end = text.indexOf("endstream", start);
+    if (end === -1) break;
+    streamStart.lastIndex = end;
+
+    if (!/\/Type\s*\/ObjStm\b/.test(header) || !/\/FlateDecode\b/.test(header)) continue;
+    try {
+      const inflated = inflateSync(bytes.subarray(start, end), {
+        finishFlush: constants.Z_SYNC_FLUSH,
+        maxOutputLength: MAX_INFLATED_STREAM_SIZE,
+      });
+      streams.push(inflated.toString("latin1"));
+    } catch {
+      // An unreadable stream only means fewer places to look
+    }
+  }
+
+  return streams;
+}
+
+/**
+ * Number of pages in a PDF, or null when no page tree can be found.
+ * Uses the largest /Count of a /Pages node (the root's), falling back to counting /Page
+ * objects for files without one.
+ */
+export function countPdfPages(bytes: Buffer): number | null {
+  const text = bytes.toString("latin1");
+  const sources = [text, ...inflateObjectStreams(text, bytes)];
+
+  let rootCount = 0;
+  let leafCount = 0;
+  for (const source of sources) {
+    for (const node of source.match(/<<[^<>]*\/Type\s*\/Pages\b[^<>]*>>/g) ?? []) {
+      const count = Number(node.match(/\/Count\s+(\d+)/)?.[1] ?? 0);
+      rootCount = Math.max(rootCount, count);
+    }
+    leafCount += source.match(/\/Type\s*\/Page(?![A-Za-z])/g)?.length ?? 0;
+  }
+
+  if (rootCount > 0) return rootCount;
+  return leafCount > 0 ? leafCount : null;
+}
+
+/**
+ * Split a PDF into single-page PDFs, in page order. Only the first `maxPages` pages are
+ * copied; `pageCount` is the file's full page count.
+ */
+export async function splitPdfPages(
+  bytes: Uint8Array,
+  maxPages: number
+): Promise<{ pageCount: number; pages: Uint8Array[] }> {
+  const source = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  const pageCount = source.getPageCount();
+  const pages: Uint8Array[] = [];
+
+  for (let index = 0; index < Math.min(pageCount, maxPages); index++) {
+    const single = await PDFDocument.create();
+    const [page] = await single.copyPages(source, [index]);
+    single.addPage(page);
+    pages.push(await single.save());
+  }
+
+  return { pageCount, pages };
+}
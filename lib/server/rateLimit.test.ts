@@ -0,0 +1,86 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+// Role lookups read the chain; nobody is an admin here
+vi.mock("@/lib/server/auth", () => ({ isAdmin: vi.fn(async () => false) }));
+
+const dataDir = mkdtempSync(path.join(tmpdir(), "medichain-rate-limit-"));
+
+// The proxy hop count and data directory are read when the module loads
+const loadRateLimit = async (trustedProxyHops = "") => {
+  vi.resetModules();
+  vi.stubEnv("MEDICHAIN_DATA_DIR", dataDir);
+  vi.stubEnv("TRUSTED_PROXY_HOPS", trustedProxyHops);
+  return import("@/lib/server/rateLimit");
+};
+
+const request = (headers: Record<string, string>) => new NextRequest("http://localhost/api/ocr", { headers });
+
+describe("getClientIp", () => {
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("ignores X-Forwarded-For unless proxies are trusted", async () => {
+    const { getClientIp } = await loadRateLimit();
+    expect(getClientIp(request({ "x-forwarded-for": "1.1.1.1", "x-real-ip": "2.2.2.2" }))).toBe("2.2.2.2");
+    expect(getClientIp(request({ "x-forwarded-for": "1.1.1.1" }))).toBe("unknown");
+  });
+
+  it("reads the entry added by the outermost trusted proxy", async () => {
+    const { getClientIp } = await loadRateLimit("2");
+    const forwarded = { "x-forwarded-for": "6.6.6.6, 3.3.3.3, 10.0.0.1" };
+    expect(getClientIp(request(forwarded))).toBe("3.3.3.3");
+    expect(getClientIp(request({ "x-forwarded-for": "3.3.3.3", "x-real-ip": "2.2.2.2" }))).toBe("2.2.2.2");
+  });
+
+  it("treats a negative or malformed hop count as none", async () => {
+    for (const hops of ["-1", "abc"]) {
+      const { getClientIp } = await loadRateLimit(hops);
+      expect(getClientIp(request({ "x-forwarded-for": "1.1.1.1", "x-real-ip": "2.2.2.2" }))).toBe("2.2.2.2");
+    }
+  });
+});
+
+describe("checkRateLimit", () => {
+  let rateLimit: Awaited<ReturnType<typeof loadRateLimit>>;
+
+  beforeAll(async () => {
+    rateLimit = await loadRateLimit();
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("limits each wallet per window", async () => {
+    const { checkRateLimit, RATE_LIMITS } = rateLimit;
+    const caller = { address: "0x1111111111111111111111111111111111111111", role: "hospital" as const };
+    const ocr = request({ "x-real-ip": "4.4.4.4" });
+
+    for (let i = 0; i < RATE_LIMITS.ocr.perWallet; i++) {
+      expect(await checkRateLimit(ocr, "ocr", caller)).toBeNull();
+    }
+    const exceeded = await checkRateLimit(ocr, "ocr", caller);
+    expect(exceeded?.error).toMatch(/^Too many OCR requests, try again in /);
+    expect(exceeded?.retryAfter).toBeLessThanOrEqual(RATE_LIMITS.ocr.windowSeconds);
+
+    // Another wallet on the same network is still under the per-IP limit
+    expect(await checkRateLimit(ocr, "ocr", { ...caller, address: "0x2222222222222222222222222222222222222222" })).toBeNull();
+  });
+
+  it("limits callers without a session by IP", async () => {
+    const { checkRateLimit, RATE_LIMITS } = rateLimit;
+    const login = request({ "x-real-ip": "5.5.5.5" });
+
+    for (let i = 0; i < RATE_LIMITS["auth-login"].perIp; i++) {
+      expect(await checkRateLimit(login, "auth-login")).toBeNull();
+    }
+    expect((await checkRateLimit(login, "auth-login"))?.error).toMatch(/^Too many Sign-in requests from this network/);
+    expect(await checkRateLimit(request({ "x-real-ip": "5.5.5.6" }), "auth-login")).toBeNull();
+  });
+});
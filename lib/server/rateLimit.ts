@@ -0,0 +1,288 @@
+/**
+ * Rate Limits and Quotas for Paid API Routes
+ * OCR (Gemini), storage pinning and the gasless relay cost us money per call, so each is
+ * limited per wallet and per IP over a sliding window, capped per role per UTC day, and
+ * refuses oversized bodies before parsing them. Counters live in the JSON store, whose
+ * updates are only serialized within one server process: run a single instance, or move
+ * the counters to a store with atomic increments before scaling out. Only import from
+ * API routes.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAdmin } from "@/lib/server/auth";
+import { updateCollection, listItems } from "@/lib/server/jsonStore";
+import { MAX_ENCRYPTED_CHUNK_SIZE } from "@/lib/services/attachments";
+import { MAX_OCR_TOTAL_SIZE } from "@/lib/services/ocr";
+import { MAX_LICENSE_DOCUMENTS, MAX_LICENSE_DOCUMENT_SIZE } from "@/lib/services/registration";
+import {
+  type LimitedRoute,
+  type RouteLimit,
+  type UsageEntry,
+  type UsageReport,
+  type UsageRole,
+} from "@/lib/services/usage";
+
+const USAGE_COLLECTION = "api-usage";
+
+// Counters idle for longer than this are dropped
+const USAGE_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+// Admin status is re-read from the chain at most this often per wallet
+const ROLE_CACHE_MS = 5 * 60 * 1000;
+
+// Reverse proxies in front of the app that append to X-Forwarded-For. Entries left of the
+// ones they added come from the client and can't be trusted; with none (the default) the
+// header is ignored altogether.
+const TRUSTED_PROXY_HOPS = Math.max(0, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS)) || 0);
+
+export const RATE_LIMITS: Record<LimitedRoute, RouteLimit> = {
+  ocr: {
+    label: "OCR",
+    windowSeconds: 60,
+    perWallet: 6,
+    perIp: 12,
+    // Base64 data URLs of every page plus the JSON around them
+    maxBodyBytes: Math.ceil((MAX_OCR_TOTAL_SIZE * 4) / 3) + 64 * 1024,
+    dailyQuota: { hospital: 200, admin: 500 },
+  },
+  "ipfs-upload": {
+    label: "Record upload",
+    windowSeconds: 60,
+    perWallet: 20,
+    perIp: 40,
+    maxBodyBytes: 2 * 1024 * 1024,
+    dailyQuota: { hospital: 1000, admin: 2000 },
+  },
+  "ipfs-attachments": {
+    label: "Attachment chunks",
+    windowSeconds: 60,
+    perWallet: 100,
+    perIp: 200,
+    // Encrypted chunk plus the form fields around it
+    maxBodyBytes: MAX_ENCRYPTED_CHUNK_SIZE + 64 * 1024,
+    dailyQuota: { hospital: 5000, admin: 10000 },
+  },
+  relay: {
+    label: "Gasless relay",
+    windowSeconds: 60,
+    perWallet: 5,
+    perIp: 20,
+    maxBodyBytes: 16 * 1024,
+    dailyQuota: { patient: 30, hospital: 30, admin: 100 },
+  },
+  // Issuing a login payload writes a nonce. There is no session yet, so only the IP is
+  // limited (keying on the claimed address would let anyone lock a wallet out)
+  "auth-login": {
+    label: "Sign-in",
+    windowSeconds: 60,
+    perWallet: 30,
+    perIp: 30,
+    maxBodyBytes: 16 * 1024,
+    dailyQuota: {},
+  },
+  // Applying wallets aren't hospitals yet, so there is no daily quota, only the windows
+  "hospital-register": {
+    label: "Hospital application",
+    windowSeconds: 60,
+    perWallet: 5,
+    perIp: 10,
+    // License documents plus the form fields around them
+    maxBodyBytes: MAX_LICENSE_DOCUMENTS * MAX_LICENSE_DOCUMENT_SIZE + 64 * 1024,
+    dailyQuota: {},
+  },
+};
+
+export interface RateLimitExceeded {
+  error: string;
+  retryAfter: number;
+}
+
+const adminCache = new Map<string, { isAdmin: boolean; checkedAt: number }>();
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const secondsUntilNextUtcDay = () => {
+  const now = new Date();
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((next - now.getTime()) / 1000);
+};
+
+const formatWait = (seconds: number) =>
+  seconds < 60
+    ? `${seconds}s`
+    : seconds < 3600
+      ? `${Math.ceil(seconds / 60)}m`
+      : `${Math.floor(seconds / 3600)}h ${Math.ceil((seconds % 3600) / 60)}m`;
+
+/**
+ * Client IP as seen by the outermost trusted proxy: the TRUSTED_PROXY_HOPS-th
+ * X-Forwarded-For entry from the right, falling back to X-Real-IP. With no trusted
+ * proxies only X-Real-IP is read.
+ */
+export function getClientIp(request: NextRequest): string {
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  if (TRUSTED_PROXY_HOPS > 0 && hops.length >= TRUSTED_PROXY_HOPS) return hops[hops.length - TRUSTED_PROXY_HOPS];
+  return request.headers.get("x-real-ip") || "unknown";
+}
+
+/**
+ * The caller's quota role: admins get their own quota on every route
+ */
+async function resolveRole(address: string, role: UsageRole): Promise<UsageRole> {
+  const cached = adminCache.get(address);
+  if (cached && Date.now() - cached.checkedAt < ROLE_CACHE_MS) {
+    return cached.isAdmin ? "admin" : role;
+  }
+
+  const admin = await isAdmin(address).catch(() => false);
+  adminCache.set(address, { isAdmin: admin, checkedAt: Date.now() });
+  return admin ? "admin" : role;
+}
+
+// ============ LIMITS ============
+
+/**
+ * Count a request against the route's wallet and IP windows and the wallet's daily quota.
+ * The request is only recorded when every limit passes. Resolves to null when allowed.
+ */
+export async function checkRateLimit(
+  request: NextRequest,
+  route: LimitedRoute,
+  caller?: { address: string; role: UsageRole }
+): Promise<RateLimitExceeded | null> {
+  const limit = RATE_LIMITS[route];
+  const ip = getClientIp(request);
+  const wallet = caller?.address.toLowerCase();
+  const role = wallet && caller ? await resolveRole(wallet, caller.role) : undefined;
+  const quota = role ? limit.dailyQuota[role] : undefined;
+
+  return updateCollection<UsageEntry, RateLimitExceeded | null>(USAGE_COLLECTION, (data) => {
+    const now = Date.now();
+    const day = today();
+    const windowStart = now - limit.windowSeconds * 1000;
+
+    for (const [key, entry] of Object.entries(data)) {
+      if (now - entry.lastSeen > USAGE_RETENTION_MS) delete data[key];
+    }
+
+    const load = (kind: UsageEntry["kind"], subject: string): UsageEntry => {
+      const key = `${route}:${kind}:${subject}`;
+      const entry = data[key] ?? { route, subject, kind, hits: [], day, dayCount: 0, rejectedToday: 0, lastSeen: now };
+      entry.hits = entry.hits.filter((hit) => hit > windowStart);
+      if (entry.day !== day) {
+        entry.day = day;
+        entry.dayCount = 0;
+        entry.rejectedToday = 0;
+      }
+      entry.lastSeen = now;
+      data[key] = entry;
+      return entry;
+    };
+
+    const ipEntry = load("ip", ip);
+    const walletEntry = wallet ? load("wallet", wallet) : null;
+    if (walletEntry && role) walletEntry.role = role;
+
+    // Wait until the oldest hit leaves the window
+    const windowRetry = (entry: UsageEntry) =>
+      Math.max(1, Math.ceil((entry.hits[0] + limit.windowSeconds * 1000 - now) / 1000));
+
+    let exceeded: RateLimitExceeded | null = null;
+    if (walletEntry && walletEntry.hits.length >= limit.perWallet) {
+      const retryAfter = windowRetry(walletEntry);
+      exceeded = { error: `Too many ${limit.label} requests, try again in ${formatWait(retryAfter)}`, retryAfter };
+    } else if (ipEntry.hits.length >= limit.perIp) {
+      const retryAfter = windowRetry(ipEntry);
+      exceeded = { error: `Too many ${limit.label} requests from this network, try again in ${formatWait(retryAfter)}`, retryAfter };
+    } else if (walletEntry && quota !== undefined && walletEntry.dayCount >= quota) {
+      const retryAfter = secondsUntilNextUtcDay();
+      exceeded = { error: `Daily ${limit.label} quota of ${quota} reached, resets in ${formatWait(retryAfter)}`, retryAfter };
+    }
+
+    if (exceeded) {
+      ipEntry.rejectedToday++;
+      if (walletEntry) walletEntry.rejectedToday++;
+      return exceeded;
+    }
+
+    for (const entry of walletEntry ? [ipEntry, walletEntry] : [ipEntry]) {
+      entry.hits.push(now);
+      entry.dayCount++;
+    }
+    return null;
+  });
+}
+
+/**
+ * 429 response carrying the retry hint in the body and the Retry-After header
+ */
+export function rateLimitResponse(exceeded: RateLimitExceeded): NextResponse {
+  return NextResponse.json(
+    { success: false, error: exceeded.error, retryAfter: exceeded.retryAfter },
+    { status: 429, headers: { "Retry-After": String(exceeded.retryAfter) } }
+  );
+}
+
+/**
+ * Read the request body, giving up as soon as it exceeds the route's cap.
+ * Resolves to null when the body is too large.
+ */
+export async function readCappedBody(request: NextRequest, route: LimitedRoute): Promise<Uint8Array<ArrayBuffer> | null> {
+  const maxBytes = RATE_LIMITS[route].maxBodyBytes;
+  if (Number(request.headers.get("content-length")) > maxBytes) return null;
+  if (!request.body) return new Uint8Array(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+/**
+ * 413 response naming the route's body cap
+ */
+export function payloadTooLargeResponse(route: LimitedRoute): NextResponse {
+  const maxBytes = RATE_LIMITS[route].maxBodyBytes;
+  return NextResponse.json(
+    { success: false, error: `Request body is larger than ${Math.floor(maxBytes / 1024)} KB` },
+    { status: 413 }
+  );
+}
+
+// ============ REPORTING ============
+
+/**
+ * Today's counters for every wallet and IP, busiest first, with the configured limits
+ */
+export async function getUsageReport(): Promise<UsageReport> {
+  const day = today();
+  const windowStart = (route: LimitedRoute) => Date.now() - RATE_LIMITS[route].windowSeconds * 1000;
+
+  const entries = (await listItems<UsageEntry>(USAGE_COLLECTION))
+    .filter((entry) => entry.day === day)
+    .map((entry) => ({ ...entry, hits: entry.hits.filter((hit) => hit > windowStart(entry.route)) }))
+    .sort((a, b) => b.dayCount - a.dayCount);
+
+  return { limits: RATE_LIMITS, entries, day };
+}
@@ -0,0 +1,172 @@
+/**
+ * Server-side Storage Providers for Medichain
+ * Where encrypted record payloads and attachment chunks are pinned. STORAGE_PROVIDER selects
+ * the backend: "pinata" (default), "kubo" (an IPFS node's HTTP API) or "local" (a
+ * content-addressed directory for development, air-gapped deployments and tests).
+ * Every backend returns CIDv1 identifiers, so records stay valid when moved between them.
+ * Only import from API routes.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { computeCid, isCid } from "@/lib/services/cid";
+
+// ============ TYPES ============
+
+export type StorageProviderName = "pinata" | "kubo" | "local";
+
+export interface PinMetadata {
+  name: string;
+  keyvalues?: Record<string, string>;
+}
+
+export interface StorageProvider {
+  name: StorageProviderName;
+  /** Store content and return its CID */
+  add(content: Uint8Array<ArrayBuffer>, metadata: PinMetadata): Promise<string>;
+  /** Content of a CID, or null if the backend doesn't have it */
+  cat(cid: string): Promise<Uint8Array<ArrayBuffer> | null>;
+}
+
+// ============ PINATA ============
+
+function createPinataProvider(): StorageProvider {
+  const jwt = process.env.PINATA_JWT;
+  const gateway = process.env.PINATA_GATEWAY || process.env.NEXT_PUBLIC_PINATA_GATEWAY || "https://gateway.pinata.cloud/ipfs/";
+
+  return {
+    name: "pinata",
+    async add(content, metadata) {
+      if (!jwt) throw new Error("Pinata JWT not configured");
+
+      const form = new FormData();
+      form.append("file", new Blob([content]), metadata.name);
+      form.append("pinataMetadata", JSON.stringify({ name: metadata.name, keyvalues: metadata.keyvalues ?? {} }));
+      form.append("pinataOptions", JSON.stringify({ cidVersion: 1 }));
+
+      const response = await fetch("https://api.pinata.cloud/pinning/pinFileToIPFS", {
+        method: "POST",
+        headers: { "Authorization": `Bearer ${jwt}` },
+        body: form,
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.error("Pinata upload error:", errorData);
+        throw new Error(`Pinata upload failed: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.IpfsHash as string;
+    },
+    async cat(cid) {
+      const response = await fetch(`${gateway}${cid}`);
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`Pinata gateway returned ${response.status}`);
+      return new Uint8Array(await response.arrayBuffer());
+    },
+  };
+}
+
+// ============ KUBO ============
+
+function createKuboProvider(): StorageProvider {
+  const apiUrl = (process.env.KUBO_API_URL || "http://127.0.0.1:5001").replace(/\/$/, "");
+  const headers: Record<string, string> = process.env.KUBO_API_AUTH ? { "Authorization": process.env.KUBO_API_AUTH } : {};
+
+  return {
+    name: "kubo",
+    async add(content, metadata) {
+      const form = new FormData();
+      form.append("file", new Blob([content]), metadata.name);
+
+      // Kubo has no pin metadata; the name only labels the upload
+      const response = await fetch(`${apiUrl}/api/v0/add?cid-version=1&pin=true`, {
+        method: "POST",
+        headers,
+        body: form,
+      });
+      if (!response.ok) {
+        console.error("Kubo add error:", await response.text().catch(() => ""));
+        throw new Error(`Kubo add failed: ${response.status}`);
+      }
+
+      const result = await response.json();
+      return result.Hash as string;
+    },
+    async cat(cid) {
+      const response = await fetch(`${apiUrl}/api/v0/cat?arg=${encodeURIComponent(cid)}`, { method: "POST", headers });
+      if (!response.ok) {
+        // Kubo reports unknown or unreachable blocks as 500 with a message
+        console.error("Kubo cat error:", await response.text().catch(() => ""));
+        return null;
+      }
+      return new Uint8Array(await response.arrayBuffer());
+    },
+  };
+}
+
+// ============ LOCAL ============
+
+function createLocalProvider(): StorageProvider {
+  const dataDir = process.env.MEDICHAIN_DATA_DIR || path.join(process.cwd(), ".data");
+  const root = process.env.LOCAL_STORAGE_DIR || path.join(dataDir, "ipfs");
+
+  return {
+    name: "local",
+    async add(content, metadata) {
+      const cid = await computeCid(content);
+      const target = path.join(root, cid);
+
+      // Content-addressed, so an existing file already holds these bytes
+      try {
+        await fs.access(target);
+        return cid;
+      } catch {
+        // Not stored yet
+      }
+
+      await fs.mkdir(root, { recursive: true });
+      const tmp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, content);
+      await fs.rename(tmp, target);
+      await fs.writeFile(`${target}.meta.json`, JSON.stringify({ ...metadata, size: content.length, addedAt: Date.now() }, null, 2));
+      return cid;
+    },
+    async cat(cid) {
+      if (!isCid(cid)) return null;
+      try {
+        return new Uint8Array(await fs.readFile(path.join(root, cid)));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+  };
+}
+
+// ============ SELECTION ============
+
+let provider: StorageProvider | null = null;
+
+/**
+ * Storage backend selected by STORAGE_PROVIDER (created once per server process)
+ */
+export function getStorageProvider(): StorageProvider {
+  if (provider) return provider;
+
+  const name = (process.env.STORAGE_PROVIDER || "pinata").toLowerCase();
+  switch (name) {
+    case "pinata":
+      provider = createPinataProvider();
+      break;
+    case "kubo":
+      provider = createKuboProvider();
+      break;
+    case "local":
+      provider = createLocalProvider();
+      break;
+    default:
+      throw new Error(`Unknown STORAGE_PROVIDER "${name}" (expected pinata, kubo or local)`);
+  }
+  return provider;
+}
@@ -0,0 +1,126 @@
+/**
+ * Record Amendment Service
+ * On-chain record references are append-only, so a correction is a new record whose encrypted
+ * payload names the CID and dataHash of the record it supersedes. This module folds those links
+ * into version chains and diffs consecutive versions field by field.
+ */
+
+import { type MedicalRecordData, type RecordAmendment } from "@/lib/services/ipfs";
+import { RECORD_KINDS, normalizeRecordKind } from "@/lib/services/records";
+
+// ============ TYPES ============
+
+export const AMENDABLE_FIELDS = [
+  { key: "noRekamMedik", label: "Medical Record No." },
+  { key: "tanggalMasuk", label: "Admission Date" },
+  { key: "tanggalKeluar", label: "Discharge Date" },
+  { key: "diagnosisUtama", label: "Primary Diagnosis" },
+  { key: "icdCode", label: "ICD-10 Code" },
+  { key: "diagnosisSekunder", label: "Secondary Diagnosis" },
+  { key: "keluhan", label: "Symptoms / Complaints" },
+  { key: "riwayatAlergi", label: "Allergy History" },
+  { key: "tindakan", label: "Procedure" },
+  { key: "resepObat", label: "Prescription / Therapy" },
+  { key: "keadaanKeluar", label: "Discharge Status" },
+  { key: "dokterPenanggungJawab", label: "Attending Physician" },
+] as const;
+
+export type AmendableField = (typeof AMENDABLE_FIELDS)[number]["key"];
+export type AmendableRecord = Pick<MedicalRecordData, AmendableField | "fields"> & {
+  recordType?: string;
+};
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Minimum a record needs to take part in a version chain
+ */
+export interface VersionedRecord {
+  ipfsCid: string;
+  dataHash: string;
+  hospitalAddress: string; // From the on-chain reference (the submitting hospital)
+  timestamp: number;
+  amends?: RecordAmendment;
+}
+
+export interface RecordChain<T> {
+  latest: T;
+  previous: T[]; // Superseded versions, oldest first
+}
+
+// ============ CHAINS ============
+
+/**
+ * Whether `amendment` may supersede `target`. Only the issuing hospital can amend its own
+ * record, and the link must name the exact on-chain dataHash of the superseded version.
+ */
+export function isValidAmendment(amendment: VersionedRecord, target: VersionedRecord): boolean {
+  return (
+    !!amendment.amends &&
+    amendment.amends.ipfsCid === target.ipfsCid &&
+    amendment.amends.dataHash.toLowerCase() === target.dataHash.toLowerCase() &&
+    amendment.hospitalAddress.toLowerCase() === target.hospitalAddress.toLowerCase() &&
+    amendment.timestamp >= target.timestamp
+  );
+}
+
+/**
+ * Collapse records into version chains. Records linked by valid amendments (including
+ * competing amendments of the same record) share a chain; the newest one is the latest version.
+ */
+export function collapseRecordChains<T extends VersionedRecord>(records: T[]): RecordChain<T>[] {
+  const parent = records.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const byCid = new Map(records.map((record, index) => [record.ipfsCid, index]));
+  records.forEach((record, index) => {
+    if (!record.amends) return;
+    const targetIndex = byCid.get(record.amends.ipfsCid);
+    if (targetIndex === undefined || !isValidAmendment(record, records[targetIndex])) return;
+    parent[find(index)] = find(targetIndex);
+  });
+
+  const groups = new Map<number, T[]>();
+  records.forEach((record, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), record]);
+  });
+
+  return [...groups.values()].map((versions) => {
+    const ordered = [...versions].sort((a, b) => a.timestamp - b.timestamp);
+    return { latest: ordered[ordered.length - 1], previous: ordered.slice(0, -1) };
+  });
+}
+
+// ============ DIFF ============
+
+/**
+ * Field-level changes between two versions of a record (schema fields for typed records)
+ */
+export function diffRecords(before: AmendableRecord, after: AmendableRecord): FieldChange[] {
+  if (before.fields && after.fields) {
+    const { fields: specs } = RECORD_KINDS[normalizeRecordKind(after.recordType ?? "")];
+    return specs.flatMap(({ key, label }) => {
+      const previous = (before.fields?.[key] ?? "").trim();
+      const next = (after.fields?.[key] ?? "").trim();
+      return previous === next ? [] : [{ field: key, label, before: previous, after: next }];
+    });
+  }
+
+  return AMENDABLE_FIELDS.flatMap(({ key, label }) => {
+    const previous = (before[key] ?? "").trim();
+    const next = (after[key] ?? "").trim();
+    return previous === next ? [] : [{ field: key, label, before: previous, after: next }];
+  });
+}
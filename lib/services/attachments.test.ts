@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_RECORD,
+  selectAttachmentFiles,
+  sniffMimeType,
+} from "@/lib/services/attachments";
+
+const PDF = [0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x37];
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JPEG = [0xff, 0xd8, 0xff, 0xe0];
+const WEBP = [0x52, 0x49, 0x46, 0x46, 0x24, 0x00, 0x00, 0x00, 0x57, 0x45, 0x42, 0x50];
+
+const file = (name: string, header: number[], type = "", size = header.length) => {
+  const bytes = new Uint8Array(size);
+  bytes.set(header);
+  return new File([bytes], name, { type });
+};
+
+describe("sniffMimeType", () => {
+  it("recognises the allowed types from their magic bytes", () => {
+    expect(sniffMimeType(Uint8Array.from(PDF))).toBe("application/pdf");
+    expect(sniffMimeType(Uint8Array.from(PNG))).toBe("image/png");
+    expect(sniffMimeType(Uint8Array.from(JPEG))).toBe("image/jpeg");
+    expect(sniffMimeType(Uint8Array.from(WEBP))).toBe("image/webp");
+  });
+
+  it("rejects other content", () => {
+    expect(sniffMimeType(new TextEncoder().encode("<html>"))).toBeNull();
+    expect(sniffMimeType(Uint8Array.from([0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x41, 0x56, 0x45]))).toBeNull(); // RIFF....WAVE
+    expect(sniffMimeType(new Uint8Array(0))).toBeNull();
+  });
+});
+
+describe("selectAttachmentFiles", () => {
+  it("accepts valid files and reports each rejected one", async () => {
+    const { accepted, errors } = await selectAttachmentFiles(
+      [],
+      [
+        file("lab.pdf", PDF, "application/pdf"),
+        file("scan.jpg", JPEG),
+        file("empty.pdf", [], "application/pdf"),
+        file("page.html", [0x3c, 0x68]),
+        file("photo.png", JPEG, "image/png"),
+        file("huge.pdf", PDF, "application/pdf", MAX_ATTACHMENT_SIZE + 1),
+      ]
+    );
+
+    expect(accepted.map((selected) => selected.name)).toEqual(["lab.pdf", "scan.jpg"]);
+    expect(errors).toEqual([
+      "empty.pdf is empty",
+      "page.html is not a PDF, PNG, JPEG or WebP file",
+      "photo.png claims to be image/png but its content is image/jpeg",
+      "huge.pdf is larger than 10.0 MB",
+    ]);
+  });
+
+  it("stops at the per-record limit, counting files already attached", async () => {
+    const existing = Array.from({ length: MAX_ATTACHMENTS_PER_RECORD - 1 }, (_, i) => file(`old-${i}.pdf`, PDF));
+    const { accepted, errors } = await selectAttachmentFiles(existing, [file("a.pdf", PDF), file("b.pdf", PDF)]);
+
+    expect(accepted.map((selected) => selected.name)).toEqual(["a.pdf"]);
+    expect(errors).toEqual([`b.pdf skipped: a record can have at most ${MAX_ATTACHMENTS_PER_RECORD} attachments`]);
+  });
+});
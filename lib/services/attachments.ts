@@ -0,0 +1,204 @@
+/**
+ * Record Attachments
+ * Scanned letters, lab PDFs and images stored alongside a record. Files are split into chunks,
+ * each chunk is encrypted with the record's data key (AES-GCM, fresh IV) and pinned on its own.
+ * The record payload lists the chunk CIDs and the file's SHA-256, so whoever can read the record
+ * can read its attachments, and the on-chain dataHash covers the attachment list.
+ */
+
+import { arrayBufferToBase64, base64ToArrayBuffer } from "@/lib/services/encryption";
+
+// ============ LIMITS ============
+
+export const ATTACHMENT_CHUNK_SIZE = 1024 * 1024; // 1 MB of plaintext per chunk
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENT_CHUNKS = Math.ceil(MAX_ATTACHMENT_SIZE / ATTACHMENT_CHUNK_SIZE);
+export const MAX_ENCRYPTED_CHUNK_SIZE = ATTACHMENT_CHUNK_SIZE + 16; // AES-GCM tag
+export const MAX_ATTACHMENTS_PER_RECORD = 5;
+
+export const ATTACHMENT_MIME_TYPES = ["application/pdf", "image/png", "image/jpeg", "image/webp"] as const;
+
+// ============ TYPES ============
+
+export type AttachmentMimeType = (typeof ATTACHMENT_MIME_TYPES)[number];
+
+export interface AttachmentChunk {
+  cid: string;
+  iv: string;
+}
+
+/**
+ * Attachment reference stored inside the encrypted record payload
+ */
+export interface AttachmentRef {
+  name: string;
+  mimeType: AttachmentMimeType;
+  size: number;
+  sha256: `0x${string}`; // Of the plaintext file
+  chunks: AttachmentChunk[];
+}
+
+// ============ VALIDATION ============
+
+export function isAttachmentMimeType(value: string): value is AttachmentMimeType {
+  return (ATTACHMENT_MIME_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Detect the file type from its magic bytes (the browser's File.type comes from the extension)
+ */
+export function sniffMimeType(bytes: Uint8Array): AttachmentMimeType | null {
+  const startsWith = (signature: number[], offset = 0) =>
+    signature.every((byte, index) => bytes[offset + index] === byte);
+
+  if (startsWith([0x25, 0x50, 0x44, 0x46])) return "application/pdf"; // %PDF
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return "image/webp"; // RIFF....WEBP
+  return null;
+}
+
+/**
+ * Check a file against the size limit and allowed types; resolves to its verified MIME type
+ */
+export async function validateAttachmentFile(
+  file: File
+): Promise<{ mimeType?: AttachmentMimeType; error?: string }> {
+  if (file.size === 0) {
+    return { error: `${file.name} is empty` };
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return { error: `${file.name} is larger than ${formatAttachmentSize(MAX_ATTACHMENT_SIZE)}` };
+  }
+
+  const mimeType = sniffMimeType(new Uint8Array(await file.slice(0, 12).arrayBuffer()));
+  if (!mimeType) {
+    return { error: `${file.name} is not a PDF, PNG, JPEG or WebP file` };
+  }
+  if (file.type && file.type !== mimeType) {
+    return { error: `${file.name} claims to be ${file.type} but its content is ${mimeType}` };
+  }
+
+  return { mimeType };
+}
+
+/**
+ * Files from a picker that can be added to a record alongside `existing` (one error per rejected file)
+ */
+export async function selectAttachmentFiles(
+  existing: File[],
+  selected: File[]
+): Promise<{ accepted: File[]; errors: string[] }> {
+  const accepted: File[] = [];
+  const errors: string[] = [];
+
+  for (const file of selected) {
+    if (existing.length + accepted.length >= MAX_ATTACHMENTS_PER_RECORD) {
+      errors.push(`${file.name} skipped: a record can have at most ${MAX_ATTACHMENTS_PER_RECORD} attachments`);
+      continue;
+    }
+    const { error } = await validateAttachmentFile(file);
+    if (error) {
+      errors.push(error);
+    } else {
+      accepted.push(file);
+    }
+  }
+
+  return { accepted, errors };
+}
+
+// ============ ENCRYPTION ============
+
+async function sha256Hex(data: ArrayBuffer): Promise<`0x${string}`> {
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return `0x${Array.from(hash).map((b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Encrypt a file chunk by chunk and pin every chunk through /api/ipfs/attachments
+ */
+export async function uploadAttachment(
+  file: File,
+  key: CryptoKey,
+  owner: { patientAddress: string; hospitalAddress: string }
+): Promise<AttachmentRef> {
+  const { mimeType, error } = await validateAttachmentFile(file);
+  if (!mimeType) {
+    throw new Error(error);
+  }
+
+  const buffer = await file.arrayBuffer();
+  const total = Math.ceil(buffer.byteLength / ATTACHMENT_CHUNK_SIZE);
+  const chunks: AttachmentChunk[] = [];
+
+  for (let index = 0; index < total; index++) {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const plaintext = buffer.slice(index * ATTACHMENT_CHUNK_SIZE, (index + 1) * ATTACHMENT_CHUNK_SIZE);
+    const encrypted = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext);
+
+    const form = new FormData();
+    form.append("chunk", new Blob([encrypted], { type: "application/octet-stream" }));
+    form.append("index", String(index));
+    form.append("total", String(total));
+    form.append("mimeType", mimeType);
+    form.append("patient", owner.patientAddress);
+    form.append("hospital", owner.hospitalAddress);
+
+    const response = await fetch("/api/ipfs/attachments", { method: "POST", body: form });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Failed to upload ${file.name} (part ${index + 1} of ${total})`);
+    }
+
+    chunks.push({ cid: result.cid, iv: arrayBufferToBase64(iv.buffer) });
+  }
+
+  return {
+    name: file.name,
+    mimeType,
+    size: file.size,
+    sha256: await sha256Hex(buffer),
+    chunks,
+  };
+}
+
+/**
+ * Fetch, decrypt and reassemble an attachment. Rejects files whose size, hash or content type
+ * differ from the reference in the record payload.
+ */
+export async function decryptAttachment(
+  attachment: AttachmentRef,
+  key: CryptoKey,
+  fetchChunk: (cid: string) => Promise<ArrayBuffer>
+): Promise<Blob> {
+  const parts: ArrayBuffer[] = [];
+  for (const chunk of attachment.chunks) {
+    const encrypted = await fetchChunk(chunk.cid);
+    parts.push(await crypto.subtle.decrypt({ name: "AES-GCM", iv: base64ToArrayBuffer(chunk.iv) }, key, encrypted));
+  }
+
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(new Uint8Array(part), offset);
+    offset += part.byteLength;
+  }
+
+  if (bytes.byteLength !== attachment.size || (await sha256Hex(bytes.buffer)) !== attachment.sha256) {
+    throw new Error(`${attachment.name} does not match the record's checksum`);
+  }
+  if (sniffMimeType(bytes) !== attachment.mimeType) {
+    throw new Error(`${attachment.name} is not a ${attachment.mimeType} file`);
+  }
+
+  return new Blob([bytes], { type: attachment.mimeType });
+}
+
+// ============ HELPERS ============
+
+export function formatAttachmentSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,71 @@
+/**
+ * Session Service
+ * Sign-In with Ethereum for the ConnectButton: after connecting, the wallet signs one
+ * login message and the server sets an HTTP-only session cookie that authenticates
+ * every /api request from this browser.
+ */
+
+import { type LoginPayload } from "thirdweb/auth";
+import { type SiweAuthOptions } from "thirdweb/react";
+
+/**
+ * Login message fields for a wallet, issued by /api/auth/login
+ */
+async function getLoginPayload({ address }: { address: string; chainId: number }): Promise<LoginPayload> {
+  const response = await fetch(`/api/auth/login?address=${address.toLowerCase()}`);
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.payload) {
+    throw new Error(result.error || "Failed to start sign-in");
+  }
+  return result.payload;
+}
+
+/**
+ * Exchange the signed login message for a session cookie
+ */
+async function doLogin(params: { payload: LoginPayload; signature: string }): Promise<void> {
+  const response = await fetch("/api/auth/login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(params),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || "Sign-in failed");
+  }
+}
+
+/**
+ * Whether this browser has a live session for the wallet
+ */
+async function isLoggedIn(address: string): Promise<boolean> {
+  try {
+    const response = await fetch("/api/auth/session");
+    const result = await response.json().catch(() => ({}));
+    return response.ok && result.address === address.toLowerCase();
+  } catch (error) {
+    console.error("Error checking session:", error);
+    return false;
+  }
+}
+
+/**
+ * End the session server-side and clear the cookie
+ */
+async function doLogout(): Promise<void> {
+  await fetch("/api/auth/session", { method: "DELETE" }).catch((error) => {
+    console.error("Error signing out:", error);
+  });
+}
+
+/**
+ * Pass as the ConnectButton `auth` prop
+ */
+export const siweAuth: SiweAuthOptions = {
+  getLoginPayload,
+  doLogin,
+  isLoggedIn,
+  doLogout,
+};
@@ -3,7 +3,9 @@
  * Handles interactions with smart contracts on Lisk Sepolia
  */
 
-import { prepareContractCall, readContract, sendTransaction, defineChain } from "thirdweb";
+import { prepareContractCall, readContract, sendTransaction, waitForReceipt, defineChain, prepareEvent, getContractEvents, encode } from "thirdweb";
+import { getRpcClient, eth_blockNumber, eth_getBlockByNumber, eth_gasPrice, eth_getBalance, eth_getCode } from "thirdweb/rpc";
+import { keccak256, recoverTypedDataAddress, stringToHex, toFunctionSelector } from "viem";
 import { type Account } from "thirdweb/wallets";
 import { getContract } from "thirdweb";
 import { client } from "@/lib/thirdWeb";
@@ -71,6 +73,18 @@ export interface AccessRequest {
   accessDuration: number;
   message: string;
   status: number; // 0=Pending, 1=Approved, 2=Rejected
+  requestIndex: number; // Index in the patient's full on-chain request list
+}
+
+// Access grant signed off-chain by the patient (one-scan consent QR)
+export interface SignedAccessGrant {
+  patient: string;
+  accessor: string; // Zero address = any whitelisted hospital
+  accessType: string;
+  accessDuration: number; // Seconds from redemption (0 = until revoked)
+  deadline: number;
+  nonce: string;
+  signature: `0x${string}`;
 }
 
 export interface HospitalInfo {
@@ -229,6 +243,55 @@ export async function getActiveAccessors(patientAddress: string): Promise<string
   }
 }
 
+// Signed grants were added to PatientIdentity after the first deployment
+const SIGNED_GRANT_SELECTORS = [
+  "redeemSignedGrant(address,address,string,uint256,uint256,uint256,bytes)",
+  "cancelSignedGrant(uint256)",
+].map((signature) => toFunctionSelector(signature).slice(2));
+
+let signedGrantSupport: boolean | null = null;
+
+/**
+ * Whether the configured PatientIdentity deployment has the signed grant functions,
+ * read from its bytecode (the function dispatcher lists every selector). Older
+ * deployments need a redeploy before one-scan consent can be used.
+ */
+export async function supportsSignedGrants(): Promise<boolean> {
+  if (signedGrantSupport !== null) return signedGrantSupport;
+  try {
+    const code = await eth_getCode(getRpcClient({ client, chain: liskSepolia }), {
+      address: CONTRACT_ADDRESSES.patientIdentity as `0x${string}`,
+    });
+    signedGrantSupport = SIGNED_GRANT_SELECTORS.every((selector) => code.toLowerCase().includes(selector));
+    return signedGrantSupport;
+  } catch (error) {
+    // Not cached, so a flaky RPC doesn't hide the feature for the whole session
+    console.error("Error checking signed grant support:", error);
+    return false;
+  }
+}
+
+const SIGNED_GRANTS_UNSUPPORTED =
+  "One-scan consent needs the updated PatientIdentity contract. Redeploy it and set NEXT_PUBLIC_PATIENT_IDENTITY_ADDRESS.";
+
+/**
+ * Check if a signed grant nonce has been redeemed (or cancelled)
+ */
+export async function isSignedGrantUsed(patientAddress: string, nonce: string): Promise<boolean> {
+  try {
+    const contract = getPatientIdentityContract();
+    const result = await readContract({
+      contract,
+      method: "function usedGrantNonces(address, uint256) view returns (bool)",
+      params: [patientAddress, BigInt(nonce)],
+    });
+    return result as boolean;
+  } catch (error) {
+    console.error("Error checking signed grant nonce:", error);
+    return false;
+  }
+}
+
 /**
  * Check if hospital is whitelisted (either locally or via registry)
  */
@@ -279,35 +342,11 @@ export async function getHospitalInfo(hospitalAddress: string): Promise<Hospital
 
 /**
  * Get pending access requests for a patient
+ * Filtered client-side so requestIndex stays the index that approve/reject expect
  */
 export async function getPendingAccessRequests(patientAddress: string): Promise<AccessRequest[]> {
-  try {
-    const contract = getPatientIdentityContract();
-    const result = await readContract({
-      contract,
-      method: "function getPendingAccessRequests(address _patient) view returns ((address hospitalAddress, string hospitalName, uint256 requestedAt, uint256 accessDuration, string message, uint8 status)[])",
-      params: [patientAddress],
-    });
-
-    return (result as Array<{
-      hospitalAddress: string;
-      hospitalName: string;
-      requestedAt: bigint;
-      accessDuration: bigint;
-      message: string;
-      status: number;
-    }>).map((r) => ({
-      hospitalAddress: r.hospitalAddress,
-      hospitalName: r.hospitalName,
-      requestedAt: Number(r.requestedAt),
-      accessDuration: Number(r.accessDuration),
-      message: r.message,
-      status: r.status,
-    }));
-  } catch (error) {
-    console.error("Error getting pending access requests:", error);
-    return [];
-  }
+  const requests = await getAllAccessRequests(patientAddress);
+  return requests.filter((r) => r.status === 0);
 }
 
 /**
@@ -329,13 +368,14 @@ export async function getAllAccessRequests(patientAddress: string): Promise<Acce
       accessDuration: bigint;
       message: string;
       status: number;
-    }>).map((r) => ({
+    }>).map((r, index) => ({
       hospitalAddress: r.hospitalAddress,
       hospitalName: r.hospitalName,
       requestedAt: Number(r.requestedAt),
       accessDuration: Number(r.accessDuration),
       message: r.message,
       status: r.status,
+      requestIndex: index,
     }));
   } catch (error) {
     console.error("Error getting all access requests:", error);
@@ -370,9 +410,45 @@ function parseContractError(error: unknown): string {
   if (errorStr.includes("InvalidAccessRequestIndex")) {
     return "Invalid access request";
   }
+  if (errorStr.includes("SignedGrantExpired")) {
+    return "This consent QR has expired";
+  }
+  if (errorStr.includes("SignedGrantNonceUsed")) {
+    return "This consent QR has already been used or was cancelled";
+  }
+  if (errorStr.includes("SignedGrantWrongAccessor")) {
+    return "This consent QR was issued to a different hospital";
+  }
+  if (errorStr.includes("InvalidPatientSignature")) {
+    return "Consent signature is invalid";
+  }
   if (errorStr.includes("AccessNotGranted")) {
     return "Access has not been granted";
   }
+  if (errorStr.includes("InvalidRecordIndex")) {
+    return "Medical record not found";
+  }
+  if (errorStr.includes("AccessControlUnauthorizedAccount")) {
+    return "This wallet does not have the required role";
+  }
+  if (errorStr.includes("ForwarderPaused")) {
+    return "Gasless transactions are temporarily paused";
+  }
+  if (errorStr.includes("OwnableUnauthorizedAccount")) {
+    return "Only the forwarder owner can do this";
+  }
+  if (errorStr.includes("WithdrawalFailed")) {
+    return "Withdrawal from the forwarder failed";
+  }
+  if (errorStr.includes("GasLimitExceeded")) {
+    return "Transaction exceeds the gasless gas limit";
+  }
+  if (errorStr.includes("ERC2771ForwarderExpiredRequest")) {
+    return "Gasless request expired, please try again";
+  }
+  if (errorStr.includes("ERC2771ForwarderInvalidSigner")) {
+    return "Gasless request signature is invalid";
+  }
   if (errorStr.includes("user rejected") || errorStr.includes("User rejected")) {
     return "Transaction was rejected by user";
   }
@@ -397,6 +473,14 @@ export async function selfRegisterPatient(
   account: Account
 ): Promise<{ success: boolean; txHash?: string; patientId?: string; error?: string }> {
   try {
+    // MetaMask users without enough ETH for the gas sign a forward request instead
+    if (await shouldUseGasRelay(account, "selfRegister")) {
+      const relayed = await relayTransaction(account, { method: "selfRegister" });
+      if (!relayed.relayUnsupported) {
+        return { success: relayed.success, txHash: relayed.txHash, error: relayed.error };
+      }
+    }
+
     const contract = getPatientIdentityContract();
     
     const tx = prepareContractCall({
@@ -460,6 +544,97 @@ export async function requestPatientAccess(
   }
 }
 
+/**
+ * Hospital redeems a patient-signed access grant (scanned consent QR) in one transaction
+ */
+export async function redeemSignedGrant(
+  account: Account,
+  grant: SignedAccessGrant
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  try {
+    if (!(await supportsSignedGrants())) {
+      return { success: false, error: SIGNED_GRANTS_UNSUPPORTED };
+    }
+
+    const contract = getPatientIdentityContract();
+    
+    const tx = prepareContractCall({
+      contract,
+      method: "function redeemSignedGrant(address _patient, address _accessor, string _accessType, uint256 _accessDuration, uint256 _deadline, uint256 _nonce, bytes _signature)",
+      params: [
+        grant.patient,
+        grant.accessor,
+        grant.accessType,
+        BigInt(grant.accessDuration),
+        BigInt(grant.deadline),
+        BigInt(grant.nonce),
+        grant.signature,
+      ],
+    });
+
+    const result = await sendTransaction({
+      account,
+      transaction: tx,
+    });
+
+    return {
+      success: true,
+      txHash: result.transactionHash,
+    };
+  } catch (error) {
+    console.error("Error redeeming signed grant:", error);
+    return {
+      success: false,
+      error: parseContractError(error),
+    };
+  }
+}
+
+/**
+ * Patient cancels a consent QR before a hospital redeems it (burns the nonce)
+ */
+export async function cancelSignedGrant(
+  account: Account,
+  nonce: string
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  try {
+    if (!(await supportsSignedGrants())) {
+      return { success: false, error: SIGNED_GRANTS_UNSUPPORTED };
+    }
+
+    if (await shouldUseGasRelay(account, "cancelSignedGrant")) {
+      const relayed = await relayTransaction(account, { method: "cancelSignedGrant", nonce });
+      if (!relayed.relayUnsupported) {
+        return { success: relayed.success, txHash: relayed.txHash, error: relayed.error };
+      }
+    }
+
+    const contract = getPatientIdentityContract();
+
+    const tx = prepareContractCall({
+      contract,
+      method: "function cancelSignedGrant(uint256 _nonce)",
+      params: [BigInt(nonce)],
+    });
+
+    const result = await sendTransaction({
+      account,
+      transaction: tx,
+    });
+
+    return {
+      success: true,
+      txHash: result.transactionHash,
+    };
+  } catch (error) {
+    console.error("Error cancelling signed grant:", error);
+    return {
+      success: false,
+      error: parseContractError(error),
+    };
+  }
+}
+
 /**
  * Patient approves an access request
  */
@@ -468,6 +643,13 @@ export async function approveAccessRequest(
   requestIndex: number
 ): Promise<{ success: boolean; txHash?: string; error?: string }> {
   try {
+    if (await shouldUseGasRelay(account, "approveAccessRequest")) {
+      const relayed = await relayTransaction(account, { method: "approveAccessRequest", requestIndex });
+      if (!relayed.relayUnsupported) {
+        return { success: relayed.success, txHash: relayed.txHash, error: relayed.error };
+      }
+    }
+
     const contract = getPatientIdentityContract();
     
     const tx = prepareContractCall({
@@ -502,6 +684,13 @@ export async function rejectAccessRequest(
   requestIndex: number
 ): Promise<{ success: boolean; txHash?: string; error?: string }> {
   try {
+    if (await shouldUseGasRelay(account, "rejectAccessRequest")) {
+      const relayed = await relayTransaction(account, { method: "rejectAccessRequest", requestIndex });
+      if (!relayed.relayUnsupported) {
+        return { success: relayed.success, txHash: relayed.txHash, error: relayed.error };
+      }
+    }
+
     const contract = getPatientIdentityContract();
     
     const tx = prepareContractCall({
@@ -538,6 +727,13 @@ export async function grantAccess(
   expiresAt: number = 0 // 0 = permanent until revoked
 ): Promise<{ success: boolean; txHash?: string; error?: string }> {
   try {
+    if (await shouldUseGasRelay(account, "grantAccess")) {
+      const relayed = await relayTransaction(account, { method: "grantAccess", accessor: hospitalAddress, accessType, expiresAt });
+      if (!relayed.relayUnsupported) {
+        return { success: relayed.success, txHash: relayed.txHash, error: relayed.error };
+      }
+    }
+
     const contract = getPatientIdentityContract();
     
     const tx = prepareContractCall({
@@ -572,6 +768,13 @@ export async function revokeAccess(
   hospitalAddress: string
 ): Promise<{ success: boolean; txHash?: string; error?: string }> {
   try {
+    if (await shouldUseGasRelay(account, "revokeAccess")) {
+      const relayed = await relayTransaction(account, { method: "revokeAccess", accessor: hospitalAddress });
+      if (!relayed.relayUnsupported) {
+        return { success: relayed.success, txHash: relayed.txHash, error: relayed.error };
+      }
+    }
+
     const contract = getPatientIdentityContract();
     
     const tx = prepareContractCall({
@@ -682,6 +885,30 @@ export function getExplorerUrl(txHash: string): string {
   return `${CHAIN_CONFIG.blockExplorer}/tx/${txHash}`;
 }
 
+/**
+ * Wait until a submitted transaction is mined. Write functions (and the relay) return once
+ * a transaction is submitted; anything checked against the new on-chain state, like key
+ * grants, has to wait for this first.
+ */
+export async function waitForTransaction(txHash: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const receipt = await waitForReceipt({
+      client,
+      chain: liskSepolia,
+      transactionHash: txHash as `0x${string}`,
+    });
+    return receipt.status === "success"
+      ? { success: true }
+      : { success: false, error: "Transaction reverted" };
+  } catch (error) {
+    console.error("Error waiting for transaction:", error);
+    return {
+      success: false,
+      error: parseContractError(error),
+    };
+  }
+}
+
 /**
  * Get block explorer URL for address
  */
@@ -1269,3 +1496,887 @@ export async function registerHospitalInRegistry(
     };
   }
 }
+
+// ============ AUDIT LOG FUNCTIONS ============
+
+export type AuditAction =
+  | "AccessGranted"
+  | "AccessRevoked"
+  | "AccessRequested"
+  | "AccessRequestApproved"
+  | "AccessRequestRejected"
+  | "RecordAdded"
+  | "RecordVerified"
+  | "ProfileAccessed";
+
+export interface AuditLogEntry {
+  id: string;
+  action: AuditAction;
+  patient: string;
+  actor: string | null; // hospital / accessor; null when the event does not name one
+  detail: string;
+  timestamp: number;
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+}
+
+const accessGrantedEvent = prepareEvent({
+  signature: "event AccessGranted(address indexed patient, address indexed accessor, string accessType, uint256 expiresAt)",
+});
+const accessRevokedEvent = prepareEvent({
+  signature: "event AccessRevoked(address indexed patient, address indexed accessor, uint256 timestamp)",
+});
+const accessRequestedEvent = prepareEvent({
+  signature: "event AccessRequested(address indexed patient, address indexed hospital, string hospitalName, uint256 requestIndex, uint256 accessDuration)",
+});
+const accessRequestApprovedEvent = prepareEvent({
+  signature: "event AccessRequestApproved(address indexed patient, address indexed hospital, uint256 requestIndex)",
+});
+const accessRequestRejectedEvent = prepareEvent({
+  signature: "event AccessRequestRejected(address indexed patient, address indexed hospital, uint256 requestIndex)",
+});
+const recordAddedEvent = prepareEvent({
+  signature: "event RecordAdded(address indexed patient, address indexed hospital, string ipfsCid, uint256 recordIndex, string icd10Code)",
+});
+const recordVerifiedEvent = prepareEvent({
+  signature: "event RecordVerified(address indexed patient, uint256 recordIndex, uint256 timestamp)",
+});
+const profileAccessedEvent = prepareEvent({
+  signature: "event ProfileAccessed(address indexed patient, address indexed accessor, string accessType, uint256 timestamp)",
+});
+
+// Blocks fetched at once when resolving event timestamps
+const BLOCK_FETCH_CONCURRENCY = 10;
+
+/**
+ * Fetch events from fromBlock to the latest block, one eth_getLogs call per
+ * CHAIN_CONFIG.eventScanBlockRange blocks
+ */
+async function scanEvents<T>(
+  fromBlock: bigint,
+  fetchRange: (range: { fromBlock: bigint; toBlock: bigint }) => Promise<T[]>
+): Promise<T[]> {
+  const latest = await eth_blockNumber(getRpcClient({ client, chain: liskSepolia }));
+  const step = CHAIN_CONFIG.eventScanBlockRange;
+  const events: T[] = [];
+
+  for (let start = fromBlock; start <= latest; start += step) {
+    const end = start + step - BigInt(1);
+    events.push(...(await fetchRange({ fromBlock: start, toBlock: end < latest ? end : latest })));
+  }
+
+  return events;
+}
+
+/**
+ * Resolve block timestamps for a set of block numbers (events only carry block numbers)
+ */
+async function getBlockTimestamps(blockNumbers: bigint[]): Promise<Map<bigint, number>> {
+  const rpcRequest = getRpcClient({ client, chain: liskSepolia });
+  const timestamps = new Map<bigint, number>();
+  const unique = [...new Set(blockNumbers)];
+
+  for (let i = 0; i < unique.length; i += BLOCK_FETCH_CONCURRENCY) {
+    await Promise.all(
+      unique.slice(i, i + BLOCK_FETCH_CONCURRENCY).map(async (blockNumber) => {
+        const block = await eth_getBlockByNumber(rpcRequest, { blockNumber });
+        timestamps.set(blockNumber, Number(block.timestamp));
+      })
+    );
+  }
+
+  return timestamps;
+}
+
+/**
+ * Get on-chain audit trail from PatientIdentity and PatientProfile events.
+ * Sorted newest first. Throws when the chain can't be read, so callers can tell a
+ * failed load from an empty trail.
+ */
+export async function getAuditLogs(
+  fromBlock: bigint = CHAIN_CONFIG.deploymentBlock
+): Promise<AuditLogEntry[]> {
+  const [identityEvents, profileEvents] = await Promise.all([
+    scanEvents(fromBlock, (range) =>
+      getContractEvents({
+        contract: getPatientIdentityContract(),
+        ...range,
+        events: [
+          accessGrantedEvent,
+          accessRevokedEvent,
+          accessRequestedEvent,
+          accessRequestApprovedEvent,
+          accessRequestRejectedEvent,
+          recordAddedEvent,
+          recordVerifiedEvent,
+        ],
+      })
+    ),
+    scanEvents(fromBlock, (range) =>
+      getContractEvents({
+        contract: getPatientProfileContract(),
+        ...range,
+        events: [profileAccessedEvent],
+      })
+    ),
+  ]);
+
+  const timestamps = await getBlockTimestamps(
+    [...identityEvents, ...profileEvents].map((e) => e.blockNumber)
+  );
+
+  const entries: AuditLogEntry[] = [];
+  const base = (e: { transactionHash: string; logIndex: number; blockNumber: bigint }) => ({
+    id: `${e.transactionHash}-${e.logIndex}`,
+    timestamp: timestamps.get(e.blockNumber) ?? 0,
+    blockNumber: Number(e.blockNumber),
+    logIndex: e.logIndex,
+    txHash: e.transactionHash,
+  });
+
+  for (const e of identityEvents) {
+    switch (e.eventName) {
+      case "AccessGranted":
+        entries.push({
+          ...base(e),
+          action: e.eventName,
+          patient: e.args.patient,
+          actor: e.args.accessor,
+          detail: e.args.expiresAt === BigInt(0)
+            ? `${e.args.accessType} access, no expiry`
+            : `${e.args.accessType} access until ${new Date(Number(e.args.expiresAt) * 1000).toLocaleString()}`,
+        });
+        break;
+      case "AccessRevoked":
+        entries.push({
+          ...base(e),
+          action: e.eventName,
+          patient: e.args.patient,
+          actor: e.args.accessor,
+          detail: "Access revoked by patient",
+        });
+        break;
+      case "AccessRequested":
+        entries.push({
+          ...base(e),
+          action: e.eventName,
+          patient: e.args.patient,
+          actor: e.args.hospital,
+          detail: `${e.args.hospitalName} requested ${Math.round(Number(e.args.accessDuration) / 86400)} days (request #${e.args.requestIndex})`,
+        });
+        break;
+      case "AccessRequestApproved":
+      case "AccessRequestRejected":
+        entries.push({
+          ...base(e),
+          action: e.eventName,
+          patient: e.args.patient,
+          actor: e.args.hospital,
+          detail: `Request #${e.args.requestIndex}`,
+        });
+        break;
+      case "RecordAdded":
+        entries.push({
+          ...base(e),
+          action: e.eventName,
+          patient: e.args.patient,
+          actor: e.args.hospital,
+          detail: `Record #${e.args.recordIndex} (${e.args.icd10Code || "no ICD-10"}) - ${e.args.ipfsCid}`,
+        });
+        break;
+      case "RecordVerified":
+        entries.push({
+          ...base(e),
+          action: e.eventName,
+          patient: e.args.patient,
+          actor: null,
+          detail: `Record #${e.args.recordIndex} verified`,
+        });
+        break;
+    }
+  }
+
+  for (const e of profileEvents) {
+    entries.push({
+      ...base(e),
+      action: e.eventName,
+      patient: e.args.patient,
+      actor: e.args.accessor,
+      detail: `Profile ${e.args.accessType}`,
+    });
+  }
+
+  return entries.sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+}
+
+// ============ VALIDATOR FUNCTIONS ============
+
+// Role PatientIdentity requires for verifyRecord (held by validators and operators)
+const ADMIN_ROLE = keccak256(stringToHex("ADMIN_ROLE"));
+
+export interface UnverifiedRecord extends MedicalRecordRef {
+  patient: string;
+  recordIndex: number;
+}
+
+export interface RecordVerificationResult {
+  patient: string;
+  recordIndex: number;
+  success: boolean;
+  txHash?: string;
+  error?: string;
+}
+
+/**
+ * Check if an address holds ADMIN_ROLE on PatientIdentity
+ */
+export async function hasAdminRole(address: string): Promise<boolean> {
+  try {
+    const contract = getPatientIdentityContract();
+    const result = await readContract({
+      contract,
+      method: "function hasRole(bytes32 role, address account) view returns (bool)",
+      params: [ADMIN_ROLE, address],
+    });
+    return result as boolean;
+  } catch (error) {
+    console.error("Error checking admin role:", error);
+    return false;
+  }
+}
+
+/**
+ * Get unverified records across all patients, found through RecordAdded events.
+ * Verification state comes from the current record list, oldest record first.
+ * Throws when the events can't be read.
+ */
+export async function getUnverifiedRecords(
+  fromBlock: bigint = CHAIN_CONFIG.deploymentBlock
+): Promise<UnverifiedRecord[]> {
+  const events = await scanEvents(fromBlock, (range) =>
+    getContractEvents({
+      contract: getPatientIdentityContract(),
+      ...range,
+      events: [recordAddedEvent],
+    })
+  );
+
+  const patients = new Map<string, string>();
+  for (const e of events) {
+    patients.set(e.args.patient.toLowerCase(), e.args.patient);
+  }
+
+  const queue: UnverifiedRecord[] = [];
+  for (const patient of patients.values()) {
+    const records = await getPatientRecords(patient);
+    records.forEach((record, recordIndex) => {
+      if (!record.isVerified) {
+        queue.push({ ...record, patient, recordIndex });
+      }
+    });
+  }
+
+  return queue.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Validator marks a patient's record as verified
+ */
+export async function verifyRecord(
+  account: Account,
+  patientAddress: string,
+  recordIndex: number
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  try {
+    const contract = getPatientIdentityContract();
+    
+    const tx = prepareContractCall({
+      contract,
+      method: "function verifyRecord(address _patient, uint256 _recordIndex)",
+      params: [patientAddress, BigInt(recordIndex)],
+    });
+
+    const result = await sendTransaction({
+      account,
+      transaction: tx,
+    });
+
+    return {
+      success: true,
+      txHash: result.transactionHash,
+    };
+  } catch (error) {
+    console.error("Error verifying record:", error);
+    return {
+      success: false,
+      error: parseContractError(error),
+    };
+  }
+}
+
+/**
+ * Verify several records in sequence, one transaction each (the contract has no batch
+ * call). A failed record doesn't stop the rest.
+ */
+export async function verifyRecords(
+  account: Account,
+  records: { patient: string; recordIndex: number }[],
+  onResult?: (result: RecordVerificationResult, done: number) => void
+): Promise<RecordVerificationResult[]> {
+  const results: RecordVerificationResult[] = [];
+
+  for (const record of records) {
+    const result = await verifyRecord(account, record.patient, record.recordIndex);
+    results.push({ patient: record.patient, recordIndex: record.recordIndex, ...result });
+    onResult?.(results[results.length - 1], results.length);
+  }
+
+  return results;
+}
+
+// ============ ADMIN FUNCTIONS ============
+
+export interface WhitelistedHospital {
+  address: string;
+  name: string;
+  whitelistedAt: number;
+  txHash: string;
+}
+
+const hospitalWhitelistedEvent = prepareEvent({
+  signature: "event HospitalWhitelisted(address indexed hospital, string hospitalName)",
+});
+const hospitalRemovedFromWhitelistEvent = prepareEvent({
+  signature: "event HospitalRemovedFromWhitelist(address indexed hospital)",
+});
+
+/**
+ * Get hospitals on the PatientIdentity local whitelist, replayed from whitelist events.
+ * Hospitals authorized only through the external registry are not included.
+ * Throws when the events can't be read.
+ */
+export async function getWhitelistedHospitals(
+  fromBlock: bigint = CHAIN_CONFIG.deploymentBlock
+): Promise<WhitelistedHospital[]> {
+  const events = await scanEvents(fromBlock, (range) =>
+    getContractEvents({
+      contract: getPatientIdentityContract(),
+      ...range,
+      events: [hospitalWhitelistedEvent, hospitalRemovedFromWhitelistEvent],
+    })
+  );
+
+  const sorted = [...events].sort((a, b) =>
+    Number(a.blockNumber - b.blockNumber) || a.logIndex - b.logIndex
+  );
+
+  const current = new Map<string, { address: string; name: string; blockNumber: bigint; txHash: string }>();
+  for (const e of sorted) {
+    const address = e.args.hospital;
+    if (e.eventName === "HospitalWhitelisted") {
+      current.set(address.toLowerCase(), {
+        address,
+        name: e.args.hospitalName,
+        blockNumber: e.blockNumber,
+        txHash: e.transactionHash,
+      });
+    } else {
+      current.delete(address.toLowerCase());
+    }
+  }
+
+  const entries = [...current.values()];
+  const timestamps = await getBlockTimestamps(entries.map((entry) => entry.blockNumber));
+
+  return entries
+    .map((entry) => ({
+      address: entry.address,
+      name: entry.name,
+      whitelistedAt: timestamps.get(entry.blockNumber) ?? 0,
+      txHash: entry.txHash,
+    }))
+    .sort((a, b) => b.whitelistedAt - a.whitelistedAt);
+}
+
+/**
+ * Admin whitelists a hospital (grants HOSPITAL_ROLE)
+ */
+export async function whitelistHospital(
+  account: Account,
+  hospitalAddress: string,
+  hospitalName: string
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  try {
+    const contract = getPatientIdentityContract();
+    
+    const tx = prepareContractCall({
+      contract,
+      method: "function whitelistHospital(address _hospital, string _hospitalName)",
+      params: [hospitalAddress, hospitalName],
+    });
+
+    const result = await sendTransaction({
+      account,
+      transaction: tx,
+    });
+
+    return {
+      success: true,
+      txHash: result.transactionHash,
+    };
+  } catch (error) {
+    console.error("Error whitelisting hospital:", error);
+    return {
+      success: false,
+      error: parseContractError(error),
+    };
+  }
+}
+
+/**
+ * Admin removes a hospital from the whitelist (revokes HOSPITAL_ROLE)
+ */
+export async function removeHospitalFromWhitelist(
+  account: Account,
+  hospitalAddress: string
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  try {
+    const contract = getPatientIdentityContract();
+    
+    const tx = prepareContractCall({
+      contract,
+      method: "function removeHospitalFromWhitelist(address _hospital)",
+      params: [hospitalAddress],
+    });
+
+    const result = await sendTransaction({
+      account,
+      transaction: tx,
+    });
+
+    return {
+      success: true,
+      txHash: result.transactionHash,
+    };
+  } catch (error) {
+    console.error("Error removing hospital from whitelist:", error);
+    return {
+      success: false,
+      error: parseContractError(error),
+    };
+  }
+}
+
+/**
+ * Get the external hospital registry PatientIdentity trusts (zero address = none)
+ */
+export async function getHospitalRegistryAddress(): Promise<string | null> {
+  try {
+    const contract = getPatientIdentityContract();
+    const result = await readContract({
+      contract,
+      method: "function hospitalRegistry() view returns (address)",
+      params: [],
+    });
+    return result as string;
+  } catch (error) {
+    console.error("Error getting hospital registry:", error);
+    return null;
+  }
+}
+
+/**
+ * Admin points PatientIdentity at a new hospital registry (zero address disables it)
+ */
+export async function setHospitalRegistry(
+  account: Account,
+  registryAddress: string
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  try {
+    const contract = getPatientIdentityContract();
+    
+    const tx = prepareContractCall({
+      contract,
+      method: "function setHospitalRegistry(address _hospitalRegistry)",
+      params: [registryAddress],
+    });
+
+    const result = await sendTransaction({
+      account,
+      transaction: tx,
+    });
+
+    return {
+      success: true,
+      txHash: result.transactionHash,
+    };
+  } catch (error) {
+    console.error("Error setting hospital registry:", error);
+    return {
+      success: false,
+      error: parseContractError(error),
+    };
+  }
+}
+
+// ============ GASLESS RELAY (ERC-2771) ============
+
+const getForwarderContract = () =>
+  getContract({
+    client,
+    chain: liskSepolia,
+    address: CONTRACT_ADDRESSES.forwarder,
+  });
+
+/**
+ * Patient calls that /api/relay accepts
+ */
+export type RelayCall =
+  | { method: "selfRegister" }
+  | { method: "approveAccessRequest"; requestIndex: number }
+  | { method: "rejectAccessRequest"; requestIndex: number }
+  | { method: "grantAccess"; accessor: string; accessType: string; expiresAt: number }
+  | { method: "revokeAccess"; accessor: string }
+  | { method: "cancelSignedGrant"; nonce: string };
+
+/**
+ * EIP-712 signed forward request, JSON-safe (bigints as decimal strings)
+ */
+export interface SignedForwardRequest {
+  from: string;
+  to: string;
+  value: string;
+  gas: string;
+  nonce: string;
+  deadline: number;
+  data: `0x${string}`;
+  signature: `0x${string}`;
+}
+
+export interface ForwarderStats {
+  totalRelayed: number;
+  balance: bigint;
+  maxGasLimit: number;
+  isPaused: boolean;
+}
+
+// Gas forwarded to the target call (must stay below the forwarder's maxGasLimit)
+const RELAY_GAS_LIMITS: Record<RelayCall["method"], number> = {
+  selfRegister: 400000,
+  approveAccessRequest: 250000,
+  rejectAccessRequest: 120000,
+  grantAccess: 250000,
+  revokeAccess: 120000,
+  cancelSignedGrant: 80000,
+};
+
+// Signed requests stay valid for one hour
+const RELAY_REQUEST_TTL_SECONDS = 60 * 60;
+
+const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+} as const;
+
+const getForwarderDomain = () => ({
+  name: "MedichainForwarder",
+  version: "1",
+  chainId: CHAIN_CONFIG.chainId,
+  verifyingContract: CONTRACT_ADDRESSES.forwarder as `0x${string}`,
+});
+
+/**
+ * Encode the PatientIdentity calldata for a relayable call
+ */
+async function encodeRelayCall(call: RelayCall): Promise<`0x${string}`> {
+  const contract = getPatientIdentityContract();
+
+  switch (call.method) {
+    case "selfRegister":
+      return encode(prepareContractCall({
+        contract,
+        method: "function selfRegister() returns (uint256)",
+        params: [],
+      }));
+    case "approveAccessRequest":
+      return encode(prepareContractCall({
+        contract,
+        method: "function approveAccessRequest(uint256 _requestIndex)",
+        params: [BigInt(call.requestIndex)],
+      }));
+    case "rejectAccessRequest":
+      return encode(prepareContractCall({
+        contract,
+        method: "function rejectAccessRequest(uint256 _requestIndex)",
+        params: [BigInt(call.requestIndex)],
+      }));
+    case "grantAccess":
+      return encode(prepareContractCall({
+        contract,
+        method: "function grantAccess(address _accessor, string _accessType, uint256 _expiresAt)",
+        params: [call.accessor, call.accessType, BigInt(call.expiresAt)],
+      }));
+    case "revokeAccess":
+      return encode(prepareContractCall({
+        contract,
+        method: "function revokeAccess(address _accessor)",
+        params: [call.accessor],
+      }));
+    case "cancelSignedGrant":
+      return encode(prepareContractCall({
+        contract,
+        method: "function cancelSignedGrant(uint256 _nonce)",
+        params: [BigInt(call.nonce)],
+      }));
+  }
+}
+
+/**
+ * Get forwarder usage stats (paused state, gas cap, balance)
+ */
+export async function getForwarderStats(): Promise<ForwarderStats | null> {
+  try {
+    const contract = getForwarderContract();
+    const result = await readContract({
+      contract,
+      method: "function getStats() view returns (uint256 _totalRelayed, uint256 _balance, uint256 _maxGas, bool _isPaused)",
+      params: [],
+    });
+
+    const [totalRelayed, balance, maxGas, isPaused] = result as [bigint, bigint, bigint, boolean];
+
+    return {
+      totalRelayed: Number(totalRelayed),
+      balance,
+      maxGasLimit: Number(maxGas),
+      isPaused,
+    };
+  } catch (error) {
+    console.error("Error getting forwarder stats:", error);
+    return null;
+  }
+}
+
+/**
+ * Whether an account should go through the relay: an EOA that can't pay for the call itself
+ * (its balance is below the call's gas limit at the current gas price).
+ * Smart accounts (in-app wallet) are already sponsored through EIP-4337.
+ */
+export async function shouldUseGasRelay(account: Account, method: RelayCall["method"]): Promise<boolean> {
+  try {
+    const rpcRequest = getRpcClient({ client, chain: liskSepolia });
+    const address = account.address as `0x${string}`;
+    const [balance, code, gasPrice] = await Promise.all([
+      eth_getBalance(rpcRequest, { address }),
+      eth_getCode(rpcRequest, { address }),
+      eth_gasPrice(rpcRequest),
+    ]);
+    const estimatedCost = BigInt(RELAY_GAS_LIMITS[method]) * gasPrice;
+    return balance < estimatedCost && (code === "0x" || code === undefined);
+  } catch (error) {
+    console.error("Error checking relay eligibility:", error);
+    return false;
+  }
+}
+
+/**
+ * Create an EIP-712 signed forward request for a patient call
+ */
+export async function createSignedForwardRequest(
+  account: Account,
+  call: RelayCall
+): Promise<SignedForwardRequest> {
+  const forwarder = getForwarderContract();
+  const nonce = await readContract({
+    contract: forwarder,
+    method: "function nonces(address owner) view returns (uint256)",
+    params: [account.address],
+  });
+
+  const data = await encodeRelayCall(call);
+  const message = {
+    from: account.address as `0x${string}`,
+    to: CONTRACT_ADDRESSES.patientIdentity as `0x${string}`,
+    value: BigInt(0),
+    gas: BigInt(RELAY_GAS_LIMITS[call.method]),
+    nonce,
+    deadline: Math.floor(Date.now() / 1000) + RELAY_REQUEST_TTL_SECONDS,
+    data,
+  };
+
+  const signature = await account.signTypedData({
+    domain: getForwarderDomain(),
+    types: FORWARD_REQUEST_TYPES,
+    primaryType: "ForwardRequest",
+    message,
+  });
+
+  return {
+    from: message.from,
+    to: message.to,
+    value: message.value.toString(),
+    gas: message.gas.toString(),
+    nonce: nonce.toString(),
+    deadline: message.deadline,
+    data,
+    signature,
+  };
+}
+
+/**
+ * Sign a patient call and submit it through /api/relay (relayer pays gas).
+ * relayUnsupported is set when the wallet cannot produce a plain ECDSA signature
+ * (e.g. smart accounts) so callers can fall back to a direct transaction.
+ */
+export async function relayTransaction(
+  account: Account,
+  call: RelayCall
+): Promise<{ success: boolean; txHash?: string; error?: string; relayUnsupported?: boolean }> {
+  try {
+    const stats = await getForwarderStats();
+    if (stats?.isPaused) {
+      return { success: false, error: "Gasless transactions are temporarily paused" };
+    }
+    if (stats && RELAY_GAS_LIMITS[call.method] > stats.maxGasLimit) {
+      return { success: false, error: "Transaction exceeds the gasless gas limit" };
+    }
+
+    const request = await createSignedForwardRequest(account, call);
+
+    // The forwarder only accepts ECDSA signatures from the sender itself
+    const signer = await recoverTypedDataAddress({
+      domain: getForwarderDomain(),
+      types: FORWARD_REQUEST_TYPES,
+      primaryType: "ForwardRequest",
+      message: {
+        from: request.from as `0x${string}`,
+        to: request.to as `0x${string}`,
+        value: BigInt(request.value),
+        gas: BigInt(request.gas),
+        nonce: BigInt(request.nonce),
+        deadline: request.deadline,
+        data: request.data,
+      },
+      signature: request.signature,
+    }).catch(() => null);
+
+    if (!signer || signer.toLowerCase() !== account.address.toLowerCase()) {
+      return { success: false, error: "This wallet cannot sign gasless requests", relayUnsupported: true };
+    }
+
+    const response = await fetch("/api/relay", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ request }),
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Relay failed: ${response.status}`);
+    }
+
+    return {
+      success: true,
+      txHash: result.txHash,
+    };
+  } catch (error) {
+    console.error("Error relaying transaction:", error);
+    return {
+      success: false,
+      error: parseContractError(error),
+    };
+  }
+}
+
+// ============ FORWARDER ADMIN ============
+
+export type ForwarderAdminCall =
+  | { method: "pause" }
+  | { method: "unpause" }
+  | { method: "setMaxGasLimit"; maxGasLimit: number }
+  | { method: "fund"; amount: bigint }
+  | { method: "withdraw"; to: string; amount: bigint };
+
+/**
+ * Get the forwarder owner (the only account allowed to pause, set limits and withdraw)
+ */
+export async function getForwarderOwner(): Promise<string | null> {
+  try {
+    const contract = getForwarderContract();
+    const result = await readContract({
+      contract,
+      method: "function owner() view returns (address)",
+      params: [],
+    });
+    return result as string;
+  } catch (error) {
+    console.error("Error getting forwarder owner:", error);
+    return null;
+  }
+}
+
+/**
+ * Send an operator call to the forwarder. Everything except fund is owner-only.
+ */
+export async function sendForwarderAdminCall(
+  account: Account,
+  call: ForwarderAdminCall
+): Promise<{ success: boolean; txHash?: string; error?: string }> {
+  try {
+    const contract = getForwarderContract();
+
+    const tx = (() => {
+      switch (call.method) {
+        case "pause":
+          return prepareContractCall({ contract, method: "function pause()", params: [] });
+        case "unpause":
+          return prepareContractCall({ contract, method: "function unpause()", params: [] });
+        case "setMaxGasLimit":
+          return prepareContractCall({
+            contract,
+            method: "function setMaxGasLimit(uint256 _maxGasLimit)",
+            params: [BigInt(call.maxGasLimit)],
+          });
+        case "fund":
+          return prepareContractCall({
+            contract,
+            method: "function fund() payable",
+            params: [],
+            value: call.amount,
+          });
+        case "withdraw":
+          return prepareContractCall({
+            contract,
+            method: "function withdraw(address _to, uint256 _amount)",
+            params: [call.to, call.amount],
+          });
+      }
+    })();
+
+    const result = await sendTransaction({
+      account,
+      transaction: tx,
+    });
+
+    return {
+      success: true,
+      txHash: result.transactionHash,
+    };
+  } catch (error) {
+    console.error(`Error calling forwarder ${call.method}:`, error);
+    return {
+      success: false,
+      error: parseContractError(error),
+    };
+  }
+}
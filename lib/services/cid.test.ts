@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { computeCid, contentMatchesCid, isCid } from "@/lib/services/cid";
+
+// Expected CIDs come from ipfs-unixfs-importer with Kubo's defaults (CIDv1, raw leaves, 256 KiB chunks)
+const CHUNK_SIZE = 256 * 1024;
+
+const pattern = (length: number) => Uint8Array.from({ length }, (_, i) => i % 251);
+
+describe("computeCid", () => {
+  it("hashes empty content as a single raw leaf", async () => {
+    expect(await computeCid(new Uint8Array(0))).toBe("bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku");
+  });
+
+  it("keeps content of exactly one chunk as a raw leaf", async () => {
+    expect(await computeCid(pattern(CHUNK_SIZE))).toBe("bafkreibruh455iawsviqslif5c7uurdcfdemh22mtnytyzvnzn75kpejxy");
+  });
+
+  it("links multiple chunks under a dag-pb file node", async () => {
+    const cid = await computeCid(pattern(600000));
+    expect(cid).toBe("bafybeicp64het67shnhxiyl3sg5mylxqop6pnqsqpfecb6pmni2ghoxzom");
+  });
+
+  it("adds a level once a node would exceed 174 links", async () => {
+    const cid = await computeCid(new Uint8Array(175 * CHUNK_SIZE + 1));
+    expect(cid).toBe("bafybeicyowx3udu4hzfyo2ekfduhsfhirbv5j2uhcuyz4zh53vrbx2jdfa");
+  });
+});
+
+describe("contentMatchesCid", () => {
+  it("accepts the content's own CID and rejects others", async () => {
+    const content = new TextEncoder().encode("hello medichain") as Uint8Array<ArrayBuffer>;
+    expect(await contentMatchesCid("bafkreif7gbgpxcsmtndywdqpaphukud2jfib2jqyoxymu675uqscpis6c4", content)).toBe(true);
+    expect(await contentMatchesCid("bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku", content)).toBe(false);
+  });
+
+  it("treats CIDv0 as unverifiable", async () => {
+    expect(await contentMatchesCid("QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH", new Uint8Array(0))).toBe(false);
+  });
+});
+
+describe("isCid", () => {
+  it("accepts v0 and v1 CIDs and rejects paths", () => {
+    expect(isCid("QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH")).toBe(true);
+    expect(isCid("bafybeicp64het67shnhxiyl3sg5mylxqop6pnqsqpfecb6pmni2ghoxzom")).toBe(true);
+    expect(isCid("../bafybeicp64het67shnhxiyl3sg5mylxqop6pnqsqpfecb6pmni2ghoxzom")).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Content Identifiers
+ * Computes CIDv1 values the way `ipfs add --cid-version=1` does, so the server's local store can
+ * name content and the browser can check that gateway responses match the CID it asked for.
+ * Uses WebCrypto only, so it runs in both the browser and API routes.
+ */
+
+// ============ CONSTANTS ============
+
+// Same DAG as Kubo's defaults: 256 KiB raw leaves under balanced dag-pb UnixFS nodes
+const CHUNK_SIZE = 256 * 1024;
+const MAX_LINKS = 174;
+const RAW_CODEC = 0x55;
+const DAG_PB_CODEC = 0x70;
+const SHA2_256 = 0x12;
+
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+// ============ ENCODING ============
+
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+function base32(bytes: Uint8Array): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return output;
+}
+
+async function cidBytes(codec: number, block: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", block));
+  return Uint8Array.from([...varint(1), ...varint(codec), SHA2_256, digest.length, ...digest]);
+}
+
+// Protobuf field with a length-delimited value
+function lengthDelimited(field: number, value: Uint8Array | number[]): number[] {
+  return [(field << 3) | 2, ...varint(value.length), ...value];
+}
+
+// ============ DAG ============
+
+interface DagNode {
+  cid: Uint8Array;
+  fileSize: number; // Bytes of file content under this node
+  treeSize: number; // Bytes of all blocks under this node (the link Tsize)
+}
+
+async function buildParent(children: DagNode[]): Promise<DagNode> {
+  const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+
+  // UnixFS Data { Type = File, filesize, blocksizes }
+  const unixfs = [0x08, 0x02, 0x18, ...varint(fileSize)];
+  for (const child of children) unixfs.push(0x20, ...varint(child.fileSize));
+
+  // PBNode { Links (field 2), Data (field 1) }, each PBLink { Hash, Name = "", Tsize }
+  const node: number[] = [];
+  for (const child of children) {
+    const link = [...lengthDelimited(1, child.cid), ...lengthDelimited(2, []), 0x18, ...varint(child.treeSize)];
+    node.push(...lengthDelimited(2, link));
+  }
+  node.push(...lengthDelimited(1, unixfs));
+
+  const block = Uint8Array.from(node);
+  return {
+    cid: await cidBytes(DAG_PB_CODEC, block),
+    fileSize,
+    treeSize: block.length + children.reduce((sum, child) => sum + child.treeSize, 0),
+  };
+}
+
+/**
+ * CIDv1 (base32) of content, as an IPFS node would compute it when adding the same bytes
+ */
+export async function computeCid(content: Uint8Array<ArrayBuffer>): Promise<string> {
+  let level: DagNode[] = [];
+  for (let offset = 0; offset < content.length || level.length === 0; offset += CHUNK_SIZE) {
+    const leaf = content.slice(offset, offset + CHUNK_SIZE);
+    level.push({ cid: await cidBytes(RAW_CODEC, leaf), fileSize: leaf.length, treeSize: leaf.length });
+  }
+
+  while (level.length > 1) {
+    const parents: DagNode[] = [];
+    for (let i = 0; i < level.length; i += MAX_LINKS) {
+      parents.push(await buildParent(level.slice(i, i + MAX_LINKS)));
+    }
+    level = parents;
+  }
+
+  return `b${base32(level[0].cid)}`;
+}
+
+// ============ VALIDATION ============
+
+/**
+ * Whether a string looks like a CID (v0 base58 or v1 base32); used to keep paths and URLs safe
+ */
+export function isCid(value: string): boolean {
+  return /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(value) || /^b[a-z2-7]{50,}$/.test(value);
+}
+
+/**
+ * Whether content matches a CID. Only CIDv1 can be recomputed from the bytes; every upload
+ * route pins with cidVersion 1, so anything else is treated as unverifiable.
+ */
+export async function contentMatchesCid(cid: string, content: Uint8Array<ArrayBuffer>): Promise<boolean> {
+  if (!cid.startsWith("b")) return false;
+  return (await computeCid(content)) === cid;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { buildDirectoryMessage, formatPatientId, hashNik } from "@/lib/services/directory";
+
+describe("hashNik", () => {
+  // Directory entries are keyed on this hash, so the domain and encoding must not change
+  it("matches the hash of entries already published", async () => {
+    expect(await hashNik("3201234567890001")).toBe(
+      "0x740a61eb61735399776c15a3e7663082d7a69bbae98558176530b9198d99d60a"
+    );
+  });
+
+  it("ignores whitespace and letter case", async () => {
+    const hash = await hashNik("3201234567890001");
+    expect(await hashNik(" 3201 2345 6789 0001 ")).toBe(hash);
+    expect(await hashNik("a1b2c3")).toBe(await hashNik("A1B2C3"));
+    expect(await hashNik("3201234567890002")).not.toBe(hash);
+  });
+});
+
+describe("formatPatientId", () => {
+  it("pads the on-chain ID to six digits", () => {
+    expect(formatPatientId(42)).toBe("MC-000042");
+    expect(formatPatientId(BigInt(1234567))).toBe("MC-1234567");
+  });
+});
+
+describe("buildDirectoryMessage", () => {
+  it("signs the lowercased wallet, the NIK hash and the issue time", () => {
+    expect(buildDirectoryMessage("0xABCDEF0000000000000000000000000000000001", "0x1234", 1760000000)).toBe(
+      "MediChain patient directory\n\nWallet: 0xabcdef0000000000000000000000000000000001\nNIK hash: 0x1234\nIssued: 1760000000"
+    );
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Patient Directory Service
+ * Lets hospitals find a patient's wallet from their NIK or Medichain patient ID without
+ * any plaintext PHI leaving the patient device. Patients publish a hashed NIK
+ * (signed by their wallet) to /api/patients/directory; patient IDs resolve on-chain.
+ */
+
+import { type Account } from "thirdweb/wallets";
+
+const NIK_HASH_DOMAIN = "medichain-nik-v1";
+const PUBLISHED_MARKER_KEY = "medichain_directory_published";
+
+/**
+ * Directory lookup result (wallet and registration status only). `disputed` is set when
+ * more than one wallet's on-chain profile lists the NIK; the wallet must then be confirmed
+ * from the patient's QR.
+ */
+export interface DirectoryMatch {
+  walletAddress: string;
+  patientId: number | null;
+  isRegistered: boolean;
+  disputed?: boolean;
+}
+
+/**
+ * A lookup that reached the directory has `patient` (null when nobody matches); one that
+ * failed has `error`
+ */
+export interface DirectoryLookupResult {
+  success: boolean;
+  patient: DirectoryMatch | null;
+  error?: string;
+}
+
+/**
+ * Domain-separated SHA-256 of a NIK. The server keys its directory on an HMAC of this
+ * value, so a leaked directory cannot be brute-forced without the server secret.
+ */
+export async function hashNik(nik: string): Promise<`0x${string}`> {
+  const normalized = nik.replace(/\s/g, "").toUpperCase();
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${NIK_HASH_DOMAIN}:${normalized}`)
+  );
+  return `0x${Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Display form of an on-chain patient ID (e.g. MC-000042)
+ */
+export function formatPatientId(patientId: number | bigint): string {
+  return `MC-${patientId.toString().padStart(6, "0")}`;
+}
+
+/**
+ * Message the patient signs to publish (or move) their directory entry
+ */
+export function buildDirectoryMessage(address: string, nikHash: string, issuedAt: number): string {
+  return `MediChain patient directory\n\nWallet: ${address.toLowerCase()}\nNIK hash: ${nikHash}\nIssued: ${issuedAt}`;
+}
+
+/**
+ * Look up a patient by Medichain patient ID ("MC-42", "#42" or a short number) or NIK
+ */
+export async function lookupPatient(query: string): Promise<DirectoryLookupResult> {
+  const cleanQuery = query.trim();
+  const idMatch = cleanQuery.match(/^(?:MC-?|#)(\d{1,12})$/i) ?? cleanQuery.match(/^(\d{1,8})$/);
+  let params: string;
+
+  if (idMatch) {
+    params = `patientId=${Number(idMatch[1])}`;
+  } else if (/^[a-zA-Z0-9\s]{6,}$/.test(cleanQuery)) {
+    params = `nikHash=${await hashNik(cleanQuery)}`;
+  } else {
+    return { success: true, patient: null };
+  }
+
+  try {
+    const response = await fetch(`/api/patients/directory?${params}`);
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Directory lookup failed: ${response.status}`);
+    }
+
+    const result = await response.json();
+    return { success: true, patient: result.patient ?? null };
+  } catch (error) {
+    console.error("Error looking up patient:", error);
+    return {
+      success: false,
+      patient: null,
+      error: error instanceof Error ? error.message : "Failed to search the patient directory",
+    };
+  }
+}
+
+/**
+ * Publish the patient's NIK hash so hospitals can find their wallet
+ */
+export async function publishDirectoryEntry(
+  account: Account,
+  nik: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const nikHash = await hashNik(nik);
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const signature = await account.signMessage({
+      message: buildDirectoryMessage(account.address, nikHash, issuedAt),
+    });
+
+    const response = await fetch("/api/patients/directory", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        address: account.address,
+        nikHash,
+        issuedAt,
+        signature,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Directory update failed: ${response.status}`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error publishing directory entry:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to publish directory entry",
+    };
+  }
+}
+
+/**
+ * Publish the directory entry once per wallet and NIK (remembered on this device)
+ */
+export async function ensureDirectoryEntry(
+  account: Account,
+  nik: string
+): Promise<{ success: boolean; error?: string }> {
+  const nikHash = await hashNik(nik);
+  const markerKey = `${PUBLISHED_MARKER_KEY}_${account.address.toLowerCase()}`;
+  if (localStorage.getItem(markerKey) === nikHash) {
+    return { success: true };
+  }
+
+  const result = await publishDirectoryEntry(account, nik);
+  if (result.success) {
+    localStorage.setItem(markerKey, nikHash);
+  }
+  return result;
+}
@@ -0,0 +1,431 @@
+/**
+ * Encryption Service for Medichain
+ * Envelope encryption for medical records: every record is encrypted with a random
+ * AES-GCM data key, and that key is wrapped (ECDH P-256 + HKDF + AES-GCM) to each
+ * party allowed to read it. Patients and hospitals hold their own ECDH keypair.
+ */
+
+import { type Account } from "thirdweb/wallets";
+import { isErc6492Signature, parseErc6492Signature, type Hex } from "viem";
+import { getStoredKeyPair, saveStoredKeyPair } from "@/lib/keyStorage";
+
+const WRAP_INFO = "medichain-record-key-wrap-v1";
+const BACKUP_INFO = "medichain-key-backup-v1";
+
+/**
+ * Message signed (locally, never sent) to derive the key that protects the private key backup
+ */
+const KEY_BACKUP_MESSAGE =
+  "MediChain encryption key backup\n\nSigning this message unlocks your medical record encryption key. Only sign it inside the MediChain app.";
+
+/**
+ * Data key wrapped to a single reader
+ */
+export interface WrappedKey {
+  recipient: string; // lowercase wallet address
+  ephemeralPublicKey: string; // base64 raw P-256 public key
+  iv: string;
+  wrappedKey: string;
+}
+
+/**
+ * Public key entry in the key directory (/api/keys)
+ */
+export interface PublishedEncryptionKey {
+  address: string;
+  publicKey: string;
+  encryptedPrivateKey: string; // private key JWK encrypted with the signature-derived backup key
+  backupIv: string;
+  createdAt: number;
+}
+
+/**
+ * Record data keys re-wrapped to a hospital after the patient approved access.
+ * Served by /api/keys/grants only while the on-chain permission is active.
+ */
+export interface KeyGrant {
+  patient: string;
+  recipient: string;
+  expiresAt: number; // 0 = until revoked (mirrors the on-chain permission)
+  keys: Record<string, WrappedKey>; // ipfsCid -> data key wrapped to recipient
+  updatedAt: number;
+}
+
+// ============ ENCODING HELPERS ============
+
+/**
+ * Convert ArrayBuffer to Base64 string
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Convert Base64 string to ArrayBuffer
+ */
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+// ============ SYMMETRIC ENCRYPTION ============
+
+/**
+ * Encrypt data using AES-GCM
+ */
+export async function encryptData(data: string, key: CryptoKey): Promise<{ encrypted: string; iv: string }> {
+  const encoder = new TextEncoder();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+
+  const encryptedBuffer = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    encoder.encode(data)
+  );
+
+  return {
+    encrypted: arrayBufferToBase64(encryptedBuffer),
+    iv: arrayBufferToBase64(iv.buffer)
+  };
+}
+
+/**
+ * Decrypt data using AES-GCM
+ */
+export async function decryptData(encryptedData: string, iv: string, key: CryptoKey): Promise<string> {
+  const decoder = new TextDecoder();
+
+  const decryptedBuffer = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: base64ToArrayBuffer(iv) },
+    key,
+    base64ToArrayBuffer(encryptedData)
+  );
+
+  return decoder.decode(decryptedBuffer);
+}
+
+/**
+ * Generate a random per-record data key
+ */
+export async function generateDataKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey(
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"]
+  );
+}
+
+// ============ KEY WRAPPING ============
+
+/**
+ * Derive the AES key used to wrap a data key from an ECDH shared secret
+ */
+async function deriveWrappingKey(privateKey: CryptoKey, publicKey: CryptoKey): Promise<CryptoKey> {
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: "ECDH", public: publicKey },
+    privateKey,
+    256
+  );
+
+  const hkdfKey = await crypto.subtle.importKey("raw", sharedSecret, "HKDF", false, ["deriveKey"]);
+
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(32),
+      info: new TextEncoder().encode(WRAP_INFO),
+    },
+    hkdfKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+function importPublicKey(publicKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    base64ToArrayBuffer(publicKey),
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    []
+  );
+}
+
+function importPrivateKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "jwk",
+    jwk,
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    ["deriveBits"]
+  );
+}
+
+/**
+ * Wrap a data key to a recipient's public key (ephemeral-static ECDH)
+ */
+export async function wrapDataKey(
+  dataKey: CryptoKey,
+  recipient: string,
+  recipientPublicKey: string
+): Promise<WrappedKey> {
+  const ephemeral = await crypto.subtle.generateKey(
+    { name: "ECDH", namedCurve: "P-256" },
+    true,
+    ["deriveBits"]
+  );
+
+  const wrappingKey = await deriveWrappingKey(ephemeral.privateKey, await importPublicKey(recipientPublicKey));
+  const rawDataKey = await crypto.subtle.exportKey("raw", dataKey);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrapped = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, wrappingKey, rawDataKey);
+
+  return {
+    recipient: recipient.toLowerCase(),
+    ephemeralPublicKey: arrayBufferToBase64(await crypto.subtle.exportKey("raw", ephemeral.publicKey)),
+    iv: arrayBufferToBase64(iv.buffer),
+    wrappedKey: arrayBufferToBase64(wrapped),
+  };
+}
+
+/**
+ * Unwrap a data key with the recipient's private key
+ */
+export async function unwrapDataKey(wrapped: WrappedKey, privateKey: CryptoKey): Promise<CryptoKey> {
+  const wrappingKey = await deriveWrappingKey(privateKey, await importPublicKey(wrapped.ephemeralPublicKey));
+
+  const rawDataKey = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: base64ToArrayBuffer(wrapped.iv) },
+    wrappingKey,
+    base64ToArrayBuffer(wrapped.wrappedKey)
+  );
+
+  return crypto.subtle.importKey("raw", rawDataKey, { name: "AES-GCM" }, true, ["encrypt", "decrypt"]);
+}
+
+// ============ KEY DIRECTORY ============
+
+/**
+ * Message the owner signs to publish a public key (verified server-side)
+ */
+export function buildKeyRegistrationMessage(address: string, publicKey: string): string {
+  return `MediChain encryption key registration\n\nWallet: ${address.toLowerCase()}\nPublic key: ${publicKey}`;
+}
+
+/**
+ * SHA-256 digest of a set of wrapped keys (bound into the grant signature)
+ */
+export async function digestWrappedKeys(keys: Record<string, WrappedKey>): Promise<string> {
+  const sortedCids = Object.keys(keys).sort();
+  const canonical = JSON.stringify(sortedCids.map((cid) => [cid, keys[cid]]));
+  const hash = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonical));
+  return arrayBufferToBase64(hash);
+}
+
+/**
+ * Message the patient signs to store re-wrapped record keys for a hospital
+ */
+export function buildKeyGrantMessage(
+  patient: string,
+  recipient: string,
+  expiresAt: number,
+  digest: string,
+  issuedAt: number
+): string {
+  return `MediChain record key grant\n\nPatient: ${patient.toLowerCase()}\nRecipient: ${recipient.toLowerCase()}\nExpires: ${expiresAt}\nKeys: ${digest}\nIssued: ${issuedAt}`;
+}
+
+/**
+ * Message the patient signs to delete a hospital's record key grant
+ */
+export function buildKeyRevokeMessage(patient: string, recipient: string, issuedAt: number): string {
+  return `MediChain record key revocation\n\nPatient: ${patient.toLowerCase()}\nRecipient: ${recipient.toLowerCase()}\nIssued: ${issuedAt}`;
+}
+
+/**
+ * Look up a published encryption key
+ */
+export async function getPublishedKey(address: string): Promise<PublishedEncryptionKey | null> {
+  try {
+    const response = await fetch(`/api/keys?address=${address.toLowerCase()}`);
+    if (!response.ok) return null;
+
+    const result = await response.json();
+    return (result.key as PublishedEncryptionKey) ?? null;
+  } catch (error) {
+    console.error("Error fetching published key:", error);
+    return null;
+  }
+}
+
+/**
+ * Get this device's private key for an address (null if the key is not on this device)
+ */
+export async function getPrivateKey(address: string): Promise<CryptoKey | null> {
+  const stored = getStoredKeyPair(address);
+  if (!stored) return null;
+
+  try {
+    return await importPrivateKey(stored.privateKey);
+  } catch (error) {
+    console.error("Error importing private key:", error);
+    return null;
+  }
+}
+
+/**
+ * Sign the backup message, keeping only the part of the signature that stays the same
+ * across sessions. A smart account that isn't deployed yet wraps its signature for
+ * ERC-6492 and drops the wrapper once deployed, so only the inner signature is stable.
+ * Returns the stable signature first, then the signature as signed if it differs.
+ */
+async function signBackupMessage(account: Account): Promise<string[]> {
+  const signature = (await account.signMessage({ message: KEY_BACKUP_MESSAGE })) as Hex;
+  const stable = isErc6492Signature(signature) ? parseErc6492Signature(signature).signature : signature;
+  return [...new Set([stable.toLowerCase(), signature.toLowerCase()])];
+}
+
+/**
+ * Derive the key that encrypts the private key backup from a backup message signature
+ */
+async function deriveBackupKey(account: Account, signature: string): Promise<CryptoKey> {
+  const signatureBytes = new TextEncoder().encode(signature);
+  const hkdfKey = await crypto.subtle.importKey("raw", signatureBytes, "HKDF", false, ["deriveKey"]);
+
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new TextEncoder().encode(account.address.toLowerCase()),
+      info: new TextEncoder().encode(BACKUP_INFO),
+    },
+    hkdfKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Make sure the connected wallet has an encryption keypair on this device and in the directory.
+ * - Existing device key matching the directory: nothing to do
+ * - Directory key but none on this device: restore from the signature-protected backup
+ * - No key anywhere: generate a new keypair and publish it
+ */
+export async function ensureEncryptionKey(
+  account: Account
+): Promise<{ success: boolean; publicKey?: string; error?: string }> {
+  const address = account.address.toLowerCase();
+
+  try {
+    const local = getStoredKeyPair(address);
+    const published = await getPublishedKey(address);
+
+    if (published) {
+      if (local && local.publicKey === published.publicKey) {
+        return { success: true, publicKey: local.publicKey };
+      }
+
+      // Restore the published key on this device
+      try {
+        // Backups published before the ERC-6492 wrapper was stripped were derived from the full signature
+        let jwk: JsonWebKey | null = null;
+        for (const signature of await signBackupMessage(account)) {
+          const backupKey = await deriveBackupKey(account, signature);
+          try {
+            jwk = JSON.parse(await decryptData(published.encryptedPrivateKey, published.backupIv, backupKey));
+            break;
+          } catch {
+            // Try the next form of the signature
+          }
+        }
+        if (!jwk) throw new Error("Backup could not be decrypted with this wallet's signature");
+
+        saveStoredKeyPair({
+          address,
+          publicKey: published.publicKey,
+          privateKey: jwk,
+          createdAt: published.createdAt,
+        });
+        return { success: true, publicKey: published.publicKey };
+      } catch (error) {
+        console.error("Error restoring encryption key:", error);
+        return {
+          success: false,
+          error: "Could not restore your encryption key on this device. Use the wallet you registered it with.",
+        };
+      }
+    }
+
+    // Reuse a device key that was never published, otherwise create one
+    let keyPair = local;
+    if (!keyPair) {
+      const generated = await crypto.subtle.generateKey(
+        { name: "ECDH", namedCurve: "P-256" },
+        true,
+        ["deriveBits"]
+      );
+      keyPair = {
+        address,
+        publicKey: arrayBufferToBase64(await crypto.subtle.exportKey("raw", generated.publicKey)),
+        privateKey: await crypto.subtle.exportKey("jwk", generated.privateKey),
+        createdAt: Math.floor(Date.now() / 1000),
+      };
+    }
+
+    // A backup only this exact signature opens would be lost with the next one, so a wallet
+    // must sign the same way twice before its key is published
+    const [backupSignature] = await signBackupMessage(account);
+    if ((await signBackupMessage(account))[0] !== backupSignature) {
+      throw new Error(
+        "Your wallet produces a different signature each time, so it cannot protect an encryption key backup. Connect with another wallet."
+      );
+    }
+
+    const backupKey = await deriveBackupKey(account, backupSignature);
+    const { encrypted, iv } = await encryptData(JSON.stringify(keyPair.privateKey), backupKey);
+    const signature = await account.signMessage({
+      message: buildKeyRegistrationMessage(address, keyPair.publicKey),
+    });
+
+    const response = await fetch("/api/keys", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        address,
+        publicKey: keyPair.publicKey,
+        encryptedPrivateKey: encrypted,
+        backupIv: iv,
+        createdAt: keyPair.createdAt,
+        signature,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Key registration failed: ${response.status}`);
+    }
+
+    saveStoredKeyPair(keyPair);
+    return { success: true, publicKey: keyPair.publicKey };
+  } catch (error) {
+    console.error("Error setting up encryption key:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to set up encryption key",
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { MEDICAL_RECORD_NUMBER_SYSTEM, parseFhirImport } from "@/lib/services/fhir";
+
+const ICD10_SYSTEM = "http://hl7.org/fhir/sid/icd-10";
+
+const encounter = (id: string) => ({
+  fullUrl: `urn:uuid:${id}`,
+  resource: {
+    resourceType: "Encounter",
+    id,
+    identifier: [{ system: MEDICAL_RECORD_NUMBER_SYSTEM, value: `RM-${id}` }],
+    period: { start: "2026-03-01T08:00:00+07:00", end: "2026-03-04T10:00:00+07:00" },
+    participant: [{ individual: { display: "dr. Sari" } }],
+    reasonCode: [{ text: "Fever" }],
+    hospitalization: { dischargeDisposition: { text: "Improved" } },
+  },
+});
+
+const condition = (encounterRef: string, code: string, display: string, note?: string) => ({
+  resource: {
+    resourceType: "Condition",
+    encounter: { reference: encounterRef },
+    code: { coding: [{ system: ICD10_SYSTEM, code, display }] },
+    ...(note && { note: [{ text: note }] }),
+  },
+});
+
+const bundle = (...entry: unknown[]) => ({ resourceType: "Bundle", type: "collection", entry });
+
+describe("parseFhirImport", () => {
+  it("maps an encounter and its resources onto one record", () => {
+    const result = parseFhirImport(
+      bundle(
+        encounter("e1"),
+        condition("urn:uuid:e1", "A01.0", "Typhoid fever"),
+        condition("Encounter/e1", "R50.9", "Fever, unspecified", "secondary diagnosis"),
+        {
+          resource: {
+            resourceType: "MedicationRequest",
+            encounter: { reference: "Encounter/e1" },
+            medicationCodeableConcept: { text: "Ciprofloxacin 500 mg" },
+            dosageInstruction: [{ text: "2x1" }],
+          },
+        },
+        { resource: { resourceType: "Procedure", encounter: { reference: "Encounter/e1" }, code: { text: "Blood culture" } } }
+      )
+    );
+
+    expect(result.error).toBeUndefined();
+    expect(result.records).toHaveLength(1);
+    const [{ record, icdValid, warnings }] = result.records;
+    expect(record).toMatchObject({
+      noRekamMedik: "RM-e1",
+      tanggalMasuk: "2026-03-01",
+      tanggalKeluar: "2026-03-04",
+      diagnosisUtama: "Typhoid fever",
+      icdCode: "A01.0",
+      diagnosisSekunder: "Fever, unspecified (R50.9)",
+      keluhan: "Fever",
+      tindakan: "Blood culture",
+      resepObat: "Ciprofloxacin 500 mg - 2x1",
+      keadaanKeluar: "membaik",
+      dokterPenanggungJawab: "dr. Sari",
+    });
+    expect(icdValid).toBe(true);
+    expect(warnings).toEqual([]);
+  });
+
+  it("creates one record per encounter and copies patient-level allergies onto each", () => {
+    const result = parseFhirImport(
+      bundle(
+        encounter("e1"),
+        encounter("e2"),
+        condition("Encounter/e1", "J18.9", "Pneumonia, unspecified"),
+        condition("Encounter/e2", "I10", "Essential (primary) hypertension"),
+        { resource: { resourceType: "AllergyIntolerance", code: { text: "Penicillin" } } }
+      )
+    );
+
+    expect(result.records.map((imported) => imported.record.icdCode)).toEqual(["J18.9", "I10"]);
+    expect(result.records.every((imported) => imported.record.riwayatAlergi === "Penicillin")).toBe(true);
+  });
+
+  it("reports resources it cannot place", () => {
+    const result = parseFhirImport(
+      bundle(
+        encounter("e1"),
+        encounter("e2"),
+        { resource: { resourceType: "Observation", status: "final" } },
+        { resource: { resourceType: "Observation", status: "final" } },
+        { resource: { resourceType: "Procedure", code: { text: "X-ray" } } }
+      )
+    );
+
+    expect(result.unmapped).toEqual(["Observation (2)", "Procedure without encounter"]);
+    expect(result.records[0].warnings).toContain("No primary diagnosis found");
+  });
+
+  it("flags codes that are not valid ICD-10", () => {
+    const result = parseFhirImport(bundle(encounter("e1"), condition("Encounter/e1", "12345", "Made up")));
+    expect(result.records[0].icdValid).toBe(false);
+  });
+
+  it("treats resources without any encounter as a single record", () => {
+    const result = parseFhirImport([
+      { resourceType: "Condition", code: { coding: [{ system: ICD10_SYSTEM, code: "K35.8", display: "Acute appendicitis" }] } },
+    ]);
+
+    expect(result.records).toHaveLength(1);
+    expect(result.records[0].record.diagnosisUtama).toBe("Acute appendicitis");
+  });
+
+  it("rejects input that is not FHIR", () => {
+    expect(parseFhirImport({ foo: "bar" }).error).toBe("This file is not a FHIR resource or Bundle.");
+    expect(parseFhirImport(bundle()).error).toBe("No Encounter, Condition or other importable resources found.");
+  });
+});
@@ -0,0 +1,748 @@
+/**
+ * FHIR R4 Service for Medichain
+ * Maps decrypted medical records to a FHIR R4 Bundle (Patient, Encounter, Condition,
+ * Procedure, MedicationStatement, AllergyIntolerance) so they can be handed to any
+ * FHIR-speaking EHR. Typed records map to their own resource (lab results to Observation,
+ * imaging to DiagnosticReport, vaccinations to Immunization). Free-text fields become
+ * CodeableConcept.text; only ICD-10 fields carry a coded value.
+ */
+
+import { type MedicalRecordData } from "@/lib/services/ipfs";
+import { validateIcd10Code } from "@/lib/services/icd10";
+import { RECORD_KINDS, normalizeRecordKind, type RecordKind, type TypedRecordFields } from "@/lib/services/records";
+
+export const ICD10_SYSTEM = "http://hl7.org/fhir/sid/icd-10";
+export const NIK_SYSTEM = "https://fhir.kemkes.go.id/id/nik";
+export const WALLET_SYSTEM = "urn:medichain:wallet";
+export const MEDICAL_RECORD_NUMBER_SYSTEM = "urn:medichain:medical-record-number";
+export const IPFS_CID_SYSTEM = "urn:medichain:ipfs-cid";
+
+const LOINC_SYSTEM = "http://loinc.org";
+const ACT_CODE_SYSTEM = "http://terminology.hl7.org/CodeSystem/v3-ActCode";
+const CONDITION_CATEGORY_SYSTEM = "http://terminology.hl7.org/CodeSystem/condition-category";
+const ALLERGY_CLINICAL_SYSTEM = "http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical";
+const OBSERVATION_CATEGORY_SYSTEM = "http://terminology.hl7.org/CodeSystem/observation-category";
+const DIAGNOSTIC_SERVICE_SYSTEM = "http://terminology.hl7.org/CodeSystem/v2-0074";
+
+// keadaanKeluar values used by the hospital form
+export const DISCHARGE_DISPOSITIONS: Record<string, string> = {
+  sembuh: "Recovered",
+  membaik: "Improved",
+  belumSembuh: "Not recovered",
+  meninggal: "Deceased",
+};
+
+// Allergy answers that mean "no known allergies"
+const NO_ALLERGY_VALUES = ["", "-", "none", "nil", "no", "tidak ada", "nka", "nkda"];
+
+/**
+ * Minimal FHIR R4 shapes (only what Medichain reads and writes)
+ */
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirReference {
+  reference?: string;
+  display?: string;
+  identifier?: { system?: string; value?: string };
+}
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [key: string]: unknown;
+}
+
+export interface FhirBundleEntry {
+  fullUrl?: string;
+  resource?: FhirResource;
+}
+
+export interface FhirBundle {
+  resourceType: "Bundle";
+  id?: string;
+  type: string;
+  timestamp?: string;
+  entry?: FhirBundleEntry[];
+}
+
+/**
+ * Patient demographics exported alongside the records
+ */
+export interface FhirPatientInput {
+  name: string;
+  nik: string;
+  gender: string;
+  bloodType: string;
+  walletAddress: string;
+}
+
+/**
+ * A decrypted record plus the on-chain reference it came from
+ */
+export type FhirRecordInput = Omit<MedicalRecordData, "patientAddress" | "recordType"> & {
+  ipfsCid: string;
+  recordType?: string;
+};
+
+const newFullUrl = () => `urn:uuid:${crypto.randomUUID()}`;
+
+/**
+ * Normalize a stored date (ISO or locale string) to a FHIR date, falling back to the record timestamp
+ */
+function toFhirDate(value: string, fallbackTimestamp: number): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const parsed = value ? Date.parse(value) : NaN;
+  const date = Number.isNaN(parsed) ? new Date(fallbackTimestamp * 1000) : new Date(parsed);
+  return date.toISOString().slice(0, 10);
+}
+
+function toFhirGender(gender: string): string {
+  const value = gender.toLowerCase();
+  if (value === "male" || value === "laki-laki") return "male";
+  if (value === "female" || value === "perempuan") return "female";
+  return "unknown";
+}
+
+// Prescriptions are free text, one medication per line or semicolon
+function splitMedications(resepObat: string): string[] {
+  return resepObat
+    .split(/\n|;/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export function hasAllergy(riwayatAlergi: string): boolean {
+  return !NO_ALLERGY_VALUES.includes(riwayatAlergi.trim().toLowerCase());
+}
+
+function buildPatientResource(patient: FhirPatientInput): FhirResource {
+  const identifier = [{ system: WALLET_SYSTEM, value: patient.walletAddress.toLowerCase() }];
+  if (patient.nik) identifier.unshift({ system: NIK_SYSTEM, value: patient.nik });
+
+  return {
+    resourceType: "Patient",
+    identifier,
+    name: [{ text: patient.name }],
+    gender: toFhirGender(patient.gender),
+  };
+}
+
+function buildBloodTypeObservation(patientUrl: string, bloodType: string): FhirResource {
+  return {
+    resourceType: "Observation",
+    status: "final",
+    code: {
+      coding: [{ system: LOINC_SYSTEM, code: "882-1", display: "ABO and Rh group [Type] in Blood" }],
+      text: "Blood type",
+    },
+    subject: { reference: patientUrl },
+    valueString: bloodType,
+  };
+}
+
+/**
+ * Resources for one record: Encounter plus whatever clinical data it holds
+ */
+function buildRecordEntries(patientUrl: string, record: FhirRecordInput): FhirBundleEntry[] {
+  const encounterUrl = newFullUrl();
+  const start = toFhirDate(record.tanggalMasuk, record.timestamp);
+  const end = record.tanggalKeluar ? toFhirDate(record.tanggalKeluar, record.timestamp) : undefined;
+  const subject = { reference: patientUrl };
+  const encounter = { reference: encounterUrl };
+  const hospital: FhirReference = {
+    display: record.hospitalName,
+    identifier: { system: WALLET_SYSTEM, value: record.hospitalAddress.toLowerCase() },
+  };
+
+  const entries: FhirBundleEntry[] = [
+    {
+      fullUrl: encounterUrl,
+      resource: {
+        resourceType: "Encounter",
+        identifier: [
+          { system: MEDICAL_RECORD_NUMBER_SYSTEM, value: record.noRekamMedik },
+          { system: IPFS_CID_SYSTEM, value: record.ipfsCid },
+        ],
+        status: "finished",
+        class: end && end !== start
+          ? { system: ACT_CODE_SYSTEM, code: "IMP", display: "inpatient encounter" }
+          : { system: ACT_CODE_SYSTEM, code: "AMB", display: "ambulatory" },
+        subject,
+        period: end ? { start, end } : { start },
+        serviceProvider: hospital,
+        ...(record.dokterPenanggungJawab && {
+          participant: [{ individual: { display: record.dokterPenanggungJawab } }],
+        }),
+        ...(record.keluhan && { reasonCode: [{ text: record.keluhan }] }),
+        ...(DISCHARGE_DISPOSITIONS[record.keadaanKeluar] && {
+          hospitalization: {
+            dischargeDisposition: { text: DISCHARGE_DISPOSITIONS[record.keadaanKeluar] },
+          },
+        }),
+      },
+    },
+  ];
+
+  const category = [{
+    coding: [{ system: CONDITION_CATEGORY_SYSTEM, code: "encounter-diagnosis", display: "Encounter Diagnosis" }],
+  }];
+
+  if (record.diagnosisUtama || record.icdCode) {
+    entries.push({
+      fullUrl: newFullUrl(),
+      resource: {
+        resourceType: "Condition",
+        category,
+        code: {
+          ...(record.icdCode && {
+            coding: [{ system: ICD10_SYSTEM, code: record.icdCode, display: record.diagnosisUtama || undefined }],
+          }),
+          text: record.diagnosisUtama || record.icdCode,
+        },
+        subject,
+        encounter,
+        recordedDate: start,
+        ...(record.dokterPenanggungJawab && { recorder: { display: record.dokterPenanggungJawab } }),
+      },
+    });
+  }
+
+  if (record.diagnosisSekunder) {
+    entries.push({
+      fullUrl: newFullUrl(),
+      resource: {
+        resourceType: "Condition",
+        category,
+        code: { text: record.diagnosisSekunder },
+        subject,
+        encounter,
+        recordedDate: start,
+        note: [{ text: "Secondary diagnosis" }],
+      },
+    });
+  }
+
+  if (record.tindakan) {
+    entries.push({
+      fullUrl: newFullUrl(),
+      resource: {
+        resourceType: "Procedure",
+        status: "completed",
+        code: { text: record.tindakan },
+        subject,
+        encounter,
+        performedDateTime: start,
+        ...(record.dokterPenanggungJawab && {
+          performer: [{ actor: { display: record.dokterPenanggungJawab } }],
+        }),
+      },
+    });
+  }
+
+  for (const medication of splitMedications(record.resepObat)) {
+    entries.push({
+      fullUrl: newFullUrl(),
+      resource: {
+        resourceType: "MedicationStatement",
+        status: "active",
+        medicationCodeableConcept: { text: medication },
+        subject,
+        context: encounter,
+        effectiveDateTime: start,
+        informationSource: hospital,
+      },
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * ICD-10 coded concept from a typed record's ICD-10 field, with free text as the fallback
+ */
+function typedReasonCode(fields: TypedRecordFields, text: string): FhirCodeableConcept[] | undefined {
+  const icdCode = fields.icdCode?.trim() ?? "";
+  if (!icdCode && !text) return undefined;
+  return [{
+    ...(icdCode && { coding: [{ system: ICD10_SYSTEM, code: icdCode, display: text || undefined }] }),
+    text: text || icdCode,
+  }];
+}
+
+/**
+ * Resources for one typed (non-diagnosis) record. Typed records have no visit, so they
+ * carry the IPFS CID themselves instead of through an Encounter.
+ */
+function buildTypedRecordEntries(
+  patientUrl: string,
+  record: FhirRecordInput,
+  kind: Exclude<RecordKind, "DIAGNOSIS">,
+  fields: TypedRecordFields
+): FhirBundleEntry[] {
+  const value = (key: string) => fields[key]?.trim() ?? "";
+  const date = toFhirDate(value(RECORD_KINDS[kind].dateField), record.timestamp);
+  const clinician = value(RECORD_KINDS[kind].clinicianField);
+  const subject = { reference: patientUrl };
+  const identifier = [{ system: IPFS_CID_SYSTEM, value: record.ipfsCid }];
+  const hospital: FhirReference = {
+    display: record.hospitalName,
+    identifier: { system: WALLET_SYSTEM, value: record.hospitalAddress.toLowerCase() },
+  };
+  const notes = (...lines: [string, string][]) => {
+    const note = lines.filter(([, text]) => text).map(([label, text]) => ({ text: `${label}: ${text}` }));
+    return note.length > 0 ? { note } : {};
+  };
+
+  switch (kind) {
+    case "PRESCRIPTION":
+      return splitMedications(value("medications")).map((medication) => ({
+        fullUrl: newFullUrl(),
+        resource: {
+          resourceType: "MedicationStatement",
+          identifier,
+          status: "active",
+          medicationCodeableConcept: { text: medication },
+          subject,
+          effectiveDateTime: date,
+          dateAsserted: date,
+          informationSource: clinician ? { display: clinician } : hospital,
+          ...(typedReasonCode(fields, value("indication")) && {
+            reasonCode: typedReasonCode(fields, value("indication")),
+          }),
+          ...(value("instructions") && { dosage: [{ text: value("instructions") }] }),
+        },
+      }));
+
+    case "PROCEDURE":
+      return [{
+        fullUrl: newFullUrl(),
+        resource: {
+          resourceType: "Procedure",
+          identifier,
+          status: "completed",
+          code: { text: value("procedureName") },
+          subject,
+          performedDateTime: date,
+          performer: [
+            ...(clinician ? [{ actor: { display: clinician } }] : []),
+            { actor: hospital },
+          ],
+          ...(typedReasonCode(fields, value("indication")) && {
+            reasonCode: typedReasonCode(fields, value("indication")),
+          }),
+          ...(value("complications") && { complication: [{ text: value("complications") }] }),
+          ...notes(["Description", value("description")], ["Anesthesia", value("anesthesia")]),
+        },
+      }];
+
+    case "LAB_RESULT":
+      return [{
+        fullUrl: newFullUrl(),
+        resource: {
+          resourceType: "Observation",
+          identifier,
+          status: "final",
+          category: [{
+            coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: "laboratory", display: "Laboratory" }],
+          }],
+          code: { text: value("testName") },
+          subject,
+          effectiveDateTime: date,
+          performer: [hospital],
+          valueString: value("results"),
+          ...(value("interpretation") && { interpretation: [{ text: value("interpretation") }] }),
+          ...notes(
+            ["Specimen", value("specimen")],
+            ["Ordered by", clinician],
+            ["Related ICD-10", value("icdCode")],
+            ["Notes", value("notes")]
+          ),
+        },
+      }];
+
+    case "IMAGING": {
+      const findingsUrl = newFullUrl();
+      const title = [value("modality"), value("bodyPart")].filter(Boolean).join(" ");
+      return [
+        {
+          fullUrl: findingsUrl,
+          resource: {
+            resourceType: "Observation",
+            status: "final",
+            category: [{
+              coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: "imaging", display: "Imaging" }],
+            }],
+            code: { text: `${title} findings` },
+            subject,
+            effectiveDateTime: date,
+            valueString: value("findings"),
+          },
+        },
+        {
+          fullUrl: newFullUrl(),
+          resource: {
+            resourceType: "DiagnosticReport",
+            identifier,
+            status: "final",
+            category: [{ coding: [{ system: DIAGNOSTIC_SERVICE_SYSTEM, code: "RAD", display: "Radiology" }] }],
+            code: { text: title },
+            subject,
+            effectiveDateTime: date,
+            performer: [hospital],
+            ...(clinician && { resultsInterpreter: [{ display: clinician }] }),
+            result: [{ reference: findingsUrl }],
+            conclusion: value("impression"),
+            ...(value("icdCode") && {
+              conclusionCode: [{ coding: [{ system: ICD10_SYSTEM, code: value("icdCode") }], text: value("icdCode") }],
+            }),
+          },
+        },
+      ];
+    }
+
+    case "VACCINATION":
+      return [{
+        fullUrl: newFullUrl(),
+        resource: {
+          resourceType: "Immunization",
+          identifier,
+          status: "completed",
+          vaccineCode: { text: value("vaccine") },
+          patient: subject,
+          occurrenceDateTime: date,
+          ...(value("lotNumber") && { lotNumber: value("lotNumber") }),
+          ...(value("site") && { site: { text: value("site") } }),
+          performer: [
+            ...(clinician ? [{ actor: { display: clinician } }] : []),
+            { actor: hospital },
+          ],
+          ...(value("doseNumber") && { protocolApplied: [{ doseNumberString: value("doseNumber") }] }),
+          ...notes(["Next dose due", value("nextDoseDue")]),
+        },
+      }];
+  }
+}
+
+/**
+ * Build a FHIR R4 collection Bundle from a patient's decrypted records
+ */
+export function buildFhirBundle(patient: FhirPatientInput, records: FhirRecordInput[]): FhirBundle {
+  const patientUrl = newFullUrl();
+  const entry: FhirBundleEntry[] = [{ fullUrl: patientUrl, resource: buildPatientResource(patient) }];
+
+  if (patient.bloodType && patient.bloodType !== "-") {
+    entry.push({ fullUrl: newFullUrl(), resource: buildBloodTypeObservation(patientUrl, patient.bloodType) });
+  }
+
+  const sortedRecords = [...records].sort((a, b) => a.timestamp - b.timestamp);
+  const seenAllergies = new Set<string>();
+
+  for (const record of sortedRecords) {
+    const kind = normalizeRecordKind(record.recordType ?? "DIAGNOSIS");
+    if (kind !== "DIAGNOSIS" && record.fields) {
+      entry.push(...buildTypedRecordEntries(patientUrl, record, kind, record.fields));
+      continue;
+    }
+    entry.push(...buildRecordEntries(patientUrl, record));
+
+    // The same allergy is usually repeated on every visit, export it once
+    const allergy = record.riwayatAlergi.trim();
+    if (hasAllergy(allergy) && !seenAllergies.has(allergy.toLowerCase())) {
+      seenAllergies.add(allergy.toLowerCase());
+      entry.push({
+        fullUrl: newFullUrl(),
+        resource: {
+          resourceType: "AllergyIntolerance",
+          clinicalStatus: { coding: [{ system: ALLERGY_CLINICAL_SYSTEM, code: "active" }] },
+          code: { text: allergy },
+          patient: { reference: patientUrl },
+          recordedDate: toFhirDate(record.tanggalMasuk, record.timestamp),
+        },
+      });
+    }
+  }
+
+  return {
+    resourceType: "Bundle",
+    id: crypto.randomUUID(),
+    type: "collection",
+    timestamp: new Date().toISOString(),
+    entry,
+  };
+}
+
+// ============ IMPORT ============
+
+/**
+ * Hospital form fields a FHIR encounter is mapped onto
+ */
+export interface FhirMappedRecord {
+  noRekamMedik: string;
+  tanggalMasuk: string;
+  tanggalKeluar: string;
+  diagnosisUtama: string;
+  icdCode: string;
+  diagnosisSekunder: string;
+  keluhan: string;
+  riwayatAlergi: string;
+  tindakan: string;
+  resepObat: string;
+  keadaanKeluar: "sembuh" | "membaik" | "belumSembuh" | "meninggal" | "";
+  dokterPenanggungJawab: string;
+}
+
+/**
+ * One importable record plus what could not be carried over
+ */
+export interface FhirImportedRecord {
+  record: FhirMappedRecord;
+  unmapped: string[]; // e.g. "Encounter.location", "Observation (2)"
+  warnings: string[];
+  icdValid: boolean;
+}
+
+export interface FhirImportResult {
+  records: FhirImportedRecord[];
+  unmapped: string[]; // Resources that could not be tied to any record
+  error?: string;
+}
+
+// Fields every resource may carry that have no place in the form and are not worth reporting
+const IGNORED_FIELDS = ["resourceType", "id", "meta", "text", "subject", "patient", "encounter", "context", "status", "category", "clinicalStatus", "verificationStatus", "language", "implicitRules"];
+
+// Fields read by the mapping below, per resource type
+const MAPPED_FIELDS: Record<string, string[]> = {
+  Encounter: ["identifier", "class", "period", "participant", "reasonCode", "hospitalization", "serviceProvider"],
+  Condition: ["code", "recordedDate", "recorder", "onsetDateTime", "note"],
+  Procedure: ["code", "performedDateTime", "performedPeriod", "performer"],
+  MedicationStatement: ["medicationCodeableConcept", "dosage", "effectiveDateTime", "informationSource"],
+  MedicationRequest: ["medicationCodeableConcept", "dosageInstruction", "authoredOn", "requester"],
+  AllergyIntolerance: ["code", "recordedDate"],
+};
+
+const isIcd10System = (system?: string) => !!system && /icd-?10/i.test(system);
+
+const conceptText = (concept?: FhirCodeableConcept): string =>
+  concept?.text || concept?.coding?.find((coding) => coding.display)?.display || concept?.coding?.[0]?.code || "";
+
+const toFormDate = (value: unknown): string =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : "";
+
+const emptyRecord = (): FhirMappedRecord => ({
+  noRekamMedik: "",
+  tanggalMasuk: "",
+  tanggalKeluar: "",
+  diagnosisUtama: "",
+  icdCode: "",
+  diagnosisSekunder: "",
+  keluhan: "",
+  riwayatAlergi: "",
+  tindakan: "",
+  resepObat: "",
+  keadaanKeluar: "",
+  dokterPenanggungJawab: "",
+});
+
+const appendLine = (current: string, value: string, separator = "\n") =>
+  !value ? current : current ? `${current}${separator}${value}` : value;
+
+function toDischargeStatus(concept?: FhirCodeableConcept): FhirMappedRecord["keadaanKeluar"] {
+  const candidates = [concept?.text, ...(concept?.coding ?? []).flatMap((coding) => [coding.code, coding.display])]
+    .filter((value): value is string => !!value)
+    .map((value) => value.toLowerCase());
+
+  for (const [status, label] of Object.entries(DISCHARGE_DISPOSITIONS)) {
+    if (candidates.some((value) => value === status.toLowerCase() || value === label.toLowerCase())) {
+      return status as FhirMappedRecord["keadaanKeluar"];
+    }
+  }
+  if (candidates.some((value) => value === "exp" || value.includes("expired") || value.includes("deceased"))) {
+    return "meninggal";
+  }
+  return "";
+}
+
+/**
+ * Collect the resources from a Bundle, a bare array, or a single resource
+ */
+function collectResources(input: unknown): { resources: FhirBundleEntry[]; error?: string } {
+  const isResource = (value: unknown): value is FhirResource =>
+    !!value && typeof value === "object" && typeof (value as FhirResource).resourceType === "string";
+
+  if (Array.isArray(input)) {
+    return { resources: input.filter(isResource).map((resource) => ({ resource })) };
+  }
+  if (!isResource(input)) {
+    return { resources: [], error: "This file is not a FHIR resource or Bundle." };
+  }
+  if (input.resourceType === "Bundle") {
+    const entries = ((input as unknown as FhirBundle).entry ?? []).filter((entry) => isResource(entry?.resource));
+    return { resources: entries };
+  }
+  return { resources: [{ resource: input }] };
+}
+
+function describeUnmapped(resource: FhirResource): string[] {
+  const mapped = MAPPED_FIELDS[resource.resourceType];
+  if (!mapped) return [];
+  return Object.keys(resource)
+    .filter((key) => !IGNORED_FIELDS.includes(key) && !mapped.includes(key))
+    .map((key) => `${resource.resourceType}.${key}`);
+}
+
+function applyEncounter(target: FhirImportedRecord, encounter: FhirResource) {
+  const identifiers = (encounter.identifier as { system?: string; value?: string }[] | undefined) ?? [];
+  const recordNumber = identifiers.find((identifier) => identifier.system === MEDICAL_RECORD_NUMBER_SYSTEM) ?? identifiers[0];
+  const period = encounter.period as { start?: string; end?: string } | undefined;
+  const participants = (encounter.participant as { individual?: FhirReference }[] | undefined) ?? [];
+  const reasons = (encounter.reasonCode as FhirCodeableConcept[] | undefined) ?? [];
+  const hospitalization = encounter.hospitalization as { dischargeDisposition?: FhirCodeableConcept } | undefined;
+
+  target.record.noRekamMedik = recordNumber?.value ?? "";
+  target.record.tanggalMasuk = toFormDate(period?.start);
+  target.record.tanggalKeluar = toFormDate(period?.end);
+  target.record.dokterPenanggungJawab = participants.find((participant) => participant.individual?.display)?.individual?.display ?? "";
+  target.record.keluhan = reasons.map(conceptText).filter(Boolean).join("; ");
+  target.record.keadaanKeluar = toDischargeStatus(hospitalization?.dischargeDisposition);
+
+  if (hospitalization?.dischargeDisposition && !target.record.keadaanKeluar) {
+    target.warnings.push(`Discharge disposition "${conceptText(hospitalization.dischargeDisposition)}" has no matching discharge status`);
+  }
+}
+
+function applyResource(target: FhirImportedRecord, resource: FhirResource) {
+  const { record } = target;
+
+  switch (resource.resourceType) {
+    case "Condition": {
+      const code = resource.code as FhirCodeableConcept | undefined;
+      const icd = code?.coding?.find((coding) => isIcd10System(coding.system) && coding.code);
+      const text = conceptText(code);
+      const isSecondary = ((resource.note as { text?: string }[] | undefined) ?? [])
+        .some((note) => /secondary/i.test(note.text ?? ""));
+
+      // First ICD-10 coded condition is the primary diagnosis, the rest are secondary
+      if (!isSecondary && !record.icdCode && !record.diagnosisUtama && (icd || text)) {
+        record.diagnosisUtama = icd?.display || text;
+        record.icdCode = icd?.code?.trim().toUpperCase() ?? "";
+        if (!icd && code?.coding?.length) {
+          target.warnings.push(`Primary diagnosis is coded in ${code.coding[0].system ?? "an unknown system"}, not ICD-10`);
+        }
+      } else {
+        record.diagnosisSekunder = appendLine(record.diagnosisSekunder, icd ? `${text} (${icd.code})` : text, "; ");
+      }
+      if (!record.dokterPenanggungJawab) {
+        record.dokterPenanggungJawab = (resource.recorder as FhirReference | undefined)?.display ?? "";
+      }
+      break;
+    }
+    case "Procedure":
+      record.tindakan = appendLine(record.tindakan, conceptText(resource.code as FhirCodeableConcept));
+      break;
+    case "MedicationStatement":
+    case "MedicationRequest": {
+      const dosage = ((resource.dosage ?? resource.dosageInstruction) as { text?: string }[] | undefined)?.[0]?.text;
+      const medication = conceptText(resource.medicationCodeableConcept as FhirCodeableConcept);
+      record.resepObat = appendLine(record.resepObat, dosage ? `${medication} - ${dosage}` : medication);
+      break;
+    }
+    case "AllergyIntolerance":
+      record.riwayatAlergi = appendLine(record.riwayatAlergi, conceptText(resource.code as FhirCodeableConcept), "; ");
+      break;
+  }
+
+  target.unmapped.push(...describeUnmapped(resource));
+}
+
+function finalize(target: FhirImportedRecord): FhirImportedRecord {
+  const { record } = target;
+  if (record.icdCode) {
+    const icd = validateIcd10Code(record.icdCode);
+    record.icdCode = icd.code;
+    target.icdValid = icd.status !== "invalid";
+    if (icd.message) target.warnings.push(icd.message);
+  }
+
+  if (!record.diagnosisUtama) target.warnings.push("No primary diagnosis found");
+  if (!record.keluhan) target.warnings.push("No complaint (Encounter.reasonCode) found");
+  if (!record.dokterPenanggungJawab) target.warnings.push("No attending physician found");
+  if (!record.tanggalMasuk) record.tanggalMasuk = new Date().toISOString().split("T")[0];
+
+  target.unmapped = [...new Set(target.unmapped)];
+  return target;
+}
+
+/**
+ * Map a FHIR R4 Bundle (or a single Encounter/Condition set) to hospital form records.
+ * Every Encounter becomes one record; clinical resources attach through their encounter
+ * reference. Without any Encounter, all resources form a single record.
+ */
+export function parseFhirImport(input: unknown): FhirImportResult {
+  const { resources, error } = collectResources(input);
+  if (error) return { records: [], unmapped: [], error };
+
+  const encounters = resources.filter((entry) => entry.resource?.resourceType === "Encounter");
+  const newTarget = (): FhirImportedRecord => ({ record: emptyRecord(), unmapped: [], warnings: [], icdValid: true });
+
+  // Encounter lookups by fullUrl and by relative reference (Encounter/{id})
+  const targets = new Map<string, FhirImportedRecord>();
+  const orderedTargets: FhirImportedRecord[] = [];
+  for (const entry of encounters) {
+    const target = newTarget();
+    applyEncounter(target, entry.resource!);
+    orderedTargets.push(target);
+    if (entry.fullUrl) targets.set(entry.fullUrl, target);
+    if (entry.resource!.id) targets.set(`Encounter/${entry.resource!.id}`, target);
+  }
+
+  const fallback = orderedTargets.length === 0 ? newTarget() : orderedTargets.length === 1 ? orderedTargets[0] : null;
+  const skippedCounts = new Map<string, number>();
+  const allergies: FhirResource[] = [];
+
+  for (const entry of resources) {
+    const resource = entry.resource!;
+    if (resource.resourceType === "Encounter") {
+      continue;
+    }
+    if (!MAPPED_FIELDS[resource.resourceType]) {
+      skippedCounts.set(resource.resourceType, (skippedCounts.get(resource.resourceType) ?? 0) + 1);
+      continue;
+    }
+    // Allergies belong to the patient, not a visit: copy them onto every record
+    if (resource.resourceType === "AllergyIntolerance" && !resource.encounter) {
+      allergies.push(resource);
+      continue;
+    }
+
+    const reference = ((resource.encounter ?? resource.context) as FhirReference | undefined)?.reference;
+    const target = (reference && targets.get(reference)) || fallback;
+    if (target) {
+      applyResource(target, resource);
+    } else {
+      skippedCounts.set(`${resource.resourceType} without encounter`, (skippedCounts.get(`${resource.resourceType} without encounter`) ?? 0) + 1);
+    }
+  }
+
+  const records = fallback && orderedTargets.length === 0 ? [fallback] : orderedTargets;
+  for (const target of records) {
+    for (const allergy of allergies) applyResource(target, allergy);
+  }
+
+  const unmapped = [...skippedCounts.entries()].map(([type, count]) => (count > 1 ? `${type} (${count})` : type));
+  const nonEmpty = records.filter((target) => Object.values(target.record).some(Boolean));
+
+  if (nonEmpty.length === 0) {
+    return { records: [], unmapped, error: "No Encounter, Condition or other importable resources found." };
+  }
+
+  return { records: nonEmpty.map(finalize), unmapped };
+}
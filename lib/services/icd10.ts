@@ -0,0 +1,147 @@
+/**
+ * ICD-10 Catalogue Service
+ * Lookup, search and validation against the bundled WHO ICD-10 catalogue (lib/data/icd10.json).
+ * The catalogue covers the chapters and the codes in common use, so a well-formed code in a
+ * valid chapter that isn't listed is flagged for review rather than rejected outright.
+ */
+
+import catalogue from "@/lib/data/icd10.json";
+
+// ============ TYPES ============
+
+export interface Icd10Chapter {
+  chapter: string; // Roman numeral (e.g. "X")
+  start: string;
+  end: string;
+  title: string;
+}
+
+export interface Icd10Entry {
+  code: string;
+  description: string;
+  chapter: Icd10Chapter;
+}
+
+export type Icd10Status = "valid" | "unlisted" | "invalid";
+
+export interface Icd10Validation {
+  status: Icd10Status;
+  code: string; // Normalized (e.g. "j209" -> "J20.9")
+  entry?: Icd10Entry; // Exact catalogue match
+  category?: Icd10Entry; // Three-character parent, when the exact code isn't listed
+  chapter?: Icd10Chapter;
+  message?: string;
+}
+
+// ============ CATALOGUE ============
+
+export const ICD10_VERSION = catalogue.version;
+
+const CHAPTERS: Icd10Chapter[] = catalogue.chapters;
+const CODES: Record<string, string> = catalogue.codes;
+
+// WHO ICD-10: letter, two digits, optional one or two digit subdivision
+const ICD10_PATTERN = /^[A-Z][0-9]{2}(\.[0-9]{1,2})?$/;
+
+/**
+ * Canonical form of a code: uppercase, no spaces, dot after the category
+ */
+export function normalizeIcd10Code(code: string): string {
+  const compact = code.replace(/\s/g, "").toUpperCase();
+  if (/^[A-Z][0-9]{2}[0-9]{1,2}$/.test(compact)) {
+    return `${compact.slice(0, 3)}.${compact.slice(3)}`;
+  }
+  return compact;
+}
+
+/**
+ * Chapter a code belongs to, by its three-character category
+ */
+export function getIcd10Chapter(code: string): Icd10Chapter | null {
+  const category = normalizeIcd10Code(code).slice(0, 3);
+  if (!/^[A-Z][0-9]{2}$/.test(category)) return null;
+  return CHAPTERS.find((chapter) => category >= chapter.start && category <= chapter.end) ?? null;
+}
+
+/**
+ * Exact catalogue entry for a code
+ */
+export function lookupIcd10(code: string): Icd10Entry | null {
+  const normalized = normalizeIcd10Code(code);
+  const description = CODES[normalized];
+  const chapter = getIcd10Chapter(normalized);
+  if (!description || !chapter) return null;
+  return { code: normalized, description, chapter };
+}
+
+/**
+ * Validate a code against the catalogue.
+ * invalid: malformed or outside every chapter; unlisted: plausible but not in the catalogue.
+ */
+export function validateIcd10Code(code: string): Icd10Validation {
+  const normalized = normalizeIcd10Code(code);
+
+  if (!ICD10_PATTERN.test(normalized)) {
+    return {
+      status: "invalid",
+      code: normalized,
+      message: `"${code.trim()}" is not a valid ICD-10 code (expected e.g. J20.9)`,
+    };
+  }
+
+  const chapter = getIcd10Chapter(normalized);
+  if (!chapter) {
+    return {
+      status: "invalid",
+      code: normalized,
+      message: `"${normalized}" is outside every ICD-10 chapter`,
+    };
+  }
+
+  const entry = lookupIcd10(normalized);
+  if (entry) {
+    return { status: "valid", code: normalized, entry, chapter };
+  }
+
+  const category = lookupIcd10(normalized.slice(0, 3)) ?? undefined;
+  return {
+    status: "unlisted",
+    code: normalized,
+    category,
+    chapter,
+    message: category
+      ? `"${normalized}" is not in the local catalogue (category ${category.code}: ${category.description})`
+      : `"${normalized}" is not in the local catalogue`,
+  };
+}
+
+/**
+ * Autocomplete over codes and descriptions.
+ * Code-prefix matches rank first, then description matches (word starts before substrings).
+ */
+export function searchIcd10(query: string, limit = 8): Icd10Entry[] {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const codeQuery = normalizeIcd10Code(trimmed);
+  const textQuery = trimmed.toLowerCase();
+  const scored: { code: string; score: number }[] = [];
+
+  for (const [code, description] of Object.entries(CODES)) {
+    const text = description.toLowerCase();
+    let score = -1;
+
+    if (code === codeQuery) score = 0;
+    else if (code.startsWith(codeQuery)) score = 1;
+    else if (text.startsWith(textQuery)) score = 2;
+    else if (text.includes(` ${textQuery}`)) score = 3;
+    else if (textQuery.length >= 3 && text.includes(textQuery)) score = 4;
+
+    if (score >= 0) scored.push({ code, score });
+  }
+
+  return scored
+    .sort((a, b) => a.score - b.score || a.code.localeCompare(b.code))
+    .slice(0, limit)
+    .flatMap(({ code }) => lookupIcd10(code) ?? []);
+}
@@ -0,0 +1,61 @@
+/**
+ * Record Integrity Reports
+ * Checks every on-chain record of a patient, including superseded amendment versions,
+ * against its dataHash and collects the ones that were tampered with or can't be found.
+ */
+
+import { getPatientRecords, type MedicalRecordRef } from "@/lib/services/blockchain";
+import { verifyDataIntegrity, type IntegrityResult, type IntegrityStatus } from "@/lib/services/ipfs";
+import { prefetchIpfsContent } from "@/lib/services/retrieval";
+
+// ============ TYPES ============
+
+export interface IntegrityReportEntry extends IntegrityResult {
+  ref: MedicalRecordRef;
+  index: number; // Position in the patient's on-chain record list
+}
+
+export interface IntegrityReport {
+  patientAddress: string;
+  checkedAt: number;
+  entries: IntegrityReportEntry[];
+  counts: Record<IntegrityStatus, number>;
+}
+
+// ============ VERIFICATION ============
+
+/**
+ * Verify every record of a patient; onProgress receives the number of records checked so far
+ */
+export async function verifyAllRecords(
+  patientAddress: string,
+  readerAddress: string = patientAddress,
+  onProgress?: (checked: number, total: number) => void
+): Promise<IntegrityReport> {
+  const refs = await getPatientRecords(patientAddress);
+  prefetchIpfsContent(refs.map((ref) => ref.ipfsCid));
+
+  const entries: IntegrityReportEntry[] = [];
+  const counts: Record<IntegrityStatus, number> = { verified: 0, mismatch: 0, unavailable: 0 };
+
+  for (let i = 0; i < refs.length; i++) {
+    const result = await verifyDataIntegrity(refs[i].ipfsCid, patientAddress, refs[i].dataHash, readerAddress);
+    entries.push({ ...result, ref: refs[i], index: i });
+    counts[result.status]++;
+    onProgress?.(i + 1, refs.length);
+  }
+
+  return { patientAddress, checkedAt: Date.now(), entries, counts };
+}
+
+/**
+ * Entries that need attention: tampered content first, then missing CIDs, then records this reader can't open
+ */
+export function getIntegrityProblems(report: IntegrityReport): IntegrityReportEntry[] {
+  const rank = (entry: IntegrityReportEntry) =>
+    entry.status === "mismatch" ? 0 : entry.reason === "missing" ? 1 : 2;
+
+  return report.entries
+    .filter((entry) => entry.status !== "verified")
+    .sort((a, b) => rank(a) - rank(b) || a.index - b.index);
+}
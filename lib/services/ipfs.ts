@@ -1,10 +1,38 @@
 /**
  * IPFS Service for Medichain
- * Handles encrypted medical data storage using Pinata
+ * Handles encrypted medical data storage on IPFS (uploads go through the configured storage provider)
  */
 
-// Pinata gateway for reading data (public)
-const PINATA_GATEWAY = process.env.NEXT_PUBLIC_PINATA_GATEWAY || "https://gateway.pinata.cloud/ipfs/";
+import {
+  encryptData,
+  decryptData,
+  generateDataKey,
+  wrapDataKey,
+  unwrapDataKey,
+  getPublishedKey,
+  getPrivateKey,
+  digestWrappedKeys,
+  buildKeyGrantMessage,
+  buildKeyRevokeMessage,
+  type WrappedKey,
+  type KeyGrant,
+} from "@/lib/services/encryption";
+import { checkAccess, getActiveAccessors, getPatientRecords } from "@/lib/services/blockchain";
+import {
+  RECORD_KINDS,
+  normalizeRecordKind,
+  summarizeRecordFields,
+  type RecordKind,
+  type TypedRecordFields,
+} from "@/lib/services/records";
+import {
+  MAX_ATTACHMENTS_PER_RECORD,
+  decryptAttachment,
+  uploadAttachment,
+  type AttachmentRef,
+} from "@/lib/services/attachments";
+import { fetchIpfsContent } from "@/lib/services/retrieval";
+import { type Account } from "thirdweb/wallets";
 
 /**
  * Medical record data structure for IPFS storage
@@ -32,15 +60,51 @@ export interface MedicalRecordData {
   hospitalName: string;
   timestamp: number;
   recordType: string;
+
+  // Set when this record corrects an earlier one (see lib/services/amendments.ts)
+  amends?: RecordAmendment;
+
+  // Typed records (see lib/services/records.ts): the fields above are derived from these
+  schemaVersion?: number;
+  fields?: TypedRecordFields;
+
+  // Encrypted files stored with the record (see lib/services/attachments.ts)
+  attachments?: AttachmentRef[];
+}
+
+/**
+ * Non-diagnosis record kinds (lab result, prescription, imaging, vaccination, procedure)
+ */
+export interface TypedRecordData {
+  patientAddress: string;
+  recordType: Exclude<RecordKind, "DIAGNOSIS">;
+  fields: TypedRecordFields;
+  icdCode: string; // Normalized code from the kind's ICD-10 field, written on-chain
+  hospitalAddress: string;
+  hospitalName: string;
+  timestamp: number;
+  amends?: RecordAmendment;
+}
+
+/**
+ * Link from an amendment to the record it supersedes (stored inside the encrypted payload)
+ */
+export interface RecordAmendment {
+  ipfsCid: string;
+  dataHash: string;
+  reason: string;
 }
 
 /**
  * Encrypted data structure stored on IPFS
+ * - "1.0": legacy, key derived from the patient address (read-only support)
+ * - "2.0": envelope encryption, random data key wrapped to each reader in `keys`
  */
 interface EncryptedIPFSData {
   version: string;
   encryptedData: string;
   iv: string;
+  keys?: WrappedKey[];
   metadata: {
     patientAddress: string;
     hospitalAddress: string;
@@ -50,22 +114,14 @@ interface EncryptedIPFSData {
   };
 }
 
-/**
- * Generate a random encryption key (in production, use patient's key)
- */
-async function generateEncryptionKey(): Promise<CryptoKey> {
-  return crypto.subtle.generateKey(
-    { name: "AES-GCM", length: 256 },
-    true,
-    ["encrypt", "decrypt"]
-  );
-}
+const PAYLOAD_VERSION = "2.0";
+const LEGACY_PAYLOAD_VERSION = "1.0";
 
 /**
- * Derive encryption key from patient address (deterministic for retrieval)
- * In production, use a more secure key derivation with patient's private key
+ * Derive encryption key from patient address.
+ * Only used to read legacy "1.0" payloads - never for new uploads.
  */
-async function deriveKeyFromAddress(patientAddress: string): Promise<CryptoKey> {
+async function deriveLegacyKeyFromAddress(patientAddress: string): Promise<CryptoKey> {
   const encoder = new TextEncoder();
   const keyMaterial = await crypto.subtle.importKey(
     "raw",
@@ -89,62 +145,115 @@ async function deriveKeyFromAddress(patientAddress: string): Promise<CryptoKey>
   );
 }
 
+// Short-lived cache so a history view doesn't refetch the same grant for every record
+const GRANT_CACHE_TTL_MS = 60 * 1000;
+const grantCache = new Map<string, { grant: KeyGrant | null; fetchedAt: number }>();
+
 /**
- * Encrypt data using AES-GCM
+ * Get record keys the patient re-wrapped to a hospital (null if none or access ended)
  */
-async function encryptData(data: string, key: CryptoKey): Promise<{ encrypted: string; iv: string }> {
-  const encoder = new TextEncoder();
-  const iv = crypto.getRandomValues(new Uint8Array(12));
-  
-  const encryptedBuffer = await crypto.subtle.encrypt(
-    { name: "AES-GCM", iv },
-    key,
-    encoder.encode(data)
-  );
+async function getKeyGrant(patientAddress: string, recipientAddress: string): Promise<KeyGrant | null> {
+  const cacheKey = `${patientAddress.toLowerCase()}:${recipientAddress.toLowerCase()}`;
+  const cached = grantCache.get(cacheKey);
+  if (cached && Date.now() - cached.fetchedAt < GRANT_CACHE_TTL_MS) {
+    return cached.grant;
+  }
   
-  return {
-    encrypted: arrayBufferToBase64(encryptedBuffer),
-    iv: arrayBufferToBase64(iv.buffer)
-  };
+  try {
+    const response = await fetch(
+      `/api/keys/grants?patient=${patientAddress.toLowerCase()}&recipient=${recipientAddress.toLowerCase()}`
+    );
+    const result = await response.json().catch(() => ({}));
+    const grant = response.ok ? ((result.grant as KeyGrant) ?? null) : null;
+    
+    grantCache.set(cacheKey, { grant, fetchedAt: Date.now() });
+    return grant;
+  } catch (error) {
+    console.error("Error fetching key grant:", error);
+    return null;
+  }
 }
 
 /**
- * Decrypt data using AES-GCM
+ * Fetch the raw encrypted payload of a record
  */
-async function decryptData(encryptedData: string, iv: string, key: CryptoKey): Promise<string> {
-  const decoder = new TextDecoder();
-  
-  const decryptedBuffer = await crypto.subtle.decrypt(
-    { name: "AES-GCM", iv: base64ToArrayBuffer(iv) },
-    key,
-    base64ToArrayBuffer(encryptedData)
-  );
-  
-  return decoder.decode(decryptedBuffer);
+async function fetchEncryptedPayload(cid: string): Promise<EncryptedIPFSData> {
+  const bytes = await fetchIpfsContent(cid);
+  return JSON.parse(new TextDecoder().decode(bytes));
 }
 
 /**
- * Convert ArrayBuffer to Base64 string
+ * Resolve the data key of a payload for the given reader.
+ * Looks in the payload first, then in keys the patient re-wrapped after approving access.
  */
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer);
-  let binary = "";
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
+async function getRecordDataKey(
+  cid: string,
+  ipfsData: EncryptedIPFSData,
+  patientAddress: string,
+  readerAddress: string
+): Promise<CryptoKey> {
+  if (ipfsData.version === LEGACY_PAYLOAD_VERSION) {
+    return deriveLegacyKeyFromAddress(patientAddress);
   }
-  return btoa(binary);
+  
+  let wrapped = ipfsData.keys?.find((k) => k.recipient === readerAddress.toLowerCase());
+  if (!wrapped && readerAddress.toLowerCase() !== patientAddress.toLowerCase()) {
+    const grant = await getKeyGrant(patientAddress, readerAddress);
+    wrapped = grant?.keys[cid];
+  }
+  if (!wrapped) {
+    throw new Error("This record has not been shared with your wallet");
+  }
+  
+  const privateKey = await getPrivateKey(readerAddress);
+  if (!privateKey) {
+    throw new Error("Encryption key not available on this device");
+  }
+  
+  return unwrapDataKey(wrapped, privateKey);
 }
 
 /**
- * Convert Base64 string to ArrayBuffer
+ * Wrap a data key to the patient, the uploading hospital and currently authorized hospitals.
+ * The patient (and the uploader) must have a published key; other accessors are best-effort.
+ * A key inlined in the payload can't expire, so hospitals whose access is time-limited are
+ * left out; they receive the key through a key grant when the patient next shares with them.
  */
-function base64ToArrayBuffer(base64: string): ArrayBuffer {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+async function wrapKeyForReaders(
+  dataKey: CryptoKey,
+  patientAddress: string,
+  hospitalAddress: string
+): Promise<WrappedKey[]> {
+  const patientKey = await getPublishedKey(patientAddress);
+  if (!patientKey) {
+    throw new Error("Patient has not set up record encryption yet. Ask the patient to open the MediChain app once.");
   }
-  return bytes.buffer;
+  
+  const hospitalKey = await getPublishedKey(hospitalAddress);
+  if (!hospitalKey) {
+    throw new Error("Hospital encryption key not found. Reload the dashboard to set it up.");
+  }
+  
+  const keys = [
+    await wrapDataKey(dataKey, patientAddress, patientKey.publicKey),
+    await wrapDataKey(dataKey, hospitalAddress, hospitalKey.publicKey),
+  ];
+  
+  const seen = new Set([patientAddress.toLowerCase(), hospitalAddress.toLowerCase()]);
+  for (const accessor of await getActiveAccessors(patientAddress)) {
+    if (seen.has(accessor.toLowerCase())) continue;
+    seen.add(accessor.toLowerCase());
+    
+    const { hasAccess, permission } = await checkAccess(patientAddress, accessor);
+    if (!hasAccess || !permission || permission.expiresAt !== 0) continue;
+    
+    const accessorKey = await getPublishedKey(accessor);
+    if (accessorKey) {
+      keys.push(await wrapDataKey(dataKey, accessor, accessorKey.publicKey));
+    }
+  }
+  
+  return keys;
 }
 
 /**
@@ -158,18 +267,41 @@ export async function createDataHash(data: string): Promise<`0x${string}`> {
   return `0x${hashArray.map((b) => b.toString(16).padStart(2, "0")).join("")}`;
 }
 
+const isTypedRecordData = (data: MedicalRecordData | TypedRecordData): data is TypedRecordData =>
+  !!data.fields && data.recordType in RECORD_KINDS && data.recordType !== "DIAGNOSIS";
+
 /**
  * Upload encrypted medical record to Pinata IPFS
+ * Files are encrypted with the record's data key and referenced from the payload
  */
 export async function uploadMedicalRecord(
-  recordData: MedicalRecordData
+  recordData: MedicalRecordData | TypedRecordData,
+  files: File[] = []
 ): Promise<{ success: boolean; cid?: string; dataHash?: `0x${string}`; error?: string }> {
   try {
-    // Derive encryption key from patient address
-    const key = await deriveKeyFromAddress(recordData.patientAddress);
+    if (files.length > MAX_ATTACHMENTS_PER_RECORD) {
+      throw new Error(`A record can have at most ${MAX_ATTACHMENTS_PER_RECORD} attachments`);
+    }
+
+    // Random per-record data key, wrapped to everyone allowed to read the record
+    const key = await generateDataKey();
+    const keys = await wrapKeyForReaders(key, recordData.patientAddress, recordData.hospitalAddress);
+
+    const attachments: AttachmentRef[] = [];
+    for (const file of files) {
+      attachments.push(await uploadAttachment(file, key, recordData));
+    }
     
     // Prepare data for encryption (exclude sensitive metadata)
-    const dataToEncrypt = JSON.stringify({
+    const dataToEncrypt = JSON.stringify(isTypedRecordData(recordData) ? {
+      // Typed payload: the kind and its schema version are covered by the data hash
+      recordType: recordData.recordType,
+      schemaVersion: RECORD_KINDS[recordData.recordType].schemaVersion,
+      fields: recordData.fields,
+      hospitalName: recordData.hospitalName,
+      ...(recordData.amends && { amends: recordData.amends }),
+      ...(attachments.length > 0 && { attachments }),
+    } : {
       noRekamMedik: recordData.noRekamMedik,
       tanggalMasuk: recordData.tanggalMasuk,
       tanggalKeluar: recordData.tanggalKeluar,
@@ -183,6 +315,8 @@ export async function uploadMedicalRecord(
       keadaanKeluar: recordData.keadaanKeluar,
       dokterPenanggungJawab: recordData.dokterPenanggungJawab,
       hospitalName: recordData.hospitalName,
+      ...(recordData.amends && { amends: recordData.amends }),
+      ...(attachments.length > 0 && { attachments }),
     });
     
     // Create hash of original data for integrity
@@ -193,9 +327,10 @@ export async function uploadMedicalRecord(
     
     // Prepare IPFS payload with encrypted data and public metadata
     const ipfsPayload: EncryptedIPFSData = {
-      version: "1.0",
+      version: PAYLOAD_VERSION,
       encryptedData: encrypted,
       iv: iv,
+      keys,
       metadata: {
         patientAddress: recordData.patientAddress,
         hospitalAddress: recordData.hospitalAddress,
@@ -250,30 +385,63 @@ export async function uploadMedicalRecord(
 
 /**
  * Retrieve and decrypt medical record from IPFS
+ * readerAddress is the wallet whose device key unwraps the record (defaults to the patient)
  */
 export async function getMedicalRecord(
   cid: string,
-  patientAddress: string
-): Promise<{ success: boolean; data?: MedicalRecordData; error?: string }> {
+  patientAddress: string,
+  readerAddress: string = patientAddress
+): Promise<{ success: boolean; data?: MedicalRecordData; contentHash?: `0x${string}`; error?: string }> {
   try {
     // Fetch from IPFS gateway
-    const response = await fetch(`${PINATA_GATEWAY}${cid}`);
+    const ipfsData = await fetchEncryptedPayload(cid);
     
-    if (!response.ok) {
-      throw new Error(`Failed to fetch from IPFS: ${response.status}`);
-    }
-    
-    const ipfsData: EncryptedIPFSData = await response.json();
-    
-    // Derive decryption key from patient address
-    const key = await deriveKeyFromAddress(patientAddress);
+    // Resolve the data key for this reader
+    const key = await getRecordDataKey(cid, ipfsData, patientAddress, readerAddress);
     
     // Decrypt the data
     const decryptedJson = await decryptData(ipfsData.encryptedData, ipfsData.iv, key);
     const decryptedData = JSON.parse(decryptedJson);
+
+    // The on-chain dataHash is taken over this exact plaintext
+    const contentHash = await createDataHash(decryptedJson);
+
+    // Typed records: fill the summary fields from the kind's schema so every view can list them
+    if (decryptedData.fields) {
+      const kind = normalizeRecordKind(decryptedData.recordType ?? ipfsData.metadata.recordType);
+      const summary = summarizeRecordFields(kind, decryptedData.fields);
+      return {
+        success: true,
+        contentHash,
+        data: {
+          patientAddress: ipfsData.metadata.patientAddress,
+          hospitalAddress: ipfsData.metadata.hospitalAddress,
+          timestamp: ipfsData.metadata.timestamp,
+          noRekamMedik: "",
+          tanggalMasuk: summary.date,
+          tanggalKeluar: "",
+          diagnosisUtama: summary.title,
+          icdCode: summary.icdCode,
+          diagnosisSekunder: "",
+          keluhan: summary.preview,
+          riwayatAlergi: "",
+          tindakan: "",
+          resepObat: "",
+          keadaanKeluar: "",
+          dokterPenanggungJawab: summary.clinician,
+          hospitalName: decryptedData.hospitalName,
+          recordType: kind,
+          schemaVersion: decryptedData.schemaVersion,
+          fields: decryptedData.fields,
+          amends: decryptedData.amends,
+          attachments: decryptedData.attachments,
+        },
+      };
+    }
     
     return {
       success: true,
+      contentHash,
       data: {
         patientAddress: ipfsData.metadata.patientAddress,
         hospitalAddress: ipfsData.metadata.hospitalAddress,
@@ -291,38 +459,190 @@ export async function getMedicalRecord(
   }
 }
 
+/**
+ * Download and decrypt one attachment of a record
+ * readerAddress is the wallet whose device key unwraps the record (defaults to the patient)
+ */
+export async function getRecordAttachment(
+  cid: string,
+  attachment: AttachmentRef,
+  patientAddress: string,
+  readerAddress: string = patientAddress
+): Promise<{ success: boolean; blob?: Blob; error?: string }> {
+  try {
+    const ipfsData = await fetchEncryptedPayload(cid);
+    const key = await getRecordDataKey(cid, ipfsData, patientAddress, readerAddress);
+    
+    const blob = await decryptAttachment(attachment, key, fetchIpfsContent);
+    
+    return { success: true, blob };
+  } catch (error) {
+    console.error("Error retrieving attachment:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to retrieve attachment",
+    };
+  }
+}
+
+/**
+ * Integrity of a record against its on-chain dataHash.
+ * "unavailable" covers content no gateway serves ("missing") and records this reader can't decrypt ("locked").
+ */
+export type IntegrityStatus = "verified" | "mismatch" | "unavailable";
+
+export interface IntegrityResult {
+  status: IntegrityStatus;
+  reason?: "missing" | "locked";
+  error?: string;
+}
+
+/**
+ * Compare the hash of a decrypted record (contentHash from getMedicalRecord) with its on-chain dataHash
+ */
+export function checkDataHash(contentHash: string, expectedHash: string): IntegrityResult {
+  return contentHash.toLowerCase() === expectedHash.toLowerCase()
+    ? { status: "verified" }
+    : { status: "mismatch", error: "Decrypted content does not match the on-chain hash" };
+}
+
 /**
  * Verify data integrity by comparing hashes
  */
 export async function verifyDataIntegrity(
   cid: string,
   patientAddress: string,
-  expectedHash: string
-): Promise<boolean> {
+  expectedHash: string,
+  readerAddress: string = patientAddress
+): Promise<IntegrityResult> {
+  try {
+    await fetchIpfsContent(cid);
+  } catch (error) {
+    return {
+      status: "unavailable",
+      reason: "missing",
+      error: error instanceof Error ? error.message : "Content not found on IPFS",
+    };
+  }
+
+  // Content is cached by now, so this only unwraps the key and decrypts
+  const result = await getMedicalRecord(cid, patientAddress, readerAddress);
+  if (!result.success || !result.contentHash) {
+    return { status: "unavailable", reason: "locked", error: result.error || "Failed to decrypt record" };
+  }
+
+  return checkDataHash(result.contentHash, expectedHash);
+}
+
+/**
+ * Re-wrap the patient's record data keys to a hospital after access was approved.
+ * The grant is time-bounded by expiresAt (0 = until revoked) and only served while
+ * the on-chain permission is active.
+ */
+export async function shareRecordKeys(
+  account: Account,
+  hospitalAddress: string,
+  expiresAt: number
+): Promise<{ success: boolean; sharedCount?: number; error?: string }> {
+  try {
+    const hospitalKey = await getPublishedKey(hospitalAddress);
+    if (!hospitalKey) {
+      throw new Error("Hospital has not set up its encryption key yet");
+    }
+    
+    const recordRefs = await getPatientRecords(account.address);
+    const keys: Record<string, WrappedKey> = {};
+    
+    for (const ref of recordRefs) {
+      try {
+        const ipfsData = await fetchEncryptedPayload(ref.ipfsCid);
+        // Legacy payloads use an address-derived key, nothing to wrap
+        if (ipfsData.version === LEGACY_PAYLOAD_VERSION) continue;
+        
+        const dataKey = await getRecordDataKey(ref.ipfsCid, ipfsData, account.address, account.address);
+        keys[ref.ipfsCid] = await wrapDataKey(dataKey, hospitalAddress, hospitalKey.publicKey);
+      } catch (err) {
+        console.error(`Failed to re-wrap key for ${ref.ipfsCid}:`, err);
+      }
+    }
+    
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const digest = await digestWrappedKeys(keys);
+    const signature = await account.signMessage({
+      message: buildKeyGrantMessage(account.address, hospitalAddress, expiresAt, digest, issuedAt),
+    });
+    
+    const response = await fetch("/api/keys/grants", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        patient: account.address,
+        recipient: hospitalAddress,
+        expiresAt,
+        keys,
+        issuedAt,
+        signature,
+      }),
+    });
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Sharing keys failed: ${response.status}`);
+    }
+    
+    return {
+      success: true,
+      sharedCount: Object.keys(keys).length,
+    };
+  } catch (error) {
+    console.error("Error sharing record keys:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to share record keys",
+    };
+  }
+}
+
+/**
+ * Delete the record keys re-wrapped to a hospital (call after revokeAccess).
+ * New uploads already skip revoked hospitals since they only wrap to active accessors.
+ */
+export async function revokeRecordKeys(
+  account: Account,
+  hospitalAddress: string
+): Promise<{ success: boolean; error?: string }> {
   try {
-    const result = await getMedicalRecord(cid, patientAddress);
-    if (!result.success || !result.data) return false;
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const signature = await account.signMessage({
+      message: buildKeyRevokeMessage(account.address, hospitalAddress, issuedAt),
+    });
     
-    const dataToHash = JSON.stringify({
-      noRekamMedik: result.data.noRekamMedik,
-      tanggalMasuk: result.data.tanggalMasuk,
-      tanggalKeluar: result.data.tanggalKeluar,
-      diagnosisUtama: result.data.diagnosisUtama,
-      icdCode: result.data.icdCode,
-      diagnosisSekunder: result.data.diagnosisSekunder,
-      keluhan: result.data.keluhan,
-      riwayatAlergi: result.data.riwayatAlergi,
-      tindakan: result.data.tindakan,
-      resepObat: result.data.resepObat,
-      keadaanKeluar: result.data.keadaanKeluar,
-      dokterPenanggungJawab: result.data.dokterPenanggungJawab,
-      hospitalName: result.data.hospitalName,
+    const response = await fetch("/api/keys/grants", {
+      method: "DELETE",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        patient: account.address,
+        recipient: hospitalAddress,
+        issuedAt,
+        signature,
+      }),
     });
     
-    const computedHash = await createDataHash(dataToHash);
-    return computedHash.toLowerCase() === expectedHash.toLowerCase();
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Revoking keys failed: ${response.status}`);
+    }
+    
+    return { success: true };
   } catch (error) {
-    console.error("Error verifying data integrity:", error);
-    return false;
+    console.error("Error revoking record keys:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to revoke record keys",
+    };
   }
 }
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { mergeOcrPages, type OcrFields, type OcrPage } from "@/lib/services/ocr";
+
+// Every value on a page is read with the same confidence
+const page = (number: number, fields: Partial<OcrFields>, confidence = 0.9): OcrPage => ({
+  page: number,
+  file: "resume-medis.pdf",
+  filePage: number,
+  fields,
+  evidence: Object.fromEntries(Object.keys(fields).map((field) => [field, { confidence }])),
+});
+
+describe("mergeOcrPages", () => {
+  it("takes the discharge diagnosis from the last page even when the working one is repeated", () => {
+    const result = mergeOcrPages([
+      page(1, { diagnosisUtama: "Observation febris", icdCode: "R50.9" }),
+      page(2, { diagnosisUtama: "Observation febris", icdCode: "R50.9" }),
+      page(3, { diagnosisUtama: "Demam tifoid", icdCode: "A01.0" }),
+    ]);
+
+    expect(result.data.diagnosisUtama).toBe("Demam tifoid");
+    expect(result.data.icdCode).toBe("A01.0");
+    expect(result.sources.diagnosisUtama).toEqual([3]);
+    expect(result.conflicts.find((conflict) => conflict.field === "diagnosisUtama")).toEqual({
+      field: "diagnosisUtama",
+      values: [
+        { value: "Observation febris", pages: [1, 2] },
+        { value: "Demam tifoid", pages: [3] },
+      ],
+      chosen: "Demam tifoid",
+      reason: "Taken from the last page that states it",
+    });
+  });
+
+  it("picks the majority value for identifiers, ties going to the later page", () => {
+    const result = mergeOcrPages([
+      page(1, { noRekamMedik: "MR-001", dokterPenanggungJawab: "dr. Sari" }),
+      page(2, { noRekamMedik: "mr-001 ", dokterPenanggungJawab: "dr. Budi" }),
+      page(3, { noRekamMedik: "MR-007" }),
+    ]);
+
+    expect(result.data.noRekamMedik).toBe("MR-001");
+    expect(result.sources.noRekamMedik).toEqual([1, 2]);
+    expect(result.data.dokterPenanggungJawab).toBe("dr. Budi");
+  });
+
+  it("spans the stay from the earliest admission to the latest discharge date", () => {
+    const result = mergeOcrPages([
+      page(1, { tanggalMasuk: "2026-03-02", tanggalKeluar: "2026-03-04" }),
+      page(2, { tanggalMasuk: "2026-03-01", tanggalKeluar: "4 Maret 2026" }),
+      page(3, { tanggalKeluar: "2026-03-05" }),
+    ]);
+
+    expect(result.data.tanggalMasuk).toBe("2026-03-01");
+    expect(result.data.tanggalKeluar).toBe("2026-03-05");
+  });
+
+  it("combines distinct values and lets a listed allergy replace 'no allergies'", () => {
+    const result = mergeOcrPages([
+      page(1, { keluhan: "Demam", riwayatAlergi: "Tidak ada" }, 0.95),
+      page(2, { keluhan: "Demam 3 hari", riwayatAlergi: "Penisilin" }, 0.6),
+      page(3, { keluhan: "Mual" }, 0.9),
+    ]);
+
+    expect(result.data.keluhan).toBe("Demam 3 hari; Mual");
+    expect(result.sources.keluhan).toEqual([2, 3]);
+    expect(result.data.riwayatAlergi).toBe("Penisilin");
+    expect(result.confidence.keluhan).toEqual({ confidence: 0.6, page: 2 });
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("scales a picked value's confidence by the share of pages agreeing with it", () => {
+    const result = mergeOcrPages([
+      page(1, { noRekamMedik: "MR-001" }, 0.9),
+      page(2, { noRekamMedik: "MR-001" }, 0.8),
+      page(3, { noRekamMedik: "MR-002" }, 1),
+    ]);
+
+    expect(result.confidence.noRekamMedik?.page).toBe(1);
+    expect(result.confidence.noRekamMedik?.confidence).toBeCloseTo(0.6);
+  });
+});
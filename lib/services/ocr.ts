@@ -0,0 +1,328 @@
+/**
+ * Document OCR Service
+ * Discharge summaries arrive as multi-page PDFs or a photo per page. /api/ocr extracts the
+ * record fields from every page on its own; this module merges the pages into one record,
+ * resolves pages that disagree and keeps which page each value came from so the form can
+ * show it. Every value carries a confidence score and the text it was read from, and
+ * low-confidence values must be confirmed by the hospital before the record is pushed.
+ */
+
+import { hasAllergy } from "@/lib/services/fhir";
+import { MAX_ATTACHMENT_SIZE } from "@/lib/services/attachments";
+
+// ============ LIMITS ============
+
+export const MAX_OCR_FILES = 10;
+export const MAX_OCR_FILE_SIZE = MAX_ATTACHMENT_SIZE; // The scans are attached to the record as well
+export const MAX_OCR_TOTAL_SIZE = 16 * 1024 * 1024;
+// Pages read from one upload, across all files
+export const MAX_OCR_PAGES = 30;
+
+// Values scored below this are highlighted and must be confirmed
+export const OCR_CONFIDENCE_THRESHOLD = 0.8;
+
+// ============ TYPES ============
+
+export const OCR_FIELDS = [
+  "noRekamMedik",
+  "tanggalMasuk",
+  "tanggalKeluar",
+  "diagnosisUtama",
+  "icdCode",
+  "diagnosisSekunder",
+  "keluhan",
+  "riwayatAlergi",
+  "tindakan",
+  "resepObat",
+  "keadaanKeluar",
+  "dokterPenanggungJawab",
+] as const;
+
+export type OcrField = (typeof OCR_FIELDS)[number];
+
+export type OcrFields = Record<OcrField, string>;
+
+/**
+ * One page of the upload. `page` numbers pages across all files in upload order;
+ * `filePage` is the page within its file.
+ */
+export interface OcrPageRef {
+  page: number;
+  file: string;
+  filePage: number;
+}
+
+/**
+ * Where on the page a value was read, as fractions of the page's width and height
+ */
+export interface OcrBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * How sure the model is of a value (0-1) and the text it was read from
+ */
+export interface OcrEvidence {
+  confidence: number;
+  snippet?: string;
+  box?: OcrBox;
+}
+
+/**
+ * Evidence for a merged value; `page` is missing when the value wasn't read from the document
+ */
+export interface OcrFieldConfidence extends OcrEvidence {
+  page?: number;
+}
+
+export interface OcrPage extends OcrPageRef {
+  fields: Partial<OcrFields>;
+  evidence: Partial<Record<OcrField, OcrEvidence>>;
+}
+
+/**
+ * A field the pages disagree on, with the value the merge picked
+ */
+export interface OcrConflict {
+  field: OcrField;
+  values: { value: string; pages: number[] }[];
+  chosen: string;
+  reason: string;
+}
+
+export interface OcrResult {
+  data: OcrFields;
+  // Pages each merged value was read from; fields without an entry were not found
+  sources: Partial<Record<OcrField, number[]>>;
+  confidence: Partial<Record<OcrField, OcrFieldConfidence>>;
+  conflicts: OcrConflict[];
+  pages: OcrPageRef[];
+}
+
+/**
+ * OCR output under review in the record form. `values` are the values as filled in, so a
+ * field edited since then is no longer treated as OCR output; `images` holds the data URL
+ * of each photo page for showing where a value was read.
+ */
+export interface OcrReview extends Omit<OcrResult, "data" | "conflicts"> {
+  values: OcrFields;
+  images: Record<number, string>;
+  confirmed: OcrField[];
+}
+
+export const OCR_FIELD_LABELS: Record<OcrField, string> = {
+  noRekamMedik: "Medical record no.",
+  tanggalMasuk: "Admission date",
+  tanggalKeluar: "Discharge date",
+  diagnosisUtama: "Primary diagnosis",
+  icdCode: "ICD-10 code",
+  diagnosisSekunder: "Secondary diagnosis",
+  keluhan: "Symptoms",
+  riwayatAlergi: "Allergy history",
+  tindakan: "Procedures",
+  resepObat: "Prescription",
+  keadaanKeluar: "Discharge status",
+  dokterPenanggungJawab: "Attending physician",
+};
+
+// ============ MERGING ============
+
+/**
+ * How a field is merged when several pages state it:
+ * - majority: the value on the most pages, ties going to the later page
+ * - earliest / latest: the earliest or latest ISO date
+ * - last: the value on the last page that states it
+ * - combine: every distinct value, joined with "; "
+ * Combined fields never count as a conflict.
+ */
+type MergeRule = "majority" | "earliest" | "latest" | "last" | "combine";
+
+const MERGE_RULES: Record<OcrField, MergeRule> = {
+  noRekamMedik: "majority",
+  tanggalMasuk: "earliest",
+  tanggalKeluar: "latest",
+  // The final diagnosis (and its code) is written at discharge, usually on a later page
+  // than the working one, so it wins even when the working diagnosis is repeated more often
+  diagnosisUtama: "last",
+  icdCode: "last",
+  diagnosisSekunder: "combine",
+  keluhan: "combine",
+  riwayatAlergi: "combine",
+  tindakan: "combine",
+  resepObat: "combine",
+  keadaanKeluar: "last",
+  dokterPenanggungJawab: "majority",
+};
+
+const MERGE_REASONS: Record<Exclude<MergeRule, "combine">, string> = {
+  majority: "Stated on the most pages (ties go to the later page)",
+  earliest: "Earliest date across pages",
+  latest: "Latest date across pages",
+  last: "Taken from the last page that states it",
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const normalize = (value: string) => value.trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * Group a field's values across pages, matching case- and whitespace-insensitively.
+ * Groups are ordered by the page they first appear on.
+ */
+function groupValues(pages: OcrPage[], field: OcrField): { value: string; pages: number[] }[] {
+  const groups = new Map<string, { value: string; pages: number[] }>();
+  for (const page of pages) {
+    const value = page.fields[field]?.trim();
+    if (!value) continue;
+    // Date rules compare ISO strings; anything else could not go into a date input either
+    const rule = MERGE_RULES[field];
+    if ((rule === "earliest" || rule === "latest") && !ISO_DATE.test(value)) continue;
+
+    const key = normalize(value);
+    const group = groups.get(key) ?? { value, pages: [] };
+    group.pages.push(page.page);
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Distinct values for a combined field. A value contained in a longer one (a page repeating
+ * part of another) is dropped, and "no allergies" gives way to any page listing an allergy.
+ */
+function combineValues(field: OcrField, groups: { value: string; pages: number[] }[]) {
+  let kept = groups.filter(
+    (group) =>
+      !groups.some(
+        (other) =>
+          other !== group &&
+          normalize(other.value).length > normalize(group.value).length &&
+          normalize(other.value).includes(normalize(group.value))
+      )
+  );
+  if (field === "riwayatAlergi" && kept.some((group) => hasAllergy(group.value))) {
+    kept = kept.filter((group) => hasAllergy(group.value));
+  }
+
+  return {
+    kept,
+    value: kept.map((group) => group.value).join("; "),
+    pages: [...new Set(kept.flatMap((group) => group.pages))].sort((a, b) => a - b),
+  };
+}
+
+/**
+ * The most confident evidence for a value among the pages stating it.
+ * Pages that returned no evidence count as confidence 0.
+ */
+function bestEvidence(pages: OcrPage[], field: OcrField, group: { pages: number[] }): OcrFieldConfidence {
+  let best: OcrFieldConfidence = { confidence: 0, page: group.pages[0] };
+  for (const page of pages) {
+    const evidence = group.pages.includes(page.page) ? page.evidence[field] : undefined;
+    if (evidence && evidence.confidence > best.confidence) best = { ...evidence, page: page.page };
+  }
+  return best;
+}
+
+/**
+ * Pick one value for a single-valued field
+ */
+function pickValue(rule: Exclude<MergeRule, "combine">, groups: { value: string; pages: number[] }[]) {
+  const lastPage = (group: { pages: number[] }) => Math.max(...group.pages);
+
+  const ranked = [...groups].sort((a, b) => {
+    switch (rule) {
+      case "majority":
+        return b.pages.length - a.pages.length || lastPage(b) - lastPage(a);
+      case "earliest":
+        return a.value.localeCompare(b.value);
+      case "latest":
+        return b.value.localeCompare(a.value);
+      case "last":
+        return lastPage(b) - lastPage(a);
+    }
+  });
+  return ranked[0];
+}
+
+/**
+ * Merge per-page extractions into one record. Every field the pages disagree on is
+ * reported as a conflict so the hospital can pick another page's value.
+ *
+ * A combined value is only as confident as its weakest part. A picked value keeps its
+ * best page's confidence, scaled by the share of pages that agree with it.
+ */
+export function mergeOcrPages(pages: OcrPage[]): OcrResult {
+  const data = Object.fromEntries(OCR_FIELDS.map((field) => [field, ""])) as OcrFields;
+  const sources: OcrResult["sources"] = {};
+  const confidence: OcrResult["confidence"] = {};
+  const conflicts: OcrConflict[] = [];
+
+  for (const field of OCR_FIELDS) {
+    const groups = groupValues(pages, field);
+    if (groups.length === 0) continue;
+
+    const rule = MERGE_RULES[field];
+    if (rule === "combine") {
+      const combined = combineValues(field, groups);
+      data[field] = combined.value;
+      sources[field] = combined.pages;
+      confidence[field] = combined.kept
+        .map((group) => bestEvidence(pages, field, group))
+        .reduce((weakest, evidence) => (evidence.confidence < weakest.confidence ? evidence : weakest));
+      continue;
+    }
+
+    const chosen = pickValue(rule, groups);
+    const evidence = bestEvidence(pages, field, chosen);
+    const stating = groups.reduce((count, group) => count + group.pages.length, 0);
+    data[field] = chosen.value;
+    sources[field] = chosen.pages;
+    confidence[field] = { ...evidence, confidence: (evidence.confidence * chosen.pages.length) / stating };
+    if (groups.length > 1) {
+      conflicts.push({ field, values: groups, chosen: chosen.value, reason: MERGE_REASONS[rule] });
+    }
+  }
+
+  return {
+    data,
+    sources,
+    confidence,
+    conflicts,
+    pages: pages.map(({ page, file, filePage }) => ({ page, file, filePage })),
+  };
+}
+
+// ============ REVIEW ============
+
+/**
+ * Whether a field still holds a low-confidence OCR value nobody has confirmed.
+ * Editing a field counts as reviewing it.
+ */
+export function isOcrFieldUnconfirmed(review: OcrReview, field: OcrField, value: string): boolean {
+  const score = review.confidence[field]?.confidence;
+  return (
+    score !== undefined &&
+    score < OCR_CONFIDENCE_THRESHOLD &&
+    value !== "" &&
+    value === review.values[field] &&
+    !review.confirmed.includes(field)
+  );
+}
+
+/**
+ * Fields that must be confirmed before the record can be pushed
+ */
+export function getUnconfirmedOcrFields(review: OcrReview, record: OcrFields): OcrField[] {
+  return OCR_FIELDS.filter((field) => isOcrFieldUnconfirmed(review, field, record[field]));
+}
+
+/**
+ * Short label for where a value came from, e.g. "p. 2" or "p. 1, 3"
+ */
+export function formatOcrPages(pages: number[]): string {
+  return `p. ${pages.join(", ")}`;
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { concat, keccak256, numberToHex, stringToHex } from "viem";
+import { CHAIN_CONFIG, CONTRACT_ADDRESSES } from "@/lib/contracts/config";
+import {
+  getAccessGrantMessageHash,
+  getPatientQRMessageHash,
+  getSignedGrantMessageHash,
+  isOpenConsent,
+  isSignedConsentQR,
+  parsePatientQR,
+} from "@/lib/services/qr";
+
+const PATIENT = "0x1111111111111111111111111111111111111111";
+const HOSPITAL = "0x2222222222222222222222222222222222222222";
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// abi.encodePacked: addresses as 20 bytes, strings as raw UTF-8, uint256 as 32 bytes big-endian
+const uint256 = (value: bigint | number) => numberToHex(value, { size: 32 });
+
+const payload = {
+  type: "medichain_patient",
+  v: 2,
+  a: PATIENT,
+  x: 1760000000,
+  n: "123456789",
+  k: "live",
+} as const;
+
+describe("getAccessGrantMessageHash", () => {
+  it("mirrors MedichainPatientIdentity.getAccessGrantMessageHash", () => {
+    const packed = concat([PATIENT, HOSPITAL, stringToHex("READ"), uint256(1760000000), uint256(BigInt(42))]);
+    expect(getAccessGrantMessageHash(PATIENT, HOSPITAL, "READ", BigInt(1760000000), BigInt(42))).toBe(keccak256(packed));
+  });
+});
+
+describe("getPatientQRMessageHash", () => {
+  it("signs the QR kind as the access type with no accessor", () => {
+    const packed = concat([PATIENT, ZERO_ADDRESS, stringToHex("QR_LIVE"), uint256(payload.x), uint256(BigInt(payload.n))]);
+    expect(getPatientQRMessageHash(payload)).toBe(keccak256(packed));
+  });
+
+  it("keeps card codes distinct from live codes", () => {
+    expect(getPatientQRMessageHash({ ...payload, k: "card" })).not.toBe(getPatientQRMessageHash(payload));
+  });
+});
+
+describe("getSignedGrantMessageHash", () => {
+  const hash = () =>
+    getSignedGrantMessageHash(PATIENT, HOSPITAL, "READ", BigInt(86400), BigInt(1760000000), BigInt(7));
+
+  it("mirrors MedichainPatientIdentity.getSignedGrantMessageHash", () => {
+    const packed = concat([
+      uint256(CHAIN_CONFIG.chainId),
+      CONTRACT_ADDRESSES.patientIdentity as `0x${string}`,
+      PATIENT,
+      HOSPITAL,
+      stringToHex("READ"),
+      uint256(86400),
+      uint256(1760000000),
+      uint256(BigInt(7)),
+    ]);
+    expect(hash()).toBe(keccak256(packed));
+  });
+
+  it("binds every grant field", () => {
+    const signed = hash();
+    expect(getSignedGrantMessageHash(PATIENT, ZERO_ADDRESS, "READ", BigInt(86400), BigInt(1760000000), BigInt(7))).not.toBe(signed);
+    expect(getSignedGrantMessageHash(PATIENT, HOSPITAL, "WRITE", BigInt(86400), BigInt(1760000000), BigInt(7))).not.toBe(signed);
+    expect(getSignedGrantMessageHash(PATIENT, HOSPITAL, "READ", BigInt(86401), BigInt(1760000000), BigInt(7))).not.toBe(signed);
+    expect(getSignedGrantMessageHash(PATIENT, HOSPITAL, "READ", BigInt(86400), BigInt(1760000001), BigInt(7))).not.toBe(signed);
+    expect(getSignedGrantMessageHash(PATIENT, HOSPITAL, "READ", BigInt(86400), BigInt(1760000000), BigInt(8))).not.toBe(signed);
+  });
+});
+
+describe("consent QRs", () => {
+  const consent = {
+    type: "medichain_consent",
+    v: 1,
+    a: PATIENT,
+    h: HOSPITAL,
+    t: "READ",
+    d: 86400,
+    x: 1760000000,
+    n: "7",
+    s: `0x${"cd".repeat(65)}`,
+  } as const;
+
+  it("parses a signed consent payload", () => {
+    expect(isSignedConsentQR(consent)).toBe(true);
+    expect(parsePatientQR(JSON.stringify(consent))).toEqual({ consent });
+    expect(isSignedConsentQR({ ...consent, d: -1 })).toBe(false);
+    expect(isSignedConsentQR({ ...consent, t: "" })).toBe(false);
+  });
+
+  it("treats the zero address as any whitelisted hospital", () => {
+    expect(isOpenConsent(consent)).toBe(false);
+    expect(isOpenConsent({ ...consent, h: ZERO_ADDRESS })).toBe(true);
+  });
+});
+
+describe("parsePatientQR", () => {
+  const signature = `0x${"ab".repeat(65)}`;
+
+  it("accepts a signed patient payload", () => {
+    const text = JSON.stringify({ ...payload, s: signature });
+    expect(parsePatientQR(text)).toEqual({ payload: { ...payload, s: signature } });
+  });
+
+  it("rejects unsigned patient codes and text that is not a MediChain QR", () => {
+    expect(parsePatientQR(JSON.stringify(payload)).error).toBe(
+      "This QR Code is outdated or unsigned. Ask the patient to open a fresh QR in their app."
+    );
+    expect(parsePatientQR(JSON.stringify({ ...payload, n: "-1", s: signature })).error).toBe(
+      "This QR Code is outdated or unsigned. Ask the patient to open a fresh QR in their app."
+    );
+    expect(parsePatientQR("MEDICHAIN:0x1111").error).toBe("Invalid QR Code. Make sure this is a MediChain QR Code.");
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Signed Patient QR Codes
+ * The patient QR carries only the wallet address, an expiry and a nonce, signed by the
+ * patient wallet over the same hash scheme as MedichainPatientIdentity.getAccessGrantMessageHash.
+ * Hospitals redeem codes through /api/qr/redeem, which checks the signature with
+ * verifyPatientSignature and burns single-use nonces.
+ *
+ * Consent QRs additionally carry a pre-signed access grant that the hospital redeems
+ * on-chain with redeemSignedGrant (one scan, one transaction).
+ */
+
+import { encodePacked, keccak256 } from "viem";
+import { type Account } from "thirdweb/wallets";
+import { CHAIN_CONFIG, CONTRACT_ADDRESSES } from "@/lib/contracts/config";
+
+export const PATIENT_QR_TYPE = "medichain_patient";
+export const PATIENT_QR_VERSION = 2;
+
+export const CONSENT_QR_TYPE = "medichain_consent";
+export const CONSENT_QR_VERSION = 1;
+
+// How long a hospital has to redeem a consent QR
+export const CONSENT_QR_TTL_SECONDS = 15 * 60;
+
+// "live" codes are shown on screen (short-lived, single use); "card" codes are printed
+export type PatientQRKind = "live" | "card";
+
+// Signed as the accessType so a card code cannot be passed off as a live one
+export const PATIENT_QR_ACCESS_TYPES: Record<PatientQRKind, string> = {
+  live: "QR_LIVE",
+  card: "QR_CARD",
+};
+
+export const PATIENT_QR_TTL_SECONDS: Record<PatientQRKind, number> = {
+  live: 10 * 60,
+  card: 90 * 24 * 60 * 60,
+};
+
+// Zero address = not bound to a specific hospital
+const ANY_ACCESSOR = "0x0000000000000000000000000000000000000000";
+
+/**
+ * Compact QR payload (short keys keep the code scannable at low resolution)
+ */
+export interface SignedPatientQR {
+  type: typeof PATIENT_QR_TYPE;
+  v: typeof PATIENT_QR_VERSION;
+  a: string;          // Patient wallet address
+  x: number;          // Expiry (unix seconds)
+  n: string;          // Nonce (decimal uint256)
+  k: PatientQRKind;
+  s: `0x${string}`;   // Patient signature over the message hash
+}
+
+/**
+ * Compact consent QR payload: a grant the patient signed for redeemSignedGrant
+ */
+export interface SignedConsentQR {
+  type: typeof CONSENT_QR_TYPE;
+  v: typeof CONSENT_QR_VERSION;
+  a: string;          // Patient wallet address
+  h: string;          // Hospital the grant is bound to (zero address = any whitelisted hospital)
+  t: string;          // Access type (e.g. "FULL", "READ_ONLY")
+  d: number;          // Access duration in seconds (0 = until revoked)
+  x: number;          // Redemption deadline (unix seconds)
+  n: string;          // Nonce (decimal uint256)
+  s: `0x${string}`;   // Patient signature over getSignedGrantMessageHash
+}
+
+/**
+ * Mirrors MedichainPatientIdentity.getAccessGrantMessageHash (abi.encodePacked + keccak256)
+ */
+export function getAccessGrantMessageHash(
+  patient: string,
+  accessor: string,
+  accessType: string,
+  expiresAt: bigint,
+  nonce: bigint
+): `0x${string}` {
+  return keccak256(
+    encodePacked(
+      ["address", "address", "string", "uint256", "uint256"],
+      [patient as `0x${string}`, accessor as `0x${string}`, accessType, expiresAt, nonce]
+    )
+  );
+}
+
+/**
+ * Mirrors MedichainPatientIdentity.getSignedGrantMessageHash (bound to chain and contract)
+ */
+export function getSignedGrantMessageHash(
+  patient: string,
+  accessor: string,
+  accessType: string,
+  accessDuration: bigint,
+  deadline: bigint,
+  nonce: bigint
+): `0x${string}` {
+  return keccak256(
+    encodePacked(
+      ["uint256", "address", "address", "address", "string", "uint256", "uint256", "uint256"],
+      [
+        BigInt(CHAIN_CONFIG.chainId),
+        CONTRACT_ADDRESSES.patientIdentity as `0x${string}`,
+        patient as `0x${string}`,
+        accessor as `0x${string}`,
+        accessType,
+        accessDuration,
+        deadline,
+        nonce,
+      ]
+    )
+  );
+}
+
+/**
+ * Message hash the patient signs for a QR payload
+ */
+export function getPatientQRMessageHash(payload: Omit<SignedPatientQR, "s">): `0x${string}` {
+  return getAccessGrantMessageHash(
+    payload.a,
+    ANY_ACCESSOR,
+    PATIENT_QR_ACCESS_TYPES[payload.k],
+    BigInt(payload.x),
+    BigInt(payload.n)
+  );
+}
+
+/**
+ * Type guard for a v2 signed patient QR payload
+ */
+export function isSignedPatientQR(value: unknown): value is SignedPatientQR {
+  if (!value || typeof value !== "object") return false;
+  const data = value as Record<string, unknown>;
+  return (
+    data.type === PATIENT_QR_TYPE &&
+    data.v === PATIENT_QR_VERSION &&
+    typeof data.a === "string" && /^0x[0-9a-fA-F]{40}$/.test(data.a) &&
+    typeof data.x === "number" && Number.isInteger(data.x) &&
+    typeof data.n === "string" && /^[0-9]{1,78}$/.test(data.n) &&
+    (data.k === "live" || data.k === "card") &&
+    typeof data.s === "string" && /^0x[0-9a-fA-F]+$/.test(data.s)
+  );
+}
+
+/**
+ * Type guard for a signed consent QR payload
+ */
+export function isSignedConsentQR(value: unknown): value is SignedConsentQR {
+  if (!value || typeof value !== "object") return false;
+  const data = value as Record<string, unknown>;
+  return (
+    data.type === CONSENT_QR_TYPE &&
+    data.v === CONSENT_QR_VERSION &&
+    typeof data.a === "string" && /^0x[0-9a-fA-F]{40}$/.test(data.a) &&
+    typeof data.h === "string" && /^0x[0-9a-fA-F]{40}$/.test(data.h) &&
+    typeof data.t === "string" && data.t.length > 0 &&
+    typeof data.d === "number" && Number.isInteger(data.d) && data.d >= 0 &&
+    typeof data.x === "number" && Number.isInteger(data.x) &&
+    typeof data.n === "string" && /^[0-9]{1,78}$/.test(data.n) &&
+    typeof data.s === "string" && /^0x[0-9a-fA-F]+$/.test(data.s)
+  );
+}
+
+/**
+ * Whether a consent grant can be redeemed by any whitelisted hospital
+ */
+export function isOpenConsent(consent: SignedConsentQR): boolean {
+  return consent.h === ANY_ACCESSOR;
+}
+
+function generateNonce(): bigint {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return BigInt(`0x${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}`);
+}
+
+/**
+ * Create a QR payload signed by the patient wallet
+ */
+export async function createSignedPatientQR(
+  account: Account,
+  kind: PatientQRKind = "live"
+): Promise<SignedPatientQR> {
+  const unsigned = {
+    type: PATIENT_QR_TYPE,
+    v: PATIENT_QR_VERSION,
+    a: account.address,
+    x: Math.floor(Date.now() / 1000) + PATIENT_QR_TTL_SECONDS[kind],
+    n: generateNonce().toString(),
+    k: kind,
+  } as const;
+
+  const signature = await account.signMessage({
+    message: { raw: getPatientQRMessageHash(unsigned) },
+  });
+
+  return { ...unsigned, s: signature };
+}
+
+/**
+ * Create a consent QR carrying an access grant signed by the patient wallet
+ * @param accessor Hospital address, or null for any whitelisted hospital
+ */
+export async function createSignedConsentQR(
+  account: Account,
+  options: { accessor: string | null; accessType: string; accessDuration: number }
+): Promise<SignedConsentQR> {
+  const unsigned = {
+    type: CONSENT_QR_TYPE,
+    v: CONSENT_QR_VERSION,
+    a: account.address,
+    h: options.accessor ?? ANY_ACCESSOR,
+    t: options.accessType,
+    d: options.accessDuration,
+    x: Math.floor(Date.now() / 1000) + CONSENT_QR_TTL_SECONDS,
+    n: generateNonce().toString(),
+  } as const;
+
+  const messageHash = getSignedGrantMessageHash(
+    unsigned.a,
+    unsigned.h,
+    unsigned.t,
+    BigInt(unsigned.d),
+    BigInt(unsigned.x),
+    BigInt(unsigned.n)
+  );
+
+  const signature = await account.signMessage({
+    message: { raw: messageHash },
+  });
+
+  return { ...unsigned, s: signature };
+}
+
+/**
+ * Parse scanned QR text into a patient or consent payload. Legacy plaintext codes are rejected.
+ */
+export function parsePatientQR(text: string): { payload?: SignedPatientQR; consent?: SignedConsentQR; error?: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { error: "Invalid QR Code. Make sure this is a MediChain QR Code." };
+  }
+
+  if (isSignedPatientQR(data)) {
+    return { payload: data };
+  }
+
+  if (isSignedConsentQR(data)) {
+    return { consent: data };
+  }
+
+  if ((data as { type?: unknown })?.type === PATIENT_QR_TYPE) {
+    return { error: "This QR Code is outdated or unsigned. Ask the patient to open a fresh QR in their app." };
+  }
+
+  return { error: "Invalid QR Code. Make sure this is a MediChain QR Code." };
+}
+
+/**
+ * Verify a scanned payload and burn its nonce (hospital side)
+ */
+export async function redeemPatientQR(
+  payload: SignedPatientQR
+): Promise<{ success: boolean; patient?: string; error?: string }> {
+  try {
+    const response = await fetch("/api/qr/redeem", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ payload }),
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.success) {
+      return { success: false, error: result.error || `QR verification failed: ${response.status}` };
+    }
+
+    return { success: true, patient: result.patient };
+  } catch (error) {
+    console.error("Error redeeming patient QR:", error);
+    return { success: false, error: "Failed to verify QR Code" };
+  }
+}
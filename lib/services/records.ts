@@ -0,0 +1,227 @@
+/**
+ * Medical Record Kinds
+ * Schemas for each record kind. DIAGNOSIS is the original discharge summary (MedicalRecordData);
+ * every other kind stores its own `fields` map in the encrypted payload, tagged with the kind's
+ * schema version, and the recordType written on-chain is the kind.
+ */
+
+import { validateIcd10Code } from "@/lib/services/icd10";
+
+// ============ TYPES ============
+
+export type RecordKind = "DIAGNOSIS" | "LAB_RESULT" | "PRESCRIPTION" | "IMAGING" | "VACCINATION" | "PROCEDURE";
+
+export type RecordFieldType = "text" | "textarea" | "date" | "select" | "icd";
+
+export interface RecordFieldSpec {
+  key: string;
+  label: string;
+  type: RecordFieldType;
+  required?: boolean;
+  placeholder?: string;
+  options?: string[];
+}
+
+export interface RecordKindSchema {
+  kind: RecordKind;
+  label: string;
+  description: string;
+  schemaVersion: number;
+  fields: RecordFieldSpec[]; // Empty for DIAGNOSIS, which uses the discharge summary form
+  // Fields that stand in for the discharge summary's title, date, physician and preview
+  titleField: string;
+  dateField: string;
+  clinicianField: string;
+  previewField: string;
+  icdField?: string;
+}
+
+export type TypedRecordFields = Record<string, string>;
+
+/**
+ * Common view of any record kind (what list cards and summaries show)
+ */
+export interface RecordFieldsSummary {
+  title: string;
+  date: string;
+  clinician: string;
+  preview: string;
+  icdCode: string;
+}
+
+// ============ SCHEMAS ============
+
+export const RECORD_KINDS: Record<RecordKind, RecordKindSchema> = {
+  DIAGNOSIS: {
+    kind: "DIAGNOSIS",
+    label: "Diagnosis",
+    description: "Visit or discharge summary",
+    schemaVersion: 1,
+    fields: [],
+    titleField: "diagnosisUtama",
+    dateField: "tanggalMasuk",
+    clinicianField: "dokterPenanggungJawab",
+    previewField: "keluhan",
+    icdField: "icdCode",
+  },
+  LAB_RESULT: {
+    kind: "LAB_RESULT",
+    label: "Lab Result",
+    description: "Laboratory test and its results",
+    schemaVersion: 1,
+    fields: [
+      { key: "testName", label: "Test / Panel", type: "text", required: true, placeholder: "Complete blood count" },
+      { key: "specimen", label: "Specimen", type: "text", placeholder: "Whole blood" },
+      { key: "collectedAt", label: "Collection Date", type: "date", required: true },
+      { key: "results", label: "Results", type: "textarea", required: true, placeholder: "Hemoglobin: 13.2 g/dL (13.0-17.0)\nLeukocytes: 11.5 x10^3/uL (4.0-10.0) H" },
+      { key: "interpretation", label: "Interpretation", type: "select", options: ["Normal", "Abnormal", "Critical"] },
+      { key: "icdCode", label: "Related ICD-10", type: "icd" },
+      { key: "notes", label: "Notes", type: "textarea" },
+      { key: "orderedBy", label: "Ordering Physician", type: "text", required: true, placeholder: "Dr. Full Name, Sp.X" },
+    ],
+    titleField: "testName",
+    dateField: "collectedAt",
+    clinicianField: "orderedBy",
+    previewField: "results",
+    icdField: "icdCode",
+  },
+  PRESCRIPTION: {
+    kind: "PRESCRIPTION",
+    label: "Prescription",
+    description: "Medication orders",
+    schemaVersion: 1,
+    fields: [
+      { key: "prescribedAt", label: "Prescription Date", type: "date", required: true },
+      { key: "indication", label: "Indication", type: "text", placeholder: "Acute pharyngitis" },
+      { key: "icdCode", label: "ICD-10", type: "icd" },
+      { key: "medications", label: "Medications", type: "textarea", required: true, placeholder: "Amoxicillin 500 mg, 3x1, 7 days\nParacetamol 500 mg, 3x1 as needed" },
+      { key: "instructions", label: "Instructions", type: "textarea", placeholder: "Take after meals" },
+      { key: "prescriber", label: "Prescriber", type: "text", required: true, placeholder: "Dr. Full Name" },
+    ],
+    titleField: "indication",
+    dateField: "prescribedAt",
+    clinicianField: "prescriber",
+    previewField: "medications",
+    icdField: "icdCode",
+  },
+  IMAGING: {
+    kind: "IMAGING",
+    label: "Imaging Report",
+    description: "Radiology or ultrasound report",
+    schemaVersion: 1,
+    fields: [
+      { key: "modality", label: "Modality", type: "select", required: true, options: ["X-ray", "CT", "MRI", "Ultrasound", "Mammography", "Other"] },
+      { key: "bodyPart", label: "Body Part", type: "text", required: true, placeholder: "Chest PA" },
+      { key: "performedAt", label: "Exam Date", type: "date", required: true },
+      { key: "findings", label: "Findings", type: "textarea", required: true },
+      { key: "impression", label: "Impression", type: "textarea", required: true },
+      { key: "icdCode", label: "ICD-10", type: "icd" },
+      { key: "radiologist", label: "Radiologist", type: "text", required: true, placeholder: "Dr. Full Name, Sp.Rad" },
+    ],
+    titleField: "bodyPart",
+    dateField: "performedAt",
+    clinicianField: "radiologist",
+    previewField: "impression",
+    icdField: "icdCode",
+  },
+  VACCINATION: {
+    kind: "VACCINATION",
+    label: "Vaccination",
+    description: "Immunization record",
+    schemaVersion: 1,
+    fields: [
+      { key: "vaccine", label: "Vaccine", type: "text", required: true, placeholder: "Hepatitis B" },
+      { key: "doseNumber", label: "Dose", type: "text", required: true, placeholder: "2 of 3" },
+      { key: "administeredAt", label: "Date Given", type: "date", required: true },
+      { key: "lotNumber", label: "Lot Number", type: "text" },
+      { key: "site", label: "Site", type: "select", options: ["Left deltoid", "Right deltoid", "Left thigh", "Right thigh", "Oral", "Other"] },
+      { key: "nextDoseDue", label: "Next Dose Due", type: "date" },
+      { key: "administeredBy", label: "Administered By", type: "text", required: true },
+    ],
+    titleField: "vaccine",
+    dateField: "administeredAt",
+    clinicianField: "administeredBy",
+    previewField: "doseNumber",
+  },
+  PROCEDURE: {
+    kind: "PROCEDURE",
+    label: "Procedure Note",
+    description: "Operative or bedside procedure",
+    schemaVersion: 1,
+    fields: [
+      { key: "procedureName", label: "Procedure", type: "text", required: true, placeholder: "Appendectomy" },
+      { key: "performedAt", label: "Procedure Date", type: "date", required: true },
+      { key: "indication", label: "Indication", type: "text", required: true },
+      { key: "icdCode", label: "ICD-10", type: "icd" },
+      { key: "anesthesia", label: "Anesthesia", type: "select", options: ["None", "Local", "Regional", "General", "Sedation"] },
+      { key: "description", label: "Description", type: "textarea", required: true },
+      { key: "complications", label: "Complications", type: "text", placeholder: "None" },
+      { key: "performedBy", label: "Performed By", type: "text", required: true, placeholder: "Dr. Full Name, Sp.B" },
+    ],
+    titleField: "procedureName",
+    dateField: "performedAt",
+    clinicianField: "performedBy",
+    previewField: "description",
+    icdField: "icdCode",
+  },
+};
+
+export const RECORD_KIND_ORDER: RecordKind[] = ["DIAGNOSIS", "LAB_RESULT", "PRESCRIPTION", "IMAGING", "VACCINATION", "PROCEDURE"];
+
+// ============ HELPERS ============
+
+/**
+ * Record kind from an on-chain recordType (older records used "Lab" or free text)
+ */
+export function normalizeRecordKind(recordType: string): RecordKind {
+  const normalized = recordType.trim().toUpperCase().replace(/[\s-]+/g, "_");
+  if (normalized in RECORD_KINDS) return normalized as RecordKind;
+  if (normalized === "LAB") return "LAB_RESULT";
+  return "DIAGNOSIS";
+}
+
+export function emptyRecordFields(kind: RecordKind): TypedRecordFields {
+  return Object.fromEntries(RECORD_KINDS[kind].fields.map((field) => [field.key, ""]));
+}
+
+/**
+ * Problems that block submitting a typed record (missing required fields, invalid ICD-10)
+ */
+export function validateRecordFields(kind: RecordKind, fields: TypedRecordFields): string[] {
+  const errors: string[] = [];
+  for (const field of RECORD_KINDS[kind].fields) {
+    const value = fields[field.key]?.trim() ?? "";
+    if (field.required && !value) {
+      errors.push(`${field.label} is required`);
+    }
+    if (field.type === "icd" && value) {
+      const icd = validateIcd10Code(value);
+      if (icd.status === "invalid") errors.push(icd.message ?? `${field.label} is invalid`);
+    }
+    if (field.type === "select" && value && !field.options?.includes(value)) {
+      errors.push(`${field.label} must be one of ${field.options?.join(", ")}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Title, date, clinician, preview and ICD-10 code of a typed record
+ */
+export function summarizeRecordFields(kind: RecordKind, fields: TypedRecordFields): RecordFieldsSummary {
+  const schema = RECORD_KINDS[kind];
+  const value = (key?: string) => (key ? fields[key]?.trim() ?? "" : "");
+  const icdCode = value(schema.icdField);
+
+  let title = value(schema.titleField);
+  if (kind === "IMAGING") title = [value("modality"), title].filter(Boolean).join(" ");
+  const preview = kind === "VACCINATION" && value("doseNumber") ? `Dose ${value("doseNumber")}` : value(schema.previewField);
+
+  return {
+    title: title || schema.label,
+    date: value(schema.dateField),
+    clinician: value(schema.clinicianField),
+    preview,
+    icdCode: icdCode ? validateIcd10Code(icdCode).code : "",
+  };
+}
@@ -0,0 +1,338 @@
+/**
+ * Hospital Registration Applications
+ * Hospitals apply with their facility details and license documents (signed by their wallet).
+ * An admin reviews each application against the facility-license dataset; only approved
+ * applications receive the AutomatedHospitalRegistry signature and the whitelist transaction.
+ */
+
+import { type Account } from "thirdweb/wallets";
+import { type HospitalData } from "@/lib/hospitalStorage";
+import { sniffMimeType } from "@/lib/services/attachments";
+
+// ============ LIMITS ============
+
+export const MAX_LICENSE_DOCUMENTS = 3;
+export const MAX_LICENSE_DOCUMENT_SIZE = 5 * 1024 * 1024;
+export const LICENSE_DOCUMENT_MIME_TYPES = ["application/pdf", "image/png", "image/jpeg"] as const;
+
+// ============ TYPES ============
+
+export type ApplicationStatus = "pending" | "approved" | "rejected";
+
+export type LicenseDocumentMimeType = (typeof LICENSE_DOCUMENT_MIME_TYPES)[number];
+
+/**
+ * Facility details a hospital applies with (the same fields its on-chain profile gets)
+ */
+export interface ApplicationDetails {
+  name: string;
+  hospitalType: HospitalData["type"];
+  licenseNumber: string;
+  physicalAddress: string;
+  city: string;
+  phone: string;
+  picName: string;
+  picPosition: string;
+  picPhone: string;
+  picEmail: string;
+}
+
+export interface ApplicationDocument {
+  id: string; // SHA-256 of the file (hex, no prefix)
+  name: string;
+  mimeType: LicenseDocumentMimeType;
+  size: number;
+}
+
+export interface HospitalApplication extends ApplicationDetails {
+  address: string;
+  documents: ApplicationDocument[];
+  status: ApplicationStatus;
+  submittedAt: number;
+  reviewedAt?: number;
+  reviewedBy?: string;
+  rejectionReason?: string;
+  signature?: string; // Registry signature, issued on approval
+  whitelistTxHash?: string;
+  whitelistError?: string;
+  approvingSince?: number; // Set while one admin's approval is signing and whitelisting
+}
+
+/**
+ * What anyone can read about an application (no contact details or documents)
+ */
+export type ApplicationStatusView = Pick<
+  HospitalApplication,
+  "address" | "name" | "licenseNumber" | "status" | "submittedAt" | "reviewedAt" | "rejectionReason" | "signature" | "whitelistTxHash"
+>;
+
+/**
+ * Entry of the facility-license dataset loaded on the server
+ */
+export interface LicenseRecord {
+  licenseNumber: string;
+  name: string;
+  city?: string;
+  hospitalType?: string;
+  status?: string;
+  expiresAt?: string;
+}
+
+export type LicenseCheckStatus = "match" | "partial" | "not_found" | "unavailable";
+
+export interface LicenseCheck {
+  status: LicenseCheckStatus;
+  record?: LicenseRecord;
+  issues: string[];
+}
+
+export interface ApplicationReview extends HospitalApplication {
+  licenseCheck: LicenseCheck;
+}
+
+export type ReviewDecision = "approve" | "reject";
+
+// ============ VALIDATION ============
+
+export function isLicenseDocumentMimeType(value: string | null): value is LicenseDocumentMimeType {
+  return !!value && (LICENSE_DOCUMENT_MIME_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Check a license document's size and type (by magic bytes)
+ */
+export async function validateLicenseDocument(file: File): Promise<string | null> {
+  if (file.size === 0) return `${file.name} is empty`;
+  if (file.size > MAX_LICENSE_DOCUMENT_SIZE) {
+    return `${file.name} is larger than ${MAX_LICENSE_DOCUMENT_SIZE / (1024 * 1024)} MB`;
+  }
+
+  const header = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+  if (!isLicenseDocumentMimeType(sniffMimeType(header))) {
+    return `${file.name} must be a PDF, PNG or JPEG`;
+  }
+  return null;
+}
+
+// ============ SIGNED MESSAGES ============
+
+/**
+ * SHA-256 of a file or of the canonical application details (hex, no prefix)
+ */
+export async function sha256Hex(data: ArrayBuffer | string): Promise<string> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function canonicalApplicationDetails(details: ApplicationDetails): string {
+  return JSON.stringify([
+    details.name,
+    details.hospitalType,
+    details.licenseNumber,
+    details.physicalAddress,
+    details.city,
+    details.phone,
+    details.picName,
+    details.picPosition,
+    details.picPhone,
+    details.picEmail,
+  ]);
+}
+
+/**
+ * One submission of an application: its details, documents and submission time.
+ * Any resubmission changes it.
+ */
+export function canonicalApplicationSubmission(
+  application: ApplicationDetails & Pick<HospitalApplication, "documents" | "submittedAt">
+): string {
+  return JSON.stringify([
+    canonicalApplicationDetails(application),
+    application.documents.map((doc) => doc.id),
+    application.submittedAt,
+  ]);
+}
+
+/**
+ * Message the hospital signs to submit (or resubmit) its application
+ */
+export function buildApplicationMessage(
+  address: string,
+  licenseNumber: string,
+  detailsDigest: string,
+  documentIds: string[],
+  issuedAt: number
+): string {
+  return `MediChain hospital application\n\nWallet: ${address.toLowerCase()}\nLicense: ${licenseNumber}\nDetails: ${detailsDigest}\nDocuments: ${documentIds.join(",")}\nIssued: ${issuedAt}`;
+}
+
+/**
+ * Message an admin signs to approve or reject one submission of an application.
+ * `submissionDigest` is the SHA-256 of canonicalApplicationSubmission, so the decision
+ * can't be applied to details the applicant resubmitted after the review.
+ */
+export function buildReviewDecisionMessage(
+  admin: string,
+  applicant: string,
+  decision: ReviewDecision,
+  reason: string,
+  submittedAt: number,
+  submissionDigest: string,
+  issuedAt: number
+): string {
+  return `MediChain application decision\n\nAdmin: ${admin.toLowerCase()}\nApplicant: ${applicant.toLowerCase()}\nSubmitted: ${submittedAt}\nSubmission: ${submissionDigest}\nDecision: ${decision}\nReason: ${reason}\nIssued: ${issuedAt}`;
+}
+
+// ============ APPLICANT ============
+
+/**
+ * Submit the hospital's application with its license documents
+ */
+export async function submitHospitalApplication(
+  account: Account,
+  details: ApplicationDetails,
+  documents: File[]
+): Promise<{ success: boolean; application?: ApplicationStatusView; error?: string }> {
+  try {
+    const documentIds = await Promise.all(documents.map(async (file) => sha256Hex(await file.arrayBuffer())));
+    const detailsDigest = await sha256Hex(canonicalApplicationDetails(details));
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const signature = await account.signMessage({
+      message: buildApplicationMessage(account.address, details.licenseNumber, detailsDigest, documentIds, issuedAt),
+    });
+
+    const form = new FormData();
+    form.append("address", account.address);
+    form.append("details", JSON.stringify(details));
+    form.append("issuedAt", String(issuedAt));
+    form.append("signature", signature);
+    documents.forEach((file) => form.append("documents", file, file.name));
+
+    const response = await fetch("/api/hospital/register", {
+      method: "POST",
+      body: form,
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Application failed: ${response.status}`);
+    }
+
+    return { success: true, application: result.application };
+  } catch (error) {
+    console.error("Error submitting hospital application:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to submit application",
+    };
+  }
+}
+
+/**
+ * Current application status for a wallet (null when it never applied)
+ */
+export async function getApplicationStatus(address: string): Promise<ApplicationStatusView | null> {
+  try {
+    const response = await fetch(`/api/hospital/register?address=${address.toLowerCase()}`);
+    if (!response.ok) return null;
+
+    const result = await response.json();
+    return result.application ?? null;
+  } catch (error) {
+    console.error("Error getting application status:", error);
+    return null;
+  }
+}
+
+// ============ REVIEWER ============
+// Reads are authorized by the admin's sign-in session
+
+/**
+ * All applications with their license check, pending first
+ */
+export async function listHospitalApplications(): Promise<{
+  success: boolean;
+  applications?: ApplicationReview[];
+  datasetSize?: number;
+  error?: string;
+}> {
+  try {
+    const response = await fetch("/api/hospital/applications");
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Failed to load applications: ${response.status}`);
+    }
+
+    return { success: true, applications: result.applications, datasetSize: result.datasetSize };
+  } catch (error) {
+    console.error("Error listing hospital applications:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to load applications",
+    };
+  }
+}
+
+/**
+ * URL of an uploaded license document; opens inline for a signed-in admin
+ */
+export function getApplicationDocumentUrl(applicant: string, documentId: string): string {
+  return `/api/hospital/applications/${applicant.toLowerCase()}/documents/${documentId}`;
+}
+
+/**
+ * Approve (registry signature + whitelist) or reject the submission the admin reviewed
+ */
+export async function reviewHospitalApplication(
+  account: Account,
+  application: HospitalApplication,
+  decision: ReviewDecision,
+  reason = ""
+): Promise<{ success: boolean; application?: HospitalApplication; error?: string }> {
+  try {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const submission = await sha256Hex(canonicalApplicationSubmission(application));
+    const signature = await account.signMessage({
+      message: buildReviewDecisionMessage(
+        account.address,
+        application.address,
+        decision,
+        reason,
+        application.submittedAt,
+        submission,
+        issuedAt
+      ),
+    });
+
+    const response = await fetch(`/api/hospital/applications/${application.address.toLowerCase()}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        admin: account.address,
+        decision,
+        reason,
+        submittedAt: application.submittedAt,
+        submission,
+        issuedAt,
+        signature,
+      }),
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Review failed: ${response.status}`);
+    }
+
+    return { success: true, application: result.application };
+  } catch (error) {
+    console.error("Error reviewing hospital application:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to review application",
+    };
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * IPFS Retrieval
+ * Reads pinned content from the configured gateways. Requests are staggered across gateways
+ * (the next one starts when the previous is slow or fails), every response is checked against
+ * the CID before it is used, and verified ciphertext is cached in IndexedDB so history views
+ * don't download the same records again.
+ */
+
+import { contentMatchesCid } from "@/lib/services/cid";
+import { getCachedContent, saveCachedContent } from "@/lib/contentCache";
+
+// ============ CONFIGURATION ============
+
+// Comma-separated, tried in order; Kubo and local storage deployments use /api/ipfs/
+const DEFAULT_GATEWAY = "https://gateway.pinata.cloud/ipfs/";
+
+export const IPFS_GATEWAYS: string[] = (
+  process.env.NEXT_PUBLIC_IPFS_GATEWAYS ||
+  process.env.NEXT_PUBLIC_IPFS_GATEWAY ||
+  process.env.NEXT_PUBLIC_PINATA_GATEWAY ||
+  DEFAULT_GATEWAY
+)
+  .split(",")
+  .map((gateway) => gateway.trim())
+  .filter(Boolean)
+  .map((gateway) => (gateway.endsWith("/") ? gateway : `${gateway}/`));
+
+const GATEWAY_TIMEOUT_MS = 20000; // Per gateway, including the body
+const GATEWAY_STAGGER_MS = 2000; // Head start each gateway gets before the next one is tried
+
+// Concurrent reads of one CID (a record and its attachments) share a download
+const inFlight = new Map<string, Promise<ArrayBuffer>>();
+
+// ============ FETCHING ============
+
+async function fetchFromGateway(gateway: string, cid: string, signal: AbortSignal): Promise<ArrayBuffer> {
+  const timeout = AbortSignal.timeout(GATEWAY_TIMEOUT_MS);
+  const response = await fetch(`${gateway}${cid}`, { signal: AbortSignal.any([signal, timeout]) });
+  if (!response.ok) {
+    throw new Error(`${gateway} returned ${response.status}`);
+  }
+
+  const bytes = await response.arrayBuffer();
+  if (!(await contentMatchesCid(cid, new Uint8Array(bytes)))) {
+    throw new Error(`${gateway} returned content that does not match ${cid}`);
+  }
+  return bytes;
+}
+
+// First verified response wins; the remaining requests are cancelled
+function raceGateways(cid: string): Promise<ArrayBuffer> {
+  const controller = new AbortController();
+  const errors: string[] = [];
+
+  return new Promise<ArrayBuffer>((resolve, reject) => {
+    let started = 0;
+    let settled = 0;
+    let done = false;
+    let staggerTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const startNext = () => {
+      clearTimeout(staggerTimer);
+      if (done || started >= IPFS_GATEWAYS.length) return;
+
+      const gateway = IPFS_GATEWAYS[started++];
+      staggerTimer = setTimeout(startNext, GATEWAY_STAGGER_MS);
+
+      fetchFromGateway(gateway, cid, controller.signal).then(
+        (bytes) => {
+          if (done) return;
+          done = true;
+          clearTimeout(staggerTimer);
+          controller.abort();
+          resolve(bytes);
+        },
+        (error) => {
+          settled++;
+          if (done) return;
+          errors.push(error instanceof Error ? error.message : String(error));
+          if (settled === IPFS_GATEWAYS.length) {
+            done = true;
+            reject(new Error(`Failed to fetch ${cid} from IPFS: ${errors.join("; ")}`));
+          } else {
+            startNext();
+          }
+        }
+      );
+    };
+
+    startNext();
+  });
+}
+
+/**
+ * Content of a CID, from the local cache or the first gateway that serves matching bytes
+ */
+export function fetchIpfsContent(cid: string): Promise<ArrayBuffer> {
+  let pending = inFlight.get(cid);
+  if (!pending) {
+    pending = (async () => {
+      const cached = await getCachedContent(cid);
+      if (cached) return cached;
+
+      const bytes = await raceGateways(cid);
+      await saveCachedContent(cid, bytes);
+      return bytes;
+    })().finally(() => inFlight.delete(cid));
+    inFlight.set(cid, pending);
+  }
+  return pending;
+}
+
+/**
+ * Start downloading several CIDs at once so later sequential reads hit the cache or an in-flight request
+ */
+export function prefetchIpfsContent(cids: string[]): void {
+  for (const cid of new Set(cids)) {
+    fetchIpfsContent(cid).catch(() => {
+      // Reported when the record itself is read
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { getRecordSetDigest } from "@/lib/services/summary";
+
+const PATIENT = "0x1111111111111111111111111111111111111111";
+const ISSUED_AT = 1760000000;
+
+const RECORDS = [
+  { ipfsCid: "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku", dataHash: `0x${"11".repeat(32)}` },
+  { ipfsCid: "bafybeicp64het67shnhxiyl3sg5mylxqop6pnqsqpfecb6pmni2ghoxzom", dataHash: `0x${"22".repeat(32)}` },
+];
+
+describe("getRecordSetDigest", () => {
+  // Printed summaries carry this digest, so the encoding must not change
+  it("matches the digest of summaries already issued", () => {
+    expect(getRecordSetDigest(PATIENT, ISSUED_AT, RECORDS)).toBe(
+      "0xd54fd2c3d5a42972ef00e7da60bf036f76bca128ce249207a1b0fa9d5396437e"
+    );
+  });
+
+  it("binds the patient, the issue time and the order of the records", () => {
+    const digest = getRecordSetDigest(PATIENT, ISSUED_AT, RECORDS);
+
+    expect(getRecordSetDigest("0x2222222222222222222222222222222222222222", ISSUED_AT, RECORDS)).not.toBe(digest);
+    expect(getRecordSetDigest(PATIENT, ISSUED_AT + 1, RECORDS)).not.toBe(digest);
+    expect(getRecordSetDigest(PATIENT, ISSUED_AT, [...RECORDS].reverse())).not.toBe(digest);
+    expect(getRecordSetDigest(PATIENT, ISSUED_AT, RECORDS.slice(0, 1))).not.toBe(digest);
+  });
+
+  it("changes when a record's data hash changes", () => {
+    const tampered = [RECORDS[0], { ...RECORDS[1], dataHash: `0x${"33".repeat(32)}` }];
+    expect(getRecordSetDigest(PATIENT, ISSUED_AT, tampered)).not.toBe(getRecordSetDigest(PATIENT, ISSUED_AT, RECORDS));
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Medical Summary Verification
+ * A printed summary lists the patient's first N on-chain record references (CID + dataHash).
+ * Its QR points to /verify with the patient, N, the issue time and a digest over the patient,
+ * the issue time and those references, so anyone can recompute the digest from the chain
+ * without decrypting anything. Only the references are checked: the clinical text printed
+ * next to them comes from the decrypted records and can't be confirmed by a verifier
+ * without access, which both the printout and /verify say.
+ */
+
+import { encodeAbiParameters, keccak256 } from "viem";
+import { getPatientRecords, type MedicalRecordRef } from "@/lib/services/blockchain";
+
+export const SUMMARY_VERIFY_PATH = "/verify";
+
+/**
+ * Parameters carried in the summary QR
+ */
+export interface SummaryVerificationParams {
+  patient: string;
+  count: number;
+  issuedAt: number;
+  digest: `0x${string}`;
+}
+
+export interface SummaryVerificationResult {
+  valid: boolean;
+  records: MedicalRecordRef[]; // The first `count` on-chain references
+  onChainCount: number;
+  error?: string;
+}
+
+/**
+ * Digest binding a patient and the summary's issue time to an ordered set of record references
+ */
+export function getRecordSetDigest(
+  patient: string,
+  issuedAt: number,
+  records: Pick<MedicalRecordRef, "ipfsCid" | "dataHash">[]
+): `0x${string}` {
+  return keccak256(
+    encodeAbiParameters(
+      [
+        { type: "address" },
+        { type: "uint64" },
+        { type: "tuple[]", components: [{ type: "string" }, { type: "bytes32" }] },
+      ],
+      [
+        patient as `0x${string}`,
+        BigInt(issuedAt),
+        records.map((record) => [record.ipfsCid, record.dataHash as `0x${string}`] as const),
+      ]
+    )
+  );
+}
+
+/**
+ * URL encoded into the summary QR
+ */
+export function buildSummaryVerificationUrl(origin: string, params: SummaryVerificationParams): string {
+  const query = new URLSearchParams({
+    p: params.patient,
+    n: params.count.toString(),
+    t: params.issuedAt.toString(),
+    d: params.digest,
+  });
+  return `${origin}${SUMMARY_VERIFY_PATH}?${query.toString()}`;
+}
+
+/**
+ * Parse /verify query parameters
+ */
+export function parseSummaryVerificationParams(
+  search: { get: (key: string) => string | null }
+): SummaryVerificationParams | null {
+  const patient = search.get("p");
+  const count = Number(search.get("n"));
+  const issuedAt = Number(search.get("t"));
+  const digest = search.get("d");
+
+  if (
+    !patient || !/^0x[0-9a-fA-F]{40}$/.test(patient) ||
+    !Number.isInteger(count) || count < 0 ||
+    !Number.isInteger(issuedAt) || issuedAt <= 0 ||
+    !digest || !/^0x[0-9a-fA-F]{64}$/.test(digest)
+  ) {
+    return null;
+  }
+
+  return { patient, count, issuedAt, digest: digest as `0x${string}` };
+}
+
+/**
+ * Recompute the digest from the chain (records are append-only, so the first N never change)
+ */
+export async function verifyMedicalSummary(params: SummaryVerificationParams): Promise<SummaryVerificationResult> {
+  const onChain = await getPatientRecords(params.patient);
+
+  if (onChain.length < params.count) {
+    return {
+      valid: false,
+      records: onChain,
+      onChainCount: onChain.length,
+      error: `The summary lists ${params.count} records but only ${onChain.length} exist on-chain`,
+    };
+  }
+
+  const records = onChain.slice(0, params.count);
+  const valid = getRecordSetDigest(params.patient, params.issuedAt, records) === params.digest.toLowerCase();
+
+  return {
+    valid,
+    records,
+    onChainCount: onChain.length,
+    error: valid ? undefined : "The records or issue time in this summary do not match the on-chain references",
+  };
+}
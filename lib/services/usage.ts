@@ -0,0 +1,70 @@
+/**
+ * API Usage Service
+ * Types for the per-wallet and per-IP rate limits on paid API routes (Gemini OCR,
+ * storage pinning, relayer gas), and the admin view of today's usage counters.
+ */
+
+/**
+ * Routes with rate limits and quotas
+ */
+export type LimitedRoute = "ocr" | "ipfs-upload" | "ipfs-attachments" | "relay" | "auth-login" | "hospital-register";
+
+export type UsageRole = "patient" | "hospital" | "admin";
+
+/**
+ * Limits for one route. Windows slide: a request counts against the limit
+ * for exactly windowSeconds after it was accepted.
+ */
+export interface RouteLimit {
+  label: string;
+  windowSeconds: number;
+  perWallet: number;
+  perIp: number;
+  maxBodyBytes: number;
+  // Requests per UTC day; roles without an entry can't call the route
+  dailyQuota: Partial<Record<UsageRole, number>>;
+}
+
+/**
+ * Counters for one wallet or IP on one route
+ */
+export interface UsageEntry {
+  route: LimitedRoute;
+  subject: string;
+  kind: "wallet" | "ip";
+  role?: UsageRole;
+  // Acceptance times (ms) still inside the sliding window
+  hits: number[];
+  day: string;
+  dayCount: number;
+  rejectedToday: number;
+  lastSeen: number;
+}
+
+export interface UsageReport {
+  limits: Record<LimitedRoute, RouteLimit>;
+  entries: UsageEntry[];
+  day: string;
+}
+
+/**
+ * Today's usage counters and the configured limits (admins only)
+ */
+export async function getApiUsage(): Promise<{ success: boolean; report?: UsageReport; error?: string }> {
+  try {
+    const response = await fetch("/api/usage");
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Failed to load usage: ${response.status}`);
+    }
+
+    return { success: true, report: result.report };
+  } catch (error) {
+    console.error("Error loading API usage:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to load usage",
+    };
+  }
+}
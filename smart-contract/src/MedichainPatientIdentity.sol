@@ -6,6 +6,7 @@ import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
 import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
 
 /**
@@ -42,6 +43,7 @@ interface IHospitalRegistry {
  * - Patient-controlled access permissions with temporal expiry
  * - Medical record reference registry (IPFS CID tracking)
  * - Event-driven architecture for frontend notifications
+ * - One-scan consent via patient-signed access grants
  * - ERC-2771 Meta-Transaction Support (Gasless Transactions)
  */
 contract MedichainPatientIdentity is ERC721, AccessControl, ReentrancyGuard, ERC2771Context {
@@ -168,6 +170,9 @@ contract MedichainPatientIdentity is ERC721, AccessControl, ReentrancyGuard, ERC
     /// @notice Reference to the external Hospital Registry contract
     IHospitalRegistry public hospitalRegistry;
 
+    /// @notice Used or cancelled signed-grant nonces: patient => nonce => used
+    mapping(address => mapping(uint256 => bool)) public usedGrantNonces;
+
     // ═══════════════════════════════════════════════════════════════════════════
     // EVENTS
     // ═══════════════════════════════════════════════════════════════════════════
@@ -300,6 +305,28 @@ contract MedichainPatientIdentity is ERC721, AccessControl, ReentrancyGuard, ERC
         uint256 requestIndex
     );
 
+    /**
+     * @notice Emitted when a hospital redeems a patient-signed access grant
+     * @param patient The patient who signed the grant
+     * @param hospital The hospital that redeemed it
+     * @param nonce The grant nonce (now consumed)
+     */
+    event SignedGrantRedeemed(
+        address indexed patient,
+        address indexed hospital,
+        uint256 nonce
+    );
+
+    /**
+     * @notice Emitted when a patient cancels an unredeemed signed grant
+     * @param patient The patient cancelling the grant
+     * @param nonce The cancelled nonce
+     */
+    event SignedGrantCancelled(
+        address indexed patient,
+        uint256 nonce
+    );
+
     // ═══════════════════════════════════════════════════════════════════════════
     // ERRORS
     // ═══════════════════════════════════════════════════════════════════════════
@@ -346,6 +373,18 @@ contract MedichainPatientIdentity is ERC721, AccessControl, ReentrancyGuard, ERC
     /// @dev Error when hospital already has a pending request
     error AccessRequestAlreadyPending();
 
+    /// @dev Error when a signed grant is past its redemption deadline
+    error SignedGrantExpired();
+
+    /// @dev Error when a signed grant nonce was already redeemed or cancelled
+    error SignedGrantNonceUsed();
+
+    /// @dev Error when a signed grant is bound to a different hospital
+    error SignedGrantWrongAccessor();
+
+    /// @dev Error when a signed grant was not signed by the patient
+    error InvalidPatientSignature();
+
     // ═══════════════════════════════════════════════════════════════════════════
     // MODIFIERS
     // ═══════════════════════════════════════════════════════════════════════════
@@ -1016,6 +1055,163 @@ contract MedichainPatientIdentity is ERC721, AccessControl, ReentrancyGuard, ERC
         return count;
     }
 
+    // ═══════════════════════════════════════════════════════════════════════════
+    // SIGNED CONSENT (One-Scan QR Flow)
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    /**
+     * @notice Hospital redeems an access grant the patient signed off-chain (e.g. shown as a QR)
+     * @dev Replaces the request/approve round trip with a single hospital transaction.
+     *      Supports EOA and ERC-1271 (smart account) patient signatures.
+     * @param _patient The patient who signed the grant
+     * @param _accessor The hospital the grant is bound to (address(0) = any whitelisted hospital)
+     * @param _accessType The type of access granted (e.g., "FULL", "READ_ONLY")
+     * @param _accessDuration Access duration in seconds from redemption (0 = until revoked)
+     * @param _deadline Unix timestamp after which the signed grant can no longer be redeemed
+     * @param _nonce A unique nonce chosen by the patient (single use)
+     * @param _signature Patient signature over getSignedGrantMessageHash (EIP-191)
+     * 
+     * Requirements:
+     * - Caller must be a whitelisted hospital (and the bound accessor, if set)
+     * - Patient must be registered
+     * - Deadline must not have passed and the nonce must be unused
+     * 
+     * Emits:
+     * - {SignedGrantRedeemed} event
+     * - {AccessGranted} event
+     */
+    function redeemSignedGrant(
+        address _patient,
+        address _accessor,
+        string calldata _accessType,
+        uint256 _accessDuration,
+        uint256 _deadline,
+        uint256 _nonce,
+        bytes calldata _signature
+    ) 
+        external 
+        nonReentrant
+        notZeroAddress(_patient)
+        onlyWhitelistedHospital(_msgSender())
+    {
+        address hospital = _msgSender();
+
+        if (!patientProfiles[_patient].isRegistered) {
+            revert PatientNotRegistered();
+        }
+
+        if (_deadline <= block.timestamp) {
+            revert SignedGrantExpired();
+        }
+
+        if (_accessor != address(0) && _accessor != hospital) {
+            revert SignedGrantWrongAccessor();
+        }
+
+        if (usedGrantNonces[_patient][_nonce]) {
+            revert SignedGrantNonceUsed();
+        }
+
+        bytes32 messageHash = getSignedGrantMessageHash(
+            _patient,
+            _accessor,
+            _accessType,
+            _accessDuration,
+            _deadline,
+            _nonce
+        );
+
+        if (!SignatureChecker.isValidSignatureNow(_patient, messageHash.toEthSignedMessageHash(), _signature)) {
+            revert InvalidPatientSignature();
+        }
+
+        usedGrantNonces[_patient][_nonce] = true;
+
+        // Calculate expiry
+        uint256 expiresAt = _accessDuration == 0 
+            ? 0 
+            : block.timestamp + _accessDuration;
+
+        // Grant access
+        if (!accessPermissions[_patient][hospital].isGranted) {
+            _grantedAccessList[_patient].push(hospital);
+        }
+
+        accessPermissions[_patient][hospital] = AccessPermission({
+            isGranted: true,
+            expiresAt: expiresAt,
+            grantedAt: block.timestamp,
+            accessType: _accessType
+        });
+
+        // Update last activity
+        patientProfiles[_patient].lastActivityTimestamp = block.timestamp;
+
+        emit SignedGrantRedeemed(_patient, hospital, _nonce);
+        emit AccessGranted(_patient, hospital, _accessType, expiresAt);
+    }
+
+    /**
+     * @notice Patient cancels a signed grant before it is redeemed
+     * @param _nonce The nonce of the grant to cancel
+     * 
+     * Requirements:
+     * - Caller must be a registered patient
+     * - Nonce must be unused
+     * 
+     * Emits:
+     * - {SignedGrantCancelled} event
+     */
+    function cancelSignedGrant(uint256 _nonce) 
+        external 
+        onlyRegisteredPatient
+    {
+        address patient = _msgSender();
+
+        if (usedGrantNonces[patient][_nonce]) {
+            revert SignedGrantNonceUsed();
+        }
+
+        usedGrantNonces[patient][_nonce] = true;
+
+        emit SignedGrantCancelled(patient, _nonce);
+    }
+
+    /**
+     * @notice Generates the message hash a patient signs for a one-scan access grant
+     * @dev Bound to this contract and chain so a grant cannot be replayed elsewhere
+     * @param _patient The patient's address
+     * @param _accessor The hospital address (address(0) = any whitelisted hospital)
+     * @param _accessType The type of access
+     * @param _accessDuration Access duration in seconds (0 = until revoked)
+     * @param _deadline Redemption deadline timestamp
+     * @param _nonce A unique nonce to prevent replay attacks
+     * @return The message hash to be signed
+     */
+    function getSignedGrantMessageHash(
+        address _patient,
+        address _accessor,
+        string calldata _accessType,
+        uint256 _accessDuration,
+        uint256 _deadline,
+        uint256 _nonce
+    ) 
+        public 
+        view 
+        returns (bytes32) 
+    {
+        return keccak256(abi.encodePacked(
+            block.chainid,
+            address(this),
+            _patient,
+            _accessor,
+            _accessType,
+            _accessDuration,
+            _deadline,
+            _nonce
+        ));
+    }
+
     // ═══════════════════════════════════════════════════════════════════════════
     // MEDICAL RECORD REGISTRY (Patient View)
     // ═══════════════════════════════════════════════════════════════════════════
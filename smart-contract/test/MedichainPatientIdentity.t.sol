@@ -603,6 +603,152 @@ contract MedichainPatientIdentityTest is Test {
         assertTrue(hash1 != hash2);
     }
 
+    // ═══════════════════════════════════════════════════════════════════════════
+    // SIGNED CONSENT TESTS
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    function _signGrant(
+        uint256 signerKey,
+        address patient,
+        address accessor,
+        string memory accessType,
+        uint256 accessDuration,
+        uint256 deadline,
+        uint256 nonce
+    ) internal view returns (bytes memory) {
+        bytes32 messageHash = patientIdentity.getSignedGrantMessageHash(
+            patient,
+            accessor,
+            accessType,
+            accessDuration,
+            deadline,
+            nonce
+        );
+        bytes32 ethSignedMessageHash = keccak256(
+            abi.encodePacked("\x19Ethereum Signed Message:\n32", messageHash)
+        );
+
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(signerKey, ethSignedMessageHash);
+        return abi.encodePacked(r, s, v);
+    }
+
+    function test_RedeemSignedGrant_AnyHospital_Success() public {
+        patientIdentity.mintIdentity(patient1);
+        uint256 deadline = block.timestamp + 15 minutes;
+        bytes memory signature = _signGrant(patient1PrivateKey, patient1, address(0), ACCESS_TYPE_READ, 7 days, deadline, 1);
+
+        vm.expectEmit(true, true, false, true);
+        emit AccessGranted(patient1, hospital2, ACCESS_TYPE_READ, block.timestamp + 7 days);
+
+        vm.prank(hospital2);
+        patientIdentity.redeemSignedGrant(patient1, address(0), ACCESS_TYPE_READ, 7 days, deadline, 1, signature);
+
+        (bool hasAccess, MedichainPatientIdentity.AccessPermission memory perm) = patientIdentity.checkAccess(patient1, hospital2);
+        assertTrue(hasAccess);
+        assertEq(perm.accessType, ACCESS_TYPE_READ);
+        assertEq(perm.expiresAt, block.timestamp + 7 days);
+        assertTrue(patientIdentity.usedGrantNonces(patient1, 1));
+    }
+
+    function test_RedeemSignedGrant_ZeroDuration_IsPermanent() public {
+        patientIdentity.mintIdentity(patient1);
+        uint256 deadline = block.timestamp + 15 minutes;
+        bytes memory signature = _signGrant(patient1PrivateKey, patient1, hospital1, ACCESS_TYPE_FULL, 0, deadline, 1);
+
+        vm.prank(hospital1);
+        patientIdentity.redeemSignedGrant(patient1, hospital1, ACCESS_TYPE_FULL, 0, deadline, 1, signature);
+
+        (, MedichainPatientIdentity.AccessPermission memory perm) = patientIdentity.checkAccess(patient1, hospital1);
+        assertEq(perm.expiresAt, 0);
+    }
+
+    function test_RedeemSignedGrant_WrongAccessor_Reverts() public {
+        patientIdentity.mintIdentity(patient1);
+        uint256 deadline = block.timestamp + 15 minutes;
+        bytes memory signature = _signGrant(patient1PrivateKey, patient1, hospital1, ACCESS_TYPE_FULL, 1 days, deadline, 1);
+
+        vm.prank(hospital2);
+        vm.expectRevert(MedichainPatientIdentity.SignedGrantWrongAccessor.selector);
+        patientIdentity.redeemSignedGrant(patient1, hospital1, ACCESS_TYPE_FULL, 1 days, deadline, 1, signature);
+    }
+
+    function test_RedeemSignedGrant_Expired_Reverts() public {
+        patientIdentity.mintIdentity(patient1);
+        uint256 deadline = block.timestamp + 15 minutes;
+        bytes memory signature = _signGrant(patient1PrivateKey, patient1, address(0), ACCESS_TYPE_FULL, 1 days, deadline, 1);
+
+        vm.warp(deadline + 1);
+        vm.prank(hospital1);
+        vm.expectRevert(MedichainPatientIdentity.SignedGrantExpired.selector);
+        patientIdentity.redeemSignedGrant(patient1, address(0), ACCESS_TYPE_FULL, 1 days, deadline, 1, signature);
+    }
+
+    function test_RedeemSignedGrant_Replay_Reverts() public {
+        patientIdentity.mintIdentity(patient1);
+        uint256 deadline = block.timestamp + 15 minutes;
+        bytes memory signature = _signGrant(patient1PrivateKey, patient1, address(0), ACCESS_TYPE_FULL, 1 days, deadline, 1);
+
+        vm.prank(hospital1);
+        patientIdentity.redeemSignedGrant(patient1, address(0), ACCESS_TYPE_FULL, 1 days, deadline, 1, signature);
+
+        vm.prank(hospital2);
+        vm.expectRevert(MedichainPatientIdentity.SignedGrantNonceUsed.selector);
+        patientIdentity.redeemSignedGrant(patient1, address(0), ACCESS_TYPE_FULL, 1 days, deadline, 1, signature);
+    }
+
+    function test_RedeemSignedGrant_ForgedSignature_Reverts() public {
+        patientIdentity.mintIdentity(patient1);
+        uint256 deadline = block.timestamp + 15 minutes;
+        // Signed by patient2's key on behalf of patient1
+        bytes memory signature = _signGrant(patient2PrivateKey, patient1, address(0), ACCESS_TYPE_FULL, 1 days, deadline, 1);
+
+        vm.prank(hospital1);
+        vm.expectRevert(MedichainPatientIdentity.InvalidPatientSignature.selector);
+        patientIdentity.redeemSignedGrant(patient1, address(0), ACCESS_TYPE_FULL, 1 days, deadline, 1, signature);
+    }
+
+    function test_RedeemSignedGrant_TamperedDuration_Reverts() public {
+        patientIdentity.mintIdentity(patient1);
+        uint256 deadline = block.timestamp + 15 minutes;
+        bytes memory signature = _signGrant(patient1PrivateKey, patient1, address(0), ACCESS_TYPE_FULL, 1 days, deadline, 1);
+
+        vm.prank(hospital1);
+        vm.expectRevert(MedichainPatientIdentity.InvalidPatientSignature.selector);
+        patientIdentity.redeemSignedGrant(patient1, address(0), ACCESS_TYPE_FULL, 0, deadline, 1, signature);
+    }
+
+    function test_RedeemSignedGrant_NotWhitelistedHospital_Reverts() public {
+        patientIdentity.mintIdentity(patient1);
+        uint256 deadline = block.timestamp + 15 minutes;
+        bytes memory signature = _signGrant(patient1PrivateKey, patient1, address(0), ACCESS_TYPE_FULL, 1 days, deadline, 1);
+
+        vm.prank(unauthorizedUser);
+        vm.expectRevert(MedichainPatientIdentity.HospitalNotWhitelisted.selector);
+        patientIdentity.redeemSignedGrant(patient1, address(0), ACCESS_TYPE_FULL, 1 days, deadline, 1, signature);
+    }
+
+    function test_CancelSignedGrant_PreventsRedemption() public {
+        patientIdentity.mintIdentity(patient1);
+        uint256 deadline = block.timestamp + 15 minutes;
+        bytes memory signature = _signGrant(patient1PrivateKey, patient1, address(0), ACCESS_TYPE_FULL, 1 days, deadline, 1);
+
+        vm.prank(patient1);
+        patientIdentity.cancelSignedGrant(1);
+
+        vm.prank(hospital1);
+        vm.expectRevert(MedichainPatientIdentity.SignedGrantNonceUsed.selector);
+        patientIdentity.redeemSignedGrant(patient1, address(0), ACCESS_TYPE_FULL, 1 days, deadline, 1, signature);
+    }
+
+    function test_GetSignedGrantMessageHash_BoundToContract() public {
+        MedichainPatientIdentity otherIdentity = new MedichainPatientIdentity(address(0), address(forwarder));
+
+        bytes32 hash1 = patientIdentity.getSignedGrantMessageHash(patient1, address(0), ACCESS_TYPE_FULL, 1 days, block.timestamp + 1 hours, 1);
+        bytes32 hash2 = otherIdentity.getSignedGrantMessageHash(patient1, address(0), ACCESS_TYPE_FULL, 1 days, block.timestamp + 1 hours, 1);
+
+        assertTrue(hash1 != hash2);
+    }
+
     // ═══════════════════════════════════════════════════════════════════════════
     // VIEW FUNCTION TESTS
     // ═══════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,18 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["lib/**/*.test.ts"],
+    env: {
+      // lib/thirdWeb.ts creates its client at import time
+      NEXT_PUBLIC_THIRDWEB_CLIENT_ID: "test",
+    },
+  },
+});